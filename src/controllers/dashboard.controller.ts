@@ -7,6 +7,11 @@
 import { Request, Response } from "express";
 import { dashboardService } from "../lib/dashboard/dashboard.service";
 import { systemLogger } from "../lib/observability/logger";
+import { LanguageMapper } from "../lib/sentiment/mappers";
+import { getOrchestrator } from "../lib/sentiment/orchestrator-provider";
+import { MongoTweetRepository } from "../repositories/mongo-tweet.repository";
+
+const tweetRepository = new MongoTweetRepository();
 
 export class DashboardController {
   /**
@@ -323,4 +328,66 @@ eventSource.onmessage = function(event) {
       });
     }
   }
+
+  /**
+   * Get tweet detail with the token-level sentiment explanation
+   * GET /api/v1/dashboard/tweets/:tweetId
+   */
+  async getTweetDetail(req: Request, res: Response): Promise<void> {
+    try {
+      const startTime = performance.now();
+      const { tweetId } = req.params;
+      const tweet = await tweetRepository.findByTweetId(tweetId);
+
+      if (!tweet) {
+        res.status(404).json({
+          success: false,
+          error: "Tweet not found",
+          message: `No tweet with id ${tweetId}`,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // La explicación no se persiste: se recalcula con el modelo actual
+      const analysis = await getOrchestrator().analyzeText({
+        text: tweet.content,
+        language: LanguageMapper.normalizeLanguageCode(tweet.language),
+        explain: true,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          tweet: {
+            tweetId: tweet.tweetId,
+            content: tweet.content,
+            author: tweet.author,
+            metrics: tweet.metrics,
+            hashtags: tweet.hashtags,
+            language: tweet.language,
+            campaignId: tweet.campaignId,
+            tweetCreatedAt: tweet.tweetCreatedAt,
+          },
+          storedSentiment: tweet.sentiment ?? null,
+          sentiment: analysis.sentiment,
+          explanation: analysis.explanation,
+        },
+        responseTime: Math.round(performance.now() - startTime),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      systemLogger.error(
+        "Error getting dashboard tweet detail",
+        error instanceof Error ? error : new Error(String(error)),
+      );
+
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "Failed to get tweet detail",
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
 }
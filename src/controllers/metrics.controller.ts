@@ -7,6 +7,7 @@
 import { Request, Response } from "express";
 import { systemLogger } from "../lib/observability/logger";
 import { metricsRegistry } from "../lib/observability/metrics";
+import { getSharedResultCache } from "../lib/sentiment/result-cache";
 import {
   cacheMetrics,
   sentimentMetrics,
@@ -147,18 +148,21 @@ export class MetricsController {
 
   /**
    * Get cache metrics summary
-   * GET /metrics/cache
+   * GET /metrics/cache (also /api/v1/metrics/cache)
+   * Includes the sentiment result cache (backend, entries, hit rate)
    */
   async getCacheMetrics(req: Request, res: Response): Promise<void> {
     try {
       const startTime = performance.now();
       const cacheType = (req.query.type as string) || "default";
       const summary = cacheMetrics.getSummary(cacheType);
+      const sentimentResults = await getSharedResultCache().getStats();
 
       const response = {
         timestamp: new Date().toISOString(),
         cacheType,
         metrics: summary,
+        sentimentResults,
         responseTime: performance.now() - startTime,
       };
 
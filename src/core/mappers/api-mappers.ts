@@ -63,6 +63,8 @@ export interface TweetAnalysisAPIResponse {
       fear: number;
       surprise: number;
       disgust: number;
+      trust: number;
+      anticipation: number;
     };
   };
   insights: {
@@ -212,6 +214,13 @@ export class TweetAnalysisAPIMapper extends BaseAPIMapper {
                 Math.round(
                   analysis.analysis.sentiment.emotions.disgust * 1000,
                 ) / 1000,
+              trust:
+                Math.round(analysis.analysis.sentiment.emotions.trust * 1000) /
+                1000,
+              anticipation:
+                Math.round(
+                  analysis.analysis.sentiment.emotions.anticipation * 1000,
+                ) / 1000,
             }
           : undefined,
       },
@@ -106,6 +106,8 @@ export class AnalysisToSentimentResultMapper extends BaseSentimentMapper {
             fear: analysis.sentiment.emotions.fear || 0,
             surprise: analysis.sentiment.emotions.surprise || 0,
             disgust: analysis.sentiment.emotions.disgust || 0,
+            trust: analysis.sentiment.emotions.trust || 0,
+            anticipation: analysis.sentiment.emotions.anticipation || 0,
           }
         : undefined,
     };
@@ -201,6 +203,30 @@ export class TweetSentimentAnalysisMapper extends BaseSentimentMapper {
     analysis: AnalysisResult,
     brandKeywords: string[],
   ) {
+    // Con entidades de campaña cada mención lleva el sentimiento de su cláusula
+    if (analysis.entities) {
+      return analysis.entities
+        .filter(
+          (mention) => mention.type === "brand" || mention.type === "product",
+        )
+        .map((mention, _, brands) => ({
+          brand: mention.entity,
+          context: mention.span.text,
+          sentiment: {
+            score: mention.score,
+            magnitude: Math.abs(mention.score),
+            confidence: mention.confidence,
+            label: this.normalizeSentimentLabel(mention.label),
+          },
+          relevanceScore: 1 / brands.length,
+          associatedHashtags: this.extractRelatedHashtags(
+            tweet,
+            mention.entity.toLowerCase(),
+          ),
+          isCompetitor: mention.competitor,
+        }));
+    }
+
     const text = (tweet.content || tweet.text || "").toLowerCase();
     const mentions = [];
 
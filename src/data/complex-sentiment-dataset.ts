@@ -4,6 +4,8 @@
  * expresiones culturales y casos ambiguos
  */
 
+import type { SarcasmTrainingExample } from '../lib/sentiment/sarcasm-detector';
+
 export interface ComplexCaseExample {
   text: string;
   label: 'positive' | 'negative' | 'neutral';
@@ -322,6 +324,18 @@ export function getComplexCasesByCategory(category: ComplexCaseExample['category
   return ComplexSentimentDataset.filter(example => example.category === category);
 }
 
+/**
+ * Ejemplos para entrenar la etapa de sarcasmo: sarcásticos los de la categoría
+ * 'sarcasm' y los que lo mencionan en su razonamiento (p. ej. casos 'mixed')
+ */
+export function getSarcasmTrainingExamples(): SarcasmTrainingExample[] {
+  return ComplexSentimentDataset.map(example => ({
+    text: example.text,
+    sarcastic: example.category === 'sarcasm' || /sarcas/i.test(example.reasoning),
+    language: 'en',
+  }));
+}
+
 /**
  * Dataset de casos complejos filtrado por dificultad
  */
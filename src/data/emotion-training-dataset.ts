@@ -0,0 +1,75 @@
+/**
+ * Emotion Training Dataset
+ * Multi-label seed examples for the emotion classifier (Plutchik's eight emotions).
+ * A text may carry several emotions, or none; polarity is not part of the label.
+ */
+
+import type { EmotionTrainingExample } from '../lib/sentiment/emotion-classifier';
+
+export const emotionTrainingDataset: EmotionTrainingExample[] = [
+  // === JOY ===
+  { text: "So happy with my new phone, it made my day", emotions: ["joy"] },
+  { text: "We won the match, what a celebration!", emotions: ["joy", "surprise"] },
+  { text: "Loving every minute of this concert", emotions: ["joy"] },
+  { text: "Thank you all for the birthday wishes", emotions: ["joy", "trust"] },
+  { text: "Qué alegría ver a toda la familia junta", emotions: ["joy"] },
+  { text: "Me encanta el nuevo diseño de la app", emotions: ["joy"] },
+
+  // === SADNESS ===
+  { text: "I miss my old team so much", emotions: ["sadness"] },
+  { text: "Heartbroken that the show got cancelled", emotions: ["sadness", "surprise"] },
+  { text: "Feeling lonely tonight", emotions: ["sadness"] },
+  { text: "Such a disappointing ending to the season", emotions: ["sadness"] },
+  { text: "Qué pena que cierren la tienda del barrio", emotions: ["sadness"] },
+  { text: "Estoy triste, hoy se fue mi perro", emotions: ["sadness"] },
+
+  // === ANGER ===
+  { text: "Furious that they charged me twice", emotions: ["anger"] },
+  { text: "This scam of a company stole my money", emotions: ["anger", "disgust"] },
+  { text: "Stop ignoring my tickets, I'm fed up", emotions: ["anger"] },
+  { text: "They cancelled my order without asking, unacceptable", emotions: ["anger", "surprise"] },
+  { text: "Estoy harto de esperar al soporte técnico", emotions: ["anger"] },
+  { text: "Es indignante cómo tratan a los clientes", emotions: ["anger", "disgust"] },
+
+  // === FEAR ===
+  { text: "Worried my data was leaked in the breach", emotions: ["fear"] },
+  { text: "Scared to update, last time it bricked my laptop", emotions: ["fear"] },
+  { text: "Nervous about the interview tomorrow", emotions: ["fear", "anticipation"] },
+  { text: "The brakes failed on the highway, terrifying", emotions: ["fear", "surprise"] },
+  { text: "Me da miedo dejar la tarjeta guardada en la web", emotions: ["fear"] },
+  { text: "Preocupado por los cortes de luz de esta semana", emotions: ["fear"] },
+
+  // === SURPRISE ===
+  { text: "Wow, did not see that plot twist coming", emotions: ["surprise"] },
+  { text: "Out of nowhere they dropped a new album", emotions: ["surprise", "joy"] },
+  { text: "Unexpected package at the door this morning", emotions: ["surprise"] },
+  { text: "No me lo esperaba, qué sorpresa", emotions: ["surprise"] },
+
+  // === DISGUST ===
+  { text: "Found a hair in my burger, gross", emotions: ["disgust"] },
+  { text: "The bathroom in that hotel was filthy", emotions: ["disgust"] },
+  { text: "Their racist ad is vile", emotions: ["disgust", "anger"] },
+  { text: "Qué asco de comida, estaba podrida", emotions: ["disgust"] },
+
+  // === TRUST ===
+  { text: "Been using this bank for ten years, always reliable", emotions: ["trust"] },
+  { text: "I recommend their support team, honest and helpful", emotions: ["trust", "joy"] },
+  { text: "My doctor explained everything, I feel safe", emotions: ["trust"] },
+  { text: "Confío en esta marca, nunca me ha fallado", emotions: ["trust"] },
+
+  // === ANTICIPATION ===
+  { text: "Counting the days until the launch", emotions: ["anticipation"] },
+  { text: "Preorder placed, hoping it ships next week", emotions: ["anticipation"] },
+  { text: "Can't wait for the summer holidays", emotions: ["anticipation", "joy"] },
+  { text: "Waiting for the results of the vote", emotions: ["anticipation", "fear"] },
+  { text: "Deseando que llegue el viernes", emotions: ["anticipation"] },
+  { text: "Mañana sale la nueva temporada, ojalá sea buena", emotions: ["anticipation"] },
+
+  // === NO EMOTION ===
+  { text: "The meeting is at 3pm in room B", emotions: [] },
+  { text: "Version 2.4 changes the default port", emotions: [] },
+  { text: "The store opens at nine on weekdays", emotions: [] },
+  { text: "La reunión es el martes a las diez", emotions: [] },
+  { text: "El paquete pesa dos kilos", emotions: [] },
+  { text: "Read the documentation for the API limits", emotions: [] },
+];
@@ -0,0 +1,6 @@
+export enum ReviewStatus {
+  PENDING = "pending", // Waiting for a reviewer
+  CLAIMED = "claimed", // Locked by a reviewer
+  LABELED = "labeled", // Human label submitted (fed back to auto-learning)
+  SKIPPED = "skipped", // Discarded by a reviewer (spam, ambiguous, off-topic)
+}
@@ -117,6 +117,65 @@ export const appConfig = {
     rateLimitDelay: getEnvNumber("TWITTER_RATE_LIMIT_DELAY", 1000),
   },
 
+  // Near-duplicate clustering of scraped tweets (MinHash LSH) at ingest time
+  nearDuplicates: {
+    enabled: getEnvBoolean("NEAR_DUPLICATE_DETECTION", true),
+    threshold: parseFloat(getEnvVar("NEAR_DUPLICATE_THRESHOLD", "0.8")),
+    lookbackHours: getEnvNumber("NEAR_DUPLICATE_LOOKBACK_HOURS", 72),
+    // Flag clusters posted by this many distinct accounts within the window
+    coordinatedAccounts: getEnvNumber("NEAR_DUPLICATE_COORDINATED_ACCOUNTS", 5),
+    coordinatedWindowMinutes: getEnvNumber(
+      "NEAR_DUPLICATE_COORDINATED_WINDOW_MINUTES",
+      60,
+    ),
+  },
+
+  // Durable scraping queue (Mongo), shared by every API process
+  scrapingQueue: {
+    concurrency: getEnvNumber("SCRAPING_QUEUE_CONCURRENCY", 3), // jobs per process
+    pollIntervalMs: getEnvNumber("SCRAPING_QUEUE_POLL_INTERVAL_MS", 1000),
+    // A job whose worker stops renewing its lease returns to the queue
+    leaseMs: getEnvNumber("SCRAPING_QUEUE_LEASE_MS", 60000),
+    maxAttempts: getEnvNumber("SCRAPING_QUEUE_MAX_ATTEMPTS", 3),
+    retryDelayMs: getEnvNumber("SCRAPING_QUEUE_RETRY_DELAY_MS", 5000),
+  },
+
+  // Scheduled collection of active campaigns (needs ENABLE_SCRAPING)
+  campaignCollection: {
+    enabled: getEnvBoolean("CAMPAIGN_COLLECTION_SCHEDULER", true),
+    // Cron expression of campaigns without their own collectionSchedule
+    defaultSchedule: getEnvVar("CAMPAIGN_COLLECTION_SCHEDULE", "0 * * * *"),
+    maxTweetsPerRun: getEnvNumber("CAMPAIGN_COLLECTION_MAX_TWEETS_PER_RUN", 500),
+  },
+
+  // Scraping quotas per organization (policies in quota_policies)
+  scrapingQuotas: {
+    enabled: getEnvBoolean("SCRAPING_QUOTAS_ENABLED", true),
+    defaultPlan: getEnvVar("SCRAPING_QUOTA_DEFAULT_PLAN", "free"),
+    // Limits of whatever a plan or organization policy leaves unset
+    defaults: {
+      dailyTweets: getEnvNumber("SCRAPING_QUOTA_DAILY_TWEETS", 5000),
+      monthlyTweets: getEnvNumber("SCRAPING_QUOTA_MONTHLY_TWEETS", 100000),
+      maxConcurrentJobs: getEnvNumber("SCRAPING_QUOTA_MAX_CONCURRENT_JOBS", 2),
+      maxActiveCampaigns: getEnvNumber("SCRAPING_QUOTA_MAX_ACTIVE_CAMPAIGNS", 5),
+    },
+    warningPercent: getEnvNumber("SCRAPING_QUOTA_WARNING_PERCENT", 80),
+    policyCacheMs: getEnvNumber("SCRAPING_QUOTA_POLICY_CACHE_MS", 60000),
+  },
+
+  // Pool of Twitter sessions used in turn by the scrapers (twitter_sessions)
+  twitterSessionPool: {
+    // Local request budget of each session per window
+    windowMs: getEnvNumber("TWITTER_SESSION_WINDOW_MS", 3600000),
+    maxRequestsPerWindow: getEnvNumber("TWITTER_SESSION_MAX_REQUESTS", 300),
+    rateLimitCooldownMs: getEnvNumber("TWITTER_SESSION_RATE_LIMIT_COOLDOWN_MS", 900000),
+    authCooldownMs: getEnvNumber("TWITTER_SESSION_AUTH_COOLDOWN_MS", 3600000),
+    // Consecutive authentication failures before a session is blocked
+    maxAuthFailures: getEnvNumber("TWITTER_SESSION_MAX_AUTH_FAILURES", 3),
+    // Other sessions tried by one scrape after a rate-limit or auth error
+    maxRotations: getEnvNumber("TWITTER_SESSION_MAX_ROTATIONS", 3),
+  },
+
   email: {
     smtp: {
       host: getEnvVar("SMTP_HOST", ""),
@@ -130,6 +189,57 @@ export const appConfig = {
     from: getEnvVar("EMAIL_FROM", "noreply@sentimentalsocial.com"),
   },
 
+  sentiment: {
+    // Below this (calibrated) confidence results are queued for human review
+    abstainThreshold: parseFloat(getEnvVar("SENTIMENT_ABSTAIN_THRESHOLD", "0.5")),
+    // Orchestrator result cache: memory | file | mongo
+    cache: {
+      backend: getEnvVar("SENTIMENT_CACHE_BACKEND", "memory") as
+        | "memory"
+        | "file"
+        | "mongo",
+      ttlSeconds: getEnvNumber("SENTIMENT_CACHE_TTL", 3600),
+      maxEntries: getEnvNumber("SENTIMENT_CACHE_MAX_ENTRIES", 10000),
+      directory: getEnvVar("SENTIMENT_CACHE_DIR", ".cache/sentiment-results"),
+    },
+    // Batch pipeline: chunks of `chunkSize` texts, at most `concurrency` in flight
+    batch: {
+      concurrency: getEnvNumber("SENTIMENT_BATCH_CONCURRENCY", 4),
+      chunkSize: getEnvNumber("SENTIMENT_BATCH_CHUNK_SIZE", 50),
+    },
+    // Analyzer pipeline definitions; SENTIMENT_PIPELINE picks one other than the file's default
+    pipeline: {
+      configPath: getEnvVar("SENTIMENT_PIPELINE_CONFIG", "config/sentiment-pipeline.json"),
+      name: getEnvVar("SENTIMENT_PIPELINE", ""),
+    },
+    // Drift monitoring of scraped tweets per campaign against the training baseline
+    drift: {
+      windowSize: getEnvNumber("SENTIMENT_DRIFT_WINDOW", 500),
+      minSamples: getEnvNumber("SENTIMENT_DRIFT_MIN_SAMPLES", 100),
+      oovRate: parseFloat(getEnvVar("SENTIMENT_DRIFT_OOV_RATE", "0.4")),
+      labelPsi: parseFloat(getEnvVar("SENTIMENT_DRIFT_LABEL_PSI", "0.25")),
+      confidencePsi: parseFloat(getEnvVar("SENTIMENT_DRIFT_CONFIDENCE_PSI", "0.25")),
+    },
+    // Per-organization lexicon overrides; edits on other replicas are picked up after refreshSeconds
+    lexicons: {
+      refreshSeconds: getEnvNumber("SENTIMENT_LEXICON_REFRESH_SECONDS", 300),
+    },
+    // Topic modelling of campaign tweets (NMF over TF-IDF, in process)
+    topics: {
+      maxTweets: getEnvNumber("TOPIC_MODEL_MAX_TWEETS", 5000),
+      count: getEnvNumber("TOPIC_MODEL_TOPICS", 0), // 0: chosen from the number of tweets
+    },
+    // BERT stage: local ONNX model (air-gapped) instead of the Hugging Face inference API
+    bert: {
+      local: getEnvVar("USE_LOCAL_BERT_MODEL", "false") === "true",
+      modelPath: getEnvVar("BERT_MODEL_PATH", "./models/bert"),
+      batchSize: getEnvNumber("BERT_BATCH_SIZE", 16),
+      maxSequenceLength: getEnvNumber("BERT_MAX_SEQUENCE_LENGTH", 128),
+      threads: getEnvNumber("BERT_THREADS", 0),
+      warmUpOnStart: getEnvVar("BERT_WARMUP_ON_START", "true") === "true",
+    },
+  },
+
   performance: {
     compressionLevel: getEnvNumber("COMPRESSION_LEVEL", 6),
     cacheTtl: getEnvNumber("CACHE_TTL", 3600), // 1 hour
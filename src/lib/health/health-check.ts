@@ -8,6 +8,7 @@ import { systemLogger } from "../observability/logger";
 import { container, TOKENS } from "../dependency-injection/container";
 import { AdvancedCacheSystem } from "../cache/advanced-cache";
 import { SentimentAnalysisEngine } from "../sentiment/engine";
+import { getSharedDriftMonitor } from "../sentiment/drift-monitor";
 import DatabaseConnection from "../database/connection";
 
 export enum HealthStatus {
@@ -393,6 +394,52 @@ export class HealthChecks {
     };
   }
 
+  /**
+   * Check sentiment drift of the monitored campaigns against the training baseline
+   */
+  static sentimentDrift(): HealthCheck {
+    return {
+      name: "sentiment-drift",
+      critical: false,
+      timeout: 1000,
+      async check(): Promise<HealthCheckResult> {
+        const startTime = performance.now();
+        const monitor = getSharedDriftMonitor();
+        const reports = monitor.getReports();
+        const drifting = reports.filter((report) => report.drifting);
+        const duration = performance.now() - startTime;
+
+        return {
+          name: "sentiment-drift",
+          status:
+            drifting.length > 0 ? HealthStatus.DEGRADED : HealthStatus.HEALTHY,
+          message:
+            drifting.length > 0
+              ? `Drift detected in ${drifting.length} campaign(s): ${drifting
+                  .map((report) => report.campaignId)
+                  .join(", ")}`
+              : `No drift in ${reports.length} monitored campaign(s)`,
+          duration,
+          timestamp: new Date(),
+          details: {
+            thresholds: monitor.getThresholds(),
+            campaigns: reports.map((report) => ({
+              campaignId: report.campaignId,
+              drifting: report.drifting,
+              signals: report.signals,
+              samples: report.samples,
+              oovRate: report.oovRate,
+              labelPsi: report.labelPsi,
+              labelKl: report.labelKl,
+              confidencePsi: report.confidencePsi,
+              updatedAt: report.updatedAt,
+            })),
+          },
+        };
+      },
+    };
+  }
+
   /**
    * Check MongoDB connection health
    */
@@ -464,6 +511,7 @@ export class HealthCheckManager {
       HealthChecks.sentimentEngine(),
       HealthChecks.memoryUsage(),
       HealthChecks.diskSpace(),
+      HealthChecks.sentimentDrift(),
     ];
   }
 
@@ -22,6 +22,10 @@ export const compressionMiddleware = compression({
     if (req.headers["x-no-compression"]) {
       return false;
     }
+    // Streaming NDJSON responses must reach the client line by line
+    if (String(res.getHeader("Content-Type") || "").includes("application/x-ndjson")) {
+      return false;
+    }
     // Use compression for all compressible responses
     return compression.filter(req, res);
   },
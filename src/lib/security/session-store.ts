@@ -8,6 +8,12 @@ import fs from "fs";
 import path from "path";
 import { SessionData, TwitterCookie } from "../../types/twitter";
 
+export interface EncryptedPayload {
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
 /**
  * Secure session store for Twitter cookies (AES-256-GCM at rest)
  */
@@ -62,23 +68,10 @@ export class SecureSessionStore {
         return { session: null, rotate: false };
       }
 
-      const payload = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as {
-        iv: string;
-        tag: string;
-        ciphertext: string;
-        createdAt: number;
-      };
-
-      const iv = Buffer.from(payload.iv, "hex");
-      const tag = Buffer.from(payload.tag, "hex");
-      const decipher = createDecipheriv(this.algo, key, iv);
-      decipher.setAuthTag(tag);
-      const decrypted = Buffer.concat([
-        decipher.update(Buffer.from(payload.ciphertext, "hex")),
-        decipher.final(),
-      ]).toString("utf8");
-
-      const session: SessionData = JSON.parse(decrypted);
+      const payload = JSON.parse(
+        fs.readFileSync(this.filePath, "utf8"),
+      ) as EncryptedPayload & { createdAt: number };
+      const session = this.decryptWithKey<SessionData>(payload, key);
 
       if (this.isExpired(session)) {
         this.clear();
@@ -101,19 +94,8 @@ export class SecureSessionStore {
         return;
       }
 
-      const iv = randomBytes(12);
-      const cipher = createCipheriv(this.algo, key, iv);
-      const plaintext = Buffer.from(JSON.stringify(session), "utf8");
-      const ciphertext = Buffer.concat([
-        cipher.update(plaintext),
-        cipher.final(),
-      ]);
-      const tag = cipher.getAuthTag();
-
       const payload = {
-        iv: iv.toString("hex"),
-        tag: tag.toString("hex"),
-        ciphertext: ciphertext.toString("hex"),
+        ...this.encryptWithKey(session, key),
         createdAt: Date.now(),
       };
 
@@ -127,6 +109,57 @@ export class SecureSessionStore {
     }
   }
 
+  /**
+   * Encrypt any JSON value with the master password (session pool secrets)
+   * @throws Error if TWITTER_MASTER_PASSWORD is missing or too short
+   */
+  encrypt(value: unknown): EncryptedPayload {
+    const key = this.getKey();
+    if (!key) throw new Error("TWITTER_MASTER_PASSWORD_REQUIRED");
+    return this.encryptWithKey(value, key);
+  }
+
+  /**
+   * Decrypt a value encrypted with `encrypt`
+   * @throws Error without the master password or if the payload was tampered with
+   */
+  decrypt<T>(payload: EncryptedPayload): T {
+    const key = this.getKey();
+    if (!key) throw new Error("TWITTER_MASTER_PASSWORD_REQUIRED");
+    return this.decryptWithKey<T>(payload, key);
+  }
+
+  private encryptWithKey(value: unknown, key: Buffer): EncryptedPayload {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(this.algo, key, iv);
+    const plaintext = Buffer.from(JSON.stringify(value), "utf8");
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext),
+      cipher.final(),
+    ]);
+
+    return {
+      iv: iv.toString("hex"),
+      tag: cipher.getAuthTag().toString("hex"),
+      ciphertext: ciphertext.toString("hex"),
+    };
+  }
+
+  private decryptWithKey<T>(payload: EncryptedPayload, key: Buffer): T {
+    const decipher = createDecipheriv(
+      this.algo,
+      key,
+      Buffer.from(payload.iv, "hex"),
+    );
+    decipher.setAuthTag(Buffer.from(payload.tag, "hex"));
+    const decrypted = Buffer.concat([
+      decipher.update(Buffer.from(payload.ciphertext, "hex")),
+      decipher.final(),
+    ]).toString("utf8");
+
+    return JSON.parse(decrypted) as T;
+  }
+
   clear(): void {
     try {
       if (fs.existsSync(this.filePath)) fs.unlinkSync(this.filePath);
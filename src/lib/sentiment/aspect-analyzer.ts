@@ -0,0 +1,208 @@
+/**
+ * Aspect-Based Sentiment Analyzer
+ * Detecta aspectos (precio, soporte, entrega...) en el texto y puntúa la
+ * cláusula que los rodea, de modo que "camera is amazing but battery is trash"
+ * devuelve un aspecto positivo y otro negativo en lugar de un neutro global.
+ */
+import { AspectDictionary, AspectSentiment, SentimentLabel, TextSpan } from './types';
+
+/**
+ * Puntúa un fragmento de texto. El motor inyecta su analizador de reglas.
+ */
+export type ClauseScorer = (
+  text: string
+) => Promise<{ label: SentimentLabel; score: number; confidence: number }>;
+
+export const DEFAULT_ASPECT_DICTIONARY: AspectDictionary = {
+  price: ['price', 'cost', 'expensive', 'cheap', 'pricing', 'precio', 'caro', 'barato', 'prix', 'preis'],
+  support: [
+    'support',
+    'customer service',
+    'help desk',
+    'staff',
+    'soporte',
+    'atencion al cliente',
+    'service client',
+    'kundenservice',
+  ],
+  delivery: ['delivery', 'shipping', 'package', 'courier', 'envio', 'entrega', 'livraison', 'lieferung'],
+  quality: ['quality', 'build', 'material', 'calidad', 'qualite', 'qualitat'],
+  battery: ['battery', 'charge', 'charging', 'bateria', 'batterie', 'akku'],
+  camera: ['camera', 'photo', 'photos', 'lens', 'camara', 'kamera'],
+  app: ['app', 'application', 'update', 'interface', 'ui', 'aplicacion'],
+};
+
+// Límites fuertes de oración y conjunciones adversativas (EN/ES/FR/DE)
+const SENTENCE_BOUNDARY = /[.!?;\n]+/gu;
+const CLAUSE_BOUNDARY =
+  /,|\b(?:but|however|although|though|whereas|while|yet|pero|aunque|sino|mais|cependant|pourtant|aber|jedoch|sondern)\b/giu;
+
+export function normalize(text: string): string {
+  // Se normaliza carácter a carácter y solo si la longitud no cambia, para que
+  // los offsets sobre el texto normalizado sigan valiendo en el original.
+  return Array.from(text, (ch) => {
+    const folded = ch.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase();
+    return folded.length === ch.length ? folded : ch;
+  }).join('');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Apariciones de un término en un texto ya normalizado, respetando límites de
+ * palabra y aceptando plurales simples.
+ */
+export function findTerm(haystack: string, term: string): Array<{ index: number; end: number }> {
+  const needle = normalize(term.trim());
+  if (!needle) return [];
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(needle)}(?:e?s)?(?![\\p{L}\\p{N}])`,
+    'gu'
+  );
+  return Array.from(haystack.matchAll(pattern), (match) => ({
+    index: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+function splitSpans(text: string, offset: number, boundary: RegExp): TextSpan[] {
+  const spans: TextSpan[] = [];
+  let cursor = 0;
+  boundary.lastIndex = 0;
+  for (const match of text.matchAll(boundary)) {
+    const index = match.index ?? 0;
+    pushTrimmed(spans, text, cursor, index, offset);
+    cursor = index + match[0].length;
+  }
+  pushTrimmed(spans, text, cursor, text.length, offset);
+  return spans;
+}
+
+function pushTrimmed(
+  spans: TextSpan[],
+  text: string,
+  start: number,
+  end: number,
+  offset: number
+): void {
+  const raw = text.slice(start, end);
+  const leading = raw.length - raw.trimStart().length;
+  const trimmed = raw.trim();
+  if (!trimmed) return;
+  const spanStart = offset + start + leading;
+  spans.push({ start: spanStart, end: spanStart + trimmed.length, text: trimmed });
+}
+
+export function splitSentences(text: string): TextSpan[] {
+  return splitSpans(text, 0, SENTENCE_BOUNDARY);
+}
+
+/**
+ * Oración y cláusula que contienen la posición `index` del texto.
+ */
+export function clauseAt(
+  sentences: readonly TextSpan[],
+  index: number
+): { sentence: TextSpan; clause: TextSpan } | null {
+  const sentence = sentences.find((s) => index >= s.start && index < s.end);
+  if (!sentence) return null;
+
+  const clauses = splitSpans(sentence.text, sentence.start, CLAUSE_BOUNDARY);
+  const clause = clauses.find((c) => index >= c.start && index < c.end) ?? sentence;
+  return { sentence, clause };
+}
+
+/**
+ * Puntúa la cláusula. Si no lleva carga afectiva ("the price, delivery and
+ * support were bad") se usa la oración completa.
+ */
+export async function scoreClause(
+  scorer: ClauseScorer,
+  { sentence, clause }: { sentence: TextSpan; clause: TextSpan }
+): Promise<{ span: TextSpan; label: SentimentLabel; score: number; confidence: number }> {
+  const scored = await scorer(clause.text);
+  if (scored.score === 0 && clause !== sentence) {
+    return { span: sentence, ...(await scorer(sentence.text)) };
+  }
+  return { span: clause, ...scored };
+}
+
+interface AspectMention {
+  aspect: string;
+  term: string;
+  index: number;
+}
+
+export class AspectSentimentAnalyzer {
+  constructor(private readonly scorer: ClauseScorer) {}
+
+  /**
+   * Analiza los aspectos presentes en el texto.
+   * @param text - Texto original (los spans devueltos se refieren a él)
+   * @param dictionary - Diccionario de aspectos; por defecto DEFAULT_ASPECT_DICTIONARY
+   */
+  async analyze(
+    text: string,
+    dictionary: AspectDictionary = DEFAULT_ASPECT_DICTIONARY
+  ): Promise<AspectSentiment[]> {
+    const mentions = AspectSentimentAnalyzer.findMentions(text, dictionary);
+    if (mentions.length === 0) return [];
+
+    const sentences = splitSentences(text);
+    const results: AspectSentiment[] = [];
+    const seen = new Set<string>();
+
+    for (const mention of mentions) {
+      const scope = clauseAt(sentences, mention.index);
+      if (!scope) continue;
+
+      const key = `${mention.aspect}:${scope.clause.start}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      results.push({
+        aspect: mention.aspect,
+        term: mention.term,
+        ...(await scoreClause(this.scorer, scope)),
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Localiza los términos del diccionario respetando límites de palabra,
+   * sin distinguir mayúsculas ni acentos y aceptando plurales simples.
+   */
+  static findMentions(text: string, dictionary: AspectDictionary): AspectMention[] {
+    const haystack = normalize(text);
+    const mentions: AspectMention[] = [];
+
+    for (const [aspect, terms] of Object.entries(dictionary)) {
+      for (const term of terms) {
+        for (const { index } of findTerm(haystack, term)) {
+          mentions.push({ aspect, term, index });
+        }
+      }
+    }
+
+    return mentions.sort((a, b) => a.index - b.index);
+  }
+}
+
+/**
+ * Convierte los aspectos configurados en una campaña al formato del motor.
+ * Un aspecto sin términos usa su propio nombre como término.
+ */
+export function campaignAspectsToDictionary(
+  aspects: ReadonlyArray<{ name: string; terms: string[] }> | undefined
+): AspectDictionary | undefined {
+  if (!aspects || aspects.length === 0) return undefined;
+  const dictionary: AspectDictionary = {};
+  for (const { name, terms } of aspects) {
+    dictionary[name] = terms && terms.length > 0 ? [...terms] : [name];
+  }
+  return dictionary;
+}
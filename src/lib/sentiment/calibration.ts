@@ -0,0 +1,208 @@
+/**
+ * Confidence calibration
+ * Ajusta la confianza del híbrido para que 0.8 signifique ~80% de aciertos.
+ * Se ajusta sobre pares (confianza bruta, acierto) de un dataset etiquetado
+ * con escalado de Platt o regresión isotónica, y se mide con ECE y
+ * diagramas de fiabilidad.
+ */
+
+export type CalibrationMethod = 'platt' | 'isotonic';
+
+export interface CalibrationSample {
+  confidence: number; // raw confidence 0..1
+  correct: boolean;
+}
+
+export type SerializedCalibrator =
+  | { method: 'platt'; a: number; b: number }
+  | { method: 'isotonic'; thresholds: number[]; values: number[] };
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  avgConfidence: number;
+  accuracy: number;
+}
+
+const EPSILON = 1e-6;
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+export class ConfidenceCalibrator {
+  private constructor(private readonly params: SerializedCalibrator) {}
+
+  /**
+   * Escalado de Platt: p = 1 / (1 + exp(a·x + b)), ajustado por Newton-Raphson
+   * con los objetivos suavizados de Platt (1999) para no sobreajustar.
+   */
+  static fitPlatt(
+    samples: readonly CalibrationSample[],
+    maxIterations = 100
+  ): ConfidenceCalibrator {
+    const positives = samples.filter((s) => s.correct).length;
+    const negatives = samples.length - positives;
+    const hiTarget = (positives + 1) / (positives + 2);
+    const loTarget = 1 / (negatives + 2);
+
+    let a = 0;
+    let b = Math.log((negatives + 1) / (positives + 1));
+
+    for (let iter = 0; iter < maxIterations; iter++) {
+      // Gradiente y hessiana de la log-verosimilitud negativa
+      let g1 = 0;
+      let g2 = 0;
+      let h11 = EPSILON;
+      let h22 = EPSILON;
+      let h21 = 0;
+      for (const sample of samples) {
+        const x = sample.confidence;
+        const t = sample.correct ? hiTarget : loTarget;
+        const p = 1 / (1 + Math.exp(a * x + b));
+        const d = t - p;
+        const w = p * (1 - p);
+        g1 += x * d;
+        g2 += d;
+        h11 += x * x * w;
+        h22 += w;
+        h21 += x * w;
+      }
+      const det = h11 * h22 - h21 * h21;
+      if (Math.abs(det) < EPSILON) break;
+
+      const da = -(h22 * g1 - h21 * g2) / det;
+      const db = -(-h21 * g1 + h11 * g2) / det;
+      a += da;
+      b += db;
+      if (Math.abs(da) < 1e-7 && Math.abs(db) < 1e-7) break;
+    }
+
+    return new ConfidenceCalibrator({ method: 'platt', a, b });
+  }
+
+  /**
+   * Regresión isotónica por pool-adjacent-violators: función escalonada
+   * monótona no decreciente de la confianza bruta a la tasa de aciertos.
+   */
+  static fitIsotonic(samples: readonly CalibrationSample[]): ConfidenceCalibrator {
+    const sorted = [...samples].sort((x, y) => x.confidence - y.confidence);
+    const blocks: Array<{ sum: number; weight: number; max: number }> = [];
+
+    for (const sample of sorted) {
+      blocks.push({ sum: sample.correct ? 1 : 0, weight: 1, max: sample.confidence });
+      // Fusiona bloques mientras se viole la monotonía
+      while (blocks.length > 1) {
+        const last = blocks[blocks.length - 1];
+        const prev = blocks[blocks.length - 2];
+        if (prev.sum / prev.weight <= last.sum / last.weight) break;
+        blocks.splice(-2, 2, {
+          sum: prev.sum + last.sum,
+          weight: prev.weight + last.weight,
+          max: last.max,
+        });
+      }
+    }
+
+    return new ConfidenceCalibrator({
+      method: 'isotonic',
+      thresholds: blocks.map((block) => block.max),
+      values: blocks.map((block) => block.sum / block.weight),
+    });
+  }
+
+  static fit(
+    samples: readonly CalibrationSample[],
+    method: CalibrationMethod
+  ): ConfidenceCalibrator {
+    return method === 'platt' ? this.fitPlatt(samples) : this.fitIsotonic(samples);
+  }
+
+  static fromJSON(params: SerializedCalibrator): ConfidenceCalibrator {
+    return new ConfidenceCalibrator(params);
+  }
+
+  get method(): CalibrationMethod {
+    return this.params.method;
+  }
+
+  /**
+   * Devuelve la confianza calibrada para una confianza bruta.
+   */
+  apply(confidence: number): number {
+    const x = clamp01(confidence);
+    if (this.params.method === 'platt') {
+      return clamp01(1 / (1 + Math.exp(this.params.a * x + this.params.b)));
+    }
+
+    const { thresholds, values } = this.params;
+    if (values.length === 0) return x;
+    const index = thresholds.findIndex((threshold) => x <= threshold);
+    return clamp01(index === -1 ? values[values.length - 1] : values[index]);
+  }
+
+  toJSON(): SerializedCalibrator {
+    return this.params;
+  }
+}
+
+/**
+ * Agrupa las muestras en `bins` intervalos de confianza de igual anchura.
+ * Los intervalos vacíos se devuelven con count 0 para poder dibujarlos.
+ */
+export function reliabilityDiagram(
+  samples: readonly CalibrationSample[],
+  bins = 10
+): ReliabilityBin[] {
+  const result: ReliabilityBin[] = Array.from({ length: bins }, (_, i) => ({
+    lower: i / bins,
+    upper: (i + 1) / bins,
+    count: 0,
+    avgConfidence: 0,
+    accuracy: 0,
+  }));
+
+  for (const sample of samples) {
+    const confidence = clamp01(sample.confidence);
+    const bin = result[Math.min(bins - 1, Math.floor(confidence * bins))];
+    bin.count++;
+    bin.avgConfidence += confidence;
+    bin.accuracy += sample.correct ? 1 : 0;
+  }
+
+  for (const bin of result) {
+    if (bin.count > 0) {
+      bin.avgConfidence /= bin.count;
+      bin.accuracy /= bin.count;
+    }
+  }
+  return result;
+}
+
+/**
+ * Expected calibration error: media ponderada de |accuracy − confianza| por intervalo.
+ */
+export function expectedCalibrationError(samples: readonly CalibrationSample[], bins = 10): number {
+  if (samples.length === 0) return 0;
+  return reliabilityDiagram(samples, bins).reduce(
+    (sum, bin) => sum + (bin.count / samples.length) * Math.abs(bin.accuracy - bin.avgConfidence),
+    0
+  );
+}
+
+/**
+ * Representación en texto del diagrama de fiabilidad para los scripts de evaluación.
+ */
+export function formatReliabilityDiagram(bins: readonly ReliabilityBin[], width = 30): string[] {
+  return bins.map((bin) => {
+    const range = `${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}`;
+    if (bin.count === 0) return `${range.padEnd(9)} (vacío)`;
+    const bar = '█'.repeat(Math.round(bin.accuracy * width)).padEnd(width, '·');
+    return (
+      `${range.padEnd(9)} ${bar} ` +
+      `acc ${(bin.accuracy * 100).toFixed(0).padStart(3)}% ` +
+      `conf ${(bin.avgConfidence * 100).toFixed(0).padStart(3)}% n=${bin.count}`
+    );
+  });
+}
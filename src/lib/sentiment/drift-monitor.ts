@@ -0,0 +1,364 @@
+/**
+ * Drift monitoring
+ * Vigila sin etiquetas si los tweets que llegan de cada campaña se parecen a los
+ * datos con los que se entrenó el modelo: tasa de palabras fuera del vocabulario
+ * (OOV), cambio en la distribución de etiquetas (PSI y KL) y cambio en la
+ * distribución de la confianza (PSI). Al superar un umbral se envía un aviso por
+ * NotificationSystem y la campaña aparece como degradada en /health.
+ */
+import { appConfig } from '../config/app';
+import { logger } from '../observability/logger';
+import { notificationSystem } from '../../services/reactive/notification-system';
+import { tokenize } from './lexicons';
+
+export type DriftLabel = 'positive' | 'neutral' | 'negative';
+
+const LABELS: DriftLabel[] = ['positive', 'neutral', 'negative'];
+const CONFIDENCE_BINS = 10;
+const EPSILON = 1e-4;
+const BASELINE_SAMPLE_SIZE = 300;
+
+export interface DriftBaseline {
+  vocabulary: Set<string>;
+  labelDistribution: Record<DriftLabel, number>;
+  confidenceDistribution: number[]; // share of results per confidence decile
+  size: number;
+  createdAt: string;
+}
+
+export interface DriftObservation {
+  text: string;
+  label: string;
+  confidence: number;
+}
+
+export interface DriftThresholds {
+  oovRate: number;
+  labelPsi: number;
+  confidencePsi: number;
+  minSamples: number; // no alert before the window holds this many tweets
+}
+
+export type DriftSignal = 'oov_rate' | 'label_shift' | 'confidence_shift';
+
+export interface DriftReport {
+  campaignId: string;
+  samples: number;
+  oovRate: number;
+  labelPsi: number;
+  labelKl: number; // KL(window || baseline)
+  confidencePsi: number;
+  labelDistribution: Record<DriftLabel, number>;
+  drifting: boolean;
+  signals: DriftSignal[]; // thresholds crossed
+  updatedAt: string;
+  lastAlertAt: string | null;
+}
+
+export interface DriftMonitorOptions {
+  loadBaseline: () => Promise<DriftBaseline>;
+  thresholds?: Partial<DriftThresholds>;
+  windowSize?: number;
+  alertCooldownMs?: number;
+}
+
+interface WindowEntry {
+  tokens: number;
+  oovTokens: number;
+  label: DriftLabel;
+  confidenceBin: number;
+}
+
+interface CampaignWindow {
+  entries: WindowEntry[];
+  report: DriftReport | null;
+  lastAlertAt: number | null;
+}
+
+// very_positive/very_negative cuentan como su polaridad
+function foldLabel(label: string): DriftLabel {
+  if (label.includes('positive')) return 'positive';
+  if (label.includes('negative')) return 'negative';
+  return 'neutral';
+}
+
+function confidenceBin(confidence: number): number {
+  const value = Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0;
+  return Math.min(CONFIDENCE_BINS - 1, Math.floor(value * CONFIDENCE_BINS));
+}
+
+function distribution(counts: number[]): number[] {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return counts.map((count) => (total ? count / total : 0));
+}
+
+/**
+ * Population Stability Index: Σ (a - e)·ln(a / e). Por convención < 0.1 es
+ * estable, 0.1-0.25 un cambio moderado y > 0.25 un cambio significativo.
+ */
+export function populationStabilityIndex(expected: number[], actual: number[]): number {
+  return expected.reduce((psi, e, i) => {
+    const a = Math.max(actual[i] ?? 0, EPSILON);
+    const base = Math.max(e, EPSILON);
+    return psi + (a - base) * Math.log(a / base);
+  }, 0);
+}
+
+/**
+ * Divergencia de Kullback-Leibler KL(p || q)
+ */
+export function klDivergence(p: number[], q: number[]): number {
+  return p.reduce((kl, value, i) => {
+    if (value <= 0) return kl;
+    return kl + value * Math.log(value / Math.max(q[i] ?? 0, EPSILON));
+  }, 0);
+}
+
+/**
+ * Build the reference distributions from labelled training examples and the
+ * confidences the production pipeline gives them
+ */
+export function buildDriftBaseline(
+  examples: ReadonlyArray<{ text: string; label: string }>,
+  confidences: number[]
+): DriftBaseline {
+  const vocabulary = new Set<string>();
+  const labelCounts = LABELS.map(() => 0);
+  for (const example of examples) {
+    tokenize(example.text).forEach((token) => vocabulary.add(token));
+    labelCounts[LABELS.indexOf(foldLabel(example.label))]++;
+  }
+  const confidenceCounts = new Array<number>(CONFIDENCE_BINS).fill(0);
+  confidences.forEach((confidence) => confidenceCounts[confidenceBin(confidence)]++);
+
+  const labelShares = distribution(labelCounts);
+  return {
+    vocabulary,
+    labelDistribution: Object.fromEntries(
+      LABELS.map((label, i) => [label, labelShares[i]])
+    ) as Record<DriftLabel, number>,
+    confidenceDistribution: distribution(confidenceCounts),
+    size: examples.length,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export class DriftMonitor {
+  private readonly thresholds: DriftThresholds;
+  private readonly windowSize: number;
+  private readonly alertCooldownMs: number;
+  private baseline: Promise<DriftBaseline> | null = null;
+  private campaigns = new Map<string, CampaignWindow>();
+
+  constructor(private readonly options: DriftMonitorOptions) {
+    this.thresholds = {
+      oovRate: options.thresholds?.oovRate ?? appConfig.sentiment.drift.oovRate,
+      labelPsi: options.thresholds?.labelPsi ?? appConfig.sentiment.drift.labelPsi,
+      confidencePsi: options.thresholds?.confidencePsi ?? appConfig.sentiment.drift.confidencePsi,
+      minSamples: options.thresholds?.minSamples ?? appConfig.sentiment.drift.minSamples,
+    };
+    this.windowSize = Math.max(1, options.windowSize ?? appConfig.sentiment.drift.windowSize);
+    this.alertCooldownMs = options.alertCooldownMs ?? 60 * 60 * 1000;
+  }
+
+  getThresholds(): Readonly<DriftThresholds> {
+    return this.thresholds;
+  }
+
+  /**
+   * Add analysed tweets to the campaign's rolling window and re-evaluate it.
+   * Sends a warning when the campaign starts drifting (at most once per cooldown).
+   * @returns The updated report, or null if there was nothing to add
+   */
+  async observe(campaignId: string, observations: DriftObservation[]): Promise<DriftReport | null> {
+    const items = observations.filter((observation) => observation.text?.trim());
+    if (items.length === 0) return null;
+    const baseline = await this.getBaseline();
+
+    let campaign = this.campaigns.get(campaignId);
+    if (!campaign) {
+      campaign = { entries: [], report: null, lastAlertAt: null };
+      this.campaigns.set(campaignId, campaign);
+    }
+
+    for (const observation of items) {
+      const tokens = tokenize(observation.text);
+      campaign.entries.push({
+        tokens: tokens.length,
+        oovTokens: tokens.filter((token) => !baseline.vocabulary.has(token)).length,
+        label: foldLabel(observation.label),
+        confidenceBin: confidenceBin(observation.confidence),
+      });
+    }
+    if (campaign.entries.length > this.windowSize) {
+      campaign.entries.splice(0, campaign.entries.length - this.windowSize);
+    }
+
+    const wasDrifting = campaign.report?.drifting ?? false;
+    const report = this.evaluate(campaignId, campaign, baseline);
+    campaign.report = report;
+
+    const now = Date.now();
+    const coolingDown =
+      campaign.lastAlertAt !== null && now - campaign.lastAlertAt < this.alertCooldownMs;
+    if (report.drifting && !wasDrifting && !coolingDown) {
+      campaign.lastAlertAt = now;
+      report.lastAlertAt = new Date(now).toISOString();
+      this.alert(report);
+    }
+    return report;
+  }
+
+  getReport(campaignId: string): DriftReport | null {
+    return this.campaigns.get(campaignId)?.report ?? null;
+  }
+
+  getReports(): DriftReport[] {
+    return Array.from(this.campaigns.values())
+      .map((campaign) => campaign.report)
+      .filter((report): report is DriftReport => report !== null);
+  }
+
+  /**
+   * Replace the reference distributions (e.g. after training on new data).
+   * Windows are kept; they are compared against the new baseline from now on.
+   */
+  setBaseline(baseline: DriftBaseline): void {
+    this.baseline = Promise.resolve(baseline);
+  }
+
+  /**
+   * Drop the reference distributions so the next observation rebuilds them
+   * (e.g. after the active model changed). Windows are kept.
+   */
+  invalidateBaseline(): void {
+    this.baseline = null;
+  }
+
+  reset(campaignId?: string): void {
+    if (campaignId) this.campaigns.delete(campaignId);
+    else this.campaigns.clear();
+  }
+
+  private getBaseline(): Promise<DriftBaseline> {
+    if (!this.baseline) {
+      this.baseline = this.options.loadBaseline().catch((error: unknown) => {
+        // Se reintenta en la siguiente observación
+        this.baseline = null;
+        throw error;
+      });
+    }
+    return this.baseline;
+  }
+
+  private evaluate(
+    campaignId: string,
+    campaign: CampaignWindow,
+    baseline: DriftBaseline
+  ): DriftReport {
+    const { entries } = campaign;
+    const tokens = entries.reduce((sum, entry) => sum + entry.tokens, 0);
+    const oovTokens = entries.reduce((sum, entry) => sum + entry.oovTokens, 0);
+
+    const labelCounts = LABELS.map(() => 0);
+    const confidenceCounts = new Array<number>(CONFIDENCE_BINS).fill(0);
+    for (const entry of entries) {
+      labelCounts[LABELS.indexOf(entry.label)]++;
+      confidenceCounts[entry.confidenceBin]++;
+    }
+
+    const labels = distribution(labelCounts);
+    const baselineLabels = LABELS.map((label) => baseline.labelDistribution[label]);
+    const oovRate = tokens ? oovTokens / tokens : 0;
+    const labelPsi = populationStabilityIndex(baselineLabels, labels);
+    const confidencePsi = populationStabilityIndex(
+      baseline.confidenceDistribution,
+      distribution(confidenceCounts)
+    );
+
+    const signals: DriftSignal[] = [];
+    if (entries.length >= this.thresholds.minSamples) {
+      if (oovRate > this.thresholds.oovRate) signals.push('oov_rate');
+      if (labelPsi > this.thresholds.labelPsi) signals.push('label_shift');
+      if (confidencePsi > this.thresholds.confidencePsi) signals.push('confidence_shift');
+    }
+
+    return {
+      campaignId,
+      samples: entries.length,
+      oovRate,
+      labelPsi,
+      labelKl: klDivergence(labels, baselineLabels),
+      confidencePsi,
+      labelDistribution: Object.fromEntries(LABELS.map((label, i) => [label, labels[i]])) as Record<
+        DriftLabel,
+        number
+      >,
+      drifting: signals.length > 0,
+      signals,
+      updatedAt: new Date().toISOString(),
+      lastAlertAt: campaign.lastAlertAt ? new Date(campaign.lastAlertAt).toISOString() : null,
+    };
+  }
+
+  private alert(report: DriftReport): void {
+    const message =
+      `Campaign ${report.campaignId} drifted from the training data (${report.signals.join(', ')}): ` +
+      `OOV ${(report.oovRate * 100).toFixed(1)}%, label PSI ${report.labelPsi.toFixed(3)}, ` +
+      `confidence PSI ${report.confidencePsi.toFixed(3)} over ${report.samples} tweets`;
+    logger.warn(message, { thresholds: this.thresholds });
+    notificationSystem
+      .sendWarning('Sentiment drift detected', message, report)
+      .subscribe({
+        error: (error: unknown) => logger.warn('Drift notification failed', { error }),
+      });
+  }
+}
+
+/**
+ * Baseline por defecto: una muestra determinista de los datasets de
+ * entrenamiento puntuada por el orquestador compartido, para que la confianza
+ * de referencia pase por el mismo motor y calibración que los tweets. El
+ * orquestador la invalida al cargar otra versión activa del modelo.
+ */
+async function loadDefaultBaseline(): Promise<DriftBaseline> {
+  const [{ NaiveBayesSentimentService }, { getOrchestrator }, { modelRegistry }] =
+    await Promise.all([
+      import('../../services/naive-bayes-sentiment.service'),
+      import('./orchestrator-provider'),
+      import('../../services/model-registry.service'),
+    ]);
+  const examples = NaiveBayesSentimentService.defaultDatasets().flat();
+  const step = Math.max(1, Math.floor(examples.length / BASELINE_SAMPLE_SIZE));
+  const sample = examples.filter((_, i) => i % step === 0);
+
+  const { items } = await getOrchestrator().analyzeBatchWithStatus(
+    sample.map((example) => ({ text: example.text }))
+  );
+  const confidences = items
+    .map((item) => item.result?.sentiment.confidence)
+    .filter((confidence): confidence is number => typeof confidence === 'number');
+
+  const baseline = buildDriftBaseline(examples, confidences);
+  // Un modelo promovido puede haberse entrenado con más vocabulario que los datasets
+  const active = await modelRegistry.loadActiveModel();
+  active?.model.vocabulary.forEach((token) => baseline.vocabulary.add(token));
+
+  logger.info('Drift baseline built', {
+    examples: examples.length,
+    scored: confidences.length,
+    modelVersion: active?.version.versionId ?? null,
+  });
+  return baseline;
+}
+
+let sharedDriftMonitor: DriftMonitor | null = null;
+
+/**
+ * Process-wide monitor fed by the scraping pipeline and read by the health check
+ */
+export function getSharedDriftMonitor(): DriftMonitor {
+  if (!sharedDriftMonitor)
+    sharedDriftMonitor = new DriftMonitor({ loadBaseline: loadDefaultBaseline });
+  return sharedDriftMonitor;
+}
@@ -0,0 +1,158 @@
+/**
+ * Emotion classifier
+ * Clasificador multi-etiqueta entrenable: un Naive Bayes binario por emoción
+ * (uno-contra-resto) sobre la presencia de tokens. Un texto puede tener varias
+ * emociones o ninguna. Su salida se mezcla con el léxico de emociones, que
+ * sigue mandando mientras haya pocos ejemplos de entrenamiento.
+ */
+import { EMOTION_LABELS, EmotionLabel, emptyEmotions, scoreEmotions } from './emotion-lexicon';
+import {
+  detectLexiconLanguage,
+  LEXICON_LANGUAGES,
+  LEXICONS,
+  LexiconLanguage,
+  tokenize,
+} from './lexicons';
+import { EmotionAnalysis, LanguageCode } from './types';
+
+export interface EmotionTrainingExample {
+  text: string;
+  emotions: EmotionLabel[]; // empty when the text carries no emotion
+}
+
+export interface SerializedEmotionClassifier {
+  documents: number;
+  labelCounts: Record<EmotionLabel, number>;
+  // token → documents containing it, in total and per emotion
+  tokenCounts: Record<string, { total: number } & Partial<Record<EmotionLabel, number>>>;
+}
+
+interface TokenCount {
+  total: number;
+  byEmotion: Partial<Record<EmotionLabel, number>>;
+}
+
+// El peso del clasificador crece con los ejemplos: n / (n + HALF_WEIGHT_DOCUMENTS)
+const HALF_WEIGHT_DOCUMENTS = 100;
+const MAX_CLASSIFIER_WEIGHT = 0.5;
+// Peso (en documentos) de la frecuencia global en el suavizado m-estimate
+const M_ESTIMATE = 2;
+
+// Las palabras funcionales aparecen en cualquier texto y solo añadirían ruido
+const FUNCTION_WORDS: ReadonlySet<string> = new Set(
+  LEXICON_LANGUAGES.flatMap((language) => [...LEXICONS[language].hints])
+);
+
+function features(tokens: readonly string[]): Set<string> {
+  return new Set(tokens.filter((token) => token.length > 2 && !FUNCTION_WORDS.has(token)));
+}
+
+export class EmotionClassifier {
+  private documents = 0;
+  private labelCounts: Record<EmotionLabel, number> = emptyEmotions();
+  private tokenCounts = new Map<string, TokenCount>();
+
+  /**
+   * Añade ejemplos al modelo (el entrenamiento es incremental).
+   */
+  train(examples: readonly EmotionTrainingExample[]): void {
+    for (const example of examples) {
+      const labels = new Set(example.emotions);
+      this.documents++;
+      for (const emotion of labels) this.labelCounts[emotion]++;
+
+      for (const token of features(tokenize(example.text))) {
+        const counts = this.tokenCounts.get(token) ?? { total: 0, byEmotion: {} };
+        counts.total++;
+        for (const emotion of labels) {
+          counts.byEmotion[emotion] = (counts.byEmotion[emotion] ?? 0) + 1;
+        }
+        this.tokenCounts.set(token, counts);
+      }
+    }
+  }
+
+  get trainingSize(): number {
+    return this.documents;
+  }
+
+  /**
+   * Probabilidad de cada emoción dada la presencia de los tokens.
+   * Solo cuentan los tokens vistos en entrenamiento (sin palabras funcionales).
+   * @returns null si el modelo no está entrenado o no conoce ningún token
+   */
+  predict(tokens: readonly string[]): EmotionAnalysis | null {
+    const known = [...features(tokens)].flatMap((token) => {
+      const counts = this.tokenCounts.get(token);
+      return counts ? [counts] : [];
+    });
+    if (this.documents === 0 || known.length === 0) return null;
+
+    const scores = emptyEmotions();
+    for (const emotion of EMOTION_LABELS) {
+      const withEmotion = this.labelCounts[emotion];
+      const without = this.documents - withEmotion;
+      // Log-odds (Bernoulli, solo tokens presentes). El m-estimate suaviza hacia la
+      // frecuencia global del token: con Laplace, un token raro subiría todas las
+      // emociones minoritarias solo porque tienen menos documentos.
+      let logOdds = Math.log((withEmotion + 1) / (without + 1));
+      for (const counts of known) {
+        const inEmotion = counts.byEmotion[emotion] ?? 0;
+        const inRest = counts.total - inEmotion;
+        const globalRate = counts.total / this.documents;
+        logOdds += Math.log((inEmotion + M_ESTIMATE * globalRate) / (withEmotion + M_ESTIMATE));
+        logOdds -= Math.log((inRest + M_ESTIMATE * globalRate) / (without + M_ESTIMATE));
+      }
+      scores[emotion] = 1 / (1 + Math.exp(-logOdds));
+    }
+    return scores;
+  }
+
+  serialize(): SerializedEmotionClassifier {
+    const tokenCounts: SerializedEmotionClassifier['tokenCounts'] = {};
+    for (const [token, counts] of this.tokenCounts) {
+      tokenCounts[token] = { total: counts.total, ...counts.byEmotion };
+    }
+    return { documents: this.documents, labelCounts: { ...this.labelCounts }, tokenCounts };
+  }
+
+  static deserialize(state: SerializedEmotionClassifier): EmotionClassifier {
+    const classifier = new EmotionClassifier();
+    classifier.documents = state.documents;
+    classifier.labelCounts = { ...emptyEmotions(), ...state.labelCounts };
+    for (const [token, { total, ...byEmotion }] of Object.entries(state.tokenCounts)) {
+      classifier.tokenCounts.set(token, { total, byEmotion });
+    }
+    return classifier;
+  }
+}
+
+/**
+ * Emociones de un texto: léxico por idioma, mezclado con el clasificador
+ * cuando está entrenado y reconoce tokens del texto. Independiente de la polaridad.
+ * @param text - Texto original (los emojis se leen de aquí)
+ * @param language - Idioma resuelto; 'unknown' se detecta y por defecto es inglés
+ * @param classifier - Clasificador entrenado, opcional
+ * @param tokens - Tokens ya calculados con `tokenize(text)`
+ */
+export function analyzeEmotions(
+  text: string,
+  language: LanguageCode,
+  classifier?: EmotionClassifier,
+  tokens: readonly string[] = tokenize(text)
+): EmotionAnalysis {
+  const detected = language === 'unknown' ? detectLexiconLanguage(text) : language;
+  const lexiconLanguage: LexiconLanguage = detected === 'unknown' ? 'en' : detected;
+  const lexical = scoreEmotions(tokens, lexiconLanguage, text);
+
+  const predicted = classifier?.predict(tokens);
+  if (!classifier || !predicted) return lexical;
+
+  const n = classifier.trainingSize;
+  const weight = Math.min(MAX_CLASSIFIER_WEIGHT, n / (n + HALF_WEIGHT_DOCUMENTS));
+  const emotions = emptyEmotions();
+  for (const emotion of EMOTION_LABELS) {
+    emotions[emotion] = (1 - weight) * lexical[emotion] + weight * predicted[emotion];
+  }
+  return emotions;
+}
@@ -0,0 +1,697 @@
+/**
+ * Emotion lexicon
+ * Léxico de emociones al estilo NRC (las ocho emociones básicas de Plutchik)
+ * por idioma. A diferencia de la polaridad, una palabra puede evocar varias
+ * emociones a la vez ("amenaza" → miedo e ira) y ninguna se deriva del score.
+ * Las entradas están normalizadas igual que los tokens de `tokenize`.
+ */
+import { LEXICONS, LexiconLanguage } from './lexicons';
+import { EmotionAnalysis } from './types';
+
+export type EmotionLabel = keyof EmotionAnalysis;
+
+export const EMOTION_LABELS: readonly EmotionLabel[] = [
+  'joy',
+  'sadness',
+  'anger',
+  'fear',
+  'surprise',
+  'disgust',
+  'trust',
+  'anticipation',
+];
+
+// Con esta constante un término da 0.5, dos ~0.75 y tres ~0.875 (saturación suave)
+const SATURATION = Math.LN2;
+// Un negador anula los términos emotivos de los tokens siguientes
+const NEGATION_WINDOW = 3;
+const POST_NEGATION_WINDOW = 2;
+
+type EmotionWordList = Record<EmotionLabel, string[]>;
+
+const EMOTION_WORDS: Record<LexiconLanguage, EmotionWordList> = {
+  en: {
+    joy: [
+      'happy',
+      'happiness',
+      'glad',
+      'joy',
+      'joyful',
+      'love',
+      'loved',
+      'loving',
+      'delighted',
+      'delight',
+      'cheerful',
+      'fun',
+      'enjoy',
+      'enjoyed',
+      'laugh',
+      'laughing',
+      'celebrate',
+      'celebration',
+      'awesome',
+      'amazing',
+      'wonderful',
+      'fantastic',
+      'excited',
+      'yay',
+      'smile',
+      'pleased',
+      'grateful',
+      'thankful',
+      'win',
+    ],
+    sadness: [
+      'sad',
+      'sadness',
+      'unhappy',
+      'cry',
+      'crying',
+      'tears',
+      'miss',
+      'missed',
+      'lonely',
+      'alone',
+      'depressed',
+      'depressing',
+      'heartbroken',
+      'sorry',
+      'loss',
+      'lost',
+      'grief',
+      'mourn',
+      'regret',
+      'disappointed',
+      'disappointing',
+      'disappointment',
+      'hopeless',
+      'gloomy',
+      'miserable',
+    ],
+    anger: [
+      'angry',
+      'anger',
+      'mad',
+      'furious',
+      'rage',
+      'hate',
+      'hated',
+      'annoyed',
+      'annoying',
+      'irritated',
+      'outraged',
+      'outrage',
+      'frustrated',
+      'frustrating',
+      'pissed',
+      'hostile',
+      'unfair',
+      'scam',
+      'ripoff',
+      'threat',
+      'fight',
+      'yelled',
+      'insult',
+      'betrayed',
+    ],
+    fear: [
+      'afraid',
+      'fear',
+      'scared',
+      'scary',
+      'terrified',
+      'terrifying',
+      'frightened',
+      'panic',
+      'anxious',
+      'anxiety',
+      'worried',
+      'worry',
+      'nervous',
+      'danger',
+      'dangerous',
+      'risk',
+      'risky',
+      'threat',
+      'unsafe',
+      'horror',
+      'dread',
+      'alarming',
+      'insecure',
+    ],
+    surprise: [
+      'surprise',
+      'surprised',
+      'surprising',
+      'unexpected',
+      'unexpectedly',
+      'shocked',
+      'shocking',
+      'amazed',
+      'astonished',
+      'wow',
+      'omg',
+      'sudden',
+      'suddenly',
+      'unbelievable',
+      'incredible',
+      'whoa',
+      'stunned',
+    ],
+    disgust: [
+      'disgust',
+      'disgusting',
+      'disgusted',
+      'gross',
+      'nasty',
+      'yuck',
+      'revolting',
+      'vile',
+      'sick',
+      'sickening',
+      'filthy',
+      'dirty',
+      'rotten',
+      'awful',
+      'horrible',
+      'repulsive',
+      'creepy',
+      'trash',
+      'garbage',
+    ],
+    trust: [
+      'trust',
+      'trusted',
+      'trustworthy',
+      'reliable',
+      'reliability',
+      'honest',
+      'safe',
+      'secure',
+      'loyal',
+      'faithful',
+      'dependable',
+      'recommend',
+      'recommended',
+      'support',
+      'helpful',
+      'guarantee',
+      'confident',
+      'believe',
+      'solid',
+      'stable',
+    ],
+    anticipation: [
+      'expect',
+      'expecting',
+      'waiting',
+      'wait',
+      'soon',
+      'upcoming',
+      'tomorrow',
+      'hope',
+      'hoping',
+      'hopefully',
+      'eager',
+      'countdown',
+      'launch',
+      'preorder',
+      'planning',
+      'ready',
+      'anticipate',
+    ],
+  },
+  es: {
+    joy: [
+      'feliz',
+      'felicidad',
+      'alegre',
+      'alegria',
+      'contento',
+      'contenta',
+      'encanta',
+      'encanto',
+      'amor',
+      'amo',
+      'disfrutar',
+      'disfrute',
+      'genial',
+      'increible',
+      'maravilloso',
+      'fantastico',
+      'divertido',
+      'risa',
+      'celebrar',
+      'gracias',
+      'agradecido',
+    ],
+    sadness: [
+      'triste',
+      'tristeza',
+      'llorar',
+      'llorando',
+      'lagrimas',
+      'extrano',
+      'sola',
+      'deprimido',
+      'deprimida',
+      'perdida',
+      'lamento',
+      'decepcion',
+      'decepcionado',
+      'decepcionada',
+      'pena',
+      'desesperanza',
+      'luto',
+    ],
+    anger: [
+      'enfadado',
+      'enfadada',
+      'enojado',
+      'enojada',
+      'furioso',
+      'furiosa',
+      'rabia',
+      'ira',
+      'odio',
+      'odiar',
+      'molesto',
+      'molesta',
+      'harto',
+      'harta',
+      'indignado',
+      'indignante',
+      'injusto',
+      'estafa',
+      'amenaza',
+      'frustrante',
+    ],
+    fear: [
+      'miedo',
+      'asustado',
+      'asustada',
+      'aterrado',
+      'terror',
+      'panico',
+      'ansiedad',
+      'ansioso',
+      'preocupado',
+      'preocupada',
+      'preocupa',
+      'nervioso',
+      'peligro',
+      'peligroso',
+      'riesgo',
+      'amenaza',
+      'inseguro',
+    ],
+    surprise: [
+      'sorpresa',
+      'sorprendido',
+      'sorprendida',
+      'sorprendente',
+      'inesperado',
+      'inesperada',
+      'asombro',
+      'asombroso',
+      'increible',
+      'impactante',
+      'guau',
+      'wow',
+      'repente',
+    ],
+    disgust: [
+      'asco',
+      'asqueroso',
+      'asquerosa',
+      'repugnante',
+      'vomitivo',
+      'sucio',
+      'sucia',
+      'podrido',
+      'horrible',
+      'basura',
+      'nauseabundo',
+      'cutre',
+    ],
+    trust: [
+      'confianza',
+      'confiar',
+      'confio',
+      'fiable',
+      'seguro',
+      'segura',
+      'honesto',
+      'leal',
+      'recomiendo',
+      'recomendable',
+      'garantia',
+      'apoyo',
+      'solido',
+      'estable',
+    ],
+    anticipation: [
+      'esperando',
+      'espero',
+      'esperar',
+      'pronto',
+      'proximamente',
+      'manana',
+      'ojala',
+      'ganas',
+      'lanzamiento',
+      'preparado',
+      'listo',
+      'deseando',
+    ],
+  },
+  fr: {
+    joy: [
+      'heureux',
+      'heureuse',
+      'joie',
+      'content',
+      'contente',
+      'adore',
+      'amour',
+      'genial',
+      'super',
+      'formidable',
+      'merveilleux',
+      'rire',
+      'merci',
+      'ravi',
+      'ravie',
+    ],
+    sadness: [
+      'triste',
+      'tristesse',
+      'pleurer',
+      'larmes',
+      'seul',
+      'seule',
+      'deprime',
+      'perte',
+      'regret',
+      'decu',
+      'decue',
+      'decevant',
+      'chagrin',
+    ],
+    anger: [
+      'colere',
+      'furieux',
+      'furieuse',
+      'rage',
+      'deteste',
+      'haine',
+      'enerve',
+      'agace',
+      'injuste',
+      'arnaque',
+      'menace',
+      'marre',
+      'frustrant',
+    ],
+    fear: [
+      'peur',
+      'effraye',
+      'terrifie',
+      'panique',
+      'angoisse',
+      'anxieux',
+      'inquiet',
+      'inquiete',
+      'danger',
+      'dangereux',
+      'risque',
+      'menace',
+    ],
+    surprise: [
+      'surprise',
+      'surpris',
+      'surprenant',
+      'inattendu',
+      'etonne',
+      'etonnant',
+      'choque',
+      'incroyable',
+      'waouh',
+      'soudain',
+    ],
+    disgust: [
+      'degoute',
+      'degoutant',
+      'degout',
+      'immonde',
+      'ecoeurant',
+      'sale',
+      'pourri',
+      'horrible',
+      'nul',
+      'beurk',
+    ],
+    trust: [
+      'confiance',
+      'fiable',
+      'honnete',
+      'fidele',
+      'recommande',
+      'garantie',
+      'solide',
+      'stable',
+    ],
+    anticipation: [
+      'attends',
+      'attendre',
+      'bientot',
+      'demain',
+      'espere',
+      'espoir',
+      'hate',
+      'lancement',
+      'pret',
+      'prete',
+    ],
+  },
+  de: {
+    joy: [
+      'glucklich',
+      'froh',
+      'freude',
+      'freue',
+      'liebe',
+      'toll',
+      'super',
+      'wunderbar',
+      'fantastisch',
+      'lachen',
+      'spass',
+      'danke',
+      'dankbar',
+    ],
+    sadness: [
+      'traurig',
+      'trauer',
+      'weinen',
+      'tranen',
+      'einsam',
+      'allein',
+      'vermisse',
+      'verlust',
+      'enttauscht',
+      'enttauschend',
+      'schade',
+      'deprimiert',
+    ],
+    anger: [
+      'wutend',
+      'wut',
+      'sauer',
+      'hasse',
+      'hass',
+      'argerlich',
+      'verargert',
+      'genervt',
+      'unfair',
+      'betrug',
+      'frechheit',
+      'drohung',
+    ],
+    fear: [
+      'angst',
+      'furcht',
+      'erschrocken',
+      'panik',
+      'besorgt',
+      'sorge',
+      'nervos',
+      'gefahr',
+      'gefahrlich',
+      'risiko',
+      'unsicher',
+      'drohung',
+    ],
+    surprise: [
+      'uberraschung',
+      'uberrascht',
+      'uberraschend',
+      'unerwartet',
+      'erstaunt',
+      'schockiert',
+      'unglaublich',
+      'wow',
+      'plotzlich',
+    ],
+    disgust: [
+      'ekel',
+      'ekelhaft',
+      'eklig',
+      'widerlich',
+      'schmutzig',
+      'dreckig',
+      'verfault',
+      'schrecklich',
+      'mull',
+    ],
+    trust: [
+      'vertrauen',
+      'zuverlassig',
+      'ehrlich',
+      'treu',
+      'empfehle',
+      'empfehlenswert',
+      'garantie',
+      'sicher',
+      'stabil',
+    ],
+    anticipation: [
+      'warte',
+      'warten',
+      'bald',
+      'morgen',
+      'hoffe',
+      'hoffentlich',
+      'vorfreude',
+      'gespannt',
+      'bereit',
+    ],
+  },
+};
+
+// Emojis frecuentes en redes; se leen del texto original porque `tokenize` los descarta
+const EMOJI_EMOTIONS: Record<string, EmotionLabel[]> = {
+  '😀': ['joy'],
+  '😃': ['joy'],
+  '😄': ['joy'],
+  '😁': ['joy'],
+  '😊': ['joy'],
+  '😂': ['joy'],
+  '🤣': ['joy'],
+  '😍': ['joy', 'trust'],
+  '🥰': ['joy', 'trust'],
+  '❤️': ['joy', 'trust'],
+  '🎉': ['joy', 'anticipation'],
+  '🙏': ['trust'],
+  '🤝': ['trust'],
+  '⏳': ['anticipation'],
+  '👀': ['anticipation'],
+  '🤞': ['anticipation'],
+  '😢': ['sadness'],
+  '😭': ['sadness'],
+  '💔': ['sadness'],
+  '😞': ['sadness'],
+  '😠': ['anger'],
+  '😡': ['anger'],
+  '🤬': ['anger'],
+  '😨': ['fear'],
+  '😰': ['fear'],
+  '😱': ['fear', 'surprise'],
+  '😮': ['surprise'],
+  '😲': ['surprise'],
+  '🤯': ['surprise'],
+  '🤢': ['disgust'],
+  '🤮': ['disgust'],
+};
+
+// Índice invertido palabra → emociones, construido una vez por idioma
+const EMOTION_INDEX: Record<LexiconLanguage, ReadonlyMap<string, EmotionLabel[]>> = {
+  en: buildIndex(EMOTION_WORDS.en),
+  es: buildIndex(EMOTION_WORDS.es),
+  fr: buildIndex(EMOTION_WORDS.fr),
+  de: buildIndex(EMOTION_WORDS.de),
+};
+
+function buildIndex(words: EmotionWordList): Map<string, EmotionLabel[]> {
+  const index = new Map<string, EmotionLabel[]>();
+  for (const emotion of EMOTION_LABELS) {
+    for (const word of words[emotion]) {
+      index.set(word, [...(index.get(word) ?? []), emotion]);
+    }
+  }
+  return index;
+}
+
+export function emptyEmotions(): EmotionAnalysis {
+  return {
+    joy: 0,
+    sadness: 0,
+    anger: 0,
+    fear: 0,
+    surprise: 0,
+    disgust: 0,
+    trust: 0,
+    anticipation: 0,
+  };
+}
+
+/**
+ * Emociones presentes en el texto según el léxico, cada una en [0, 1].
+ * Los términos bajo el alcance de un negador no cuentan ("not happy" no es
+ * alegría, pero tampoco se convierte en tristeza); los intensificadores pesan.
+ * @param tokens - Tokens de `tokenize(text)`
+ * @param language - Idioma del léxico
+ * @param text - Texto original, para los emojis
+ */
+export function scoreEmotions(
+  tokens: readonly string[],
+  language: LexiconLanguage,
+  text = ''
+): EmotionAnalysis {
+  const { negators, intensifiers, postNegation } = LEXICONS[language];
+  const index = EMOTION_INDEX[language];
+  const totals = emptyEmotions();
+
+  const isNegated = (position: number): boolean => {
+    for (let back = 1; back <= NEGATION_WINDOW && position - back >= 0; back++) {
+      if (negators.has(tokens[position - back])) return true;
+    }
+    if (postNegation) {
+      for (
+        let ahead = 1;
+        ahead <= POST_NEGATION_WINDOW && position + ahead < tokens.length;
+        ahead++
+      ) {
+        if (negators.has(tokens[position + ahead])) return true;
+      }
+    }
+    return false;
+  };
+
+  tokens.forEach((token, position) => {
+    const emotions = index.get(token);
+    if (!emotions || isNegated(position)) return;
+    const weight = position > 0 ? (intensifiers.get(tokens[position - 1]) ?? 1) : 1;
+    for (const emotion of emotions) totals[emotion] += weight;
+  });
+
+  for (const match of text.matchAll(/\p{Extended_Pictographic}️?/gu)) {
+    for (const emotion of EMOJI_EMOTIONS[match[0]] ?? []) totals[emotion] += 1;
+  }
+
+  for (const emotion of EMOTION_LABELS) {
+    totals[emotion] = 1 - Math.exp(-SATURATION * Math.max(0, totals[emotion]));
+  }
+  return totals;
+}
@@ -5,6 +5,7 @@
  * It combines rule-based, machine learning (Naive Bayes), and hybrid analysis techniques.
  * Enhanced with multiple open-source models for superior accuracy.
  */
+import { createHash } from 'crypto';
 import natural from 'natural';
 import { Language } from '../../enums/sentiment.enum';
 import {
@@ -13,335 +14,109 @@ import {
 } from '../../services/advanced-hybrid-analyzer.service';
 import { BertSentimentAnalyzerService } from '../../services/bert-sentiment-analyzer.service';
 import {
+  NaiveBayesExplanation,
   NaiveBayesSentimentService,
   NaiveBayesTrainingExample,
   SentimentLabel,
+  SentimentPrediction,
 } from '../../services/naive-bayes-sentiment.service';
+import type { NaiveBayesModelState } from '../../services/model-registry.service';
+import { getSarcasmTrainingExamples } from '../../data/complex-sentiment-dataset';
+import { emotionTrainingDataset } from '../../data/emotion-training-dataset';
 import { TextAnalysis } from '../../types/sentiment';
+import { AspectSentimentAnalyzer, ClauseScorer } from './aspect-analyzer';
+import { EntityExtractor } from './entity-extractor';
+import {
+  analyzeEmotions,
+  EmotionClassifier,
+  EmotionTrainingExample,
+} from './emotion-classifier';
+import { LanguageModelRouter } from './language-models';
+import { explainLexicalScore, findSlangHits } from './explainer';
+import {
+  detectLexiconLanguage,
+  LexiconLanguage,
+  LexiconScore,
+  LEXICONS,
+  scoreTokens,
+  tokenize,
+} from './lexicons';
+import { getSharedOrganizationLexicons, OrganizationLexicon } from './organization-lexicons';
+import {
+  AnalyzerStage,
+  PipelineDefinition,
+  PipelineRun,
+  resolvePipeline,
+  runPipeline,
+} from './pipeline';
+import { applySarcasm, SarcasmDetector, SarcasmTrainingExample } from './sarcasm-detector';
 import {
   AnalysisRequest,
   AnalysisResult,
   AnalyzerEngine,
+  AspectDictionary,
+  AspectSentiment,
+  ComponentPrediction,
+  EntityDefinition,
+  EntityMention,
+  HybridWeights,
   LanguageCode,
+  SarcasmSignal,
+  SentimentExplanation,
   SignalBreakdown,
 } from './types';
 
+// Puntos que suma cada término del léxico a la puntuación de reglas
+const LEXICON_MATCH_WEIGHT = 0.25;
+
+interface RuleAnalysis extends TextAnalysis {
+  tokens: string[];
+  lexical: LexiconScore;
+  overriddenTerms: string[]; // términos redefinidos por el léxico de la organización
+}
+
+// Resultado del híbrido, con pesos automáticos o configurados
+interface HybridPrediction {
+  label: string;
+  confidence: number;
+  score: number;
+  weights: Record<string, number>;
+  features: ContextualFeatures;
+  explanation: string;
+}
+
+// Idioma y predicción NB ya calculados para un elemento de analyzeBatch
+interface PrecomputedAnalysis {
+  language: LanguageCode;
+  naiveResult: SentimentPrediction;
+  bertResult?: ComponentPrediction; // BERT scores the batch in one pass
+}
+
 /**
  * Consolidated internal rule-based analyzer
  * Integrated directly into the engine to eliminate dependencies
  */
 class ConsolidatedRuleAnalyzer {
-  analyze(text: string): Promise<TextAnalysis> {
+  /**
+   * @param text - Texto a analizar
+   * @param language - Idioma ya resuelto; si falta o es 'unknown' se detecta aquí
+   * @param domainLexicon - Términos de la organización, con prioridad sobre el léxico
+   */
+  analyze(
+    text: string,
+    language?: LanguageCode,
+    domainLexicon?: OrganizationLexicon | null
+  ): Promise<RuleAnalysis> {
     return new Promise((resolve) => {
       // --- Normalización y tokenización robusta ---
-      const lower = text
-        .toLowerCase()
-        .normalize('NFD')
-        .replace(/\p{Diacritic}/gu, ''); // quita acentos (ES/FR/DE)
-      const tokens = lower.match(/\p{L}+/gu) || []; // solo secuencias de letras
-      // Nota: usamos tokens + Sets (O(1)) en vez de includes()
-
-      // --- Léxicos ampliados (multilingüe EN/ES/FR/DE) ---
-      const POS_SET = new Set<string>([
-        // EN
-        'good',
-        'great',
-        'excellent',
-        'amazing',
-        'awesome',
-        'love',
-        'like',
-        'loved',
-        'liked',
-        'loving',
-        'fantastic',
-        'perfect',
-        'wonderful',
-        'best',
-        'happy',
-        'glad',
-        'satisfied',
-        'recommend',
-        'recommended',
-        'enjoy',
-        'enjoyed',
-        'enjoyable',
-        'brilliant',
-        'superb',
-        'outstanding',
-        'incredible',
-        'beautiful',
-        'nice',
-        'cool',
-        'sweet',
-        'lovely',
-        'impressive',
-        'epic',
-        'legit',
-        'solid',
-        'stable',
-        'fast',
-        'faster',
-        'improved',
-        'improve',
-        'fix',
-        'fixed',
-        'win',
-        'winner',
-        'wow',
-        'yay',
-        'thanks',
-        'thank',
-        'grateful',
-        'proud',
-        // ES
-        'bueno',
-        'buena',
-        'buenos',
-        'buenas',
-        'genial',
-        'excelente',
-        'increible',
-        'fantastico',
-        'fantastica',
-        'maravilloso',
-        'maravillosa',
-        'perfecto',
-        'perfecta',
-        'encanta',
-        'amo',
-        'amor',
-        'recomendable',
-        'recomendado',
-        'satisfecho',
-        'satisfecha',
-        'feliz',
-        'contento',
-        'contenta',
-        'brutal',
-        'espectacular',
-        'tremendo',
-        'top',
-        'rapido',
-        'rapida',
-        'mejora',
-        'mejorado',
-        'mejor',
-        'arreglado',
-        'funciona',
-        'estable',
-        // FR
-        'bon',
-        'bonne',
-        'exellent',
-        'excellent',
-        'excellente',
-        'genial',
-        'génial',
-        'incroyable',
-        'fantastique',
-        'parfait',
-        'parfaite',
-        'merveilleux',
-        'merveilleuse',
-        'jadore',
-        'adore',
-        'aimer',
-        'satisfait',
-        'satisfaisant',
-        'content',
-        'heureux',
-        'super',
-        'top',
-        'rapide',
-        'fiable',
-        'ameliore',
-        'améliore',
-        'reussi',
-        'réussi',
-        'correct',
-        // DE
-        'gut',
-        'gute',
-        'guter',
-        'guten',
-        'grossartig',
-        'großartig',
-        'ausgezeichnet',
-        'fantastisch',
-        'unglaublich',
-        'perfekt',
-        'wunderbar',
-        'liebe',
-        'mag',
-        'zufrieden',
-        'glucklich',
-        'glücklich',
-        'super',
-        'toll',
-        'klasse',
-        'top',
-        'schnell',
-        'schneller',
-        'stabil',
-        'zuverlassig',
-        'zuverlässig',
-        'verbessert',
-        'gelungen',
-        'prima',
-      ]);
-
-      // Negativos comunes (con variantes frecuentes):
-      const NEG_SET = new Set<string>([
-        // EN
-        'bad',
-        'terrible',
-        'horrible',
-        'hate',
-        'worst',
-        'awful',
-        'disgusting',
-        'gross',
-        'pathetic',
-        'useless',
-        'fail',
-        'failed',
-        'failure',
-        'broken',
-        'bug',
-        'bugs',
-        'buggy',
-        'crash',
-        'crashed',
-        'crashes',
-        'slow',
-        'slower',
-        'lag',
-        'laggy',
-        'scam',
-        'fraud',
-        'fake',
-        'poor',
-        'boring',
-        'annoying',
-        'disappointed',
-        'disappointing',
-        'sad',
-        'angry',
-        'upset',
-        'frustrating',
-        'frustration',
-        'stupid',
-        'dumb',
-        'sucks',
-        'trash',
-        'garbage',
-        'nonsense',
-        // ES
-        'malo',
-        'mala',
-        'malos',
-        'malas',
-        'terrible',
-        'horrible',
-        'odio',
-        'peor',
-        'pesimo',
-        'pésimo',
-        'fatal',
-        'asco',
-        'basura',
-        'inutil',
-        'inútil',
-        'falla',
-        'fallas',
-        'error',
-        'errores',
-        'roto',
-        'rota',
-        'lento',
-        'lenta',
-        'crashea',
-        'estafa',
-        'falso',
-        'falsa',
-        'aburrido',
-        'aburrida',
-        'molesto',
-        'molesta',
-        'decepcionado',
-        'decepcionada',
-        'frustrado',
-        'frustrada',
-        'verguenza',
-        'vergüenza',
-        'problema',
-        'problemas',
-        // FR
-        'mauvais',
-        'mauvaise',
-        'pire',
-        'terrible',
-        'horrible',
-        'deteste',
-        'déteste',
-        'nul',
-        'degueulasse',
-        'dégueulasse',
-        'honteux',
-        'inutile',
-        'echec',
-        'échec',
-        'bug',
-        'lent',
-        'lente',
-        'plante',
-        'plantee',
-        'planté',
-        'plantée',
-        'arnaque',
-        'faux',
-        'fausse',
-        'ennuyeux',
-        'decevant',
-        'décevant',
-        'deception',
-        'déception',
-        'frustrant',
-        'casse',
-        'cassé',
-        'cassée',
-        // DE
-        'schlecht',
-        'schlechte',
-        'schlechter',
-        'schlimm',
-        'schrecklich',
-        'furchtbar',
-        'hasse',
-        'mies',
-        'eklig',
-        'nutzlos',
-        'fehler',
-        'fehlerhaft',
-        'bug',
-        'absturz',
-        'abgesturzt',
-        'abgestürzt',
-        'langsam',
-        'kaputt',
-        'betrug',
-        'fake',
-        'enttauscht',
-        'enttäuscht',
-        'enttauschend',
-        'enttäuschend',
-        'frustrierend',
-        'langweilig',
-        'miserabel',
-        'problem',
-        'probleme',
-      ]);
+      const tokens = tokenize(text); // minúsculas, sin acentos ni apóstrofos
+
+      // --- Léxico del idioma (negaciones e intensificadores incluidos) ---
+      const detected =
+        language && language !== 'unknown' ? language : detectLexiconLanguage(text);
+      const lexiconLanguage: LexiconLanguage = detected === 'unknown' ? 'en' : detected;
+      const overrides = domainLexicon?.overridesFor(tokens, lexiconLanguage);
+      const lexical = scoreTokens(tokens, LEXICONS[lexiconLanguage], overrides);
 
       // --- Emojis mucho más completos (valencia en [-1, 1]) ---
       const EMOJI: Record<string, number> = {
@@ -417,14 +192,6 @@ class ConsolidatedRuleAnalyzer {
         '😿': -0.7,
       };
 
-      // --- Conteo léxico con límites de palabra ---
-      let pos = 0,
-        neg = 0;
-      for (const t of tokens) {
-        if (POS_SET.has(t)) pos++;
-        if (NEG_SET.has(t)) neg++;
-      }
-
       // --- Emojis (promedio ponderado por cantidad) ---
       let emojiScore = 0,
         emojiCount = 0;
@@ -442,7 +209,7 @@ class ConsolidatedRuleAnalyzer {
 
       // --- Puntuación simple y estable ---
       // léxico aporta ±0.25 por match; emojis aportan hasta ±0.5 (suavizado)
-      let score = pos * 0.25 - neg * 0.25;
+      let score = (lexical.positive - lexical.negative) * LEXICON_MATCH_WEIGHT;
       score += emojiAvg * Math.min(0.5, emojiCount * 0.15);
 
       // --- Clasificación ---
@@ -459,140 +226,19 @@ class ConsolidatedRuleAnalyzer {
       // --- Keywords (muy básicas) ---
       const keywords = tokens.filter((w) => w.length > 3).slice(0, 5);
 
-      // Detección simple de idioma (mejorable)
-      const spanishHints = new Set([
-        'de',
-        'la',
-        'que',
-        'el',
-        'en',
-        'y',
-        'a',
-        'los',
-        'se',
-        'del',
-        'las',
-        'por',
-        'un',
-        'para',
-        'con',
-        'no',
-        'una',
-        'su',
-        'al',
-        'es',
-        'lo',
-        'como',
-        'más',
-        'o',
-        'pero',
-        'sus',
-        'le',
-        'ya',
-        'si',
-        'porque',
-        'muy',
-        'sin',
-        'sobre',
-        'también',
-        'me',
-        'hasta',
-        'hay',
-        'donde',
-        'quien',
-        'desde',
-      ]);
-      const frenchHints = new Set([
-        'le',
-        'la',
-        'les',
-        'de',
-        'des',
-        'du',
-        'un',
-        'une',
-        'et',
-        'en',
-        'dans',
-        'que',
-        'qui',
-        'pour',
-        'pas',
-        'au',
-        'aux',
-        'sur',
-        'est',
-        'ce',
-        'se',
-        'ne',
-        'plus',
-        'avec',
-        'par',
-        'nous',
-        'vous',
-        'ils',
-        'elles',
-        'tout',
-        'mais',
-        'comme',
-      ]);
-      const germanHints = new Set([
-        'der',
-        'die',
-        'das',
-        'und',
-        'ist',
-        'nicht',
-        'mit',
-        'ein',
-        'eine',
-        'auf',
-        'zu',
-        'im',
-        'in',
-        'den',
-        'des',
-        'dem',
-        'von',
-        'für',
-        'als',
-        'auch',
-        'es',
-        'ich',
-        'du',
-        'wir',
-        'ihr',
-        'sie',
-        'aber',
-        'so',
-        'dass',
-        'wenn',
-        'oder',
-        'noch',
-      ]);
-      let lang = Language.ENGLISH;
-      if (tokens.some((t) => spanishHints.has(t))) lang = Language.SPANISH;
-      else if (tokens.some((t) => frenchHints.has(t))) lang = Language.FRENCH;
-      else if (tokens.some((t) => germanHints.has(t))) lang = Language.GERMAN;
-
-      const result: TextAnalysis = {
+      const result: RuleAnalysis = {
         sentiment: {
           score: Math.max(-1, Math.min(1, score)),
           magnitude: Math.abs(score),
           label,
           confidence,
-          emotions: {
-            joy: label === 'positive' ? confidence : 0,
-            sadness: label === 'negative' ? confidence * 0.7 : 0,
-            anger: label === 'negative' ? confidence * 0.8 : 0,
-            fear: label === 'negative' ? confidence * 0.5 : 0,
-            surprise: Math.abs(score) > 0.8 ? 0.3 * confidence : 0.1,
-            disgust: label === 'negative' ? confidence * 0.6 : 0,
-          },
         },
         keywords,
         entities: [],
-        language: lang,
+        language: detected === 'unknown' ? Language.UNKNOWN : (detected as Language),
+        tokens,
+        lexical,
+        overriddenTerms: overrides ? [...overrides.keys()] : [],
       };
 
       resolve(result);
@@ -602,10 +248,18 @@ class ConsolidatedRuleAnalyzer {
 export class SentimentAnalysisEngine implements AnalyzerEngine {
   private ruleBasedAnalyzer: ConsolidatedRuleAnalyzer;
   private naiveBayesAnalyzer: NaiveBayesSentimentService;
+  private languageModels: LanguageModelRouter;
   private bertAnalyzer: BertSentimentAnalyzerService | null = null;
   private hybridAnalyzer: AdvancedHybridAnalyzer;
+  private aspectAnalyzer: AspectSentimentAnalyzer;
+  private entityExtractor: EntityExtractor;
+  private emotionClassifier: EmotionClassifier;
+  private sarcasmDetector: SarcasmDetector;
   private engineVersion = '2.0.0';
   private bertEnabled: boolean = false;
+  private modelFingerprint: string | null = null; // invalidated on train/loadModel
+  private hybridWeights: HybridWeights | null = null; // null: auto weights per text
+  private stages: Record<string, AnalyzerStage>; // engine-bound stages of the pipeline
 
   constructor() {
     this.ruleBasedAnalyzer = new ConsolidatedRuleAnalyzer();
@@ -617,9 +271,70 @@ export class SentimentAnalysisEngine implements AnalyzerEngine {
       enableStopwords: true
     });
     this.hybridAnalyzer = new AdvancedHybridAnalyzer();
-    
+    // Las cláusulas son cortas: el analizador de reglas es más fiable que NB aquí
+    const clauseScorer: ClauseScorer = async (clause) => {
+      const { sentiment } = await this.ruleBasedAnalyzer.analyze(clause);
+      return {
+        label: sentiment.label as SentimentLabel,
+        score: sentiment.score,
+        confidence: sentiment.confidence,
+      };
+    };
+    this.aspectAnalyzer = new AspectSentimentAnalyzer(clauseScorer);
+    this.entityExtractor = new EntityExtractor(clauseScorer);
+
     // Bootstrap with default datasets for compatibility
     this.naiveBayesAnalyzer.bootstrap();
+
+    // Modelos por idioma; el multilingüe queda como respaldo
+    this.languageModels = new LanguageModelRouter(this.naiveBayesAnalyzer);
+    this.languageModels.bootstrap();
+
+    this.emotionClassifier = new EmotionClassifier();
+    this.emotionClassifier.train(emotionTrainingDataset);
+
+    this.sarcasmDetector = new SarcasmDetector();
+    this.sarcasmDetector.train(getSarcasmTrainingExamples());
+
+    this.stages = this.createEngineStages();
+  }
+
+  /**
+   * Stages backed by this engine's own models; the pipeline config decides
+   * which of them vote and with what weight.
+   */
+  private createEngineStages(): Record<string, AnalyzerStage> {
+    return {
+      rules: {
+        name: 'rules',
+        analyze: async ({ text, language, request }) => {
+          const { sentiment } = await this.ruleBasedAnalyzer.analyze(
+            text,
+            language,
+            getSharedOrganizationLexicons().resolve(request)
+          );
+          return {
+            label: sentiment.label,
+            confidence: sentiment.confidence,
+            score: sentiment.score,
+          };
+        },
+      },
+      'naive-bayes': {
+        name: 'naive-bayes',
+        analyze: async ({ text, language }) =>
+          this.languageModels.forLanguage(language).predict(text),
+      },
+      bert: {
+        name: 'bert',
+        isAvailable: () => this.isBertEnabled(),
+        analyze: async ({ text }) => {
+          const bertResult = await this.bertAnalyzer!.predict(text);
+          console.log(`[SentimentEngine] BERT prediction: ${JSON.stringify(bertResult)}`);
+          return bertResult;
+        },
+      },
+    };
   }
 
   /**
@@ -656,6 +371,70 @@ export class SentimentAnalysisEngine implements AnalyzerEngine {
    */
   train(examples: NaiveBayesTrainingExample[]): void {
     this.naiveBayesAnalyzer.train(examples);
+    this.modelFingerprint = null;
+  }
+
+  /**
+   * Retrains the per-language Naive Bayes models (default datasets if no
+   * examples are given).
+   * @returns Number of training examples per language
+   */
+  trainLanguageModels(examples?: NaiveBayesTrainingExample[]): Record<LexiconLanguage, number> {
+    const counts = this.languageModels.bootstrap(examples);
+    this.modelFingerprint = null;
+    return counts;
+  }
+
+  /**
+   * Adds multi-label examples to the emotion classifier.
+   * @param examples - Texts with the emotions they express (possibly none).
+   */
+  trainEmotions(examples: EmotionTrainingExample[]): void {
+    this.emotionClassifier.train(examples);
+    this.modelFingerprint = null;
+  }
+
+  /**
+   * Refits the sarcasm stage on labelled examples (replaces the previous fit).
+   * @param examples - Texts marked as sarcastic or not.
+   */
+  trainSarcasm(examples: SarcasmTrainingExample[]): void {
+    this.sarcasmDetector.train(examples);
+    this.modelFingerprint = null;
+  }
+
+  /**
+   * Fixes the Naive Bayes / rule weights of the hybrid (when they are the only
+   * votes of the pipeline) instead of deriving them from each text. Pass null to
+   * go back to auto weights.
+   */
+  setHybridWeights(weights: HybridWeights | null): void {
+    if (weights && !(weights.naive >= 0 && weights.rule >= 0 && weights.naive + weights.rule > 0)) {
+      throw new Error('Hybrid weights must be non-negative and not both zero');
+    }
+    this.hybridWeights = weights ? { naive: weights.naive, rule: weights.rule } : null;
+  }
+
+  /**
+   * Version of the results this engine produces: engine version, BERT on/off,
+   * fixed hybrid weights and a fingerprint of the Naive Bayes (shared and
+   * per-language), emotion and sarcasm models, so retraining changes it.
+   */
+  getVersion(): string {
+    if (!this.modelFingerprint) {
+      this.modelFingerprint = createHash('sha1')
+        .update(JSON.stringify(this.naiveBayesAnalyzer.serialize()))
+        .update(JSON.stringify(this.languageModels.serialize()))
+        .update(JSON.stringify(this.emotionClassifier.serialize()))
+        .update(JSON.stringify(this.sarcasmDetector.serialize()))
+        .digest('hex')
+        .slice(0, 12);
+    }
+    const mode = this.isBertEnabled() ? 'bert-hybrid' : 'unified';
+    const weights = this.hybridWeights
+      ? `+w.${this.hybridWeights.naive}-${this.hybridWeights.rule}`
+      : '';
+    return `${this.engineVersion}-${mode}+nb.${this.modelFingerprint}${weights}`;
   }
 
   /**
@@ -667,6 +446,18 @@ export class SentimentAnalysisEngine implements AnalyzerEngine {
     // A bit of a hack as the service doesn't expose a setter.
     // In a real scenario, the NaiveBayesSentimentService would be refactored.
     (this.naiveBayesAnalyzer as any).classifier = classifier;
+    this.modelFingerprint = null;
+  }
+
+  /**
+   * Replaces the Naive Bayes model with a serialized one (e.g. a registry version).
+   * The loaded model serves every language, so the per-language models are dropped.
+   * @param state - Output of NaiveBayesSentimentService.serialize().
+   */
+  loadNaiveBayesModel(state: NaiveBayesModelState): void {
+    this.naiveBayesAnalyzer.deserialize(state);
+    this.languageModels.clear();
+    this.modelFingerprint = null;
   }
 
   /**
@@ -689,117 +480,353 @@ export class SentimentAnalysisEngine implements AnalyzerEngine {
   }
 
   /**
-   * Enhanced hybrid analysis method with BERT integration
+   * Analyzes a batch of requests in one pass.
+   * Texts are grouped by resolved language so each Naive Bayes model scores its
+   * group as a single matrix (`predictBatch`); the rest of the pipeline runs per item.
+   * @param requests - Requests to analyze.
+   * @returns One entry per request, in order: the result, or the Error that item failed with.
    */
-  private async analyzeBasic(request: AnalysisRequest): Promise<AnalysisResult> {
-    const { text, language = 'en' } = request;
+  public async analyzeBatch(requests: AnalysisRequest[]): Promise<Array<AnalysisResult | Error>> {
+    const precomputed: Array<PrecomputedAnalysis | undefined> = new Array(requests.length);
+    const groups = new Map<LanguageCode, number[]>();
 
-    // 1. Get predictions from rule-based and Naive Bayes analyzers.
-    const ruleResultPromise = this.ruleBasedAnalyzer.analyze(text);
-    const naiveResult = this.naiveBayesAnalyzer.predict(text);
+    requests.forEach((request, i) => {
+      // Explain mode needs the per-token evidence, scored on its own in analyzeBasic
+      if (request.explain || typeof request.text !== 'string') return;
+      const language = this.resolveLanguage(request.text, request.language);
+      groups.set(language, [...(groups.get(language) ?? []), i]);
+    });
 
-    // 2. Get BERT prediction if enabled and available
-    let bertResult = null;
-    if (this.isBertEnabled() && this.bertAnalyzer) {
+    for (const [language, indices] of groups) {
       try {
-        bertResult = await this.bertAnalyzer.predict(text);
-        console.log(`[SentimentEngine] BERT prediction: ${JSON.stringify(bertResult)}`);
+        const predictions = this.languageModels
+          .forLanguage(language)
+          .predictBatch(indices.map((i) => requests[i].text));
+        indices.forEach((index, j) => {
+          precomputed[index] = { language, naiveResult: predictions[j] };
+        });
       } catch (error) {
-        console.error(
-          '[SentimentEngine] BERT analysis failed, falling back to standard hybrid analysis',
-          error
-        );
+        // Sin predicción previa cada elemento se analiza (y falla) por separado
+        console.error('[SentimentEngine] Batch Naive Bayes failed, scoring items one by one', error);
       }
     }
 
-    const ruleResult = await ruleResultPromise;
+    await this.precomputeBert(requests, precomputed);
 
-    // 3. Use the advanced hybrid analyzer to get a unified result.
-    let hybridPrediction;
-
-    if (bertResult) {
-      // If BERT is available, use it with other analyzers in enhanced hybrid mode
-      hybridPrediction = this.hybridAnalyzer.predictWithCustomWeights(
-        text,
-        [
-          {
-            prediction: naiveResult,
-            weight: 0.25,
-          },
-          {
-            prediction: {
-              label: ruleResult.sentiment.label,
-              confidence: ruleResult.sentiment.confidence,
-              score: ruleResult.sentiment.score,
-            },
-            weight: 0.25,
-          },
-          {
-            prediction: {
-              label: bertResult.label,
-              confidence: bertResult.confidence,
-              score: bertResult.score,
-            },
-            weight: 0.5,
-          },
-        ],
-        language
+    return Promise.all(
+      requests.map((request, i) =>
+        this.analyzeBasic(request, precomputed[i]).catch((error: unknown) =>
+          error instanceof Error ? error : new Error(String(error))
+        )
+      )
+    );
+  }
+
+  /**
+   * Runs BERT once over the batch items whose pipeline has a BERT stage, so the
+   * local model sees full batches instead of one text per call.
+   */
+  private async precomputeBert(
+    requests: AnalysisRequest[],
+    precomputed: Array<PrecomputedAnalysis | undefined>
+  ): Promise<void> {
+    if (!this.isBertEnabled()) return;
+
+    const indices = requests
+      .map((_, i) => i)
+      .filter(
+        (i) =>
+          precomputed[i] &&
+          resolvePipeline(requests[i].campaignId).stages.some(
+            (stage) =>
+              stage.enabled !== false && (stage.stage === 'bert' || stage.fallback === 'bert')
+          )
       );
-    } else {
-      // Fall back to original hybrid analysis without BERT
-      hybridPrediction = this.hybridAnalyzer.predictWithAutoWeights(
-        text,
-        naiveResult,
-        {
+    if (indices.length === 0) return;
+
+    const predictions = await this.bertAnalyzer!.predictBatch(indices.map((i) => requests[i].text));
+    indices.forEach((index, j) => {
+      precomputed[index]!.bertResult = predictions[j];
+    });
+  }
+
+  /**
+   * Scores each aspect mentioned in the text on the clause around it.
+   * @param text - Original text; returned spans are offsets into it.
+   * @param dictionary - Aspect dictionary (e.g. per campaign); defaults to the built-in one.
+   * @returns One entry per aspect and clause.
+   */
+  public async analyzeAspects(
+    text: string,
+    dictionary?: AspectDictionary
+  ): Promise<AspectSentiment[]> {
+    return this.aspectAnalyzer.analyze(text, dictionary);
+  }
+
+  /**
+   * Finds the given entities (brands, products, people, places) in the text and
+   * scores the clause around each mention.
+   * @param text - Original text; returned spans are offsets into it.
+   * @param definitions - Entities and their aliases (e.g. per campaign).
+   * @returns One entry per entity and clause.
+   */
+  public async analyzeEntities(
+    text: string,
+    definitions: readonly EntityDefinition[]
+  ): Promise<EntityMention[]> {
+    return this.entityExtractor.extract(text, definitions);
+  }
+
+  /**
+   * Enhanced hybrid analysis method with BERT integration
+   */
+  private async analyzeBasic(
+    request: AnalysisRequest,
+    precomputed?: PrecomputedAnalysis
+  ): Promise<AnalysisResult> {
+    const { text } = request;
+
+    // 1. Resolve the language and route to its lexicon and Naive Bayes model
+    //    (analyzeBatch already did both for the whole batch).
+    const language = precomputed?.language ?? this.resolveLanguage(text, request.language);
+    // Léxico de la organización de la campaña (preparado por el orquestador)
+    const domainLexicon = getSharedOrganizationLexicons().resolve(request);
+    const ruleResultPromise = this.ruleBasedAnalyzer.analyze(text, language, domainLexicon);
+    const naiveModel = this.languageModels.forLanguage(language);
+    const naiveResult =
+      precomputed?.naiveResult ??
+      (request.explain ? naiveModel.explain(text) : naiveModel.predict(text));
+    // El híbrido detecta por su cuenta cuando no sabemos el idioma
+    const hybridLanguage = language === 'unknown' ? undefined : language;
+
+    const ruleResult = await ruleResultPromise;
+
+    // 2. Run the pipeline configured for this deployment or campaign. Rules and
+    //    Naive Bayes are always computed (keywords, emotions, explanation), so
+    //    their votes are reused instead of running them again.
+    const pipeline = resolvePipeline(request.campaignId);
+    const run = await runPipeline(
+      pipeline,
+      this.stages,
+      { text, language, tokens: ruleResult.tokens, request },
+      {
+        rules: {
           label: ruleResult.sentiment.label,
           confidence: ruleResult.sentiment.confidence,
           score: ruleResult.sentiment.score,
         },
-        language
-      );
-    }
+        'naive-bayes': naiveResult,
+        ...(precomputed?.bertResult && { bert: precomputed.bertResult }),
+      }
+    );
+    const bertResult = run.components.find((vote) => vote.stage === 'bert')?.prediction ?? null;
 
-    // 4. Construct the final, unified AnalysisResult.
-    const signals = this.buildSignalBreakdown(hybridPrediction.features, ruleResult.keywords);
+    // 3. Combine the votes into a unified result.
+    const hybridPrediction = this.combine(text, pipeline, run, ruleResult, hybridLanguage);
 
-    const lang = hybridPrediction.features.language;
+    const lang = language !== 'unknown' ? language : hybridPrediction.features.language;
     const detectedLanguage: LanguageCode = ['en', 'es', 'fr', 'de', 'unknown'].includes(lang)
       ? (lang as LanguageCode)
       : 'unknown';
 
+    // 4. Sarcasm stage: a likely sarcastic positive prediction is flipped or dampened.
+    const sarcasm =
+      request.allowSarcasmDetection === false
+        ? null
+        : applySarcasm(hybridPrediction, this.sarcasmDetector.detect(text, detectedLanguage));
+    const prediction = sarcasm?.prediction ?? hybridPrediction;
+
+    // 5. Construct the final, unified AnalysisResult.
+    const signals = this.buildSignalBreakdown(
+      hybridPrediction.features,
+      ruleResult.keywords,
+      ruleResult.lexical.negationFlips,
+      sarcasm?.signal
+    );
+    if (domainLexicon && ruleResult.overriddenTerms.length > 0) {
+      signals.organizationLexicon = {
+        organizationId: domainLexicon.organizationId,
+        terms: ruleResult.overriddenTerms,
+      };
+    }
+
+    const aspects = request.aspectMode
+      ? await this.analyzeAspects(text, request.aspectDictionary)
+      : undefined;
+    const entities = request.entities?.length
+      ? await this.analyzeEntities(text, request.entities)
+      : undefined;
+
     return {
       sentiment: {
-        label: hybridPrediction.label as SentimentLabel,
-        score: hybridPrediction.score,
-        magnitude: Math.abs(hybridPrediction.score),
-        confidence: hybridPrediction.confidence,
-        emotions: {
-          joy: hybridPrediction.score > 0.5 ? hybridPrediction.confidence : 0,
-          sadness: hybridPrediction.score < -0.5 ? hybridPrediction.confidence * 0.7 : 0,
-          anger: hybridPrediction.score < -0.5 ? hybridPrediction.confidence * 0.8 : 0,
-          fear: hybridPrediction.score < -0.3 ? hybridPrediction.confidence * 0.5 : 0,
-          surprise: Math.abs(hybridPrediction.score) > 0.8 ? hybridPrediction.confidence * 0.3 : 0,
-          disgust: hybridPrediction.score < -0.6 ? hybridPrediction.confidence * 0.6 : 0,
-        },
+        label: prediction.label as SentimentLabel,
+        score: prediction.score,
+        magnitude: Math.abs(prediction.score),
+        confidence: prediction.confidence,
+        // Léxico de emociones + clasificador multi-etiqueta, sin mirar la polaridad
+        emotions: analyzeEmotions(
+          text,
+          detectedLanguage,
+          this.emotionClassifier,
+          ruleResult.tokens
+        ),
       },
       keywords: ruleResult.keywords,
       language: detectedLanguage,
       signals,
+      ...(aspects && { aspects }),
+      ...(entities && { entities }),
+      ...(request.explain && {
+        explanation: this.buildExplanation(
+          text,
+          detectedLanguage,
+          ruleResult,
+          naiveResult,
+          run,
+          hybridPrediction,
+          signals.sarcasmScore ?? 0
+        ),
+      }),
       version: bertResult ? '2.0.0-bert-hybrid' : '1.0.0-unified',
     };
   }
 
+  /**
+   * Combines the pipeline votes. With the `auto` combiner, Naive Bayes and rules
+   * alone use the hybrid's per-text weights (or the fixed ones of
+   * setHybridWeights); any other set of votes is weighted as configured.
+   */
+  private combine(
+    text: string,
+    pipeline: PipelineDefinition,
+    run: PipelineRun,
+    ruleResult: RuleAnalysis,
+    language?: string
+  ): HybridPrediction {
+    const votes = run.components;
+    const naive = votes.find((vote) => vote.stage === 'naive-bayes');
+    const rule = votes.find((vote) => vote.stage === 'rules');
+
+    if (votes.length === 2 && naive && rule) {
+      if (this.hybridWeights) {
+        // Candidate weighting under evaluation (see setHybridWeights)
+        return this.hybridAnalyzer.predictWithCustomWeights(
+          text,
+          [
+            { prediction: naive.prediction, weight: this.hybridWeights.naive },
+            { prediction: rule.prediction, weight: this.hybridWeights.rule },
+          ],
+          language
+        );
+      }
+      if (pipeline.combiner === 'auto') {
+        return this.hybridAnalyzer.predictWithAutoWeights(
+          text,
+          naive.prediction,
+          rule.prediction,
+          language
+        );
+      }
+    }
+
+    const weighted = votes.filter((vote) => vote.weight > 0);
+    return this.hybridAnalyzer.predictWithCustomWeights(
+      text,
+      weighted.length > 0
+        ? weighted.map(({ prediction, weight }) => ({ prediction, weight }))
+        : // Ninguna etapa votó: decide el analizador de reglas
+          [
+            {
+              prediction: {
+                label: ruleResult.sentiment.label,
+                confidence: ruleResult.sentiment.confidence,
+                score: ruleResult.sentiment.score,
+              },
+              weight: 1,
+            },
+          ],
+      language
+    );
+  }
+
+  /**
+   * Assembles the token-level explanation for explain mode.
+   */
+  private buildExplanation(
+    text: string,
+    language: LanguageCode,
+    ruleResult: RuleAnalysis,
+    naiveResult: NaiveBayesExplanation | SentimentPrediction,
+    run: PipelineRun,
+    hybridPrediction: HybridPrediction,
+    sarcasmScore: number
+  ): SentimentExplanation {
+    const { ruleTokens, negationScopes } = explainLexicalScore(
+      ruleResult.tokens,
+      ruleResult.lexical,
+      LEXICON_MATCH_WEIGHT
+    );
+
+    const components: Record<string, ComponentPrediction> = {
+      naive: { label: naiveResult.label, confidence: naiveResult.confidence },
+      rule: {
+        label: ruleResult.sentiment.label,
+        confidence: ruleResult.sentiment.confidence,
+        score: ruleResult.sentiment.score,
+      },
+    };
+    // Votos de las demás etapas del pipeline (bert, léxicos de dominio...)
+    for (const vote of run.components) {
+      if (vote.stage !== 'rules' && vote.stage !== 'naive-bayes') {
+        components[vote.stage] = vote.prediction;
+      }
+    }
+
+    return {
+      language,
+      ruleTokens,
+      negationScopes,
+      naiveBayes: {
+        label: naiveResult.label,
+        confidence: naiveResult.confidence,
+        tokens: 'tokens' in naiveResult ? naiveResult.tokens : [],
+      },
+      slang: findSlangHits(text),
+      sarcasmScore,
+      hybrid: {
+        weights: hybridPrediction.weights,
+        components,
+        explanation: hybridPrediction.explanation,
+        pipeline: run.pipeline,
+      },
+    };
+  }
+
+  /**
+   * Uses the requested language when it is a supported one, otherwise detects it.
+   */
+  private resolveLanguage(text: string, requested?: LanguageCode): LanguageCode {
+    if (requested && requested !== 'unknown') return requested;
+    return detectLexiconLanguage(text);
+  }
+
   /**
    * Helper to assemble the signal breakdown from various analysis features.
    */
-  private buildSignalBreakdown(features: ContextualFeatures, keywords: string[]): SignalBreakdown {
+  private buildSignalBreakdown(
+    features: ContextualFeatures,
+    keywords: string[],
+    negationFlips: number,
+    sarcasm?: SarcasmSignal
+  ): SignalBreakdown {
     return {
       tokens: keywords,
       ngrams: {}, // Placeholder for future n-gram analysis
       emojis: {}, // Placeholder for future emoji analysis
-      negationFlips: 0, // Placeholder
+      negationFlips,
       intensifierBoost: features.emotionalWords,
-      sarcasmScore: features.sarcasmIndicators,
+      sarcasmScore: sarcasm?.probability ?? 0, // 0 when the sarcasm stage is disabled
+      ...(sarcasm && { sarcasm }),
     };
   }
 
@@ -809,4 +836,11 @@ export class SentimentAnalysisEngine implements AnalyzerEngine {
   public getNaiveBayesAnalyzer(): NaiveBayesSentimentService {
     return this.naiveBayesAnalyzer;
   }
+
+  /**
+   * Naive Bayes model used for the given language (shared model if none was trained)
+   */
+  public getNaiveBayesAnalyzerFor(language: LanguageCode): NaiveBayesSentimentService {
+    return this.languageModels.forLanguage(language);
+  }
 }
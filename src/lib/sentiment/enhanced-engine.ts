@@ -4,9 +4,26 @@
  */
 
 import { AdvancedTextPreprocessor } from '../../services/advanced-text-preprocessor.service';
+import type { NaiveBayesModelState } from '../../services/model-registry.service';
 import { logger } from '../observability/logger';
 import { SentimentAnalysisEngine } from './engine';
-import { AnalysisRequest, AnalysisResult } from './types';
+import { findSlangHits } from './explainer';
+import {
+  AnalysisRequest,
+  AnalysisResult,
+  AspectDictionary,
+  AspectSentiment,
+  EntityDefinition,
+  EntityMention,
+  HybridWeights,
+} from './types';
+
+// Resultado del preprocesado de una petición, previo al análisis base
+interface PreparedRequest {
+  preprocessed: ReturnType<typeof AdvancedTextPreprocessor.preprocess>;
+  features: ReturnType<typeof AdvancedTextPreprocessor.extractFeatures>;
+  enhancedRequest: AnalysisRequest;
+}
 
 export class EnhancedSentimentEngine {
   private baseEngine: SentimentAnalysisEngine;
@@ -22,64 +39,141 @@ export class EnhancedSentimentEngine {
     const startTime = Date.now();
     
     try {
-      // 1. PREPROCESAMIENTO AVANZADO
-      const preprocessed = AdvancedTextPreprocessor.preprocess(request.text);
-      const features = AdvancedTextPreprocessor.extractFeatures(request.text);
-      
-      logger.debug('Advanced preprocessing completed', {
-        originalText: request.text.substring(0, 50),
-        normalizedText: preprocessed.normalizedText.substring(0, 50),
+      const prepared = this.prepare(request);
+      const baseResult = await this.baseEngine.analyze(prepared.enhancedRequest);
+      return await this.finish(request, prepared, baseResult, startTime);
+    } catch (error) {
+      return this.fallback(request, error);
+    }
+  }
+
+  /**
+   * Analiza un lote: preprocesa cada texto y pasa el lote completo al motor base
+   * (NB vectorizado). Devuelve, en orden, el resultado o el Error de cada elemento.
+   */
+  async analyzeBatch(requests: AnalysisRequest[]): Promise<Array<AnalysisResult | Error>> {
+    const startTime = Date.now();
+    const prepared = requests.map((request) => {
+      try {
+        return this.prepare(request);
+      } catch {
+        return null; // se resuelve con el fallback al motor base
+      }
+    });
+
+    const baseResults = await this.baseEngine.analyzeBatch(
+      requests.map((request, i) => prepared[i]?.enhancedRequest ?? request)
+    );
+
+    return Promise.all(
+      baseResults.map(async (baseResult, i) => {
+        const item = prepared[i];
+        try {
+          if (baseResult instanceof Error) throw baseResult;
+          if (!item) throw new Error('Preprocessing failed');
+          return await this.finish(requests[i], item, baseResult, startTime);
+        } catch (error) {
+          return this.fallback(requests[i], error).catch((fallbackError: unknown) =>
+            fallbackError instanceof Error ? fallbackError : new Error(String(fallbackError))
+          );
+        }
+      })
+    );
+  }
+
+  /**
+   * 1. PREPROCESAMIENTO AVANZADO
+   */
+  private prepare(request: AnalysisRequest): PreparedRequest {
+    const preprocessed = AdvancedTextPreprocessor.preprocess(request.text);
+    const features = AdvancedTextPreprocessor.extractFeatures(request.text);
+    
+    logger.debug('Advanced preprocessing completed', {
+      originalText: request.text.substring(0, 50),
+      normalizedText: preprocessed.normalizedText.substring(0, 50),
+      hasSlang: preprocessed.features.hasSlang,
+      emojiSentiment: preprocessed.features.emojiSentiment,
+      intensifiers: preprocessed.features.intensifiers
+    });
+
+    // 2. ANÁLISIS BASE CON TEXTO NORMALIZADO
+    // Los aspectos se calculan sobre el texto original para que los spans
+    // apunten a offsets válidos del texto que envió el cliente.
+    const enhancedRequest: AnalysisRequest = {
+      ...request,
+      text: preprocessed.normalizedText,
+      aspectMode: false
+    };
+
+    return { preprocessed, features, enhancedRequest };
+  }
+
+  private async finish(
+    request: AnalysisRequest,
+    { preprocessed, features }: PreparedRequest,
+    baseResult: AnalysisResult,
+    startTime: number
+  ): Promise<AnalysisResult> {
+    const aspects = request.aspectMode
+      ? await this.baseEngine.analyzeAspects(request.text, request.aspectDictionary)
+      : undefined;
+    const entities = request.entities?.length
+      ? await this.baseEngine.analyzeEntities(request.text, request.entities)
+      : undefined;
+    
+    // 3. AJUSTES INTELIGENTES BASADOS EN CARACTERÍSTICAS
+    const adjustedResult = this.applyIntelligentAdjustments(
+      baseResult,
+      preprocessed.features,
+      features,
+      request.text
+    );
+    
+    // La explicación del motor base se calculó sobre el texto normalizado
+    // (el slang ya sustituido): el slang se busca en el original y se
+    // registra el ajuste final para que cuadre con la etiqueta devuelta.
+    const explanation = baseResult.explanation && {
+      ...baseResult.explanation,
+      slang: findSlangHits(request.text),
+      adjustment: {
+        before: { label: baseResult.sentiment.label, score: baseResult.sentiment.score },
+        after: { label: adjustedResult.sentiment.label, score: adjustedResult.sentiment.score }
+      }
+    };
+    
+    // 4. MÉTRICAS DE PROCESAMIENTO
+    const processingTime = Date.now() - startTime;
+    
+    // Agregar características a la información de señales
+    const enhancedSignals = {
+      ...adjustedResult.signals,
+      preprocessingFeatures: {
         hasSlang: preprocessed.features.hasSlang,
         emojiSentiment: preprocessed.features.emojiSentiment,
-        intensifiers: preprocessed.features.intensifiers
-      });
+        intensifiers: preprocessed.features.intensifiers,
+        mentionContext: preprocessed.features.mentionContext
+      },
+      textFeatures: features,
+      processingTime
+    };
+    
+    return {
+      ...adjustedResult,
+      signals: enhancedSignals,
+      ...(aspects && { aspects }),
+      ...(entities && { entities }),
+      ...(explanation && { explanation })
+    };
+  }
 
-      // 2. ANÁLISIS BASE CON TEXTO NORMALIZADO
-      const enhancedRequest: AnalysisRequest = {
-        ...request,
-        text: preprocessed.normalizedText
-      };
-      
-      const baseResult = await this.baseEngine.analyze(enhancedRequest);
-      
-      // 3. AJUSTES INTELIGENTES BASADOS EN CARACTERÍSTICAS
-      const adjustedResult = this.applyIntelligentAdjustments(
-        baseResult,
-        preprocessed.features,
-        features,
-        request.text
-      );
-      
-      // 4. MÉTRICAS DE PROCESAMIENTO
-      const processingTime = Date.now() - startTime;
-      
-      // Agregar características a la información de señales
-      const enhancedSignals = {
-        ...adjustedResult.signals,
-        preprocessingFeatures: {
-          hasSlang: preprocessed.features.hasSlang,
-          emojiSentiment: preprocessed.features.emojiSentiment,
-          intensifiers: preprocessed.features.intensifiers,
-          mentionContext: preprocessed.features.mentionContext
-        },
-        textFeatures: features,
-        processingTime
-      };
-      
-      return {
-        ...adjustedResult,
-        signals: enhancedSignals
-      };
-      
-    } catch (error) {
-      logger.error('Enhanced sentiment analysis failed', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        text: request.text.substring(0, 50)
-      });
-      
-      // Fallback al motor base si falla el preprocesamiento
-      return await this.baseEngine.analyze(request);
-    }
+  private async fallback(request: AnalysisRequest, error: unknown): Promise<AnalysisResult> {
+    logger.error('Enhanced sentiment analysis failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      text: request.text.substring(0, 50)
+    });
+    
+    // Fallback al motor base si falla el preprocesamiento
+    return await this.baseEngine.analyze(request);
   }
 
   /**
@@ -221,8 +315,39 @@ export class EnhancedSentimentEngine {
     return this.baseEngine.isBertEnabled();
   }
 
+  async analyzeAspects(
+    text: string,
+    dictionary?: AspectDictionary
+  ): Promise<AspectSentiment[]> {
+    return this.baseEngine.analyzeAspects(text, dictionary);
+  }
+
+  async analyzeEntities(
+    text: string,
+    definitions: readonly EntityDefinition[]
+  ): Promise<EntityMention[]> {
+    return this.baseEngine.analyzeEntities(text, definitions);
+  }
+
+  /**
+   * Versión de los resultados (preprocesado + motor base); forma parte de la clave de caché
+   */
   getVersion(): string {
-    return `enhanced-v1.0-precision-improved`;
+    return `enhanced-v1.0-precision-improved/${this.baseEngine.getVersion()}`;
+  }
+
+  /**
+   * Carga un modelo Naive Bayes serializado en el motor base (cambia la versión)
+   */
+  loadNaiveBayesModel(state: NaiveBayesModelState): void {
+    this.baseEngine.loadNaiveBayesModel(state);
+  }
+
+  /**
+   * Pesos fijos del híbrido en el motor base (null: automáticos)
+   */
+  setHybridWeights(weights: HybridWeights | null): void {
+    this.baseEngine.setHybridWeights(weights);
   }
 
   /**
@@ -0,0 +1,109 @@
+/**
+ * Entity Extractor
+ * Localiza marcas, productos, personas y lugares de un diccionario de alias
+ * (por campaña) y puntúa la cláusula de cada mención, de modo que "love my
+ * Pixel, Samsung support is a joke" da una mención positiva y otra negativa
+ * en lugar del sentimiento global del tweet para las dos marcas.
+ */
+import {
+  ClauseScorer,
+  clauseAt,
+  findTerm,
+  normalize,
+  scoreClause,
+  splitSentences,
+} from './aspect-analyzer';
+import { EntityDefinition, EntityMention, EntityType } from './types';
+
+export const ENTITY_TYPES: readonly EntityType[] = ['brand', 'product', 'person', 'place'];
+
+interface EntityMatch {
+  definition: EntityDefinition;
+  alias: string;
+  index: number;
+  end: number;
+}
+
+export class EntityExtractor {
+  constructor(private readonly scorer: ClauseScorer) {}
+
+  /**
+   * Extrae las entidades mencionadas en el texto.
+   * @param text - Texto original (los spans devueltos se refieren a él)
+   * @param definitions - Entidades a seguir y sus alias
+   * @returns Una mención por entidad y cláusula
+   */
+  async extract(text: string, definitions: readonly EntityDefinition[]): Promise<EntityMention[]> {
+    const matches = EntityExtractor.findMentions(text, definitions);
+    if (matches.length === 0) return [];
+
+    const sentences = splitSentences(text);
+    const results: EntityMention[] = [];
+    const seen = new Set<string>();
+
+    for (const match of matches) {
+      const scope = clauseAt(sentences, match.index);
+      if (!scope) continue;
+
+      const key = `${match.definition.name}:${scope.clause.start}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      results.push({
+        entity: match.definition.name,
+        type: match.definition.type,
+        alias: match.alias,
+        competitor: match.definition.competitor ?? false,
+        ...(await scoreClause(this.scorer, scope)),
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Localiza los alias sin distinguir mayúsculas ni acentos. Un alias también
+   * encuentra su @usuario y su #hashtag. Si dos alias se solapan ("Apple" y
+   * "Apple Watch") gana el más largo.
+   */
+  static findMentions(text: string, definitions: readonly EntityDefinition[]): EntityMatch[] {
+    const haystack = normalize(text);
+    const candidates: EntityMatch[] = [];
+
+    for (const definition of definitions) {
+      const aliases = definition.aliases.length > 0 ? definition.aliases : [definition.name];
+      for (const alias of aliases) {
+        for (const { index, end } of findTerm(haystack, alias)) {
+          candidates.push({ definition, alias, index, end });
+        }
+      }
+    }
+
+    candidates.sort((a, b) => a.index - b.index || b.end - a.end);
+    const matches: EntityMatch[] = [];
+    for (const candidate of candidates) {
+      const previous = matches[matches.length - 1];
+      if (previous && candidate.index < previous.end) continue;
+      matches.push(candidate);
+    }
+    return matches;
+  }
+}
+
+/**
+ * Convierte las entidades configuradas en una campaña al formato del motor.
+ * Una entidad sin alias usa su propio nombre como alias.
+ */
+export function campaignEntitiesToDefinitions(
+  entities:
+    | ReadonlyArray<{ name: string; type: EntityType; aliases: string[]; competitor?: boolean }>
+    | undefined
+): EntityDefinition[] | undefined {
+  if (!entities || entities.length === 0) return undefined;
+  return entities.map(({ name, type, aliases, competitor }) => ({
+    name,
+    type,
+    aliases: aliases && aliases.length > 0 ? [...aliases] : [name],
+    competitor: competitor ?? false,
+  }));
+}
@@ -0,0 +1,85 @@
+/**
+ * Sentiment explanation helpers
+ * Construyen la explicación token a token que devuelve el motor cuando se
+ * pide `explain`: aportes del léxico, negaciones, evidencias de Naive Bayes,
+ * slang detectado y cómo el híbrido combinó cada componente.
+ */
+import { modernSlangVocabulary } from '../../data/modern-slang-vocabulary';
+import { LexiconScore } from './lexicons';
+import { NegationScope, SlangHit, TokenContribution } from './types';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Se compilan una sola vez; los términos de una letra ("W", "L") solo
+// cuentan en mayúscula para no marcar cualquier "w" suelta.
+const SLANG_PATTERNS = modernSlangVocabulary.map((slang) => ({
+  slang,
+  pattern: new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(slang.term)}(?![\\p{L}\\p{N}])`,
+    slang.term.length > 1 ? 'giu' : 'gu'
+  ),
+}));
+
+/**
+ * Localiza en el texto original los términos de `modernSlangVocabulary`.
+ * Si un término está contenido en otro más largo ("goated" en "lowkey goated")
+ * solo se conserva el más largo.
+ */
+export function findSlangHits(text: string): SlangHit[] {
+  const hits: SlangHit[] = [];
+  for (const { slang, pattern } of SLANG_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      hits.push({
+        term: slang.term,
+        sentiment: slang.sentiment,
+        weight: slang.weight,
+        start,
+        end: start + match[0].length,
+      });
+    }
+  }
+
+  return hits
+    .filter(
+      (hit) =>
+        !hits.some(
+          (other) =>
+            other !== hit &&
+            other.start <= hit.start &&
+            other.end >= hit.end &&
+            other.end - other.start > hit.end - hit.start
+        )
+    )
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Traduce la puntuación léxica a aportes por token y ámbitos de negación.
+ * @param matchWeight - Puntos que suma cada término del léxico en el analizador de reglas
+ */
+export function explainLexicalScore(
+  tokens: readonly string[],
+  lexical: LexiconScore,
+  matchWeight: number
+): { ruleTokens: TokenContribution[]; negationScopes: NegationScope[] } {
+  const ruleTokens = lexical.hits.map((hit) => ({
+    token: hit.token,
+    index: hit.index,
+    polarity: hit.polarity,
+    weight: hit.weight,
+    negated: hit.negated,
+    contribution: (hit.negated ? -hit.polarity : hit.polarity) * hit.weight * matchWeight,
+  }));
+
+  const negationScopes = lexical.negationScopes.map(({ negatorIndex, targetIndex }) => ({
+    negator: tokens[negatorIndex],
+    negatorIndex,
+    target: tokens[targetIndex],
+    targetIndex,
+  }));
+
+  return { ruleTokens, negationScopes };
+}
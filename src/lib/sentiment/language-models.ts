@@ -0,0 +1,125 @@
+/**
+ * Per-language Naive Bayes models
+ * Un modelo Naive Bayes por idioma, entrenado solo con los ejemplos de ese
+ * idioma. El modelo compartido (multilingüe) queda como respaldo para textos
+ * sin idioma claro o idiomas con pocos datos.
+ */
+import { basicEnglishSentimentDataset } from '../../data/basic-english-sentiment-dataset';
+import { enhancedTrainingDataV3Clean } from '../../data/enhanced-training-data-v3-clean';
+import { logger } from '../observability/logger';
+import {
+  NaiveBayesSentimentService,
+  NaiveBayesTrainingExample,
+  SentimentLabel,
+} from '../../services/naive-bayes-sentiment.service';
+import { detectLexiconLanguage, LEXICON_LANGUAGES, LexiconLanguage } from './lexicons';
+import { LanguageCode } from './types';
+
+// Por debajo de este número de ejemplos el modelo por idioma no es fiable
+export const MIN_LANGUAGE_EXAMPLES = 100;
+
+/**
+ * Reparte los ejemplos por idioma detectado. Los que no tienen idioma claro
+ * se descartan: solo los aprovecha el modelo compartido.
+ */
+export function partitionByLanguage(
+  examples: readonly NaiveBayesTrainingExample[]
+): Record<LexiconLanguage, NaiveBayesTrainingExample[]> {
+  const partitions = Object.fromEntries(
+    LEXICON_LANGUAGES.map((lang) => [lang, [] as NaiveBayesTrainingExample[]])
+  ) as Record<LexiconLanguage, NaiveBayesTrainingExample[]>;
+
+  for (const example of examples) {
+    const lang = detectLexiconLanguage(example.text);
+    if (lang !== 'unknown') partitions[lang].push(example);
+  }
+  return partitions;
+}
+
+export class LanguageModelRouter {
+  private models = new Map<LexiconLanguage, NaiveBayesSentimentService>();
+
+  constructor(
+    private readonly fallback: NaiveBayesSentimentService,
+    private readonly minExamples: number = MIN_LANGUAGE_EXAMPLES
+  ) {}
+
+  /**
+   * Entrena un modelo por idioma con el dataset multilingüe (y el dataset
+   * básico en inglés para 'en').
+   * @returns Número de ejemplos de entrenamiento por idioma
+   */
+  bootstrap(examples?: readonly NaiveBayesTrainingExample[]): Record<LexiconLanguage, number> {
+    const partitions = partitionByLanguage(examples ?? defaultTrainingExamples());
+    if (!examples) {
+      partitions.en.push(
+        ...basicEnglishSentimentDataset.map((item) => ({
+          text: item.text,
+          label: item.label as SentimentLabel,
+        }))
+      );
+    }
+
+    const counts = {} as Record<LexiconLanguage, number>;
+    for (const lang of LEXICON_LANGUAGES) {
+      counts[lang] = partitions[lang].length;
+      if (partitions[lang].length < this.minExamples) {
+        this.models.delete(lang);
+        continue;
+      }
+      const model = new NaiveBayesSentimentService({
+        smoothing: 1.0,
+        prior: 'empirical',
+        defaultLang: lang,
+        enableLangDetect: false,
+        enableStopwords: true,
+      });
+      model.train(partitions[lang]);
+      this.models.set(lang, model);
+    }
+
+    logger.info('Per-language Naive Bayes models trained', { counts });
+    return counts;
+  }
+
+  /**
+   * Descarta los modelos por idioma: a partir de aquí todo va al compartido.
+   */
+  clear(): void {
+    this.models.clear();
+  }
+
+  /**
+   * Devuelve el modelo del idioma o el compartido si no hay uno entrenado.
+   */
+  forLanguage(language: LanguageCode): NaiveBayesSentimentService {
+    if (language === 'unknown') return this.fallback;
+    return this.models.get(language) ?? this.fallback;
+  }
+
+  hasModel(language: LanguageCode): boolean {
+    return language !== 'unknown' && this.models.has(language);
+  }
+
+  getLanguages(): LexiconLanguage[] {
+    return [...this.models.keys()];
+  }
+
+  /**
+   * Estado de cada modelo por idioma (para la huella de versión del motor).
+   */
+  serialize(): Partial<Record<LexiconLanguage, ReturnType<NaiveBayesSentimentService['serialize']>>> {
+    return Object.fromEntries(
+      [...this.models.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([lang, model]) => [lang, model.serialize()])
+    );
+  }
+}
+
+function defaultTrainingExamples(): NaiveBayesTrainingExample[] {
+  return enhancedTrainingDataV3Clean.map((item: { text: string; label: string }) => ({
+    text: item.text,
+    label: item.label as SentimentLabel,
+  }));
+}
@@ -0,0 +1,794 @@
+/**
+ * Per-language sentiment lexicons
+ * Léxicos, negadores e intensificadores separados por idioma (EN/ES/FR/DE).
+ * Todas las entradas están en minúsculas y sin acentos, igual que los tokens
+ * que produce `tokenize`, para poder comparar con Sets en O(1).
+ */
+import { LanguageCode } from './types';
+
+export type LexiconLanguage = Exclude<LanguageCode, 'unknown'>;
+
+export const LEXICON_LANGUAGES: readonly LexiconLanguage[] = ['en', 'es', 'fr', 'de'];
+
+export interface SentimentLexicon {
+  positive: ReadonlySet<string>;
+  negative: ReadonlySet<string>;
+  /** Palabras que invierten la polaridad del término afectivo siguiente */
+  negators: ReadonlySet<string>;
+  /** Multiplicador aplicado al término afectivo siguiente (>1 intensifica, <1 atenúa) */
+  intensifiers: ReadonlyMap<string, number>;
+  /** Palabras funcionales usadas para detectar el idioma */
+  hints: ReadonlySet<string>;
+  /** El negador puede ir detrás del término afectivo ("ich mag es nicht") */
+  postNegation: boolean;
+}
+
+// Número de tokens tras un negador en los que sigue teniendo efecto
+const NEGATION_WINDOW = 3;
+// En negación pospuesta solo se mira muy cerca hacia atrás
+const POST_NEGATION_WINDOW = 2;
+
+export const LEXICONS: Record<LexiconLanguage, SentimentLexicon> = {
+  en: {
+    positive: new Set([
+      'good',
+      'great',
+      'excellent',
+      'amazing',
+      'awesome',
+      'love',
+      'like',
+      'loved',
+      'liked',
+      'loving',
+      'fantastic',
+      'perfect',
+      'wonderful',
+      'best',
+      'better',
+      'happy',
+      'glad',
+      'satisfied',
+      'recommend',
+      'recommended',
+      'enjoy',
+      'enjoyed',
+      'enjoyable',
+      'brilliant',
+      'superb',
+      'outstanding',
+      'incredible',
+      'beautiful',
+      'nice',
+      'cool',
+      'sweet',
+      'lovely',
+      'impressive',
+      'epic',
+      'legit',
+      'solid',
+      'stable',
+      'fast',
+      'faster',
+      'improved',
+      'improve',
+      'fix',
+      'fixed',
+      'win',
+      'winner',
+      'wow',
+      'yay',
+      'thanks',
+      'thank',
+      'grateful',
+      'proud',
+      'helpful',
+      'reliable',
+      'smooth',
+      'easy',
+      'works',
+      'worth',
+    ]),
+    negative: new Set([
+      'bad',
+      'terrible',
+      'horrible',
+      'hate',
+      'worst',
+      'worse',
+      'awful',
+      'disgusting',
+      'gross',
+      'pathetic',
+      'useless',
+      'fail',
+      'failed',
+      'failure',
+      'broken',
+      'bug',
+      'bugs',
+      'buggy',
+      'crash',
+      'crashed',
+      'crashes',
+      'slow',
+      'slower',
+      'lag',
+      'laggy',
+      'scam',
+      'fraud',
+      'fake',
+      'poor',
+      'boring',
+      'annoying',
+      'disappointed',
+      'disappointing',
+      'sad',
+      'angry',
+      'upset',
+      'frustrating',
+      'frustration',
+      'stupid',
+      'dumb',
+      'sucks',
+      'trash',
+      'garbage',
+      'nonsense',
+      'unreliable',
+      'overpriced',
+      'refund',
+      'rude',
+      'waste',
+    ]),
+    negators: new Set([
+      'not',
+      'no',
+      'never',
+      'neither',
+      'nor',
+      'none',
+      'nothing',
+      'nobody',
+      'without',
+      'cannot',
+      'dont',
+      'doesnt',
+      'didnt',
+      'isnt',
+      'wasnt',
+      'arent',
+      'werent',
+      'wont',
+      'cant',
+      'couldnt',
+      'shouldnt',
+      'wouldnt',
+      'hardly',
+    ]),
+    intensifiers: new Map([
+      ['very', 1.5],
+      ['really', 1.4],
+      ['so', 1.3],
+      ['extremely', 1.8],
+      ['super', 1.5],
+      ['totally', 1.5],
+      ['absolutely', 1.7],
+      ['incredibly', 1.7],
+      ['too', 1.3],
+      ['most', 1.4],
+      ['slightly', 0.5],
+      ['somewhat', 0.6],
+      ['barely', 0.4],
+      ['kinda', 0.6],
+      ['bit', 0.6],
+    ]),
+    hints: new Set([
+      'the',
+      'and',
+      'is',
+      'are',
+      'was',
+      'this',
+      'that',
+      'with',
+      'for',
+      'you',
+      'have',
+      'but',
+      'not',
+      'of',
+      'to',
+      'it',
+      'my',
+      'just',
+      'what',
+      'its',
+    ]),
+    postNegation: false,
+  },
+  es: {
+    positive: new Set([
+      'bueno',
+      'buena',
+      'buenos',
+      'buenas',
+      'genial',
+      'geniales',
+      'excelente',
+      'increible',
+      'fantastico',
+      'fantastica',
+      'maravilloso',
+      'maravillosa',
+      'perfecto',
+      'perfecta',
+      'encanta',
+      'encanto',
+      'amo',
+      'amor',
+      'recomendable',
+      'recomiendo',
+      'recomendado',
+      'satisfecho',
+      'satisfecha',
+      'feliz',
+      'contento',
+      'contenta',
+      'brutal',
+      'espectacular',
+      'tremendo',
+      'top',
+      'rapido',
+      'rapida',
+      'mejora',
+      'mejorado',
+      'mejor',
+      'arreglado',
+      'funciona',
+      'estable',
+      'gracias',
+      'agradecido',
+      'bonito',
+      'bonita',
+      'joya',
+      'crack',
+      'chevere',
+      'guay',
+      'facil',
+      'util',
+      'fiable',
+    ]),
+    negative: new Set([
+      'malo',
+      'mala',
+      'malos',
+      'malas',
+      'terrible',
+      'horrible',
+      'odio',
+      'peor',
+      'pesimo',
+      'pesima',
+      'fatal',
+      'asco',
+      'basura',
+      'inutil',
+      'falla',
+      'fallas',
+      'fallo',
+      'error',
+      'errores',
+      'roto',
+      'rota',
+      'lento',
+      'lenta',
+      'crashea',
+      'estafa',
+      'falso',
+      'falsa',
+      'aburrido',
+      'aburrida',
+      'molesto',
+      'molesta',
+      'decepcionado',
+      'decepcionada',
+      'decepcion',
+      'frustrado',
+      'frustrada',
+      'verguenza',
+      'problema',
+      'problemas',
+      'caro',
+      'triste',
+      'enojado',
+      'harto',
+      'harta',
+      'desastre',
+      'nefasto',
+      'cutre',
+    ]),
+    negators: new Set([
+      'no',
+      'nunca',
+      'jamas',
+      'nada',
+      'nadie',
+      'ningun',
+      'ninguno',
+      'ninguna',
+      'ni',
+      'sin',
+      'tampoco',
+    ]),
+    intensifiers: new Map([
+      ['muy', 1.5],
+      ['super', 1.5],
+      ['re', 1.4],
+      ['demasiado', 1.4],
+      ['bastante', 1.3],
+      ['realmente', 1.4],
+      ['totalmente', 1.5],
+      ['sumamente', 1.7],
+      ['tan', 1.3],
+      ['mas', 1.2],
+      ['extremadamente', 1.8],
+      ['algo', 0.6],
+      ['poco', 0.5],
+      ['apenas', 0.4],
+    ]),
+    hints: new Set([
+      'el',
+      'la',
+      'los',
+      'las',
+      'que',
+      'y',
+      'es',
+      'por',
+      'para',
+      'con',
+      'una',
+      'pero',
+      'muy',
+      'esta',
+      'como',
+      'del',
+      'lo',
+      'mi',
+      'hoy',
+      'porque',
+      'todo',
+      'tambien',
+      'hay',
+      'estoy',
+    ]),
+    postNegation: false,
+  },
+  fr: {
+    positive: new Set([
+      'bon',
+      'bonne',
+      'bons',
+      'bonnes',
+      'excellent',
+      'excellente',
+      'genial',
+      'geniale',
+      'incroyable',
+      'fantastique',
+      'parfait',
+      'parfaite',
+      'merveilleux',
+      'merveilleuse',
+      'jadore',
+      'adore',
+      'aime',
+      'aimer',
+      'satisfait',
+      'satisfaite',
+      'satisfaisant',
+      'content',
+      'contente',
+      'heureux',
+      'heureuse',
+      'super',
+      'top',
+      'rapide',
+      'fiable',
+      'ameliore',
+      'reussi',
+      'correct',
+      'merci',
+      'magnifique',
+      'sympa',
+      'chouette',
+      'formidable',
+      'bravo',
+      'facile',
+      'utile',
+      'recommande',
+    ]),
+    negative: new Set([
+      'mauvais',
+      'mauvaise',
+      'pire',
+      'terrible',
+      'horrible',
+      'deteste',
+      'nul',
+      'nulle',
+      'degueulasse',
+      'honteux',
+      'inutile',
+      'echec',
+      'bug',
+      'bugs',
+      'lent',
+      'lente',
+      'plante',
+      'plantee',
+      'arnaque',
+      'faux',
+      'fausse',
+      'ennuyeux',
+      'ennuyeuse',
+      'decevant',
+      'decevante',
+      'decu',
+      'decue',
+      'deception',
+      'frustrant',
+      'casse',
+      'cassee',
+      'triste',
+      'colere',
+      'probleme',
+      'problemes',
+      'cher',
+      'catastrophe',
+      'lamentable',
+    ]),
+    negators: new Set([
+      'ne',
+      'pas',
+      'jamais',
+      'rien',
+      'personne',
+      'aucun',
+      'aucune',
+      'sans',
+      'ni',
+      'guere',
+    ]),
+    intensifiers: new Map([
+      ['tres', 1.5],
+      ['trop', 1.4],
+      ['vraiment', 1.4],
+      ['super', 1.5],
+      ['tellement', 1.5],
+      ['totalement', 1.5],
+      ['extremement', 1.8],
+      ['si', 1.3],
+      ['assez', 1.2],
+      ['vachement', 1.5],
+      ['peu', 0.5],
+      ['legerement', 0.5],
+    ]),
+    hints: new Set([
+      'le',
+      'la',
+      'les',
+      'des',
+      'du',
+      'une',
+      'et',
+      'est',
+      'dans',
+      'pour',
+      'pas',
+      'avec',
+      'sur',
+      'ce',
+      'cette',
+      'mais',
+      'tres',
+      'je',
+      'nous',
+      'vous',
+      'cest',
+      'tout',
+      'aujourdhui',
+    ]),
+    postNegation: false,
+  },
+  de: {
+    positive: new Set([
+      'gut',
+      'gute',
+      'guter',
+      'gutes',
+      'guten',
+      'grossartig',
+      'ausgezeichnet',
+      'fantastisch',
+      'unglaublich',
+      'perfekt',
+      'wunderbar',
+      'liebe',
+      'lieben',
+      'mag',
+      'zufrieden',
+      'glucklich',
+      'super',
+      'toll',
+      'tolle',
+      'toller',
+      'klasse',
+      'top',
+      'schnell',
+      'schneller',
+      'stabil',
+      'zuverlassig',
+      'verbessert',
+      'gelungen',
+      'prima',
+      'danke',
+      'empfehlen',
+      'empfehlenswert',
+      'schone',
+      'spitze',
+      'genial',
+      'hervorragend',
+      'einfach',
+      'hilfreich',
+    ]),
+    negative: new Set([
+      'schlecht',
+      'schlechte',
+      'schlechter',
+      'schlechtes',
+      'schlimm',
+      'schrecklich',
+      'furchtbar',
+      'hasse',
+      'mies',
+      'eklig',
+      'nutzlos',
+      'fehler',
+      'fehlerhaft',
+      'bug',
+      'absturz',
+      'abgesturzt',
+      'langsam',
+      'kaputt',
+      'betrug',
+      'fake',
+      'enttauscht',
+      'enttauschend',
+      'frustrierend',
+      'langweilig',
+      'miserabel',
+      'problem',
+      'probleme',
+      'teuer',
+      'traurig',
+      'wutend',
+      'argerlich',
+      'katastrophe',
+      'katastrophal',
+      'mist',
+    ]),
+    negators: new Set([
+      'nicht',
+      'kein',
+      'keine',
+      'keinen',
+      'keinem',
+      'keiner',
+      'keines',
+      'nie',
+      'niemals',
+      'nichts',
+      'niemand',
+      'ohne',
+      'weder',
+    ]),
+    intensifiers: new Map([
+      ['sehr', 1.5],
+      ['echt', 1.4],
+      ['wirklich', 1.4],
+      ['total', 1.5],
+      ['extrem', 1.8],
+      ['super', 1.5],
+      ['so', 1.3],
+      ['ziemlich', 1.2],
+      ['absolut', 1.7],
+      ['voll', 1.4],
+      ['zu', 1.3],
+      ['etwas', 0.6],
+      ['kaum', 0.4],
+      ['bisschen', 0.6],
+    ]),
+    hints: new Set([
+      'der',
+      'die',
+      'das',
+      'und',
+      'ist',
+      'nicht',
+      'mit',
+      'ein',
+      'eine',
+      'auf',
+      'den',
+      'dem',
+      'von',
+      'fur',
+      'auch',
+      'ich',
+      'wir',
+      'aber',
+      'dass',
+      'sehr',
+      'heute',
+      'sind',
+      'war',
+      'es',
+    ]),
+    postNegation: true,
+  },
+};
+
+// Caracteres propios de cada idioma (se miran antes de quitar acentos)
+const CHARACTER_HINTS: Partial<Record<LexiconLanguage, RegExp>> = {
+  es: /[ñ¿¡]/g,
+  fr: /[çèêëàâîïôùû]|\b[cdjlmnst]['’]/g,
+  de: /[ßäöü]/g,
+};
+
+/**
+ * Minúsculas, sin acentos y con los apóstrofos eliminados ("don't" → "dont",
+ * "c'est" → "cest"), para que coincida con las entradas del léxico.
+ */
+export function tokenize(text: string): string[] {
+  const folded = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .replace(/(\p{L})['’](\p{L})/gu, '$1$2');
+  return folded.match(/\p{L}+/gu) || [];
+}
+
+/**
+ * Detecta el idioma combinando palabras funcionales, aciertos léxicos y
+ * caracteres propios. Devuelve 'unknown' si no hay ninguna pista.
+ */
+export function detectLexiconLanguage(text: string): LanguageCode {
+  const tokens = tokenize(text);
+  const lower = text.toLowerCase();
+  let best: LanguageCode = 'unknown';
+  let bestScore = 0;
+
+  for (const lang of LEXICON_LANGUAGES) {
+    const lexicon = LEXICONS[lang];
+    const chars = CHARACTER_HINTS[lang];
+    let score = chars ? (lower.match(chars) || []).length * 1.5 : 0;
+    for (const token of tokens) {
+      if (lexicon.hints.has(token)) score += 1;
+      // Los términos afectivos desempatan, pero pesan menos: muchos se comparten
+      if (lexicon.positive.has(token) || lexicon.negative.has(token)) score += 0.5;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      best = lang;
+    }
+  }
+
+  return best;
+}
+
+export interface LexiconScore {
+  /** Suma ponderada de términos positivos tras negaciones e intensificadores */
+  positive: number;
+  /** Suma ponderada de términos negativos tras negaciones e intensificadores */
+  negative: number;
+  negationFlips: number;
+  /** Número de términos afectivos modificados por un intensificador o atenuador */
+  intensified: number;
+  /** Términos afectivos encontrados, en orden de aparición (para explicaciones) */
+  hits: LexiconHit[];
+  /** Pares negador → término afectado, por índice de token */
+  negationScopes: Array<{ negatorIndex: number; targetIndex: number }>;
+}
+
+export interface LexiconHit {
+  token: string;
+  index: number;
+  /** Polaridad del término en el léxico, antes de aplicar la negación */
+  polarity: 1 | -1;
+  weight: number;
+  negated: boolean;
+}
+
+/** Polaridad y peso de un término redefinido por una organización (0: deja de contar) */
+export interface LexiconOverride {
+  polarity: 1 | -1 | 0;
+  weight: number;
+}
+
+/**
+ * Puntúa los tokens con el léxico del idioma aplicando las reglas de
+ * negación ("no es bueno", "pas terrible", "ich mag es nicht") e
+ * intensificación ("muy malo", "un peu lent" se atenúa).
+ * `overrides` redefine términos para un dominio y tiene prioridad sobre el léxico.
+ */
+export function scoreTokens(
+  tokens: readonly string[],
+  lexicon: SentimentLexicon,
+  overrides?: ReadonlyMap<string, LexiconOverride>
+): LexiconScore {
+  const hits: LexiconHit[] = [];
+  let intensified = 0;
+
+  tokens.forEach((token, index) => {
+    const override = overrides?.get(token);
+    const polarity = override
+      ? override.polarity
+      : lexicon.positive.has(token)
+        ? 1
+        : lexicon.negative.has(token)
+          ? -1
+          : 0;
+    if (polarity === 0) return;
+
+    // El modificador puede estar justo antes o separado por un negador ("no muy bueno")
+    let weight = override?.weight ?? 1;
+    for (let back = 1; back <= 2 && index - back >= 0; back++) {
+      const modifier = lexicon.intensifiers.get(tokens[index - back]);
+      if (modifier !== undefined) {
+        weight *= modifier;
+        intensified++;
+        break;
+      }
+      if (!lexicon.negators.has(tokens[index - back])) break;
+    }
+    hits.push({ token, index, polarity, weight, negated: false });
+  });
+
+  const negationScopes: LexiconScore['negationScopes'] = [];
+  tokens.forEach((token, index) => {
+    if (!lexicon.negators.has(token)) return;
+
+    let target = hits.find(
+      (hit) => !hit.negated && hit.index > index && hit.index <= index + NEGATION_WINDOW
+    );
+    if (!target && lexicon.postNegation) {
+      target = [...hits]
+        .reverse()
+        .find(
+          (hit) => !hit.negated && hit.index < index && hit.index >= index - POST_NEGATION_WINDOW
+        );
+    }
+    if (target) {
+      target.negated = true;
+      negationScopes.push({ negatorIndex: index, targetIndex: target.index });
+    }
+  });
+
+  let positive = 0;
+  let negative = 0;
+  for (const hit of hits) {
+    const polarity = hit.negated ? -hit.polarity : hit.polarity;
+    if (polarity > 0) positive += hit.weight;
+    else negative += hit.weight;
+  }
+
+  return {
+    positive,
+    negative,
+    negationFlips: negationScopes.length,
+    intensified,
+    hits,
+    negationScopes,
+  };
+}
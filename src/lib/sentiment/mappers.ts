@@ -885,6 +885,8 @@ export class OutputMapper {
               fear: this.formatNumber(result.sentiment.emotions.fear, 3),
               surprise: this.formatNumber(result.sentiment.emotions.surprise, 3),
               disgust: this.formatNumber(result.sentiment.emotions.disgust, 3),
+              trust: this.formatNumber(result.sentiment.emotions.trust, 3),
+              anticipation: this.formatNumber(result.sentiment.emotions.anticipation, 3),
             }
           : undefined,
         keywords: result.keywords?.slice(0, 10) || [],
@@ -0,0 +1,252 @@
+/**
+ * NDJSON streaming analysis
+ * Lee peticiones de análisis línea a línea (una por línea JSON) y escribe un
+ * resultado NDJSON por elemento según terminan, más una línea final de resumen.
+ * La lectura se detiene mientras haya `concurrency` lotes en curso o la salida
+ * no acepte más datos (backpressure en ambos sentidos).
+ */
+import { once } from 'events';
+import { StringDecoder } from 'string_decoder';
+import { Writable } from 'stream';
+import { SentimentAnalysisValidator } from '../../core/validators/modules/sentiment-analysis-validator';
+import { appConfig } from '../config/app';
+import type { SentimentAnalysisOrchestrator } from './orchestrator';
+import { AnalysisResult, BatchAnalysisItem, BatchItemStatus, LanguageCode } from './types';
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+// Una línea más larga que esto se descarta con un error (el texto admite 10k caracteres)
+export const NDJSON_MAX_LINE_BYTES = 64 * 1024;
+
+const SUPPORTED_LANGUAGES: LanguageCode[] = ['en', 'es', 'fr', 'de'];
+
+export interface NdjsonStreamOptions {
+  chunkSize?: number; // items per orchestrator call
+  concurrency?: number; // chunks in flight before reading stops
+  maxLineBytes?: number;
+}
+
+export interface NdjsonItemLine {
+  type: 'result';
+  line: number; // 1-based line number in the request body
+  id?: string;
+  status: BatchItemStatus;
+  result?: AnalysisResult;
+  error?: string;
+}
+
+export interface NdjsonSummaryLine {
+  type: 'summary';
+  total: number;
+  succeeded: number;
+  failed: number;
+  cached: number;
+  processingTime: number;
+  aborted?: boolean; // the client went away before the end
+}
+
+interface PendingItem {
+  line: number;
+  item: BatchAnalysisItem;
+}
+
+/**
+ * Convierte una línea en una petición de análisis validada.
+ * @returns La petición, o el mensaje de error para esa línea.
+ */
+export function parseNdjsonLine(raw: string): BatchAnalysisItem | string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return 'Invalid JSON';
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return 'Each line must be a JSON object with a "text" field';
+  }
+
+  const { id, text, language } = parsed as Record<string, unknown>;
+  if (typeof text !== 'string') {
+    return 'Field "text" must be a string';
+  }
+  if (text.trim() === '') {
+    return 'Field "text" cannot be empty';
+  }
+  const validation = SentimentAnalysisValidator.validateAnalysisRequest({ text });
+  if (!validation.isValid) {
+    return validation.errors.join('; ');
+  }
+  if (language !== undefined && !SUPPORTED_LANGUAGES.includes(language as LanguageCode)) {
+    return `Field "language" must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`;
+  }
+  if (id !== undefined && typeof id !== 'string' && typeof id !== 'number') {
+    return 'Field "id" must be a string or a number';
+  }
+
+  return {
+    text,
+    ...(language !== undefined && { language: language as LanguageCode }),
+    ...(id !== undefined && { id: String(id) }),
+  };
+}
+
+/**
+ * Divide un flujo de bytes en líneas sin cargarlo entero en memoria.
+ * Las líneas demasiado largas se entregan como `null` (se descartan hasta el salto).
+ */
+async function* readLines(
+  input: AsyncIterable<Buffer | string>,
+  maxLineBytes: number
+): AsyncGenerator<string | null> {
+  const decoder = new StringDecoder('utf8');
+  let carry = '';
+  let overflow = false;
+
+  const consume = function* (text: string): Generator<string | null> {
+    let start = 0;
+    let newline = text.indexOf('\n');
+    while (newline !== -1) {
+      const line = carry + text.slice(start, newline);
+      carry = '';
+      if (overflow || Buffer.byteLength(line) > maxLineBytes) {
+        overflow = false;
+        yield null;
+      } else {
+        yield line.endsWith('\r') ? line.slice(0, -1) : line;
+      }
+      start = newline + 1;
+      newline = text.indexOf('\n', start);
+    }
+    if (!overflow) {
+      carry += text.slice(start);
+      if (Buffer.byteLength(carry) > maxLineBytes) {
+        overflow = true;
+        carry = '';
+      }
+    }
+  };
+
+  for await (const chunk of input) {
+    yield* consume(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+  }
+  yield* consume(decoder.end());
+  // Última línea sin salto final
+  if (overflow) yield null;
+  else if (carry) yield carry;
+}
+
+/**
+ * Analiza un cuerpo NDJSON y escribe los resultados en `output` según terminan.
+ * Cada línea de salida lleva el número de línea de entrada (y su id si lo tenía);
+ * los errores de una línea no detienen el resto. No cierra `output`.
+ * @returns La línea de resumen, que también se escribe al final.
+ */
+export async function streamNdjsonAnalysis(
+  input: AsyncIterable<Buffer | string>,
+  output: Writable,
+  orchestrator: SentimentAnalysisOrchestrator,
+  options: NdjsonStreamOptions = {}
+): Promise<NdjsonSummaryLine> {
+  const startTime = Date.now();
+  const chunkSize = Math.max(1, options.chunkSize ?? appConfig.sentiment.batch.chunkSize);
+  const concurrency = Math.max(1, options.concurrency ?? appConfig.sentiment.batch.concurrency);
+  const maxLineBytes = options.maxLineBytes ?? NDJSON_MAX_LINE_BYTES;
+
+  const summary: NdjsonSummaryLine = {
+    type: 'summary',
+    total: 0,
+    succeeded: 0,
+    failed: 0,
+    cached: 0,
+    processingTime: 0,
+  };
+  let aborted = false;
+  output.once('close', () => {
+    aborted = true;
+  });
+
+  const writeLine = async (line: NdjsonItemLine | NdjsonSummaryLine) => {
+    if (aborted || output.destroyed) {
+      aborted = true;
+      return;
+    }
+    if (line.type === 'result') {
+      summary.total++;
+      if (line.status === 'error') summary.failed++;
+      else summary.succeeded++;
+      if (line.status === 'cached') summary.cached++;
+    }
+    if (!output.write(`${JSON.stringify(line)}\n`)) {
+      // Backpressure: esperar a que el cliente lea (o se vaya)
+      const waiting = new AbortController();
+      const { signal } = waiting;
+      await Promise.race([once(output, 'drain', { signal }), once(output, 'close', { signal })]);
+      waiting.abort(); // retira el listener que no saltó
+    }
+  };
+
+  const analyzeChunk = async (chunk: PendingItem[]) => {
+    try {
+      const { items } = await orchestrator.analyzeBatchWithStatus(
+        chunk.map((pending) => pending.item),
+        { concurrency: 1, chunkSize: chunk.length }
+      );
+      for (const item of items) {
+        const { line, item: request } = chunk[item.index];
+        await writeLine({
+          type: 'result',
+          line,
+          ...(request.id !== undefined && { id: request.id }),
+          status: item.status,
+          ...(item.result ? { result: item.result } : { error: item.error }),
+        });
+      }
+    } catch (error) {
+      console.error('[NDJSON] Chunk analysis failed:', error);
+      for (const { line, item } of chunk) {
+        await writeLine({
+          type: 'result',
+          line,
+          ...(item.id !== undefined && { id: item.id }),
+          status: 'error',
+          error: 'Failed to analyze text.',
+        });
+      }
+    }
+  };
+
+  const inFlight = new Set<Promise<void>>();
+  const dispatch = async (chunk: PendingItem[]) => {
+    const task = analyzeChunk(chunk).finally(() => inFlight.delete(task));
+    inFlight.add(task);
+    // Con el cupo lleno no se lee más entrada hasta que termine un lote
+    if (inFlight.size >= concurrency) await Promise.race(inFlight);
+  };
+
+  let lineNumber = 0;
+  let pending: PendingItem[] = [];
+  for await (const raw of readLines(input, maxLineBytes)) {
+    lineNumber++;
+    if (aborted) break;
+    if (raw !== null && raw.trim() === '') continue;
+
+    const parsed = raw === null ? `Line exceeds ${maxLineBytes} bytes` : parseNdjsonLine(raw);
+    if (typeof parsed === 'string') {
+      await writeLine({ type: 'result', line: lineNumber, status: 'error', error: parsed });
+      continue;
+    }
+
+    pending.push({ line: lineNumber, item: parsed });
+    if (pending.length >= chunkSize) {
+      await dispatch(pending);
+      pending = [];
+    }
+  }
+  if (pending.length > 0 && !aborted) await dispatch(pending);
+  await Promise.all(inFlight);
+
+  summary.processingTime = Date.now() - startTime;
+  if (aborted) summary.aborted = true;
+  await writeLine(summary);
+  return summary;
+}
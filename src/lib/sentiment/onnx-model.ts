@@ -0,0 +1,204 @@
+/**
+ * Local ONNX sentiment model
+ * Clasificador transformer (BERT, DistilBERT, RoBERTa...) exportado a ONNX y
+ * cuantizado, ejecutado en CPU con onnxruntime-node: sin llamadas a la red.
+ * El directorio del modelo trae el .onnx, config.json (id2label) y el tokenizer
+ * (ver tokenizers.ts). Las predicciones se agrupan en lotes con padding dinámico.
+ */
+import fs from 'fs';
+import path from 'path';
+import type { BertPrediction } from '../../services/bert-sentiment-analyzer.service';
+import { loadTokenizer, SubwordTokenizer } from './tokenizers';
+
+// Se prueban en este orden; el cuantizado primero
+export const ONNX_MODEL_FILES = [
+  'model_quantized.onnx',
+  'model.onnx',
+  'onnx/model_quantized.onnx',
+  'onnx/model.onnx',
+];
+
+// Lote ya tokenizado y con padding, en el formato que esperan los modelos de HF
+export interface EncodedBatch {
+  inputIds: BigInt64Array;
+  attentionMask: BigInt64Array;
+  tokenTypeIds: BigInt64Array;
+  dims: [number, number]; // [batch, sequence]
+}
+
+export interface LogitsRunner {
+  /** @returns logits as a flat [batch * labels] array */
+  run(batch: EncodedBatch): Promise<Float32Array>;
+  release?(): Promise<void>;
+}
+
+export interface OnnxSentimentModelOptions {
+  maxSequenceLength?: number; // default 128
+  batchSize?: number; // default 16
+  threads?: number; // intra-op threads; 0 lets onnxruntime decide
+}
+
+/**
+ * Opens an ONNX session on the CPU. onnxruntime-node is loaded lazily so that
+ * deployments without a local model never load the native binding.
+ */
+export async function createOnnxRunner(modelFile: string, threads = 0): Promise<LogitsRunner> {
+  const ort = await import('onnxruntime-node');
+  const session = await ort.InferenceSession.create(modelFile, {
+    executionProviders: ['cpu'],
+    graphOptimizationLevel: 'all',
+    ...(threads > 0 && { intraOpNumThreads: threads }),
+  });
+  const inputs = new Set(session.inputNames);
+  const output = session.outputNames.includes('logits') ? 'logits' : session.outputNames[0];
+
+  return {
+    async run({ inputIds, attentionMask, tokenTypeIds, dims }) {
+      const feeds: Record<string, InstanceType<typeof ort.Tensor>> = {
+        input_ids: new ort.Tensor('int64', inputIds, dims),
+      };
+      if (inputs.has('attention_mask')) {
+        feeds.attention_mask = new ort.Tensor('int64', attentionMask, dims);
+      }
+      // DistilBERT y RoBERTa no tienen token_type_ids
+      if (inputs.has('token_type_ids')) {
+        feeds.token_type_ids = new ort.Tensor('int64', tokenTypeIds, dims);
+      }
+      const results = await session.run(feeds);
+      return Float32Array.from(results[output].data as Float32Array);
+    },
+    release: () => session.release(),
+  };
+}
+
+function softmax(logits: ArrayLike<number>): number[] {
+  const values = Array.from(logits);
+  const max = Math.max(...values);
+  const exps = values.map((value) => Math.exp(value - max));
+  const sum = exps.reduce((total, value) => total + value, 0);
+  return exps.map((value) => value / sum);
+}
+
+/**
+ * Labels in output order from config.json's id2label. Exports without it fall
+ * back to the usual negative/neutral/positive (or negative/positive) order.
+ */
+export function readLabels(modelDir: string, fallbackCount = 3): string[] {
+  const configFile = path.join(modelDir, 'config.json');
+  const id2label: Record<string, string> | undefined = fs.existsSync(configFile)
+    ? JSON.parse(fs.readFileSync(configFile, 'utf8')).id2label
+    : undefined;
+
+  if (id2label && Object.keys(id2label).length > 0) {
+    return Object.entries(id2label)
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .map(([, label]) => label);
+  }
+  return fallbackCount === 2 ? ['NEGATIVE', 'POSITIVE'] : ['NEGATIVE', 'NEUTRAL', 'POSITIVE'];
+}
+
+export class OnnxSentimentModel {
+  private readonly maxSequenceLength: number;
+  private readonly batchSize: number;
+
+  constructor(
+    private readonly runner: LogitsRunner,
+    private readonly tokenizer: SubwordTokenizer,
+    private readonly labels: string[],
+    options: OnnxSentimentModelOptions = {}
+  ) {
+    this.maxSequenceLength = options.maxSequenceLength ?? 128;
+    this.batchSize = Math.max(1, options.batchSize ?? 16);
+  }
+
+  /**
+   * Loads the model, tokenizer and labels from an exported model directory.
+   * @throws Error when the directory has no .onnx file or no tokenizer
+   */
+  static async load(
+    modelDir: string,
+    options: OnnxSentimentModelOptions = {}
+  ): Promise<OnnxSentimentModel> {
+    const modelFile = ONNX_MODEL_FILES.map((name) => path.join(modelDir, name)).find((file) =>
+      fs.existsSync(file)
+    );
+    if (!modelFile) {
+      throw new Error(`No ONNX model in ${modelDir} (expected ${ONNX_MODEL_FILES.join(', ')})`);
+    }
+
+    const tokenizer = loadTokenizer(modelDir);
+    const runner = await createOnnxRunner(modelFile, options.threads);
+    return new OnnxSentimentModel(runner, tokenizer, readLabels(modelDir), options);
+  }
+
+  getLabels(): string[] {
+    return [...this.labels];
+  }
+
+  async predict(text: string): Promise<BertPrediction> {
+    const [prediction] = await this.predictBatch([text]);
+    return prediction;
+  }
+
+  /**
+   * Scores the texts in batches of `batchSize`; each batch is padded to its
+   * longest text rather than to maxSequenceLength.
+   */
+  async predictBatch(texts: string[]): Promise<BertPrediction[]> {
+    const predictions: BertPrediction[] = [];
+    for (let start = 0; start < texts.length; start += this.batchSize) {
+      const chunk = texts.slice(start, start + this.batchSize);
+      const logits = await this.runner.run(this.encode(chunk));
+
+      if (logits.length !== chunk.length * this.labels.length) {
+        throw new Error(
+          `Model returned ${logits.length} logits for ${chunk.length} texts and ${this.labels.length} labels`
+        );
+      }
+      for (let i = 0; i < chunk.length; i++) {
+        const row = logits.subarray(i * this.labels.length, (i + 1) * this.labels.length);
+        const probabilities = softmax(row);
+        const best = probabilities.indexOf(Math.max(...probabilities));
+        predictions.push({ label: this.labels[best], score: probabilities[best] });
+      }
+    }
+    return predictions;
+  }
+
+  /**
+   * Runs one full batch so that the first real request does not pay for
+   * session initialization and memory allocation.
+   * @returns milliseconds taken
+   */
+  async warmUp(): Promise<number> {
+    const startTime = Date.now();
+    await this.predictBatch(new Array(this.batchSize).fill('Warm-up run of the sentiment model.'));
+    return Date.now() - startTime;
+  }
+
+  async dispose(): Promise<void> {
+    await this.runner.release?.();
+  }
+
+  private encode(texts: string[]): EncodedBatch {
+    const encoded = texts.map((text) => this.tokenizer.encode(text, this.maxSequenceLength));
+    const sequence = Math.max(...encoded.map((ids) => ids.length));
+    const size = texts.length * sequence;
+
+    const inputIds = new BigInt64Array(size).fill(BigInt(this.tokenizer.padId));
+    const attentionMask = new BigInt64Array(size);
+    encoded.forEach((ids, row) => {
+      ids.forEach((id, column) => {
+        inputIds[row * sequence + column] = BigInt(id);
+        attentionMask[row * sequence + column] = BigInt(1);
+      });
+    });
+
+    return {
+      inputIds,
+      attentionMask,
+      tokenTypeIds: new BigInt64Array(size),
+      dims: [texts.length, sequence],
+    };
+  }
+}
@@ -2,26 +2,31 @@
  * Sentiment Orchestrator
  * Author: Luis Flores (TFG 2025) – Caching, circuit breaker, metrics around engine.
  */
+import { modelPersistenceManager } from "../../services/model-persistence.service";
+import { modelRegistry } from "../../services/model-registry.service";
 import { NaiveBayesTrainingExample } from "../../services/naive-bayes-sentiment.service";
 import { Tweet } from "../../types/twitter";
+import { appConfig } from "../config/app";
+import { ConfidenceCalibrator } from "./calibration";
+import { getSharedDriftMonitor } from "./drift-monitor";
 import { EnhancedSentimentEngine } from "./enhanced-engine";
+import { getSharedOrganizationLexicons } from "./organization-lexicons";
+import { pipelineFingerprint, resolvePipeline } from "./pipeline";
+import { getSharedResultCache, ResultCache, resultCacheKey } from "./result-cache";
+import { getSharedShadowEvaluator, ShadowEvaluator } from "./shadow-evaluation";
 import {
     AnalysisRequest,
     AnalysisResult,
+    BatchAnalysisItem,
+    BatchAnalysisOptions,
+    BatchAnalysisResponse,
+    BatchItemResult,
     SentimentOrchestrator,
     TweetDTO,
 } from "./types";
 
 // (Mappers imported lazily elsewhere if needed)
 
-// Enhanced cache with TTL and metadata
-interface CacheEntry {
-  result: AnalysisResult;
-  timestamp: number;
-  hits: number;
-  size: number; // text length for cache efficiency metrics
-}
-
 // Performance metrics
 interface OrchestratorMetrics {
   totalRequests: number;
@@ -43,20 +48,30 @@ interface CircuitBreakerState {
 
 export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
   private engine: EnhancedSentimentEngine;
-  private cache = new Map<string, CacheEntry>();
+  private cache: ResultCache;
+  private shadow: ShadowEvaluator;
   private metrics: OrchestratorMetrics;
   private circuitBreaker: CircuitBreakerState;
-  private cleanupInterval?: NodeJS.Timeout;
+  private calibrator: ConfidenceCalibrator | null = null;
+  private abstainThreshold: number = appConfig.sentiment.abstainThreshold;
+  // Registry revision whose active model is loaded in the engine (-1: not checked yet)
+  private modelRevision?: string | null;
+  private activeModelVersion: string | null = null;
 
   // Configuration
-  private readonly CACHE_TTL = 60 * 60 * 1000; // 1 hour
-  private readonly MAX_CACHE_SIZE = 10000;
   private readonly REQUEST_TIMEOUT = 30000; // 30 seconds
   private readonly CIRCUIT_BREAKER_THRESHOLD = 5;
   private readonly CIRCUIT_BREAKER_TIMEOUT = 60000; // 1 minute
 
-  constructor() {
+  /**
+   * @param options.cache - Result cache to use; by default the process-wide one
+   *   configured with SENTIMENT_CACHE_* (memory, file or mongo backend)
+   * @param options.shadow - Shadow/A-B evaluator; by default the process-wide one
+   */
+  constructor(options: { cache?: ResultCache; shadow?: ShadowEvaluator } = {}) {
     this.engine = new EnhancedSentimentEngine();
+    this.cache = options.cache ?? getSharedResultCache();
+    this.shadow = options.shadow ?? getSharedShadowEvaluator();
     this.metrics = {
       totalRequests: 0,
       cacheHits: 0,
@@ -73,11 +88,93 @@ export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
       nextAttemptTime: 0,
     };
 
-    // Start cache cleanup interval
-    this.cleanupInterval = setInterval(
-      () => this.cleanupExpiredCache(),
-      5 * 60 * 1000,
-    ); // Every 5 minutes
+    // Calibración guardada con el modelo (si existe); hasta que carga se usa la confianza bruta
+    void this.loadCalibration();
+  }
+
+  /**
+   * Load the confidence calibrator stored with the model metadata
+   * @returns True if a calibrator was found and applied
+   */
+  async loadCalibration(): Promise<boolean> {
+    const calibrator = await modelPersistenceManager.loadCalibration();
+    if (calibrator) this.setCalibrator(calibrator);
+    return calibrator !== null;
+  }
+
+  /**
+   * Load the registry's active Naive Bayes version into the engine when it changed
+   * since the last check (promote/rollback, in this or another process), so no
+   * restart is needed. The engine version changes with the model, so cached
+   * results of the old one are not reused, and the drift baseline is rebuilt.
+   */
+  private async syncActiveModel(): Promise<void> {
+    try {
+      const revision = await modelRegistry.getRevision();
+      if (revision === this.modelRevision) return;
+      this.modelRevision = revision;
+
+      const active = await modelRegistry.loadActiveModel();
+      if (!active || active.version.versionId === this.activeModelVersion) return;
+      this.engine.loadNaiveBayesModel(active.model);
+      this.activeModelVersion = active.version.versionId;
+      // Drift is measured against the model in use
+      getSharedDriftMonitor().invalidateBaseline();
+      console.log(`[Orchestrator] Model version ${active.version.versionId} loaded`);
+    } catch (error) {
+      console.error("[Orchestrator] Could not load the active model version:", error);
+    }
+  }
+
+  /**
+   * Registry version currently loaded (null: bootstrap model)
+   */
+  getActiveModelVersion(): string | null {
+    return this.activeModelVersion;
+  }
+
+  /**
+   * Set (or clear) the calibrator applied to every result's confidence.
+   * The cache holds raw engine results, so it stays valid.
+   */
+  setCalibrator(calibrator: ConfidenceCalibrator | null): void {
+    this.calibrator = calibrator;
+  }
+
+  /**
+   * Set the confidence below which results are marked `needs_review`
+   * (0 disables abstention).
+   */
+  setAbstainThreshold(threshold: number): void {
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+      throw new Error("Abstain threshold must be a number between 0 and 1");
+    }
+    this.abstainThreshold = threshold;
+  }
+
+  getAbstainThreshold(): number {
+    return this.abstainThreshold;
+  }
+
+  /**
+   * Maps the raw engine confidence through the calibrator and abstains
+   * (`needs_review`) when the final confidence is below the threshold.
+   * Applied after the cache, which stores raw engine results.
+   */
+  private applyConfidencePolicy(result: AnalysisResult): AnalysisResult {
+    const sentiment = this.calibrator
+      ? {
+          ...result.sentiment,
+          confidence: this.calibrator.apply(result.sentiment.confidence),
+          rawConfidence: result.sentiment.confidence,
+        }
+      : result.sentiment;
+
+    return {
+      ...result,
+      sentiment,
+      status: sentiment.confidence < this.abstainThreshold ? "needs_review" : "ok",
+    };
   }
 
   /**
@@ -119,39 +216,205 @@ export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
   isBertEnabled(): boolean {
     return this.engine.isBertEnabled();
   }
-  analyzeBatch(tweets: TweetDTO[]): Promise<AnalysisResult[]> {
-    return Promise.all(tweets.map((t) => this.analyzeText({ text: t.text })));
+
+  /**
+   * Analyzes a batch of tweets; rejects if any of them fails.
+   * Use analyzeBatchWithStatus to get partial results instead.
+   */
+  async analyzeBatch(tweets: TweetDTO[]): Promise<AnalysisResult[]> {
+    const { items } = await this.analyzeBatchWithStatus(
+      tweets.map((tweet) => ({ id: tweet.id, text: tweet.text, language: tweet.language })),
+    );
+    const failed = items.find((item) => item.status === "error");
+    if (failed) {
+      throw new Error(`Failed to analyze tweet ${failed.id}.`);
+    }
+    return items.map((item) => item.result!);
   }
 
-  // Remove expired cache entries
-  private cleanupExpiredCache(): void {
-    const now = Date.now();
-    const expiredKeys: string[] = [];
+  /**
+   * Batch pipeline with per-item status.
+   * Identical texts (same cache key) are analyzed once, cache hits skip the
+   * engine, and the misses go to the engine in chunks of `chunkSize` with at
+   * most `concurrency` chunks in flight. A failing item or chunk only fails
+   * its own items; the rest of the batch is still returned.
+   * @param items - Requests to analyze, with an optional id echoed back.
+   * @param options - Concurrency budget and chunk size (defaults from appConfig).
+   * @returns One entry per item, in request order, plus a summary.
+   */
+  async analyzeBatchWithStatus(
+    items: BatchAnalysisItem[],
+    options: BatchAnalysisOptions = {},
+  ): Promise<BatchAnalysisResponse> {
+    const startTime = Date.now();
+    await this.syncActiveModel();
+    const concurrency = Math.max(
+      1,
+      Math.floor(options.concurrency ?? appConfig.sentiment.batch.concurrency),
+    );
+    const chunkSize = Math.max(
+      1,
+      Math.floor(options.chunkSize ?? appConfig.sentiment.batch.chunkSize),
+    );
+    this.metrics.totalRequests += items.length;
+
+    const results: BatchItemResult[] = items.map((item, index) => ({
+      index,
+      ...(item.id !== undefined && { id: item.id }),
+      status: "error",
+    }));
 
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > this.CACHE_TTL) {
-        expiredKeys.push(key);
+    if (this.checkCircuitBreaker()) {
+      this.metrics.errorCount += items.length;
+      results.forEach((item) => {
+        item.error = "Service temporarily unavailable - circuit breaker open";
+      });
+      return this.summarizeBatch(results, 0, startTime);
+    }
+
+    // Organization lexicons of the batch, before they go into the cache keys
+    await getSharedOrganizationLexicons().prepare(items);
+
+    // 1. Dedupe: identical requests share a cache key and a single analysis
+    const engineVersion = this.engine.getVersion();
+    const unique = new Map<string, { request: AnalysisRequest; indices: number[] }>();
+    items.forEach((request, index) => {
+      if (typeof request.text !== "string") {
+        this.metrics.errorCount++;
+        results[index].error = "Text must be a string";
+        return;
+      }
+      const key = this.generateCacheKey(request, engineVersion);
+      const entry = unique.get(key);
+      if (entry) entry.indices.push(index);
+      else unique.set(key, { request, indices: [index] });
+    });
+
+    const fanOut = (
+      indices: number[],
+      outcome: { status: "ok" | "cached"; result: AnalysisResult } | { error: string },
+    ) => {
+      for (const index of indices) {
+        if ("error" in outcome) {
+          results[index].error = outcome.error;
+        } else {
+          results[index].status = outcome.status;
+          results[index].result = outcome.result;
+        }
+      }
+    };
+
+    // 2. Cache lookups
+    const misses: Array<{ key: string; request: AnalysisRequest; indices: number[] }> = [];
+    for (const [key, entry] of unique) {
+      const cached = await this.getCacheEntry(key);
+      if (cached) {
+        fanOut(entry.indices, { status: "cached", result: this.applyConfidencePolicy(cached) });
+      } else {
+        misses.push({ key, ...entry });
       }
     }
 
-    expiredKeys.forEach((key) => this.cache.delete(key));
-    console.log(
-      `[Orchestrator] Cleaned up ${expiredKeys.length} expired cache entries`,
-    );
+    // 3. Engine: chunks processed by a pool of `concurrency` workers
+    const chunks: (typeof misses)[] = [];
+    for (let i = 0; i < misses.length; i += chunkSize) {
+      chunks.push(misses.slice(i, i + chunkSize));
+    }
+
+    let nextChunk = 0;
+    const worker = async () => {
+      while (nextChunk < chunks.length) {
+        const chunk = chunks[nextChunk++];
+        const chunkStartTime = Date.now();
+        let analyses: Array<AnalysisResult | Error>;
+        try {
+          analyses = await this.withTimeout(
+            this.engine.analyzeBatch(chunk.map((entry) => entry.request)),
+          );
+        } catch (error) {
+          const failure = error instanceof Error ? error : new Error(String(error));
+          analyses = chunk.map(() => failure);
+        }
+
+        let chunkFailed = false;
+        for (const [i, entry] of chunk.entries()) {
+          const analysis = analyses[i];
+          if (analysis instanceof Error) {
+            chunkFailed = true;
+            this.metrics.errorCount += entry.indices.length;
+            console.error("[Orchestrator] Error during batch analysis:", analysis);
+            fanOut(entry.indices, {
+              error:
+                analysis.message === "Request timeout"
+                  ? analysis.message
+                  : "Failed to analyze text.",
+            });
+            continue;
+          }
+          await this.setCacheEntry(entry.key, engineVersion, analysis);
+          fanOut(entry.indices, { status: "ok", result: this.applyConfidencePolicy(analysis) });
+        }
+        // Un fallo por chunk como mucho: un texto malo no debe abrir el circuito
+        if (chunkFailed) this.recordFailure();
+
+        // Los lotes siempre los responde el modelo en producción; el candidato solo los puntúa
+        const scored = chunk.flatMap((entry, i) => {
+          const analysis = analyses[i];
+          return analysis instanceof Error ? [] : [{ request: entry.request, analysis }];
+        });
+        this.shadow.observe(
+          scored.map((item) => item.request),
+          scored.map((item) => item.analysis),
+          Date.now() - chunkStartTime,
+          "primary",
+          this.engine,
+        );
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+    const processingTime = Date.now() - startTime;
+    this.metrics.totalProcessingTime += processingTime;
+    this.metrics.averageProcessingTime =
+      this.metrics.totalProcessingTime / this.metrics.totalRequests;
+
+    return this.summarizeBatch(results, unique.size, startTime);
   }
 
-  // Basic LRU-style eviction when size limit exceeded
-  private evictCacheIfNeeded(): void {
-    if (this.cache.size > this.MAX_CACHE_SIZE) {
-      // Simple LRU: sort by hits (least used first) and remove 20%
-      const entries = Array.from(this.cache.entries())
-        .sort((a, b) => a[1].hits - b[1].hits)
-        .slice(0, Math.floor(this.MAX_CACHE_SIZE * 0.2));
+  private summarizeBatch(
+    items: BatchItemResult[],
+    unique: number,
+    startTime: number,
+  ): BatchAnalysisResponse {
+    const failed = items.filter((item) => item.status === "error").length;
+    return {
+      items,
+      summary: {
+        total: items.length,
+        succeeded: items.length - failed,
+        failed,
+        cached: items.filter((item) => item.status === "cached").length,
+        unique,
+        processingTime: Date.now() - startTime,
+      },
+    };
+  }
 
-      entries.forEach(([key]) => this.cache.delete(key));
-      console.log(
-        `[Orchestrator] Evicted ${entries.length} cache entries (LRU)`,
+  /**
+   * Rejects with "Request timeout" after REQUEST_TIMEOUT, clearing the timer either way
+   */
+  private async withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error("Request timeout")),
+        this.REQUEST_TIMEOUT,
       );
+    });
+    try {
+      return await Promise.race([promise, timeoutPromise]);
+    } finally {
+      clearTimeout(timer);
     }
   }
 
@@ -197,33 +460,40 @@ export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
   /**
    * Get cache entry with hit tracking
    */
-  private getCacheEntry(key: string): AnalysisResult | null {
-    const entry = this.cache.get(key);
-    if (entry) {
-      entry.hits++;
+  private async getCacheEntry(key: string): Promise<AnalysisResult | null> {
+    const result = await this.cache.get(key);
+    if (result) {
       this.metrics.cacheHits++;
-      return entry.result;
+      return result;
     }
     this.metrics.cacheMisses++;
     return null;
   }
 
   /**
-   * Set cache entry with metadata
+   * Store a raw engine result under the version of the engine that produced it
+   * (the A/B candidate's for the callers it answers)
    */
-  private setCacheEntry(
+  private async setCacheEntry(
     key: string,
+    engineVersion: string,
     result: AnalysisResult,
-    textLength: number,
-  ): void {
-    this.evictCacheIfNeeded();
+  ): Promise<void> {
+    await this.cache.set(key, engineVersion, result);
+  }
 
-    this.cache.set(key, {
-      result,
-      timestamp: Date.now(),
-      hits: 1,
-      size: textLength,
-    });
+  /**
+   * Drop every cached result (shared by all orchestrators using the same cache)
+   */
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
+  }
+
+  /**
+   * Backend, size and hit-rate of the result cache
+   */
+  getCacheStats() {
+    return this.cache.getStats();
   }
 
   /**
@@ -274,20 +544,30 @@ export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
   }
 
   /**
-   * Generate a normalized cache key for better hit rates
+   * Generate the cache key: hash of the normalized text and the engine version,
+   * so results from a previous model are never served after an upgrade
    */
-  private generateCacheKey(text: string, language?: string): string {
-    // Normalize text for better cache hits
-    const normalized = text
-      .toLowerCase()
-      .replace(/\s+/g, " ") // normalize whitespace
-      .replace(/[^\w\s]/g, "") // remove punctuation for similar content matching
-      .trim();
-
-    // Use first 100 characters to avoid overly long keys while maintaining uniqueness
-    const keyText =
-      normalized.length > 100 ? normalized.substring(0, 100) : normalized;
-    return `text:${keyText}:${language || "en"}`;
+  private generateCacheKey(
+    request: AnalysisRequest,
+    engineVersion = this.engine.getVersion(),
+  ): string {
+    const { text, language, aspectMode, aspectDictionary, entities, explain } = request;
+    const pipeline = resolvePipeline(request.campaignId);
+    const lexicon = getSharedOrganizationLexicons().resolve(request);
+    const variant = [
+      language || "en",
+      // Explained results carry extra payload, so they are cached apart
+      explain ? "explain" : "",
+      // Aspect results depend on the dictionary, so it becomes part of the key
+      aspectMode ? `aspects:${JSON.stringify(aspectDictionary ?? "default")}` : "",
+      // Same for the entity dictionary of the campaign
+      ...(entities?.length ? [`entities:${JSON.stringify(entities)}`] : []),
+      // Each analyzer pipeline (deployment or campaign) gives its own results
+      `pipeline:${pipeline.name}@${pipelineFingerprint(pipeline)}`,
+      // Editing an organization lexicon changes its fingerprint and so the key
+      ...(lexicon ? [`lexicon:${lexicon.organizationId}@${lexicon.fingerprint}`] : []),
+    ];
+    return resultCacheKey(engineVersion, text, variant);
   }
 
   /**
@@ -298,6 +578,7 @@ export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
   async analyzeText(request: AnalysisRequest): Promise<AnalysisResult> {
     const startTime = Date.now();
     this.metrics.totalRequests++;
+    await this.syncActiveModel();
 
     // Check circuit breaker
     if (this.checkCircuitBreaker()) {
@@ -305,13 +586,21 @@ export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
       throw new Error("Service temporarily unavailable - circuit breaker open");
     }
 
-    const cacheKey = this.generateCacheKey(request.text, request.language);
+    // A/B: a slice of the callers is answered by the candidate under evaluation
+    const candidate = this.shadow.routesToCandidate(request.callerId)
+      ? this.shadow.getCandidate()
+      : null;
+    const engine = candidate?.engine ?? this.engine;
+
+    await getSharedOrganizationLexicons().prepare([request]);
+    const engineVersion = engine.getVersion();
+    const cacheKey = this.generateCacheKey(request, engineVersion);
 
     // Try cache first
-    const cachedResult = this.getCacheEntry(cacheKey);
+    const cachedResult = await this.getCacheEntry(cacheKey);
     if (cachedResult) {
       console.log(`[Orchestrator] Cache hit for normalized text`);
-      return cachedResult;
+      return this.applyConfidencePolicy(cachedResult);
     }
 
     console.log(
@@ -327,11 +616,21 @@ export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
         );
       });
 
-      const analysisPromise = this.engine.analyze(request);
+      const engineStartTime = Date.now();
+      const analysisPromise = engine.analyze(request);
       const result = await Promise.race([analysisPromise, timeoutPromise]);
 
-      // Cache the result
-      this.setCacheEntry(cacheKey, result, request.text.length);
+      // The other model scores the same request in the background
+      this.shadow.observe(
+        [request],
+        [result],
+        Date.now() - engineStartTime,
+        candidate ? "candidate" : "primary",
+        this.engine,
+      );
+
+      // Cache the raw result
+      await this.setCacheEntry(cacheKey, engineVersion, result);
 
       // Update metrics
       const processingTime = Date.now() - startTime;
@@ -339,7 +638,7 @@ export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
       this.metrics.averageProcessingTime =
         this.metrics.totalProcessingTime / this.metrics.totalRequests;
 
-      return result;
+      return this.applyConfidencePolicy(result);
     } catch (error) {
       this.metrics.errorCount++;
       this.recordFailure();
@@ -356,13 +655,18 @@ export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
   async analyzeTweet(
     tweet: TweetDTO,
   ): Promise<AnalysisResult & { tweetId: string }> {
-    const cacheKey = this.generateCacheKey(tweet.text, tweet.language);
+    await this.syncActiveModel();
+    const engineVersion = this.engine.getVersion();
+    const cacheKey = this.generateCacheKey(
+      { text: tweet.text, language: tweet.language },
+      engineVersion,
+    );
 
     // Try cache first
-    const cachedResult = this.getCacheEntry(cacheKey);
+    const cachedResult = await this.getCacheEntry(cacheKey);
     if (cachedResult) {
       console.log(`[Orchestrator] Cache hit for tweet: ${tweet.id}`);
-      return { ...cachedResult, tweetId: tweet.id };
+      return { ...this.applyConfidencePolicy(cachedResult), tweetId: tweet.id };
     }
 
     console.log(
@@ -375,8 +679,8 @@ export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
 
     try {
       const result = await this.engine.analyze(request);
-      this.setCacheEntry(cacheKey, result, tweet.text.length);
-      return { ...result, tweetId: tweet.id };
+      await this.setCacheEntry(cacheKey, engineVersion, result);
+      return { ...this.applyConfidencePolicy(result), tweetId: tweet.id };
     } catch (error) {
       console.error(
         `[Orchestrator] Error during tweet analysis for ${tweet.id}:`,
@@ -387,7 +691,8 @@ export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
   }
 
   /**
-   * Analyzes a batch of tweets efficiently with deduplication.
+   * Analyzes a batch of tweets through the batch pipeline (dedupe, cache, chunks).
+   * Rejects if any tweet fails, like analyzeTweet.
    * @param tweets - An array of tweet DTOs.
    * @returns An array of analysis results.
    */
@@ -396,19 +701,10 @@ export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
   ): Promise<(AnalysisResult & { tweetId: string })[]> {
     console.log(`[Orchestrator] Batch analysis for ${tweets.length} tweets.`);
 
-    // Simple optimization: process with limited concurrency
-    const BATCH_SIZE = 3;
-    const results: (AnalysisResult & { tweetId: string })[] = [];
-
-    for (let i = 0; i < tweets.length; i += BATCH_SIZE) {
-      const batch = tweets.slice(i, i + BATCH_SIZE);
-      const batchPromises = batch.map((tweet) => this.analyzeTweet(tweet));
-      const batchResults = await Promise.all(batchPromises);
-      results.push(...batchResults);
-    }
+    const results = await this.analyzeBatch(tweets);
 
     console.log("[Orchestrator] Batch analysis complete.");
-    return results;
+    return results.map((result, index) => ({ ...result, tweetId: tweets[index].id }));
   }
 
   // =============================================================================
@@ -569,14 +865,10 @@ export class SentimentAnalysisOrchestrator implements SentimentOrchestrator {
   }
 
   /**
-   * Clean up resources and intervals
-   * Essential for testing environments
+   * Clean up resources
+   * The result cache is shared and outlives the orchestrator, so it is not cleared here
    */
   public dispose(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-      this.cleanupInterval = undefined;
-    }
-    this.cache.clear();
+    // Nothing else to release: timers belong to the shared result cache
   }
 }
@@ -0,0 +1,215 @@
+/**
+ * Organization lexicons
+ * Redefiniciones del léxico por organización ("sick" en zapatillas, "killer" en
+ * videojuegos) guardadas en Mongo y editables por API. El orquestador prepara
+ * las de cada petición (campaña → organización → términos) y el analizador de
+ * reglas las aplica sobre el léxico del idioma. Cada conjunto de términos tiene
+ * una huella que entra en la clave de la caché de resultados, así que editar el
+ * léxico invalida los resultados que dependían de él.
+ */
+import { createHash } from 'crypto';
+import mongoose from 'mongoose';
+import { appConfig } from '../config/app';
+import { logger } from '../observability/logger';
+import { LexiconLanguage, LexiconOverride, tokenize } from './lexicons';
+
+export interface OrganizationLexiconTerm {
+  term: string;
+  polarity: 'positive' | 'negative' | 'neutral';
+  weight: number;
+  context?: string[]; // the term only applies when one of these words is in the text
+  language?: string; // the term only applies to texts in this language
+}
+
+// Acceso a datos; por defecto Mongo (campañas y términos)
+export interface OrganizationLexiconSource {
+  loadTerms(organizationId: string): Promise<OrganizationLexiconTerm[]>;
+  findOrganization(campaignId: string): Promise<string | null>;
+}
+
+export interface LexiconScope {
+  campaignId?: string;
+  organizationId?: string; // wins over the campaign's organization
+}
+
+const POLARITY: Record<OrganizationLexiconTerm['polarity'], LexiconOverride['polarity']> = {
+  positive: 1,
+  negative: -1,
+  neutral: 0,
+};
+
+/**
+ * The terms of one organization, normalized like the lexicon tokens.
+ */
+export class OrganizationLexicon {
+  readonly fingerprint: string;
+  private readonly terms: Array<OrganizationLexiconTerm & { context: string[] }>;
+
+  constructor(
+    readonly organizationId: string,
+    terms: OrganizationLexiconTerm[]
+  ) {
+    this.terms = terms
+      .map((term) => ({
+        ...term,
+        term: tokenize(term.term).join(' '),
+        context: (term.context ?? []).flatMap((word) => tokenize(word)),
+      }))
+      .filter((term) => term.term.length > 0)
+      .sort(
+        (a, b) => a.term.localeCompare(b.term) || (a.language ?? '').localeCompare(b.language ?? '')
+      );
+
+    this.fingerprint = createHash('sha256')
+      .update(JSON.stringify(this.terms))
+      .digest('hex')
+      .slice(0, 8);
+  }
+
+  get size(): number {
+    return this.terms.length;
+  }
+
+  /**
+   * Overrides that apply to this text: language and context must match, and a
+   * term defined for the text's language wins over the language-neutral one.
+   */
+  overridesFor(tokens: readonly string[], language: LexiconLanguage): Map<string, LexiconOverride> {
+    const present = new Set(tokens);
+    const overrides = new Map<string, LexiconOverride>();
+
+    for (const term of this.terms) {
+      if (!present.has(term.term)) continue;
+      if (term.language && term.language !== language) continue;
+      if (term.context.length > 0 && !term.context.some((word) => present.has(word))) continue;
+      if (overrides.has(term.term) && !term.language) continue;
+      overrides.set(term.term, { polarity: POLARITY[term.polarity], weight: term.weight });
+    }
+    return overrides;
+  }
+}
+
+// Campañas y términos desde Mongo; sin conexión no hay léxicos de organización
+const mongoSource: OrganizationLexiconSource = {
+  async loadTerms(organizationId) {
+    const { OrganizationLexiconTermModel } = await import('../../models/OrganizationLexicon.model');
+    return OrganizationLexiconTermModel.find({ organizationId }).lean();
+  },
+  async findOrganization(campaignId) {
+    if (!mongoose.isValidObjectId(campaignId)) return null;
+    const { CampaignModel } = await import('../../models/Campaign.model');
+    const campaign = await CampaignModel.findById(campaignId).select('organizationId').lean();
+    return campaign?.organizationId ?? null;
+  },
+};
+
+export class OrganizationLexiconStore {
+  private readonly lexicons = new Map<string, { lexicon: OrganizationLexicon; loadedAt: number }>();
+  private readonly campaigns = new Map<
+    string,
+    { organizationId: string | null; loadedAt: number }
+  >();
+
+  /**
+   * @param source - Data access; Mongo unless given
+   * @param refreshMs - Lexicons edited on another replica are picked up after this long
+   */
+  constructor(
+    private readonly source: OrganizationLexiconSource | null = null,
+    private readonly refreshMs = appConfig.sentiment.lexicons.refreshSeconds * 1000
+  ) {}
+
+  /**
+   * Loads (or refreshes) the lexicons the requests need, so that resolve()
+   * can be answered synchronously during analysis. Lookup failures are logged
+   * and the affected requests are analyzed with the base lexicon.
+   */
+  async prepare(scopes: LexiconScope[]): Promise<void> {
+    const source = this.source ?? (mongoose.connection.readyState === 1 ? mongoSource : null);
+    if (!source) return;
+
+    const now = Date.now();
+    const fresh = (loadedAt: number) => now - loadedAt < this.refreshMs;
+
+    const campaignIds = new Set(
+      scopes
+        .filter((scope) => !scope.organizationId && scope.campaignId)
+        .map((scope) => scope.campaignId as string)
+    );
+    await Promise.all(
+      [...campaignIds]
+        .filter((id) => !fresh(this.campaigns.get(id)?.loadedAt ?? 0))
+        .map(async (campaignId) => {
+          try {
+            const organizationId = await source.findOrganization(campaignId);
+            this.campaigns.set(campaignId, { organizationId, loadedAt: now });
+          } catch (error) {
+            logger.warn('Could not resolve the organization of a campaign', { campaignId, error });
+          }
+        })
+    );
+
+    const organizationIds = new Set(
+      scopes.map((scope) => this.organizationOf(scope)).filter((id): id is string => !!id)
+    );
+    await Promise.all(
+      [...organizationIds]
+        .filter((id) => !fresh(this.lexicons.get(id)?.loadedAt ?? 0))
+        .map(async (organizationId) => {
+          try {
+            const terms = await source.loadTerms(organizationId);
+            this.set(organizationId, terms);
+          } catch (error) {
+            logger.warn('Could not load the organization lexicon', { organizationId, error });
+          }
+        })
+    );
+  }
+
+  /**
+   * The lexicon of the request's organization, or null when it has none.
+   */
+  resolve(scope: LexiconScope): OrganizationLexicon | null {
+    const organizationId = this.organizationOf(scope);
+    const lexicon = organizationId ? this.lexicons.get(organizationId)?.lexicon : undefined;
+    return lexicon && lexicon.size > 0 ? lexicon : null;
+  }
+
+  /**
+   * Replaces an organization's terms (e.g. after an API edit on this replica).
+   */
+  set(organizationId: string, terms: OrganizationLexiconTerm[]): OrganizationLexicon {
+    const lexicon = new OrganizationLexicon(organizationId, terms);
+    this.lexicons.set(organizationId, { lexicon, loadedAt: Date.now() });
+    return lexicon;
+  }
+
+  /**
+   * Forgets an organization's terms; the next prepare() reloads them.
+   */
+  invalidate(organizationId: string): void {
+    this.lexicons.delete(organizationId);
+  }
+
+  clear(): void {
+    this.lexicons.clear();
+    this.campaigns.clear();
+  }
+
+  private organizationOf(scope: LexiconScope): string | null {
+    if (scope.organizationId) return scope.organizationId;
+    return scope.campaignId ? (this.campaigns.get(scope.campaignId)?.organizationId ?? null) : null;
+  }
+}
+
+let sharedStore: OrganizationLexiconStore | null = null;
+
+/**
+ * Store shared by the orchestrator, the engine and the lexicon API.
+ */
+export function getSharedOrganizationLexicons(): OrganizationLexiconStore {
+  if (!sharedStore) {
+    sharedStore = new OrganizationLexiconStore();
+  }
+  return sharedStore;
+}
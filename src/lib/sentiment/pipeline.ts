@@ -0,0 +1,394 @@
+/**
+ * Analyzer pipeline
+ * Etapas de análisis enchufables (`AnalyzerStage`) y la definición del pipeline
+ * que las combina: qué etapas votan, en qué orden, con qué peso y a qué etapa se
+ * recurre si una falla o no está disponible. Las definiciones se leen de
+ * config/sentiment-pipeline.json; el despliegue elige una (SENTIMENT_PIPELINE) y
+ * cada campaña puede tener la suya, sin cambios de código.
+ */
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { appConfig } from '../config/app';
+import { logger } from '../observability/logger';
+import { tokenize } from './lexicons';
+import { AnalysisRequest, ComponentPrediction, LanguageCode } from './types';
+
+export interface StageInput {
+  text: string;
+  language: LanguageCode;
+  tokens: string[]; // tokenize(text)
+  request: AnalysisRequest;
+}
+
+export interface AnalyzerStage {
+  readonly name: string;
+  // false when the stage cannot run right now (e.g. BERT not loaded)
+  isAvailable?(): boolean;
+  // null: no opinion on this text; the stage abstains without counting as a failure
+  analyze(input: StageInput): Promise<ComponentPrediction | null>;
+}
+
+export type StageFactory = (options: Record<string, unknown>) => AnalyzerStage;
+
+export interface PipelineStageConfig {
+  stage: string; // built-in engine stage (rules, naive-bayes, bert) or a registered type
+  weight: number;
+  enabled?: boolean; // default true
+  fallback?: string; // stage that votes instead when this one is unavailable or fails
+  options?: Record<string, unknown>; // passed to the stage factory
+}
+
+// auto: Naive Bayes + reglas solos usan los pesos por texto del híbrido; weighted: siempre los configurados
+export type PipelineCombiner = 'auto' | 'weighted';
+
+export interface PipelineDefinition {
+  name: string;
+  combiner: PipelineCombiner;
+  stages: PipelineStageConfig[];
+}
+
+export interface PipelineConfig {
+  default: string;
+  pipelines: Record<string, PipelineDefinition>;
+  campaigns: Record<string, string>; // campaign id -> pipeline name
+}
+
+export interface StageOutcome {
+  stage: string;
+  weight: number;
+  prediction: ComponentPrediction;
+  fallbackFor?: string; // configured stage this one replaced
+}
+
+export interface PipelineRun {
+  pipeline: string;
+  components: StageOutcome[];
+  skipped: Array<{ stage: string; reason: string }>;
+}
+
+export interface PipelineDescription {
+  source: string; // config file, or "built-in"
+  default: string;
+  active: PipelineDefinition & { fingerprint: string };
+  pipelines: string[];
+  campaigns: Record<string, string>;
+  stageTypes: string[];
+}
+
+// Etapas que aporta el propio motor (ver SentimentAnalysisEngine)
+export const ENGINE_STAGES = ['rules', 'naive-bayes', 'bert'] as const;
+
+const BUILT_IN_CONFIG: PipelineConfig = {
+  default: 'hybrid',
+  pipelines: {
+    hybrid: {
+      name: 'hybrid',
+      combiner: 'auto',
+      stages: [
+        { stage: 'naive-bayes', weight: 0.25 },
+        { stage: 'rules', weight: 0.25 },
+        { stage: 'bert', weight: 0.5 },
+      ],
+    },
+  },
+  campaigns: {},
+};
+
+const stageFactories = new Map<string, StageFactory>();
+const stageInstances = new Map<string, AnalyzerStage>();
+let activeConfig: { config: PipelineConfig; source: string } | null = null;
+
+/**
+ * Make a stage type available to pipeline definitions
+ * @param type - Name used in the `stage` field of the config
+ * @param factory - Builds the stage from the `options` of each use
+ */
+export function registerAnalyzerStage(type: string, factory: StageFactory): void {
+  if ((ENGINE_STAGES as readonly string[]).includes(type)) {
+    throw new Error(`Stage type "${type}" is provided by the engine`);
+  }
+  stageFactories.set(type, factory);
+  for (const key of stageInstances.keys()) {
+    if (key.startsWith(`${type}:`)) stageInstances.delete(key);
+  }
+}
+
+export function getRegisteredStageTypes(): string[] {
+  return [...ENGINE_STAGES, ...stageFactories.keys()];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseStage(value: unknown, where: string): PipelineStageConfig {
+  if (!isRecord(value) || typeof value.stage !== 'string' || !value.stage) {
+    throw new Error(`${where}: "stage" must be a non-empty string`);
+  }
+  const weight = value.weight ?? 1;
+  if (typeof weight !== 'number' || !(weight >= 0)) {
+    throw new Error(`${where}: "weight" must be a non-negative number`);
+  }
+  if (value.enabled !== undefined && typeof value.enabled !== 'boolean') {
+    throw new Error(`${where}: "enabled" must be a boolean`);
+  }
+  if (value.fallback !== undefined && typeof value.fallback !== 'string') {
+    throw new Error(`${where}: "fallback" must be a stage name`);
+  }
+  if (value.options !== undefined && !isRecord(value.options)) {
+    throw new Error(`${where}: "options" must be an object`);
+  }
+  return {
+    stage: value.stage,
+    weight,
+    ...(value.enabled !== undefined && { enabled: value.enabled }),
+    ...(value.fallback !== undefined && { fallback: value.fallback }),
+    ...(value.options !== undefined && { options: value.options }),
+  };
+}
+
+/**
+ * Validate a pipeline config (parsed JSON). Throws with the offending path.
+ * Stage types are not checked here: plugins may be registered after loading,
+ * and an unknown stage is skipped (or replaced by its fallback) when it runs.
+ */
+export function parsePipelineConfig(raw: unknown): PipelineConfig {
+  if (!isRecord(raw) || !isRecord(raw.pipelines)) {
+    throw new Error('Pipeline config must have a "pipelines" object');
+  }
+
+  const pipelines: Record<string, PipelineDefinition> = {};
+  for (const [name, value] of Object.entries(raw.pipelines)) {
+    const where = `pipelines.${name}`;
+    if (!isRecord(value) || !Array.isArray(value.stages) || value.stages.length === 0) {
+      throw new Error(`${where}: "stages" must be a non-empty array`);
+    }
+    const combiner = value.combiner ?? 'auto';
+    if (combiner !== 'auto' && combiner !== 'weighted') {
+      throw new Error(`${where}: "combiner" must be "auto" or "weighted"`);
+    }
+    pipelines[name] = {
+      name,
+      combiner,
+      stages: value.stages.map((stage, i) => parseStage(stage, `${where}.stages[${i}]`)),
+    };
+  }
+
+  const defaultName = raw.default ?? Object.keys(pipelines)[0];
+  if (typeof defaultName !== 'string' || !pipelines[defaultName]) {
+    throw new Error(`Default pipeline "${String(defaultName)}" is not defined`);
+  }
+
+  const campaigns: Record<string, string> = {};
+  if (raw.campaigns !== undefined) {
+    if (!isRecord(raw.campaigns)) throw new Error('"campaigns" must map campaign ids to pipelines');
+    for (const [campaignId, name] of Object.entries(raw.campaigns)) {
+      if (typeof name !== 'string' || !pipelines[name]) {
+        throw new Error(`campaigns.${campaignId}: pipeline "${String(name)}" is not defined`);
+      }
+      campaigns[campaignId] = name;
+    }
+  }
+
+  return { default: defaultName, pipelines, campaigns };
+}
+
+/**
+ * Build every stage of a registered type with its options, so bad options (e.g.
+ * a domain-lexicon without terms) fail when the config loads, not on each text
+ */
+function buildRegisteredStages(config: PipelineConfig): void {
+  for (const [name, definition] of Object.entries(config.pipelines)) {
+    definition.stages.forEach((stage, i) => {
+      try {
+        stageInstance(stage.stage, stage.options);
+      } catch (error) {
+        throw new Error(`pipelines.${name}.stages[${i}]: ${(error as Error).message}`);
+      }
+    });
+  }
+}
+
+/**
+ * Read the config file (appConfig.sentiment.pipeline.configPath). Without a file
+ * the built-in hybrid pipeline is used; an invalid file (or stage options a
+ * registered stage rejects) throws so a deployment never runs a pipeline it did
+ * not ask for.
+ */
+export function loadPipelineConfig(configPath: string = appConfig.sentiment.pipeline.configPath): {
+  config: PipelineConfig;
+  source: string;
+} {
+  const file = path.resolve(configPath);
+  let config = BUILT_IN_CONFIG;
+  let source = 'built-in';
+
+  if (fs.existsSync(file)) {
+    try {
+      config = parsePipelineConfig(JSON.parse(fs.readFileSync(file, 'utf8')));
+      buildRegisteredStages(config);
+    } catch (error) {
+      throw new Error(`Invalid sentiment pipeline config ${file}: ${(error as Error).message}`);
+    }
+    source = file;
+  }
+
+  // El despliegue puede elegir otra definición del mismo fichero
+  const selected = appConfig.sentiment.pipeline.name;
+  if (selected) {
+    if (!config.pipelines[selected]) {
+      throw new Error(`SENTIMENT_PIPELINE "${selected}" is not defined in ${source}`);
+    }
+    config = { ...config, default: selected };
+  }
+  return { config, source };
+}
+
+function getActiveConfig(): { config: PipelineConfig; source: string } {
+  if (!activeConfig) {
+    activeConfig = loadPipelineConfig();
+    logger.info('Sentiment pipeline loaded', {
+      source: activeConfig.source,
+      default: activeConfig.config.default,
+      campaigns: Object.keys(activeConfig.config.campaigns).length,
+    });
+  }
+  return activeConfig;
+}
+
+/**
+ * Replace the active config (tests, or a reload after editing the file).
+ * Pass null to read the file again on next use.
+ */
+export function setPipelineConfig(config: PipelineConfig | null, source = 'runtime'): void {
+  activeConfig = config ? { config, source } : null;
+}
+
+/**
+ * Pipeline for a campaign: its own if the config maps it, the deployment default otherwise
+ */
+export function resolvePipeline(campaignId?: string): PipelineDefinition {
+  const { config } = getActiveConfig();
+  const name = (campaignId && config.campaigns[campaignId]) || config.default;
+  return config.pipelines[name];
+}
+
+export function pipelineFingerprint(definition: PipelineDefinition): string {
+  return createHash('sha1').update(JSON.stringify(definition)).digest('hex').slice(0, 8);
+}
+
+export function describePipelines(): PipelineDescription {
+  const { config, source } = getActiveConfig();
+  const active = config.pipelines[config.default];
+  return {
+    source,
+    default: config.default,
+    active: { ...active, fingerprint: pipelineFingerprint(active) },
+    pipelines: Object.keys(config.pipelines),
+    campaigns: { ...config.campaigns },
+    stageTypes: getRegisteredStageTypes(),
+  };
+}
+
+function stageInstance(type: string, options: Record<string, unknown> = {}): AnalyzerStage | null {
+  const factory = stageFactories.get(type);
+  if (!factory) return null;
+  const key = `${type}:${JSON.stringify(options)}`;
+  let stage = stageInstances.get(key);
+  if (!stage) {
+    stage = factory(options);
+    stageInstances.set(key, stage);
+  }
+  return stage;
+}
+
+/**
+ * Run the stages of a pipeline in order and collect their votes.
+ * A stage that is unknown, unavailable or throws (also when it is built or
+ * checked) is replaced by its fallback (with the same weight) or skipped;
+ * abstaining stages are skipped.
+ * @param engineStages - Stages bound to the calling engine (rules, naive-bayes, bert)
+ * @param precomputed - Votes the engine already has (the stage is not run again)
+ */
+export async function runPipeline(
+  definition: PipelineDefinition,
+  engineStages: Record<string, AnalyzerStage>,
+  input: StageInput,
+  precomputed: Record<string, ComponentPrediction> = {}
+): Promise<PipelineRun> {
+  const run: PipelineRun = { pipeline: definition.name, components: [], skipped: [] };
+
+  // Voto de una etapa, o el motivo por el que no pudo votar
+  const vote = async (
+    name: string,
+    options?: Record<string, unknown>
+  ): Promise<{ prediction: ComponentPrediction | null } | { reason: string }> => {
+    try {
+      const stage = engineStages[name] ?? stageInstance(name, options);
+      if (!stage) return { reason: 'unknown stage' };
+      if (stage.isAvailable && !stage.isAvailable()) return { reason: 'unavailable' };
+      if (precomputed[name]) return { prediction: precomputed[name] };
+      return { prediction: await stage.analyze(input) };
+    } catch (error) {
+      logger.warn(`Analyzer stage ${name} failed`, { pipeline: definition.name, error });
+      return { reason: `failed: ${(error as Error).message}` };
+    }
+  };
+
+  for (const config of definition.stages) {
+    if (config.enabled === false) continue;
+
+    let stage = config.stage;
+    let outcome = await vote(stage, config.options);
+    if ('reason' in outcome && config.fallback) {
+      run.skipped.push({ stage, reason: outcome.reason });
+      stage = config.fallback;
+      outcome = await vote(stage);
+    }
+
+    if ('reason' in outcome) {
+      run.skipped.push({ stage, reason: outcome.reason });
+    } else if (outcome.prediction === null) {
+      run.skipped.push({ stage, reason: 'abstained' });
+    } else {
+      run.components.push({
+        stage,
+        weight: config.weight,
+        prediction: outcome.prediction,
+        ...(stage !== config.stage && { fallbackFor: config.stage }),
+      });
+    }
+  }
+  return run;
+}
+
+/**
+ * Domain lexicon stage: single words with a valence in [-1, 1], e.g.
+ * `{ "stage": "domain-lexicon", "weight": 0.2, "options": { "terms": { "bearish": -0.8 } } }`.
+ * Abstains when no term occurs in the text.
+ */
+export function createDomainLexiconStage(options: Record<string, unknown>): AnalyzerStage {
+  if (!isRecord(options.terms)) {
+    throw new Error('domain-lexicon stage needs an "options.terms" object');
+  }
+  const terms = new Map<string, number>();
+  for (const [term, valence] of Object.entries(options.terms)) {
+    if (typeof valence !== 'number') continue;
+    const [token] = tokenize(term);
+    if (token) terms.set(token, Math.max(-1, Math.min(1, valence)));
+  }
+
+  return {
+    name: 'domain-lexicon',
+    async analyze({ tokens }) {
+      const hits = tokens.filter((token) => terms.has(token)).map((token) => terms.get(token)!);
+      if (hits.length === 0) return null;
+      const score = hits.reduce((sum, valence) => sum + valence, 0) / hits.length;
+      const label = score > 0.15 ? 'positive' : score < -0.15 ? 'negative' : 'neutral';
+      return { label, score, confidence: Math.min(0.95, 0.5 + 0.15 * hits.length) };
+    },
+  };
+}
+
+registerAnalyzerStage('domain-lexicon', createDomainLexiconStage);
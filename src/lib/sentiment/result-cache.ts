@@ -0,0 +1,438 @@
+/**
+ * Orchestrator result cache
+ * Caché de resultados del motor con backend intercambiable (memoria, disco o
+ * colección de Mongo) para que réplicas y reinicios no vuelvan a analizar los
+ * mismos tweets. Las claves son el hash del texto normalizado más la versión
+ * del motor, así que un cambio de modelo invalida las entradas antiguas.
+ */
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import mongoose from 'mongoose';
+import path from 'path';
+import { appConfig } from '../config/app';
+import { logger } from '../observability/logger';
+import { defaultMetrics } from '../observability/metrics';
+import { AnalysisResult } from './types';
+
+export type ResultCacheKind = 'memory' | 'file' | 'mongo';
+
+export const RESULT_CACHE_METRIC_TYPE = 'sentiment_results';
+
+export interface ResultCacheBackend {
+  readonly kind: ResultCacheKind;
+  get(key: string): Promise<AnalysisResult | null>;
+  /** @returns true if the key did not exist before */
+  set(key: string, version: string, result: AnalysisResult, ttlMs: number): Promise<boolean>;
+  clear(): Promise<void>;
+  /** Removes expired entries. @returns number of entries removed */
+  cleanup(): Promise<number>;
+  size(): Promise<number>;
+}
+
+export interface ResultCacheStats {
+  backend: ResultCacheKind;
+  entries: number;
+  ttlMs: number;
+  hits: number;
+  misses: number;
+  sets: number;
+  errors: number;
+  hitRate: number;
+}
+
+/**
+ * Clave de caché: sha256 de la versión del motor y el texto normalizado.
+ * La normalización solo pasa a minúsculas y colapsa espacios: emojis,
+ * puntuación y letras no latinas cambian el sentimiento y se conservan.
+ */
+export function resultCacheKey(
+  version: string,
+  text: string,
+  variant: readonly string[] = []
+): string {
+  const normalized = text
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return createHash('sha256')
+    .update([version, normalized, ...variant].join('\u0000'))
+    .digest('hex');
+}
+
+// ==================== Backends ====================
+
+interface MemoryEntry {
+  result: AnalysisResult;
+  expiresAt: number;
+  hits: number;
+}
+
+export class MemoryResultCacheBackend implements ResultCacheBackend {
+  readonly kind = 'memory' as const;
+  private entries = new Map<string, MemoryEntry>();
+
+  constructor(private readonly maxEntries = 10000) {}
+
+  async get(key: string): Promise<AnalysisResult | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    entry.hits++;
+    return entry.result;
+  }
+
+  async set(key: string, _version: string, result: AnalysisResult, ttlMs: number) {
+    const created = !this.entries.has(key);
+    this.entries.set(key, { result, expiresAt: Date.now() + ttlMs, hits: 1 });
+    this.evictIfNeeded();
+    return created;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async cleanup(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+
+  // LRU aproximado: al superar el límite se descarta el 20% menos usado
+  private evictIfNeeded(): void {
+    if (this.entries.size <= this.maxEntries) return;
+    Array.from(this.entries.entries())
+      .sort((a, b) => a[1].hits - b[1].hits)
+      .slice(0, Math.floor(this.maxEntries * 0.2))
+      .forEach(([key]) => this.entries.delete(key));
+  }
+}
+
+interface FileEntry {
+  version: string;
+  expiresAt: number;
+  result: AnalysisResult;
+}
+
+/**
+ * Un fichero JSON por clave, repartidos en subdirectorios por prefijo del hash
+ * (como los SST de LevelDB). Las escrituras son atómicas (tmp + rename), así que
+ * varias réplicas pueden compartir el directorio.
+ */
+export class FileResultCacheBackend implements ResultCacheBackend {
+  readonly kind = 'file' as const;
+
+  constructor(private readonly directory: string) {}
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, key.slice(0, 2), `${key}.json`);
+  }
+
+  async get(key: string): Promise<AnalysisResult | null> {
+    const entry = await this.readEntry(this.entryPath(key));
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      await fs.rm(this.entryPath(key), { force: true });
+      return null;
+    }
+    return entry.result;
+  }
+
+  async set(key: string, version: string, result: AnalysisResult, ttlMs: number) {
+    const file = this.entryPath(key);
+    const created = !(await this.exists(file));
+    const entry: FileEntry = { version, expiresAt: Date.now() + ttlMs, result };
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(entry), 'utf8');
+    await fs.rename(tmp, file);
+    return created;
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  async cleanup(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const file of await this.listFiles()) {
+      const entry = await this.readEntry(file);
+      if (!entry || entry.expiresAt <= now) {
+        await fs.rm(file, { force: true });
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async size(): Promise<number> {
+    return (await this.listFiles()).length;
+  }
+
+  private async listFiles(): Promise<string[]> {
+    let shards: string[];
+    try {
+      shards = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const shard of shards) {
+      const shardDir = path.join(this.directory, shard);
+      const names = await fs.readdir(shardDir).catch(() => [] as string[]);
+      files.push(
+        ...names.filter((name) => name.endsWith('.json')).map((name) => path.join(shardDir, name))
+      );
+    }
+    return files;
+  }
+
+  private async readEntry(file: string): Promise<FileEntry | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as FileEntry;
+    } catch {
+      return null; // ausente o escrito a medias por otra réplica
+    }
+  }
+
+  private async exists(file: string): Promise<boolean> {
+    return fs.access(file).then(
+      () => true,
+      () => false
+    );
+  }
+}
+
+/**
+ * Colección `sentiment_result_cache` con índice TTL sobre `expiresAt`.
+ * Sin conexión a Mongo se comporta como una caché vacía en lugar de esperar
+ * al buffer de mongoose.
+ */
+export class MongoResultCacheBackend implements ResultCacheBackend {
+  readonly kind = 'mongo' as const;
+
+  private get connected(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  private async model() {
+    const { SentimentResultCacheModel } = await import('../../models/SentimentResultCache.model');
+    return SentimentResultCacheModel;
+  }
+
+  async get(key: string): Promise<AnalysisResult | null> {
+    if (!this.connected) return null;
+    const Model = await this.model();
+    const entry = await Model.findOne({ _id: key, expiresAt: { $gt: new Date() } })
+      .lean()
+      .exec();
+    return entry ? (entry.result as AnalysisResult) : null;
+  }
+
+  async set(key: string, version: string, result: AnalysisResult, ttlMs: number) {
+    if (!this.connected) return false;
+    const Model = await this.model();
+    const outcome = await Model.updateOne(
+      { _id: key },
+      { $set: { version, result, expiresAt: new Date(Date.now() + ttlMs) } },
+      { upsert: true }
+    );
+    return outcome.upsertedCount > 0;
+  }
+
+  async clear(): Promise<void> {
+    if (!this.connected) return;
+    const Model = await this.model();
+    await Model.deleteMany({});
+  }
+
+  async cleanup(): Promise<number> {
+    // El índice TTL lo hace en el servidor; esto solo adelanta el borrado
+    if (!this.connected) return 0;
+    const Model = await this.model();
+    const outcome = await Model.deleteMany({ expiresAt: { $lte: new Date() } });
+    return outcome.deletedCount;
+  }
+
+  async size(): Promise<number> {
+    if (!this.connected) return 0;
+    const Model = await this.model();
+    return Model.estimatedDocumentCount();
+  }
+}
+
+// ==================== Cache ====================
+
+/**
+ * Envuelve un backend con TTL, contadores y métricas (cache_type "sentiment_results").
+ * Los errores del backend se registran y se tratan como fallo de caché: la caché
+ * nunca debe tumbar un análisis.
+ */
+export class ResultCache {
+  private stats = { hits: 0, misses: 0, sets: 0, errors: 0 };
+  private entries = 0;
+  private cleanupTimer?: NodeJS.Timeout;
+
+  constructor(
+    readonly backend: ResultCacheBackend,
+    readonly ttlMs: number
+  ) {
+    void this.refreshSize();
+  }
+
+  async get(key: string): Promise<AnalysisResult | null> {
+    try {
+      const result = await this.backend.get(key);
+      if (result) {
+        this.stats.hits++;
+        defaultMetrics.cacheHits.inc(1, { cache_type: RESULT_CACHE_METRIC_TYPE });
+      } else {
+        this.stats.misses++;
+        defaultMetrics.cacheMisses.inc(1, { cache_type: RESULT_CACHE_METRIC_TYPE });
+      }
+      return result;
+    } catch (error) {
+      this.recordError('get', error);
+      return null;
+    }
+  }
+
+  async set(key: string, version: string, result: AnalysisResult): Promise<void> {
+    try {
+      if (await this.backend.set(key, version, result, this.ttlMs)) this.entries++;
+      this.stats.sets++;
+      this.publishSize();
+    } catch (error) {
+      this.recordError('set', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.backend.clear();
+      this.entries = 0;
+      this.publishSize();
+    } catch (error) {
+      this.recordError('clear', error);
+    }
+  }
+
+  async cleanup(): Promise<number> {
+    try {
+      const removed = await this.backend.cleanup();
+      await this.refreshSize();
+      return removed;
+    } catch (error) {
+      this.recordError('cleanup', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Limpieza periódica de entradas caducadas; el timer no mantiene vivo el proceso
+   */
+  startCleanup(intervalMs: number): void {
+    this.stopCleanup();
+    this.cleanupTimer = setInterval(() => {
+      void this.cleanup().then((removed) => {
+        if (removed > 0) logger.debug(`Result cache: removed ${removed} expired entries`);
+      });
+    }, intervalMs);
+    this.cleanupTimer.unref();
+  }
+
+  stopCleanup(): void {
+    if (this.cleanupTimer) clearInterval(this.cleanupTimer);
+    this.cleanupTimer = undefined;
+  }
+
+  /**
+   * Número de entradas conocido por este proceso (exacto en memoria; en backends
+   * compartidos se recalcula en cada limpieza y en getStats).
+   */
+  get size(): number {
+    return this.entries;
+  }
+
+  async getStats(): Promise<ResultCacheStats> {
+    await this.refreshSize();
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      backend: this.backend.kind,
+      entries: this.entries,
+      ttlMs: this.ttlMs,
+      ...this.stats,
+      hitRate: lookups > 0 ? Math.round((this.stats.hits / lookups) * 100) / 100 : 0,
+    };
+  }
+
+  private async refreshSize(): Promise<void> {
+    try {
+      this.entries = await this.backend.size();
+      this.publishSize();
+    } catch (error) {
+      this.recordError('size', error);
+    }
+  }
+
+  private publishSize(): void {
+    defaultMetrics.cacheSize.set(this.entries, { cache_type: RESULT_CACHE_METRIC_TYPE });
+  }
+
+  private recordError(operation: string, error: unknown): void {
+    this.stats.errors++;
+    logger.warn(`Result cache ${operation} failed on ${this.backend.kind} backend`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+export function createResultCacheBackend(
+  kind: ResultCacheKind,
+  options: { maxEntries?: number; directory?: string } = {}
+): ResultCacheBackend {
+  switch (kind) {
+    case 'file':
+      return new FileResultCacheBackend(options.directory ?? '.cache/sentiment-results');
+    case 'mongo':
+      return new MongoResultCacheBackend();
+    default:
+      return new MemoryResultCacheBackend(options.maxEntries);
+  }
+}
+
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+let sharedCache: ResultCache | null = null;
+
+/**
+ * Caché compartida por todos los orquestadores del proceso, configurada con
+ * SENTIMENT_CACHE_BACKEND / SENTIMENT_CACHE_TTL / SENTIMENT_CACHE_MAX_ENTRIES / SENTIMENT_CACHE_DIR.
+ */
+export function getSharedResultCache(): ResultCache {
+  if (!sharedCache) {
+    const config = appConfig.sentiment.cache;
+    sharedCache = new ResultCache(
+      createResultCacheBackend(config.backend, config),
+      config.ttlSeconds * 1000
+    );
+    sharedCache.startCleanup(CLEANUP_INTERVAL_MS);
+  }
+  return sharedCache;
+}
@@ -0,0 +1,281 @@
+/**
+ * Sarcasm detector
+ * Etapa independiente de detección de sarcasmo e ironía. Extrae señales
+ * binarias (elogio con emoji negativo, elogio entre comillas, "yeah right",
+ * hashtags como #not...) y las combina con una regresión logística pequeña,
+ * entrenable sobre ejemplos etiquetados. Los pesos iniciales son una
+ * estimación a priori y el entrenamiento se regulariza hacia ellos, así que
+ * las señales que no aparecen en el dataset conservan su peso por defecto.
+ */
+import { LEXICONS, LexiconLanguage, tokenize } from './lexicons';
+import { LanguageCode, SarcasmAction, SarcasmCue, SarcasmSignal } from './types';
+
+export const SARCASM_CUES: readonly SarcasmCue[] = [
+  'praise_with_negative_emoji',
+  'quoted_praise',
+  'ironic_phrase',
+  'ironic_hashtag',
+  'praise_with_complaint',
+  'praise_with_ellipsis',
+  'interjected_praise',
+];
+
+export interface SarcasmTrainingExample {
+  text: string;
+  sarcastic: boolean;
+  language?: LanguageCode;
+}
+
+export interface SarcasmDetection {
+  probability: number; // 0..1
+  cues: SarcasmCue[]; // cues present in the text
+}
+
+export interface SerializedSarcasmModel {
+  bias: number;
+  weights: Record<SarcasmCue, number>;
+}
+
+export interface SarcasmThresholds {
+  flip: number; // positive predictions become negative from here
+  dampen: number; // positive predictions are pulled towards neutral from here
+}
+
+export const DEFAULT_SARCASM_THRESHOLDS: SarcasmThresholds = { flip: 0.8, dampen: 0.6 };
+
+// Log-odds a priori: sin señales el texto casi nunca es sarcástico
+const PRIOR_MODEL: SerializedSarcasmModel = {
+  bias: -3,
+  weights: {
+    praise_with_negative_emoji: 3.5,
+    quoted_praise: 3.5,
+    ironic_phrase: 3,
+    ironic_hashtag: 5,
+    praise_with_complaint: 2,
+    praise_with_ellipsis: 1.5,
+    interjected_praise: 1.5,
+  },
+};
+
+// Descenso de gradiente con regularización L2 hacia PRIOR_MODEL
+const LEARNING_RATE = 0.5;
+const TRAINING_EPOCHS = 300;
+const PRIOR_STRENGTH = 0.05;
+
+// Emojis de fastidio o burla que contradicen un elogio
+const NEGATIVE_EMOJIS = new Set([
+  '🙄',
+  '🙃',
+  '😒',
+  '😑',
+  '😤',
+  '😠',
+  '😡',
+  '🤬',
+  '😞',
+  '😢',
+  '😭',
+  '👎',
+  '💀',
+  '🤦',
+  '😩',
+  '🤡',
+]);
+
+// Frases irónicas hechas, sobre el texto tokenizado (minúsculas, sin acentos)
+const IRONIC_PHRASES: RegExp[] = [
+  // EN
+  /\byeah right\b/,
+  /\boh (great|wonderful|perfect|fantastic|brilliant|joy|lovely)\b/,
+  /\bjust what (i|we) (needed|wanted)\b/,
+  /\bexactly (what|how) (i|we) (needed|wanted)\b/,
+  /\b(amazing|wonderful|lovely|loving|love) how\b/,
+  /\bthanks (a lot|for nothing)\b/,
+  /\bperfect timing\b/,
+  /\bgreat job\b/,
+  /\bas if\b/,
+  /\blove that for me\b/,
+  /\bwhat could possibly go wrong\b/,
+  /\bsaid no one ever\b/,
+  // ES
+  /\bsi claro\b/,
+  /\bjusto lo que (necesitaba|queria)\b/,
+  /\blo que me faltaba\b/,
+  /\bgracias por nada\b/,
+  /\bque maravilla\b/,
+  // FR
+  /\bmerci pour rien\b/,
+  /\bcest ca oui\b/,
+  /\bmanquait plus que ca\b/,
+  // DE
+  /\bna toll\b/,
+  /\bja klar\b/,
+  /\bdanke fur nichts\b/,
+  /\bsuper gemacht\b/,
+];
+
+const IRONIC_HASHTAG =
+  /#(not|sarcasm|sarcastic|irony|ironic|notreally|yeahright|sarcasmo|ironia|ironie|sarkasmus)\b/iu;
+
+// Texto entre comillas que no forma parte de una palabra ("it's", "l'app")
+const QUOTED_SPAN = /(?<![\p{L}\d])['"“‘«]([^'"“”‘’«»\n]{1,40}?)['"”’»](?![\p{L}\d])/gu;
+
+const ELLIPSIS = /\.\.\.|…/u;
+
+const INTERJECTIONS = new Set(['oh', 'ah', 'wow', 'just', 'sure', 'vaya', 'ay', 'bravo', 'na']);
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Señales de sarcasmo presentes en el texto.
+ * @param text - Texto original (emojis, comillas y hashtags se leen de aquí)
+ * @param language - Idioma del léxico con el que se reconocen los elogios y quejas
+ */
+export function extractSarcasmCues(text: string, language: LexiconLanguage = 'en'): SarcasmCue[] {
+  const tokens = tokenize(text);
+  const { positive, negative } = LEXICONS[language];
+  const praise = tokens.some((token) => positive.has(token));
+  const cues: SarcasmCue[] = [];
+
+  const emojis = text.match(/\p{Extended_Pictographic}/gu) ?? [];
+  if (praise && emojis.some((emoji) => NEGATIVE_EMOJIS.has(emoji))) {
+    cues.push('praise_with_negative_emoji');
+  }
+
+  const quotedPraise = [...text.matchAll(QUOTED_SPAN)].some((match) =>
+    tokenize(match[1]).some((token) => positive.has(token))
+  );
+  if (quotedPraise) cues.push('quoted_praise');
+
+  const folded = tokens.join(' ');
+  if (IRONIC_PHRASES.some((pattern) => pattern.test(folded))) cues.push('ironic_phrase');
+
+  if (IRONIC_HASHTAG.test(text)) cues.push('ironic_hashtag');
+
+  if (praise && tokens.some((token) => negative.has(token))) cues.push('praise_with_complaint');
+
+  if (praise && ELLIPSIS.test(text)) cues.push('praise_with_ellipsis');
+
+  if (INTERJECTIONS.has(tokens[0]) && tokens.slice(1, 3).some((token) => positive.has(token))) {
+    cues.push('interjected_praise');
+  }
+
+  return cues;
+}
+
+export class SarcasmDetector {
+  private model: SerializedSarcasmModel = {
+    bias: PRIOR_MODEL.bias,
+    weights: { ...PRIOR_MODEL.weights },
+  };
+
+  /**
+   * Ajusta la regresión logística a los ejemplos (reemplaza el ajuste anterior).
+   */
+  train(examples: readonly SarcasmTrainingExample[]): void {
+    if (examples.length === 0) return;
+    const rows = examples.map((example) => ({
+      cues: new Set(extractSarcasmCues(example.text, lexiconLanguage(example.language))),
+      target: example.sarcastic ? 1 : 0,
+    }));
+
+    const model: SerializedSarcasmModel = {
+      bias: PRIOR_MODEL.bias,
+      weights: { ...PRIOR_MODEL.weights },
+    };
+    for (let epoch = 0; epoch < TRAINING_EPOCHS; epoch++) {
+      let biasGradient = 0;
+      const gradients = Object.fromEntries(SARCASM_CUES.map((cue) => [cue, 0])) as Record<
+        SarcasmCue,
+        number
+      >;
+
+      for (const row of rows) {
+        const error = this.score(model, row.cues) - row.target;
+        biasGradient += error;
+        for (const cue of row.cues) gradients[cue] += error;
+      }
+
+      model.bias -= LEARNING_RATE * (biasGradient / rows.length);
+      for (const cue of SARCASM_CUES) {
+        const pull = PRIOR_STRENGTH * (model.weights[cue] - PRIOR_MODEL.weights[cue]);
+        model.weights[cue] -= LEARNING_RATE * (gradients[cue] / rows.length + pull);
+      }
+    }
+    this.model = model;
+  }
+
+  detect(text: string, language: LanguageCode = 'unknown'): SarcasmDetection {
+    const cues = extractSarcasmCues(text, lexiconLanguage(language));
+    return { probability: this.score(this.model, new Set(cues)), cues };
+  }
+
+  serialize(): SerializedSarcasmModel {
+    return { bias: this.model.bias, weights: { ...this.model.weights } };
+  }
+
+  static deserialize(state: SerializedSarcasmModel): SarcasmDetector {
+    const detector = new SarcasmDetector();
+    detector.model = {
+      bias: state.bias,
+      weights: { ...PRIOR_MODEL.weights, ...state.weights },
+    };
+    return detector;
+  }
+
+  private score(model: SerializedSarcasmModel, cues: ReadonlySet<SarcasmCue>): number {
+    let logOdds = model.bias;
+    for (const cue of cues) logOdds += model.weights[cue];
+    return sigmoid(logOdds);
+  }
+}
+
+function lexiconLanguage(language?: LanguageCode): LexiconLanguage {
+  return !language || language === 'unknown' ? 'en' : language;
+}
+
+export interface SarcasmAdjustable {
+  label: string;
+  score: number;
+  confidence: number;
+}
+
+/**
+ * Corrige una predicción positiva cuando el sarcasmo es probable: por encima de
+ * `flip` pasa a negativa, por encima de `dampen` se acerca a neutral.
+ * Las predicciones neutras o negativas no se tocan (el sarcasmo suele disfrazar quejas).
+ * @returns La predicción corregida y la señal para `SignalBreakdown.sarcasm`
+ */
+export function applySarcasm(
+  prediction: SarcasmAdjustable,
+  detection: SarcasmDetection,
+  thresholds: SarcasmThresholds = DEFAULT_SARCASM_THRESHOLDS
+): { prediction: SarcasmAdjustable; signal: SarcasmSignal } {
+  const { probability, cues } = detection;
+  const { label, score, confidence } = prediction;
+  let action: SarcasmAction | undefined;
+  let adjusted: SarcasmAdjustable = { label, score, confidence };
+
+  if (label === 'positive' && probability >= thresholds.flip) {
+    action = 'flipped';
+    adjusted = {
+      label: 'negative',
+      score: -Math.abs(score),
+      confidence: Math.min(confidence, probability),
+    };
+  } else if (label === 'positive' && probability >= thresholds.dampen) {
+    action = 'dampened';
+    adjusted = {
+      label: 'neutral',
+      score: score * (1 - probability),
+      confidence: Math.min(confidence, probability),
+    };
+  }
+
+  return {
+    prediction: adjusted,
+    signal: { probability, cues, ...(action && { action }) },
+  };
+}
@@ -0,0 +1,292 @@
+/**
+ * Shadow evaluation
+ * Evalúa un modelo candidato (otra versión de Naive Bayes, otros pesos del
+ * híbrido) sobre el tráfico real sin afectar a las respuestas: el candidato
+ * puntúa en segundo plano las mismas peticiones que el modelo en producción y
+ * se registran acuerdos, cambios de etiqueta y latencias. Opcionalmente, un
+ * porcentaje de los llamantes (A/B) recibe la respuesta del candidato y el
+ * modelo en producción pasa a ser el que puntúa en segundo plano.
+ */
+import { createHash } from 'crypto';
+import { logger } from '../observability/logger';
+import { AnalysisRequest, AnalysisResult } from './types';
+
+// Lo mínimo que se necesita de un motor para compararlo
+export interface ShadowEngine {
+  analyze(request: AnalysisRequest): Promise<AnalysisResult>;
+  analyzeBatch(requests: AnalysisRequest[]): Promise<Array<AnalysisResult | Error>>;
+  getVersion(): string;
+}
+
+export interface ShadowCandidate {
+  name: string; // registry version id, weights... shown in metrics and logs
+  engine: ShadowEngine;
+  trafficPercent?: number; // 0..100 callers served by the candidate (default 0: shadow only)
+  sampleRate?: number; // 0..1 share of requests scored by both models (default 1)
+}
+
+export type ShadowVariant = 'primary' | 'candidate';
+
+interface ShadowOutput {
+  label: string;
+  score: number;
+  confidence: number;
+}
+
+export interface ShadowDisagreement {
+  at: string;
+  text: string; // preview
+  primary: ShadowOutput;
+  candidate: ShadowOutput;
+}
+
+export interface ShadowMetrics {
+  candidate: string | null;
+  since: string | null;
+  trafficPercent: number;
+  sampleRate: number;
+  servedByCandidate: number;
+  comparisons: number;
+  agreements: number;
+  agreementRate: number | null;
+  // primary label -> candidate label -> count
+  flipMatrix: Record<string, Record<string, number>>;
+  latency: {
+    primaryAvgMs: number | null;
+    candidateAvgMs: number | null;
+    avgDeltaMs: number | null; // candidate - primary; > 0 means the candidate is slower
+    p95DeltaMs: number | null;
+  };
+  skipped: number; // not scored because too many comparisons were in flight
+  failures: number;
+  recentDisagreements: ShadowDisagreement[];
+}
+
+const MAX_IN_FLIGHT = 4;
+const MAX_RECENT_DISAGREEMENTS = 20;
+const MAX_LATENCY_SAMPLES = 1000;
+
+function output(result: AnalysisResult): ShadowOutput {
+  const { label, score, confidence } = result.sentiment;
+  return { label, score, confidence };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export class ShadowEvaluator {
+  private candidate: Required<ShadowCandidate> | null = null;
+  private since: string | null = null;
+  private inFlight = 0;
+  private servedByCandidate = 0;
+  private comparisons = 0;
+  private agreements = 0;
+  private flipMatrix: Record<string, Record<string, number>> = {};
+  private primaryLatencyTotal = 0;
+  private candidateLatencyTotal = 0;
+  private latencyDeltas: number[] = [];
+  private skipped = 0;
+  private failures = 0;
+  private recentDisagreements: ShadowDisagreement[] = [];
+
+  /**
+   * Start evaluating a candidate (replaces the previous one and resets the metrics)
+   */
+  setCandidate(candidate: ShadowCandidate): void {
+    this.candidate = {
+      name: candidate.name,
+      engine: candidate.engine,
+      trafficPercent: clamp(candidate.trafficPercent ?? 0, 0, 100),
+      sampleRate: clamp(candidate.sampleRate ?? 1, 0, 1),
+    };
+    this.reset();
+    logger.info('Shadow evaluation started', {
+      candidate: candidate.name,
+      trafficPercent: this.candidate.trafficPercent,
+      sampleRate: this.candidate.sampleRate,
+    });
+  }
+
+  /**
+   * Stop evaluating; the metrics of the last candidate stay readable until the next one
+   */
+  clearCandidate(): void {
+    if (this.candidate) {
+      logger.info('Shadow evaluation stopped', { candidate: this.candidate.name });
+    }
+    this.candidate = null;
+  }
+
+  getCandidate(): Readonly<Required<ShadowCandidate>> | null {
+    return this.candidate;
+  }
+
+  /**
+   * A/B split: whether this caller gets the candidate's answer. With a caller id
+   * the assignment is sticky (same bucket on every request); without one it is random.
+   */
+  routesToCandidate(callerId?: string): boolean {
+    if (!this.candidate || this.candidate.trafficPercent <= 0) return false;
+    const bucket = callerId
+      ? parseInt(
+          createHash('sha1').update(`${this.candidate.name}:${callerId}`).digest('hex').slice(0, 8),
+          16
+        ) % 100
+      : Math.random() * 100;
+    return bucket < this.candidate.trafficPercent;
+  }
+
+  /**
+   * Record requests already answered by one model and score them with the other
+   * in the background. Never throws and never delays the caller.
+   * @param requests - Requests that reached an engine (cache hits are not compared)
+   * @param served - Results returned to the caller, in the same order
+   * @param latencyMs - Time the serving engine took for all of them
+   * @param servedBy - Which model answered
+   * @param primary - Engine in production, used when the candidate answered
+   */
+  observe(
+    requests: AnalysisRequest[],
+    served: AnalysisResult[],
+    latencyMs: number,
+    servedBy: ShadowVariant,
+    primary: ShadowEngine
+  ): void {
+    const candidate = this.candidate;
+    if (!candidate || requests.length === 0) return;
+    if (servedBy === 'candidate') this.servedByCandidate += requests.length;
+    if (Math.random() >= candidate.sampleRate) return;
+    if (this.inFlight >= MAX_IN_FLIGHT) {
+      this.skipped += requests.length;
+      return;
+    }
+
+    const other = servedBy === 'primary' ? candidate.engine : primary;
+    this.inFlight++;
+    void this.score(other, requests)
+      .then(({ results, elapsedMs }) => {
+        // El candidato pudo cambiar mientras tanto: esas métricas ya no son suyas
+        if (this.candidate !== candidate) return;
+        const perItemServed = latencyMs / requests.length;
+        const perItemOther = elapsedMs / requests.length;
+        results.forEach((result, i) => {
+          if (result instanceof Error) {
+            this.failures++;
+            return;
+          }
+          const [primaryResult, candidateResult] =
+            servedBy === 'primary' ? [served[i], result] : [result, served[i]];
+          const [primaryMs, candidateMs] =
+            servedBy === 'primary' ? [perItemServed, perItemOther] : [perItemOther, perItemServed];
+          this.record(requests[i].text, primaryResult, candidateResult, primaryMs, candidateMs);
+        });
+      })
+      .catch((error: unknown) => {
+        this.failures += requests.length;
+        logger.warn('Shadow evaluation failed', { candidate: candidate.name, error });
+      })
+      .finally(() => {
+        this.inFlight--;
+      });
+  }
+
+  getMetrics(): ShadowMetrics {
+    const deltas = [...this.latencyDeltas].sort((a, b) => a - b);
+    const average = (total: number) => (this.comparisons ? total / this.comparisons : null);
+    return {
+      candidate: this.candidate?.name ?? null,
+      since: this.since,
+      trafficPercent: this.candidate?.trafficPercent ?? 0,
+      sampleRate: this.candidate?.sampleRate ?? 0,
+      servedByCandidate: this.servedByCandidate,
+      comparisons: this.comparisons,
+      agreements: this.agreements,
+      agreementRate: this.comparisons ? this.agreements / this.comparisons : null,
+      flipMatrix: JSON.parse(JSON.stringify(this.flipMatrix)),
+      latency: {
+        primaryAvgMs: average(this.primaryLatencyTotal),
+        candidateAvgMs: average(this.candidateLatencyTotal),
+        avgDeltaMs: average(this.candidateLatencyTotal - this.primaryLatencyTotal),
+        p95DeltaMs: deltas.length ? deltas[Math.ceil(deltas.length * 0.95) - 1] : null,
+      },
+      skipped: this.skipped,
+      failures: this.failures,
+      recentDisagreements: [...this.recentDisagreements],
+    };
+  }
+
+  reset(): void {
+    this.since = this.candidate ? new Date().toISOString() : null;
+    this.servedByCandidate = 0;
+    this.comparisons = 0;
+    this.agreements = 0;
+    this.flipMatrix = {};
+    this.primaryLatencyTotal = 0;
+    this.candidateLatencyTotal = 0;
+    this.latencyDeltas = [];
+    this.skipped = 0;
+    this.failures = 0;
+    this.recentDisagreements = [];
+  }
+
+  private async score(
+    engine: ShadowEngine,
+    requests: AnalysisRequest[]
+  ): Promise<{ results: Array<AnalysisResult | Error>; elapsedMs: number }> {
+    const startTime = Date.now();
+    const results =
+      requests.length === 1
+        ? [await engine.analyze(requests[0]).catch((error: Error) => error)]
+        : await engine.analyzeBatch(requests);
+    return { results, elapsedMs: Date.now() - startTime };
+  }
+
+  private record(
+    text: string,
+    primary: AnalysisResult,
+    candidate: AnalysisResult,
+    primaryMs: number,
+    candidateMs: number
+  ): void {
+    const primaryLabel = primary.sentiment.label;
+    const candidateLabel = candidate.sentiment.label;
+
+    this.comparisons++;
+    const row = (this.flipMatrix[primaryLabel] ??= {});
+    row[candidateLabel] = (row[candidateLabel] ?? 0) + 1;
+
+    this.primaryLatencyTotal += primaryMs;
+    this.candidateLatencyTotal += candidateMs;
+    this.latencyDeltas.push(candidateMs - primaryMs);
+    if (this.latencyDeltas.length > MAX_LATENCY_SAMPLES) this.latencyDeltas.shift();
+
+    if (primaryLabel === candidateLabel) {
+      this.agreements++;
+      return;
+    }
+
+    const disagreement: ShadowDisagreement = {
+      at: new Date().toISOString(),
+      text: text.substring(0, 100),
+      primary: output(primary),
+      candidate: output(candidate),
+    };
+    this.recentDisagreements.push(disagreement);
+    if (this.recentDisagreements.length > MAX_RECENT_DISAGREEMENTS) {
+      this.recentDisagreements.shift();
+    }
+    logger.info(`Shadow disagreement with candidate ${this.candidate?.name}`, disagreement);
+  }
+}
+
+let sharedShadowEvaluator: ShadowEvaluator | null = null;
+
+/**
+ * Process-wide evaluator: every orchestrator reports to it, so a candidate set
+ * once is compared on all the traffic
+ */
+export function getSharedShadowEvaluator(): ShadowEvaluator {
+  if (!sharedShadowEvaluator) sharedShadowEvaluator = new ShadowEvaluator();
+  return sharedShadowEvaluator;
+}
@@ -0,0 +1,304 @@
+/**
+ * Subword tokenizers for local transformer models
+ * Implementaciones propias de WordPiece (BERT, DistilBERT) y BPE a nivel de byte
+ * (RoBERTa, twitter-roberta) para no depender de librerías nativas ni de la red.
+ * Se cargan desde el directorio del modelo exportado de Hugging Face:
+ * tokenizer.json, o bien vocab.txt (WordPiece) / vocab.json + merges.txt (BPE).
+ */
+import fs from 'fs';
+import path from 'path';
+
+export type TokenizerKind = 'wordpiece' | 'bpe';
+
+export interface SubwordTokenizer {
+  readonly kind: TokenizerKind;
+  readonly padId: number;
+  /** Subword pieces of the text, without special tokens */
+  tokenize(text: string): string[];
+  /** Token ids with the model's special tokens, truncated to maxLength */
+  encode(text: string, maxLength: number): number[];
+}
+
+export interface WordPieceOptions {
+  lowercase?: boolean; // default true (uncased models); also strips accents
+  continuingPrefix?: string; // default '##'
+  maxCharsPerWord?: number; // default 100
+}
+
+export interface ByteLevelBpeOptions {
+  addPrefixSpace?: boolean; // default false
+}
+
+const PUNCTUATION = /[\p{P}\p{S}]/u;
+const CJK = /[\u4E00-\u9FFF\u3400-\u4DBF\uF900-\uFAFF\u{20000}-\u{2FA1F}]/u;
+
+// Pre-tokenización de GPT-2/RoBERTa
+const BYTE_LEVEL_SPLIT =
+  /'s|'t|'re|'ve|'m|'ll|'d| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+function lookup(vocab: Map<string, number>, token: string): number {
+  const id = vocab.get(token);
+  if (id === undefined) {
+    throw new Error(`Tokenizer vocabulary has no "${token}" token`);
+  }
+  return id;
+}
+
+export class WordPieceTokenizer implements SubwordTokenizer {
+  readonly kind = 'wordpiece';
+  readonly padId: number;
+  private readonly unkId: number;
+  private readonly clsId: number;
+  private readonly sepId: number;
+  private readonly lowercase: boolean;
+  private readonly prefix: string;
+  private readonly maxCharsPerWord: number;
+
+  constructor(
+    private readonly vocab: Map<string, number>,
+    options: WordPieceOptions = {}
+  ) {
+    this.lowercase = options.lowercase ?? true;
+    this.prefix = options.continuingPrefix ?? '##';
+    this.maxCharsPerWord = options.maxCharsPerWord ?? 100;
+    this.padId = lookup(vocab, '[PAD]');
+    this.unkId = lookup(vocab, '[UNK]');
+    this.clsId = lookup(vocab, '[CLS]');
+    this.sepId = lookup(vocab, '[SEP]');
+  }
+
+  tokenize(text: string): string[] {
+    return this.basicTokenize(text).flatMap((word) => this.wordPiece(word));
+  }
+
+  encode(text: string, maxLength: number): number[] {
+    const ids = this.tokenize(text)
+      .slice(0, Math.max(0, maxLength - 2))
+      .map((piece) => this.vocab.get(piece) ?? this.unkId);
+    return [this.clsId, ...ids, this.sepId];
+  }
+
+  // Limpieza, minúsculas sin acentos y corte en espacios y signos de puntuación
+  private basicTokenize(text: string): string[] {
+    let cleaned = text.replace(/[\uFFFD\p{Cc}]/gu, (char) => (/\s/.test(char) ? ' ' : ''));
+    if (this.lowercase) {
+      cleaned = cleaned
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/\p{Mn}/gu, '');
+    }
+
+    const words: string[] = [];
+    let current = '';
+    for (const char of cleaned) {
+      if (/\s/.test(char)) {
+        if (current) words.push(current);
+        current = '';
+      } else if (PUNCTUATION.test(char) || CJK.test(char)) {
+        if (current) words.push(current);
+        words.push(char);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    if (current) words.push(current);
+    return words;
+  }
+
+  // Greedy longest-match-first, como el WordpieceTokenizer de BERT
+  private wordPiece(word: string): string[] {
+    const chars = Array.from(word);
+    if (chars.length > this.maxCharsPerWord) return ['[UNK]'];
+
+    const pieces: string[] = [];
+    let start = 0;
+    while (start < chars.length) {
+      let end = chars.length;
+      let piece: string | null = null;
+      while (start < end) {
+        const candidate = (start > 0 ? this.prefix : '') + chars.slice(start, end).join('');
+        if (this.vocab.has(candidate)) {
+          piece = candidate;
+          break;
+        }
+        end--;
+      }
+      if (piece === null) return ['[UNK]'];
+      pieces.push(piece);
+      start = end;
+    }
+    return pieces;
+  }
+}
+
+// Tabla byte -> carácter imprimible de GPT-2
+function bytesToUnicode(): string[] {
+  const table: string[] = new Array(256);
+  let extra = 0;
+  for (let byte = 0; byte < 256; byte++) {
+    const printable =
+      (byte >= 0x21 && byte <= 0x7e) || (byte >= 0xa1 && byte <= 0xac) || byte >= 0xae;
+    table[byte] = String.fromCharCode(printable ? byte : 256 + extra++);
+  }
+  return table;
+}
+
+export class ByteLevelBpeTokenizer implements SubwordTokenizer {
+  readonly kind = 'bpe';
+  readonly padId: number;
+  private readonly unkId: number;
+  private readonly bosId: number;
+  private readonly eosId: number;
+  private readonly ranks = new Map<string, number>();
+  private readonly byteEncoder = bytesToUnicode();
+  private readonly encoder = new TextEncoder();
+  private readonly cache = new Map<string, string[]>();
+  private readonly addPrefixSpace: boolean;
+
+  constructor(
+    private readonly vocab: Map<string, number>,
+    merges: Array<[string, string]>,
+    options: ByteLevelBpeOptions = {}
+  ) {
+    merges.forEach(([left, right], rank) => this.ranks.set(`${left} ${right}`, rank));
+    this.addPrefixSpace = options.addPrefixSpace ?? false;
+    this.padId = lookup(vocab, '<pad>');
+    this.unkId = lookup(vocab, '<unk>');
+    this.bosId = lookup(vocab, '<s>');
+    this.eosId = lookup(vocab, '</s>');
+  }
+
+  tokenize(text: string): string[] {
+    const input = this.addPrefixSpace && !text.startsWith(' ') ? ` ${text}` : text;
+    return (input.match(BYTE_LEVEL_SPLIT) ?? []).flatMap((word) => {
+      const mapped = Array.from(this.encoder.encode(word), (byte) => this.byteEncoder[byte]);
+      return this.bpe(mapped.join(''));
+    });
+  }
+
+  encode(text: string, maxLength: number): number[] {
+    const ids = this.tokenize(text)
+      .slice(0, Math.max(0, maxLength - 2))
+      .map((piece) => this.vocab.get(piece) ?? this.unkId);
+    return [this.bosId, ...ids, this.eosId];
+  }
+
+  // Aplica las fusiones por orden de prioridad hasta que no queda ninguna
+  private bpe(word: string): string[] {
+    const cached = this.cache.get(word);
+    if (cached) return cached;
+
+    let parts = Array.from(word);
+    while (parts.length > 1) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.ranks.get(`${parts[i]} ${parts[i + 1]}`);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          best = i;
+        }
+      }
+      if (best < 0) break;
+
+      const [left, right] = [parts[best], parts[best + 1]];
+      const next: string[] = [];
+      for (let i = 0; i < parts.length; i++) {
+        if (parts[i] === left && parts[i + 1] === right) {
+          next.push(left + right);
+          i++;
+        } else {
+          next.push(parts[i]);
+        }
+      }
+      parts = next;
+    }
+
+    if (this.cache.size < 10_000) this.cache.set(word, parts);
+    return parts;
+  }
+}
+
+function readJson(file: string): any {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function toVocab(entries: Record<string, number>): Map<string, number> {
+  return new Map(Object.entries(entries));
+}
+
+function parseMerges(merges: Array<string | [string, string]>): Array<[string, string]> {
+  return merges
+    .map((merge) => (typeof merge === 'string' ? merge.split(' ') : merge))
+    .filter((merge): merge is [string, string] => merge.length === 2);
+}
+
+// tokenizer.json de la librería tokenizers de Hugging Face
+function fromTokenizerJson(file: string): SubwordTokenizer {
+  const spec = readJson(file);
+  const model = spec.model ?? {};
+
+  if (model.type === 'WordPiece') {
+    const normalizers = spec.normalizer?.normalizers ?? [spec.normalizer];
+    const bert = normalizers.find((n: any) => n?.type === 'BertNormalizer');
+    return new WordPieceTokenizer(toVocab(model.vocab), {
+      lowercase: bert
+        ? bert.lowercase !== false
+        : normalizers.some((n: any) => n?.type === 'Lowercase'),
+      continuingPrefix: model.continuing_subword_prefix,
+      maxCharsPerWord: model.max_input_chars_per_word,
+    });
+  }
+
+  if (model.type === 'BPE') {
+    const preTokenizers = spec.pre_tokenizer?.pretokenizers ?? [spec.pre_tokenizer];
+    const byteLevel = preTokenizers.find((p: any) => p?.type === 'ByteLevel');
+    if (!byteLevel) {
+      throw new Error(`${file}: only byte-level BPE tokenizers are supported`);
+    }
+    return new ByteLevelBpeTokenizer(toVocab(model.vocab), parseMerges(model.merges ?? []), {
+      addPrefixSpace: byteLevel.add_prefix_space === true,
+    });
+  }
+
+  throw new Error(`${file}: unsupported tokenizer model "${model.type}"`);
+}
+
+/**
+ * Loads the tokenizer bundled with an exported model: tokenizer.json when
+ * present, otherwise vocab.txt (WordPiece) or vocab.json + merges.txt (BPE).
+ */
+export function loadTokenizer(modelDir: string): SubwordTokenizer {
+  const file = (name: string) => path.join(modelDir, name);
+
+  if (fs.existsSync(file('tokenizer.json'))) {
+    return fromTokenizerJson(file('tokenizer.json'));
+  }
+
+  const config = fs.existsSync(file('tokenizer_config.json'))
+    ? readJson(file('tokenizer_config.json'))
+    : {};
+
+  if (fs.existsSync(file('vocab.txt'))) {
+    const vocab = new Map<string, number>();
+    fs.readFileSync(file('vocab.txt'), 'utf8')
+      .split(/\r?\n/)
+      .forEach((token, id) => {
+        if (token && !vocab.has(token)) vocab.set(token, id);
+      });
+    return new WordPieceTokenizer(vocab, { lowercase: config.do_lower_case !== false });
+  }
+
+  if (fs.existsSync(file('vocab.json')) && fs.existsSync(file('merges.txt'))) {
+    const merges = fs
+      .readFileSync(file('merges.txt'), 'utf8')
+      .split(/\r?\n/)
+      .filter((line) => line && !line.startsWith('#version'));
+    return new ByteLevelBpeTokenizer(toVocab(readJson(file('vocab.json'))), parseMerges(merges), {
+      addPrefixSpace: config.add_prefix_space === true,
+    });
+  }
+
+  throw new Error(`No tokenizer found in ${modelDir} (tokenizer.json, vocab.txt or vocab.json)`);
+}
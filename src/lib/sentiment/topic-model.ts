@@ -0,0 +1,287 @@
+/**
+ * Topic model
+ * Modelado de temas en proceso: TF-IDF sobre los tweets y factorización no
+ * negativa (NMF, actualizaciones multiplicativas de Lee y Seung). Cada tema se
+ * etiqueta con sus términos de más peso y cada tweet se asigna al tema que más
+ * pesa en su fila de W. La inicialización usa una semilla fija, así que el
+ * mismo corpus da los mismos temas.
+ */
+import { LEXICON_LANGUAGES, LEXICONS, tokenize } from './lexicons';
+
+// Palabras vacías que no están entre las pistas de idioma del léxico
+const EXTRA_STOPWORDS = [
+  // en
+  ...(
+    'a an as at be been by can do does from get got has had he her his how i if im in ' +
+    'into it its just me more my of on one or our out she so some than them then there ' +
+    'they to up us we what when which who will would your all about now also only very ' +
+    'really'
+  ).split(' '),
+  // es
+  ...(
+    'a al como de del el en esta este esto ha hay la le lo me mi mas muy nos o se si sin ' +
+    'sobre su sus te tu un uno ya yo todo todos cuando porque tambien'
+  ).split(' '),
+  // fr
+  ...(
+    'au aux ce ces cest de du en il ils je la le les leur mais me mon ne nous on ou par ' +
+    'plus qui sa se ses son sur ta te tout tu un vous'
+  ).split(' '),
+  // de
+  ...(
+    'als an auch aus bei bin da dass du er es fur hat ich im in ist ja mein mir noch nur ' +
+    'oder sie so um uns von war was wie wir zu zum zur'
+  ).split(' '),
+  // Twitter
+  ...'rt amp via http https www com'.split(' '),
+];
+
+const STOPWORDS = new Set<string>([
+  ...EXTRA_STOPWORDS,
+  ...LEXICON_LANGUAGES.flatMap((lang) => [...LEXICONS[lang].hints, ...LEXICONS[lang].negators]),
+]);
+
+// Términos que se quitan antes de tokenizar: enlaces y @usuarios
+const URLS_AND_MENTIONS = /https?:\/\/\S+|www\.\S+|@\w+/giu;
+const EPSILON = 1e-9;
+
+export interface TopicModelOptions {
+  topics?: number; // number of topics; chosen from the corpus size when absent
+  iterations?: number; // NMF iterations (default 150)
+  maxFeatures?: number; // vocabulary size (default 2000 most frequent terms)
+  minDocumentFrequency?: number; // terms in fewer tweets are ignored (default 2)
+  maxDocumentRatio?: number; // terms in a larger share of tweets are ignored (default 0.5)
+  topTerms?: number; // terms kept per topic (default 8)
+  seed?: number;
+}
+
+export interface Topic {
+  id: number; // 0 is the largest topic
+  label: string; // top three terms
+  terms: Array<{ term: string; weight: number }>;
+  size: number; // documents assigned to the topic
+}
+
+export interface TopicAssignment {
+  topic: number;
+  weight: number; // share of the document's topic mixture, 0..1
+}
+
+export interface TopicModelResult {
+  topics: Topic[];
+  assignments: Array<TopicAssignment | null>; // null: no term of the vocabulary
+  vocabularySize: number;
+}
+
+type SparseRow = Array<[number, number]>; // [term index, tf-idf]
+
+/**
+ * Términos de un tweet para el modelo: sin enlaces, @usuarios, palabras vacías
+ * ni palabras de menos de tres letras. Los hashtags cuentan como palabras.
+ */
+export function topicTerms(text: string): string[] {
+  return tokenize(text.replace(URLS_AND_MENTIONS, ' ')).filter(
+    (token) => token.length >= 3 && !STOPWORDS.has(token)
+  );
+}
+
+// Generador determinista (mulberry32)
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * TF-IDF sublineal con filas normalizadas (L2).
+ */
+function vectorize(
+  documents: string[][],
+  { maxFeatures, minDocumentFrequency, maxDocumentRatio }: Required<TopicModelOptions>
+): { vocabulary: string[]; rows: SparseRow[] } {
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const maxDocuments = Math.max(minDocumentFrequency, documents.length * maxDocumentRatio);
+  const vocabulary = [...documentFrequency]
+    .filter(([, df]) => df >= minDocumentFrequency && df <= maxDocuments)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, maxFeatures)
+    .map(([term]) => term)
+    .sort();
+  const index = new Map(vocabulary.map((term, i) => [term, i]));
+
+  const rows = documents.map((terms) => {
+    const counts = new Map<number, number>();
+    for (const term of terms) {
+      const i = index.get(term);
+      if (i !== undefined) counts.set(i, (counts.get(i) ?? 0) + 1);
+    }
+    const row: SparseRow = [...counts].map(([i, count]) => {
+      const idf =
+        Math.log((1 + documents.length) / (1 + documentFrequency.get(vocabulary[i])!)) + 1;
+      return [i, (1 + Math.log(count)) * idf];
+    });
+    const norm = Math.sqrt(row.reduce((sum, [, value]) => sum + value * value, 0));
+    return row.map(([i, value]) => [i, value / norm] as [number, number]);
+  });
+
+  return { vocabulary, rows };
+}
+
+/**
+ * NMF: V ≈ W·H con W (documentos × temas) y H (temas × términos), sobre V dispersa.
+ */
+function factorize(
+  rows: SparseRow[],
+  terms: number,
+  k: number,
+  iterations: number,
+  seed: number
+): { W: Float64Array[]; H: Float64Array[] } {
+  const next = random(seed);
+  const nnz = rows.reduce((sum, row) => sum + row.length, 0);
+  const mean = rows.reduce((sum, row) => sum + row.reduce((s, [, v]) => s + v, 0), 0) / nnz;
+  const scale = Math.sqrt(mean / k);
+
+  const W = rows.map(() => Float64Array.from({ length: k }, () => next() * scale + EPSILON));
+  const H = Array.from({ length: k }, () =>
+    Float64Array.from({ length: terms }, () => next() * scale + EPSILON)
+  );
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    // H ← H ∘ (WᵀV) / (WᵀW·H)
+    const WtV = Array.from({ length: k }, () => new Float64Array(terms));
+    rows.forEach((row, d) => {
+      for (const [j, value] of row) {
+        for (let t = 0; t < k; t++) WtV[t][j] += W[d][t] * value;
+      }
+    });
+    const WtW = gram(W, k);
+    for (let t = 0; t < k; t++) {
+      for (let j = 0; j < terms; j++) {
+        let denominator = EPSILON;
+        for (let s = 0; s < k; s++) denominator += WtW[t][s] * H[s][j];
+        H[t][j] *= WtV[t][j] / denominator;
+      }
+    }
+
+    // W ← W ∘ (V·Hᵀ) / (W·H·Hᵀ)
+    const HHt = Array.from({ length: k }, (_, t) =>
+      Float64Array.from({ length: k }, (_, s) => {
+        let sum = 0;
+        for (let j = 0; j < terms; j++) sum += H[t][j] * H[s][j];
+        return sum;
+      })
+    );
+    rows.forEach((row, d) => {
+      const w = W[d];
+      const numerator = new Float64Array(k);
+      for (const [j, value] of row) {
+        for (let t = 0; t < k; t++) numerator[t] += value * H[t][j];
+      }
+      const previous = Float64Array.from(w);
+      for (let t = 0; t < k; t++) {
+        let denominator = EPSILON;
+        for (let s = 0; s < k; s++) denominator += previous[s] * HHt[s][t];
+        w[t] = previous[t] * (numerator[t] / denominator);
+      }
+    });
+  }
+
+  return { W, H };
+}
+
+function gram(W: Float64Array[], k: number): Float64Array[] {
+  const result = Array.from({ length: k }, () => new Float64Array(k));
+  for (const w of W) {
+    for (let t = 0; t < k; t++) {
+      for (let s = 0; s < k; s++) result[t][s] += w[t] * w[s];
+    }
+  }
+  return result;
+}
+
+/**
+ * Número de temas por defecto: crece con la raíz del tamaño del corpus (2 a 10).
+ */
+export function defaultTopicCount(documents: number): number {
+  return Math.min(10, Math.max(2, Math.round(Math.sqrt(documents / 20))));
+}
+
+/**
+ * Ajusta el modelo sobre los textos y asigna cada uno a un tema.
+ * Los temas sin documentos se descartan y el resto se numera por tamaño.
+ */
+export function fitTopicModel(texts: string[], options: TopicModelOptions = {}): TopicModelResult {
+  const settings: Required<TopicModelOptions> = {
+    topics: options.topics ?? defaultTopicCount(texts.length),
+    iterations: options.iterations ?? 150,
+    maxFeatures: options.maxFeatures ?? 2000,
+    minDocumentFrequency: options.minDocumentFrequency ?? 2,
+    maxDocumentRatio: options.maxDocumentRatio ?? 0.5,
+    topTerms: options.topTerms ?? 8,
+    seed: options.seed ?? 42,
+  };
+
+  const { vocabulary, rows } = vectorize(texts.map(topicTerms), settings);
+  const documents = rows.filter((row) => row.length > 0).length;
+  const k = Math.min(settings.topics, documents, vocabulary.length);
+  if (k === 0) {
+    return { topics: [], assignments: texts.map(() => null), vocabularySize: vocabulary.length };
+  }
+
+  const { W, H } = factorize(rows, vocabulary.length, k, settings.iterations, settings.seed);
+
+  const raw = rows.map((row, d) => {
+    if (row.length === 0) return null;
+    const total = W[d].reduce((sum, value) => sum + value, 0);
+    let best = 0;
+    for (let t = 1; t < k; t++) if (W[d][t] > W[d][best]) best = t;
+    return { topic: best, weight: total > 0 ? W[d][best] / total : 0 };
+  });
+
+  const sizes = new Array<number>(k).fill(0);
+  raw.forEach((assignment) => assignment && sizes[assignment.topic]++);
+  const order = sizes
+    .map((size, t) => ({ size, t }))
+    .filter(({ size }) => size > 0)
+    .sort((a, b) => b.size - a.size || a.t - b.t);
+  const renumber = new Map(order.map(({ t }, id) => [t, id]));
+
+  const topics = order.map(({ size, t }, id) => {
+    const max = H[t].reduce((best, value) => Math.max(best, value), 0);
+    const terms = [...H[t]]
+      .map((weight, j) => ({ term: vocabulary[j], weight: max > 0 ? weight / max : 0 }))
+      .sort((a, b) => b.weight - a.weight || a.term.localeCompare(b.term))
+      .slice(0, settings.topTerms)
+      .filter(({ weight }) => weight > 0)
+      .map(({ term, weight }) => ({ term, weight: Math.round(weight * 1000) / 1000 }));
+    return {
+      id,
+      label: terms
+        .slice(0, 3)
+        .map(({ term }) => term)
+        .join(' / '),
+      terms,
+      size,
+    };
+  });
+
+  return {
+    topics,
+    assignments: raw.map((assignment) =>
+      assignment ? { topic: renumber.get(assignment.topic)!, weight: assignment.weight } : null
+    ),
+    vocabularySize: vocabulary.length,
+  };
+}
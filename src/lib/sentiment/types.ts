@@ -12,6 +12,58 @@ export interface AnalysisRequest {
   allowSarcasmDetection?: boolean;
   allowContextWindow?: boolean;
   maxTokens?: number;
+  aspectMode?: boolean; // return per-aspect sentiment in AnalysisResult.aspects
+  aspectDictionary?: AspectDictionary; // aspect -> terms; defaults to DEFAULT_ASPECT_DICTIONARY
+  entities?: EntityDefinition[]; // entities to extract into AnalysisResult.entities (per campaign)
+  explain?: boolean; // attach a token-level SentimentExplanation to the result
+  callerId?: string; // A/B bucket of a shadow evaluation (user id, IP); not part of the cache key
+  campaignId?: string; // selects the campaign's analyzer pipeline, if the config maps one
+  organizationId?: string; // organization lexicon to apply; defaults to the campaign's organization
+}
+
+// Pesos fijos de Naive Bayes y reglas en el híbrido (sin BERT); sin ellos se calculan por texto
+export interface HybridWeights {
+  naive: number;
+  rule: number;
+}
+
+// Diccionario de aspectos: nombre del aspecto -> términos que lo activan
+export type AspectDictionary = Record<string, string[]>;
+
+export interface TextSpan {
+  start: number; // inclusive offset in the original text
+  end: number; // exclusive offset
+  text: string;
+}
+
+export interface AspectSentiment {
+  aspect: string;
+  term: string; // matched dictionary term
+  span: TextSpan; // clause the aspect was scored on
+  label: SentimentLabel;
+  score: number; // -1..1
+  confidence: number; // 0..1
+}
+
+export type EntityType = "brand" | "product" | "person" | "place";
+
+// Entidad a seguir: nombre canónico y alias que la activan ("iphone 15", "@apple", "#iphone")
+export interface EntityDefinition {
+  name: string;
+  type: EntityType;
+  aliases: string[];
+  competitor?: boolean;
+}
+
+export interface EntityMention {
+  entity: string; // canonical name
+  type: EntityType;
+  alias: string; // matched alias
+  competitor: boolean;
+  span: TextSpan; // clause the mention was scored on
+  label: SentimentLabel;
+  score: number; // -1..1
+  confidence: number; // 0..1
 }
 
 export interface SignalBreakdown {
@@ -20,7 +72,84 @@ export interface SignalBreakdown {
   emojis?: Record<string, number>;
   negationFlips?: number;
   intensifierBoost?: number;
-  sarcasmScore?: number;
+  sarcasmScore?: number; // sarcasm probability from the sarcasm stage, 0..1
+  sarcasm?: SarcasmSignal;
+  organizationLexicon?: { organizationId: string; terms: string[] }; // overridden lexicon terms
+}
+
+export type SarcasmCue =
+  | "praise_with_negative_emoji"
+  | "quoted_praise"
+  | "ironic_phrase"
+  | "ironic_hashtag"
+  | "praise_with_complaint"
+  | "praise_with_ellipsis"
+  | "interjected_praise";
+
+// "flipped": positiva → negativa; "dampened": positiva → neutral con score reducido
+export type SarcasmAction = "flipped" | "dampened";
+
+export interface SarcasmSignal {
+  probability: number; // 0..1
+  cues: SarcasmCue[];
+  action?: SarcasmAction; // set when the stage changed the polarity
+}
+
+// Aporte de un término del léxico a la puntuación del analizador de reglas
+export interface TokenContribution {
+  token: string;
+  index: number; // position in the rule analyzer token stream
+  polarity: 1 | -1; // lexicon polarity before negation
+  weight: number; // intensifier/diminisher multiplier
+  negated: boolean;
+  contribution: number; // signed amount added to the rule score
+}
+
+export interface NegationScope {
+  negator: string;
+  negatorIndex: number;
+  target: string;
+  targetIndex: number;
+}
+
+export interface NaiveBayesTokenEvidence {
+  token: string; // NOT_ prefix marks tokens inside a negation window
+  logLikelihoods: Record<"positive" | "negative" | "neutral", number>;
+  logRatio: number; // log P(token|positive) - log P(token|negative)
+}
+
+export interface SlangHit {
+  term: string;
+  sentiment: "positive" | "negative" | "neutral";
+  weight: number;
+  start: number;
+  end: number;
+}
+
+export interface ComponentPrediction {
+  label: string;
+  confidence: number;
+  score?: number;
+}
+
+export interface SentimentExplanation {
+  language: LanguageCode;
+  ruleTokens: TokenContribution[];
+  negationScopes: NegationScope[];
+  naiveBayes: ComponentPrediction & { tokens: NaiveBayesTokenEvidence[] };
+  slang: SlangHit[];
+  sarcasmScore: number;
+  hybrid: {
+    weights: Record<string, number>; // normalized weight per component
+    components: Record<string, ComponentPrediction>; // rule, naive and the other pipeline stages that voted
+    explanation: string;
+    pipeline?: string; // analyzer pipeline that produced the result
+  };
+  // Ajuste final aplicado por EnhancedSentimentEngine, si lo hubo
+  adjustment?: {
+    before: { label: SentimentLabel; score: number };
+    after: { label: SentimentLabel; score: number };
+  };
 }
 
 export interface EmotionAnalysis {
@@ -30,22 +159,63 @@ export interface EmotionAnalysis {
   fear: number;
   surprise: number;
   disgust: number;
+  trust: number;
+  anticipation: number;
 }
 
+// "needs_review" cuando la confianza queda por debajo del umbral de abstención
+export type AnalysisStatus = "ok" | "needs_review";
+
 export interface AnalysisResult {
   sentiment: {
     label: SentimentLabel;
     score: number; // -1..1
     magnitude: number;
-    confidence: number; // 0..1
+    confidence: number; // 0..1, calibrated when a calibrator is loaded
+    rawConfidence?: number; // engine confidence before calibration
     emotions: EmotionAnalysis;
   };
   keywords: string[];
   language: LanguageCode;
   signals: SignalBreakdown;
+  aspects?: AspectSentiment[]; // only present when aspectMode was requested
+  entities?: EntityMention[]; // only present when entities were requested
+  explanation?: SentimentExplanation; // only present when explain was requested
+  status?: AnalysisStatus; // set by the orchestrator's abstain threshold
   version: string; // engine version
 }
 
+// Elemento de un lote: petición normal más un id opcional que se devuelve tal cual
+export type BatchAnalysisItem = AnalysisRequest & { id?: string };
+
+export interface BatchAnalysisOptions {
+  concurrency?: number; // chunks analyzed in parallel (default appConfig.sentiment.batch)
+  chunkSize?: number; // unique texts per engine call
+}
+
+// "cached" = served from the result cache; "error" = this item failed, the rest did not
+export type BatchItemStatus = "ok" | "cached" | "error";
+
+export interface BatchItemResult {
+  index: number; // position in the request
+  id?: string;
+  status: BatchItemStatus;
+  result?: AnalysisResult; // absent when status is "error"
+  error?: string;
+}
+
+export interface BatchAnalysisResponse {
+  items: BatchItemResult[];
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+    cached: number;
+    unique: number; // distinct texts after deduplication
+    processingTime: number;
+  };
+}
+
 export interface AnalyzerEngine {
   analyze(input: AnalysisRequest): Promise<AnalysisResult>;
   initializeBert(): Promise<void>;
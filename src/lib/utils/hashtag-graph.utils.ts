@@ -0,0 +1,428 @@
+/**
+ * Hashtag Graph Utilities
+ * Co-occurrence graph of the hashtags of a set of tweets: frequency and average
+ * sentiment per hashtag, edges weighted by the tweets sharing both hashtags,
+ * clusters by modularity (Louvain) and emerging hashtags against a previous
+ * window, with GraphML and GEXF export for Gephi
+ */
+
+export interface HashtagGraphTweet {
+  hashtags: string[];
+  sentimentScore?: number; // -1..1, absent if the tweet was not analyzed
+}
+
+export interface HashtagGraphOptions {
+  maxNodes?: number; // most frequent hashtags kept (default 150)
+  minFrequency?: number; // hashtags in fewer tweets are dropped (default 2)
+  minEdgeWeight?: number; // pairs sharing fewer tweets are dropped (default 2)
+  previousFrequencies?: Record<string, number>; // same-length window before the current one
+  emergingMinFrequency?: number; // default 3
+  emergingGrowth?: number; // frequency / previous frequency to be emerging (default 2)
+}
+
+export interface HashtagNode {
+  id: string; // hashtag without '#'
+  frequency: number; // tweets with the hashtag
+  averageSentiment: number;
+  cluster: number;
+  previousFrequency: number;
+  growth: number | null; // relative change vs the previous window, null if it was absent
+  emerging: boolean;
+}
+
+export interface HashtagEdge {
+  source: string;
+  target: string;
+  weight: number; // tweets with both hashtags
+}
+
+export interface HashtagCluster {
+  id: number; // 0 is the cluster with most tweets
+  hashtags: string[]; // by frequency
+  frequency: number;
+  averageSentiment: number;
+}
+
+export interface HashtagGraph {
+  nodes: HashtagNode[];
+  edges: HashtagEdge[];
+  clusters: HashtagCluster[];
+  modularity: number;
+  emerging: string[]; // by growth
+  analyzedTweets: number;
+}
+
+type Adjacency = Array<Map<number, number>>;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Build the co-occurrence graph of the tweets' hashtags
+ */
+export function buildHashtagGraph(
+  tweets: readonly HashtagGraphTweet[],
+  options: HashtagGraphOptions = {},
+): HashtagGraph {
+  const {
+    maxNodes = 150,
+    minFrequency = 2,
+    minEdgeWeight = 2,
+    previousFrequencies = {},
+    emergingMinFrequency = 3,
+    emergingGrowth = 2,
+  } = options;
+
+  const sets = tweets.map(
+    (tweet) =>
+      new Set(
+        tweet.hashtags
+          .map((hashtag) => hashtag.replace(/^#/, "").toLowerCase())
+          .filter(Boolean),
+      ),
+  );
+
+  const stats = new Map<
+    string,
+    { frequency: number; scoreSum: number; scored: number }
+  >();
+  sets.forEach((hashtags, i) => {
+    const score = tweets[i].sentimentScore;
+    for (const hashtag of hashtags) {
+      const entry = stats.get(hashtag) ?? {
+        frequency: 0,
+        scoreSum: 0,
+        scored: 0,
+      };
+      entry.frequency++;
+      if (typeof score === "number") {
+        entry.scoreSum += score;
+        entry.scored++;
+      }
+      stats.set(hashtag, entry);
+    }
+  });
+
+  const ids = [...stats]
+    .filter(([, { frequency }]) => frequency >= minFrequency)
+    .sort((a, b) => b[1].frequency - a[1].frequency || a[0].localeCompare(b[0]))
+    .slice(0, maxNodes)
+    .map(([hashtag]) => hashtag);
+  const index = new Map(ids.map((hashtag, i) => [hashtag, i]));
+
+  const pairs = new Map<string, number>();
+  for (const hashtags of sets) {
+    const present = [...hashtags]
+      .map((hashtag) => index.get(hashtag))
+      .filter((i): i is number => i !== undefined)
+      .sort((a, b) => a - b);
+    for (let a = 0; a < present.length; a++) {
+      for (let b = a + 1; b < present.length; b++) {
+        const key = `${present[a]}:${present[b]}`;
+        pairs.set(key, (pairs.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  const adjacency: Adjacency = ids.map(() => new Map());
+  const edges: HashtagEdge[] = [];
+  for (const [key, weight] of pairs) {
+    if (weight < minEdgeWeight) continue;
+    const [a, b] = key.split(":").map(Number);
+    adjacency[a].set(b, weight);
+    adjacency[b].set(a, weight);
+    edges.push({ source: ids[a], target: ids[b], weight });
+  }
+  edges.sort(
+    (x, y) =>
+      y.weight - x.weight ||
+      x.source.localeCompare(y.source) ||
+      x.target.localeCompare(y.target),
+  );
+
+  const { communities, modularity } = detectCommunities(adjacency);
+
+  // Clusters numbered by the tweets of their hashtags
+  const totals = new Map<number, number>();
+  communities.forEach((community, i) =>
+    totals.set(
+      community,
+      (totals.get(community) ?? 0) + stats.get(ids[i])!.frequency,
+    ),
+  );
+  const renumber = new Map(
+    [...totals]
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+      .map(([community], id) => [community, id]),
+  );
+
+  const nodes: HashtagNode[] = ids.map((id, i) => {
+    const { frequency, scoreSum, scored } = stats.get(id)!;
+    const previousFrequency = previousFrequencies[id] ?? 0;
+    const growth =
+      previousFrequency > 0
+        ? round((frequency - previousFrequency) / previousFrequency)
+        : null;
+    return {
+      id,
+      frequency,
+      averageSentiment: scored > 0 ? round(scoreSum / scored) : 0,
+      cluster: renumber.get(communities[i])!,
+      previousFrequency,
+      growth,
+      emerging:
+        frequency >= emergingMinFrequency &&
+        frequency >= previousFrequency * emergingGrowth,
+    };
+  });
+
+  const clusters: HashtagCluster[] = [...renumber.values()]
+    .sort((a, b) => a - b)
+    .map((id) => {
+      const members = nodes.filter((node) => node.cluster === id);
+      const frequency = members.reduce((sum, node) => sum + node.frequency, 0);
+      return {
+        id,
+        hashtags: members.map((node) => node.id),
+        frequency,
+        averageSentiment: round(
+          members.reduce(
+            (sum, node) => sum + node.averageSentiment * node.frequency,
+            0,
+          ) / frequency,
+        ),
+      };
+    });
+
+  return {
+    nodes,
+    edges,
+    clusters,
+    modularity: round(modularity),
+    emerging: nodes
+      .filter((node) => node.emerging)
+      .sort(
+        (a, b) =>
+          b.frequency / Math.max(b.previousFrequency, 1) -
+            a.frequency / Math.max(a.previousFrequency, 1) ||
+          b.frequency - a.frequency,
+      )
+      .map((node) => node.id),
+    analyzedTweets: tweets.length,
+  };
+}
+
+/**
+ * Louvain: moves each node to the neighbouring community with the largest
+ * modularity gain until nothing moves, then merges the communities into
+ * single nodes and repeats on the smaller graph
+ * @returns Community of each node and modularity of the partition
+ */
+function detectCommunities(adjacency: Adjacency): {
+  communities: number[];
+  modularity: number;
+} {
+  let membership = adjacency.map((_, i) => i);
+  let graph = adjacency;
+
+  for (;;) {
+    const { communities, moved } = moveNodes(graph);
+    if (!moved) break;
+
+    const labels = [...new Set(communities)];
+    const relabel = new Map(labels.map((community, i) => [community, i]));
+    membership = membership.map((node) => relabel.get(communities[node])!);
+
+    const aggregated: Adjacency = labels.map(() => new Map());
+    graph.forEach((neighbours, i) => {
+      const from = relabel.get(communities[i])!;
+      for (const [j, weight] of neighbours) {
+        const to = relabel.get(communities[j])!;
+        // Internal edges are visited from both ends
+        const added = from === to && i !== j ? weight / 2 : weight;
+        aggregated[from].set(to, (aggregated[from].get(to) ?? 0) + added);
+      }
+    });
+    graph = aggregated;
+  }
+
+  return {
+    communities: membership,
+    modularity: modularity(adjacency, membership),
+  };
+}
+
+// Local moving phase; self-loops count twice in the degree
+function moveNodes(graph: Adjacency): {
+  communities: number[];
+  moved: boolean;
+} {
+  const degrees = graph.map((neighbours, i) =>
+    [...neighbours].reduce(
+      (sum, [j, weight]) => sum + (i === j ? 2 * weight : weight),
+      0,
+    ),
+  );
+  const m2 = degrees.reduce((sum, degree) => sum + degree, 0);
+  const communities = graph.map((_, i) => i);
+  if (m2 === 0) return { communities, moved: false };
+
+  const totals = [...degrees];
+  let moved = false;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = 0; i < graph.length; i++) {
+      if (degrees[i] === 0) continue;
+      const current = communities[i];
+      totals[current] -= degrees[i];
+
+      const links = new Map<number, number>([[current, 0]]);
+      for (const [j, weight] of graph[i]) {
+        if (j === i) continue;
+        links.set(communities[j], (links.get(communities[j]) ?? 0) + weight);
+      }
+
+      let best = current;
+      let bestGain = links.get(current)! - (totals[current] * degrees[i]) / m2;
+      for (const [community, weight] of links) {
+        const gain = weight - (totals[community] * degrees[i]) / m2;
+        if (gain > bestGain + 1e-12) {
+          best = community;
+          bestGain = gain;
+        }
+      }
+
+      totals[best] += degrees[i];
+      if (best !== current) {
+        communities[i] = best;
+        changed = true;
+        moved = true;
+      }
+    }
+  }
+
+  return { communities, moved };
+}
+
+function modularity(adjacency: Adjacency, communities: number[]): number {
+  let m2 = 0;
+  const inside = new Map<number, number>();
+  const totals = new Map<number, number>();
+  adjacency.forEach((neighbours, i) => {
+    for (const [j, weight] of neighbours) {
+      m2 += weight;
+      totals.set(communities[i], (totals.get(communities[i]) ?? 0) + weight);
+      if (communities[i] === communities[j]) {
+        inside.set(communities[i], (inside.get(communities[i]) ?? 0) + weight);
+      }
+    }
+  });
+  if (m2 === 0) return 0;
+
+  let q = 0;
+  for (const [community, total] of totals) {
+    q += (inside.get(community) ?? 0) / m2 - (total / m2) ** 2;
+  }
+  return q;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * GraphML document of the graph (undirected, node and edge attributes as keys)
+ */
+export function toGraphML(graph: HashtagGraph): string {
+  const nodes = graph.nodes.map(
+    (node) =>
+      `    <node id="${escapeXml(node.id)}">\n` +
+      `      <data key="label">#${escapeXml(node.id)}</data>\n` +
+      `      <data key="frequency">${node.frequency}</data>\n` +
+      `      <data key="averageSentiment">${node.averageSentiment}</data>\n` +
+      `      <data key="cluster">${node.cluster}</data>\n` +
+      `      <data key="previousFrequency">${node.previousFrequency}</data>\n` +
+      `      <data key="emerging">${node.emerging}</data>\n` +
+      `    </node>`,
+  );
+  const edges = graph.edges.map(
+    (edge, i) =>
+      `    <edge id="e${i}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">\n` +
+      `      <data key="weight">${edge.weight}</data>\n` +
+      `    </edge>`,
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="frequency" for="node" attr.name="frequency" attr.type="int"/>',
+    '  <key id="averageSentiment" for="node" attr.name="averageSentiment" attr.type="double"/>',
+    '  <key id="cluster" for="node" attr.name="cluster" attr.type="int"/>',
+    '  <key id="previousFrequency" for="node" attr.name="previousFrequency" attr.type="int"/>',
+    '  <key id="emerging" for="node" attr.name="emerging" attr.type="boolean"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <graph id="hashtags" edgedefault="undirected">',
+    ...nodes,
+    ...edges,
+    "  </graph>",
+    "</graphml>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * GEXF 1.3 document of the graph (Gephi's native format)
+ */
+export function toGEXF(
+  graph: HashtagGraph,
+  generatedAt: Date = new Date(),
+): string {
+  const nodes = graph.nodes.map(
+    (node) =>
+      `      <node id="${escapeXml(node.id)}" label="#${escapeXml(node.id)}">\n` +
+      "        <attvalues>\n" +
+      `          <attvalue for="frequency" value="${node.frequency}"/>\n` +
+      `          <attvalue for="averageSentiment" value="${node.averageSentiment}"/>\n` +
+      `          <attvalue for="cluster" value="${node.cluster}"/>\n` +
+      `          <attvalue for="previousFrequency" value="${node.previousFrequency}"/>\n` +
+      `          <attvalue for="emerging" value="${node.emerging}"/>\n` +
+      "        </attvalues>\n" +
+      "      </node>",
+  );
+  const edges = graph.edges.map(
+    (edge, i) =>
+      `      <edge id="e${i}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" weight="${edge.weight}"/>`,
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    `  <meta lastmodifieddate="${generatedAt.toISOString().slice(0, 10)}">`,
+    "    <creator>SentimentalSocial</creator>",
+    "    <description>Hashtag co-occurrence graph</description>",
+    "  </meta>",
+    '  <graph mode="static" defaultedgetype="undirected">',
+    '    <attributes class="node">',
+    '      <attribute id="frequency" title="frequency" type="integer"/>',
+    '      <attribute id="averageSentiment" title="averageSentiment" type="double"/>',
+    '      <attribute id="cluster" title="cluster" type="integer"/>',
+    '      <attribute id="previousFrequency" title="previousFrequency" type="integer"/>',
+    '      <attribute id="emerging" title="emerging" type="boolean"/>',
+    "    </attributes>",
+    "    <nodes>",
+    ...nodes,
+    "    </nodes>",
+    "    <edges>",
+    ...edges,
+    "    </edges>",
+    "  </graph>",
+    "</gexf>",
+    "",
+  ].join("\n");
+}
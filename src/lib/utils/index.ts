@@ -18,6 +18,12 @@ export * from "./metrics.utils";
 // Array Utilities
 export * from "./array.utils";
 
+// Hashtag Co-occurrence Graph Utilities
+export * from "./hashtag-graph.utils";
+
+// Near-Duplicate Detection Utilities
+export * from "./near-duplicate.utils";
+
 /**
  * Generate unique ID (you might want to use UUID library)
  */
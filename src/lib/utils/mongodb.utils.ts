@@ -114,6 +114,7 @@ export function documentToCampaign(doc: any): Campaign {
     endDate: doc.endDate,
     timezone: doc.timezone,
     maxTweets: doc.maxTweets,
+    collectionSchedule: doc.collectionSchedule,
     collectImages: doc.collectImages ?? false,
     collectVideos: doc.collectVideos ?? false,
     collectReplies: doc.collectReplies ?? false,
@@ -124,6 +125,9 @@ export function documentToCampaign(doc: any): Campaign {
     emotionAnalysis: doc.emotionAnalysis ?? false,
     topicsAnalysis: doc.topicsAnalysis ?? false,
     influencerAnalysis: doc.influencerAnalysis ?? false,
+    aspects: doc.aspects ?? [],
+    entities: doc.entities ?? [],
+    duplicateHandling: doc.duplicateHandling ?? "include",
     organizationId: doc.organizationId,
     createdBy: doc.createdBy,
     assignedTo: doc.assignedTo,
@@ -0,0 +1,206 @@
+/**
+ * Near-Duplicate Utilities
+ * MinHash signatures of tweet texts, LSH band keys to find candidate pairs and
+ * clustering of near-identical texts, flagging clusters posted by many
+ * distinct accounts within a short window (copy-paste campaigns, bot networks)
+ */
+
+const SIGNATURE_SIZE = 64;
+const BANDS = 16; // 16 bands of 4 rows: pairs above ~0.5 similarity become candidates
+const ROWS = SIGNATURE_SIZE / BANDS;
+const SHINGLE_SIZE = 5;
+const MIN_TEXT_LENGTH = 25; // shorter texts ("gm", "lol") are too common to compare
+
+// How campaign stats treat tweets in near-duplicate clusters
+export const DUPLICATE_HANDLING_MODES = [
+  "include", // every tweet counts
+  "exclude", // each cluster counts once (its oldest tweet)
+  "downweight", // each tweet of a cluster counts 1 / cluster size
+] as const;
+export type DuplicateHandling = (typeof DUPLICATE_HANDLING_MODES)[number];
+
+export interface NearDuplicateOptions {
+  threshold?: number; // estimated Jaccard similarity to be near-duplicates (default 0.8)
+  coordinatedAccounts?: number; // distinct accounts within the window (default 5)
+  coordinatedWindowMinutes?: number; // default 60
+}
+
+export interface NearDuplicateItem {
+  id: string;
+  text: string;
+  author: string;
+  createdAt: Date;
+  clusterId?: string; // cluster already assigned to a stored tweet
+  coordinated?: boolean;
+}
+
+export interface NearDuplicateAssignment {
+  clusterId: string;
+  coordinated: boolean;
+}
+
+// Hash functions of the signature: x ↦ a·x + b (a odd) on 32 bits
+const HASH_PARAMETERS = (() => {
+  let state = 0x9e3779b9;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+  return Array.from({ length: SIGNATURE_SIZE }, () => ({
+    a: next() | 1,
+    b: next(),
+  }));
+})();
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Text compared for near-duplicates: lowercase, without accents, links,
+ * @mentions or punctuation, so that copies differing only in those match
+ */
+export function normalizeForDuplicates(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/https?:\/\/\S+|www\.\S+|@\w+/g, " ")
+    .replace(/[^\p{L}\p{N}#]+/gu, " ")
+    .trim();
+}
+
+/**
+ * MinHash signature of the text's character 5-grams
+ * @returns null if the text is too short to be compared
+ */
+export function minHashSignature(text: string): Uint32Array | null {
+  const normalized = normalizeForDuplicates(text);
+  if (normalized.length < MIN_TEXT_LENGTH) return null;
+
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  const seen = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= normalized.length; i++) {
+    const shingle = fnv1a(normalized.slice(i, i + SHINGLE_SIZE));
+    if (seen.has(shingle)) continue;
+    seen.add(shingle);
+    for (let h = 0; h < SIGNATURE_SIZE; h++) {
+      const { a, b } = HASH_PARAMETERS[h];
+      const value = (Math.imul(a, shingle) + b) >>> 0;
+      if (value < signature[h]) signature[h] = value;
+    }
+  }
+  return signature;
+}
+
+/**
+ * LSH keys of a signature: two texts sharing any key are candidates
+ */
+export function lshBands(signature: Uint32Array): string[] {
+  return Array.from({ length: BANDS }, (_, band) => {
+    const rows = Array.from(
+      signature.subarray(band * ROWS, (band + 1) * ROWS),
+    ).join(",");
+    return `${band}:${fnv1a(rows).toString(36)}`;
+  });
+}
+
+/**
+ * Estimated Jaccard similarity of the texts of two signatures
+ */
+export function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) if (a[i] === b[i]) equal++;
+  return equal / SIGNATURE_SIZE;
+}
+
+/**
+ * Group near-identical texts. A cluster keeps the ID of its oldest stored
+ * cluster (clusters joined by a new text are merged into it) or takes the ID
+ * of its oldest item. A cluster is coordinated if at some point enough
+ * distinct accounts posted in it within the window; once flagged it stays so.
+ * @returns Assignment of every item in a cluster of two or more items, or
+ * already assigned to one; items without near-duplicates are left out
+ */
+export function clusterNearDuplicates(
+  items: readonly NearDuplicateItem[],
+  options: NearDuplicateOptions = {},
+): Map<string, NearDuplicateAssignment> {
+  const {
+    threshold = 0.8,
+    coordinatedAccounts = 5,
+    coordinatedWindowMinutes = 60,
+  } = options;
+
+  const signatures = items.map((item) => minHashSignature(item.text));
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+
+  const buckets = new Map<string, number[]>();
+  signatures.forEach((signature, i) => {
+    if (!signature) return;
+    for (const key of lshBands(signature)) {
+      const bucket = buckets.get(key) ?? [];
+      for (const j of bucket) {
+        if (
+          find(i) !== find(j) &&
+          estimateSimilarity(signature, signatures[j]!) >= threshold
+        ) {
+          parent[find(i)] = find(j);
+        }
+      }
+      bucket.push(i);
+      buckets.set(key, bucket);
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  items.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  });
+
+  const byAge = (a: NearDuplicateItem, b: NearDuplicateItem) =>
+    a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id);
+  const windowMs = coordinatedWindowMinutes * 60 * 1000;
+
+  const assignments = new Map<string, NearDuplicateAssignment>();
+  for (const members of groups.values()) {
+    const group = members.map((i) => items[i]).sort(byAge);
+    const stored = group.filter((item) => item.clusterId);
+    if (group.length < 2 && stored.length === 0) continue;
+
+    const clusterId = stored[0]?.clusterId ?? group[0].id;
+    const coordinated =
+      group.some((item) => item.coordinated) ||
+      group.some((first) => {
+        const start = first.createdAt.getTime();
+        const accounts = new Set(
+          group
+            .filter((item) => {
+              const time = item.createdAt.getTime();
+              return time >= start && time - start <= windowMs;
+            })
+            .map((item) => item.author.toLowerCase()),
+        );
+        return accounts.size >= coordinatedAccounts;
+      });
+
+    for (const item of group) {
+      assignments.set(item.id, { clusterId, coordinated });
+    }
+  }
+
+  return assignments;
+}
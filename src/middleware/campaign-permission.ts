@@ -0,0 +1,93 @@
+/**
+ * Campaign Permission Middleware
+ * Restricts a route to the users who can edit the campaign it acts on: the
+ * creator of the campaign, its assigned users and admins
+ */
+
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { MongoCampaignRepository } from "../repositories/mongo-campaign.repository";
+import { AuthenticatedRequest } from "./express-auth";
+
+const campaignRepository = new MongoCampaignRepository();
+
+/**
+ * Require edit access to the campaign returned by `getCampaignId`. Without a
+ * campaign (empty ID) only admins get through, unless the campaign is
+ * `optional` (e.g. a listing filter). The campaign is stored in
+ * `res.locals.campaign` (unless the admin bypass skipped loading it).
+ * Must run after authenticateToken.
+ */
+export const requireCampaignEditAccess = (
+  getCampaignId: (req: Request, res: Response) => string | undefined,
+  { optional = false }: { optional?: boolean } = {},
+) => {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    const user = (req as AuthenticatedRequest).user;
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          message: "Authentication required",
+          code: "AUTHENTICATION_REQUIRED",
+          timestamp: new Date().toISOString(),
+        },
+      });
+      return;
+    }
+
+    const campaignId = getCampaignId(req, res);
+    if (user.role === "admin" || (!campaignId && optional)) {
+      next();
+      return;
+    }
+
+    if (!campaignId) {
+      res.status(403).json({
+        success: false,
+        error: {
+          message: "Access denied. Only admins can act without a campaign",
+          code: "CAMPAIGN_ACCESS_DENIED",
+          timestamp: new Date().toISOString(),
+        },
+      });
+      return;
+    }
+
+    try {
+      const campaign = mongoose.isValidObjectId(campaignId)
+        ? await campaignRepository.findById(campaignId)
+        : null;
+
+      if (!campaign?.canUserEdit(user.id)) {
+        res.status(403).json({
+          success: false,
+          error: {
+            message: "Access denied. You cannot edit this campaign",
+            code: "CAMPAIGN_ACCESS_DENIED",
+            details: { campaignId },
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      res.locals.campaign = campaign;
+      next();
+    } catch (error: unknown) {
+      console.error("Error checking campaign permissions:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: "Failed to check campaign permissions",
+          code: "CAMPAIGN_PERMISSION_ERROR",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  };
+};
@@ -0,0 +1,70 @@
+/**
+ * Organization Permission Middleware
+ * Restricts a route to the members of the organization it acts on (the
+ * `:organizationId` route parameter) and admins
+ */
+
+import { NextFunction, Request, Response } from "express";
+import { MongoUserRepository } from "../repositories/mongo-user.repository";
+import { AuthenticatedRequest } from "./express-auth";
+
+const userRepository = new MongoUserRepository();
+
+/**
+ * Require the caller to belong to `req.params.organizationId`. The
+ * organization is read from the user record, as the token does not carry it;
+ * admins may act across organizations. Must run after authenticateToken.
+ */
+export const requireOrganizationAccess = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) {
+    res.status(401).json({
+      success: false,
+      error: {
+        message: "Authentication required",
+        code: "AUTHENTICATION_REQUIRED",
+        timestamp: new Date().toISOString(),
+      },
+    });
+    return;
+  }
+
+  if (user.role === "admin") {
+    next();
+    return;
+  }
+
+  const { organizationId } = req.params;
+  try {
+    const member = await userRepository.findById(user.id);
+
+    if (!organizationId || member?.organizationId !== organizationId) {
+      res.status(403).json({
+        success: false,
+        error: {
+          message: "Access denied. You do not belong to this organization",
+          code: "ORGANIZATION_ACCESS_DENIED",
+          details: { organizationId },
+          timestamp: new Date().toISOString(),
+        },
+      });
+      return;
+    }
+
+    next();
+  } catch (error: unknown) {
+    console.error("Error checking organization permissions:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to check organization permissions",
+        code: "ORGANIZATION_PERMISSION_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
@@ -4,11 +4,18 @@
  */
 
 import mongoose, { Document, Schema } from "mongoose";
+import cron from "node-cron";
 import {
   CampaignStatus,
   CampaignType,
   DataSource,
 } from "../enums/campaign.enum";
+import { ENTITY_TYPES } from "../lib/sentiment/entity-extractor";
+import {
+  DUPLICATE_HANDLING_MODES,
+  DuplicateHandling,
+} from "../lib/utils/near-duplicate.utils";
+import type { CampaignEmotionStats, CampaignEntity } from "../types/campaign";
 
 export interface ICampaignDocument extends Document {
   name: string;
@@ -27,9 +34,11 @@ export interface ICampaignDocument extends Document {
   // Time Configuration
   startDate: Date;
   endDate: Date;
+  timezone: string; // Timezone of the collection schedule
 
   // Collection Settings
   maxTweets: number;
+  collectionSchedule?: string; // Cron expression (default CAMPAIGN_COLLECTION_SCHEDULE)
   collectImages: boolean;
   collectVideos: boolean;
   collectReplies: boolean;
@@ -43,6 +52,9 @@ export interface ICampaignDocument extends Document {
   emotionAnalysis: boolean;
   topicsAnalysis: boolean;
   influencerAnalysis: boolean;
+  aspects: { name: string; terms: string[] }[]; // Aspect dictionary for aspect-based sentiment
+  entities: CampaignEntity[]; // Brands, products, people and places tracked per mention
+  duplicateHandling: DuplicateHandling; // Near-duplicate tweets in stats
 
   // Organization & Permissions
   organizationId: string;
@@ -54,6 +66,7 @@ export interface ICampaignDocument extends Document {
   createdAt: Date;
   updatedAt: Date;
   lastDataCollection?: Date;
+  lastScheduledCollection?: Date; // Slot of the last scheduled run (claimed by one process)
 
   // Statistics
   stats?: {
@@ -63,6 +76,7 @@ export interface ICampaignDocument extends Document {
     topHashtags: { tag: string; count: number }[];
     topMentions: { mention: string; count: number }[];
     dailyVolume: { date: string; count: number }[];
+    emotions?: CampaignEmotionStats;
   };
 
   // Instance methods
@@ -71,6 +85,23 @@ export interface ICampaignDocument extends Document {
   isActive(): boolean;
 }
 
+const emotionStatsSchema = new Schema(
+  {
+    joy: { type: Number, default: 0, min: 0, max: 1 },
+    sadness: { type: Number, default: 0, min: 0, max: 1 },
+    anger: { type: Number, default: 0, min: 0, max: 1 },
+    fear: { type: Number, default: 0, min: 0, max: 1 },
+    surprise: { type: Number, default: 0, min: 0, max: 1 },
+    disgust: { type: Number, default: 0, min: 0, max: 1 },
+    trust: { type: Number, default: 0, min: 0, max: 1 },
+    anticipation: { type: Number, default: 0, min: 0, max: 1 },
+    dominant: { type: String, default: null },
+    analyzedTweets: { type: Number, default: 0, min: 0 },
+    updatedAt: { type: Date },
+  },
+  { _id: false },
+);
+
 const statsSchema = new Schema(
   {
     totalTweets: { type: Number, default: 0, min: 0 },
@@ -94,6 +125,48 @@ const statsSchema = new Schema(
         count: { type: Number, required: true, min: 0 },
       },
     ],
+    emotions: { type: emotionStatsSchema, default: undefined },
+  },
+  { _id: false },
+);
+
+const aspectSchema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+      maxlength: [50, "Aspect name cannot exceed 50 characters"],
+    },
+    terms: [
+      {
+        type: String,
+        trim: true,
+        maxlength: [100, "Aspect term cannot exceed 100 characters"],
+      },
+    ],
+  },
+  { _id: false },
+);
+
+const entitySchema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [100, "Entity name cannot exceed 100 characters"],
+    },
+    type: { type: String, required: true, enum: ENTITY_TYPES },
+    aliases: [
+      {
+        type: String,
+        trim: true,
+        maxlength: [100, "Entity alias cannot exceed 100 characters"],
+      },
+    ],
+    competitor: { type: Boolean, default: false },
   },
   { _id: false },
 );
@@ -184,6 +257,8 @@ const campaignSchema = new Schema<ICampaignDocument>(
       index: true,
     },
 
+    timezone: { type: String, default: "UTC", trim: true },
+
     maxTweets: {
       type: Number,
       required: [true, "Max tweets limit is required"],
@@ -192,6 +267,14 @@ const campaignSchema = new Schema<ICampaignDocument>(
       default: 100,
     },
 
+    collectionSchedule: {
+      type: String,
+      trim: true,
+      validate: {
+        validator: (value: string) => cron.validate(value),
+        message: "Collection schedule must be a valid cron expression",
+      },
+    },
     collectImages: { type: Boolean, default: true },
     collectVideos: { type: Boolean, default: true },
     collectReplies: { type: Boolean, default: false },
@@ -213,6 +296,16 @@ const campaignSchema = new Schema<ICampaignDocument>(
     emotionAnalysis: { type: Boolean, default: false },
     topicsAnalysis: { type: Boolean, default: false },
     influencerAnalysis: { type: Boolean, default: false },
+    aspects: { type: [aspectSchema], default: [] },
+    entities: { type: [entitySchema], default: [] },
+    duplicateHandling: {
+      type: String,
+      enum: {
+        values: DUPLICATE_HANDLING_MODES,
+        message: "Duplicate handling must be one of: include, exclude, downweight",
+      },
+      default: "include",
+    },
 
     organizationId: {
       type: String,
@@ -244,6 +337,8 @@ const campaignSchema = new Schema<ICampaignDocument>(
       index: true,
     },
 
+    lastScheduledCollection: { type: Date },
+
     stats: statsSchema,
   },
   {
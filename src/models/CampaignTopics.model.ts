@@ -0,0 +1,74 @@
+/**
+ * MongoDB Campaign Topics Model
+ * Latest topic-modelling report of each campaign (one document per campaign)
+ */
+
+import mongoose, { Document, Schema } from "mongoose";
+import type { CampaignTopic } from "../types/campaign";
+
+export interface ICampaignTopicsDocument extends Document {
+  campaignId: string;
+  topics: CampaignTopic[];
+  analyzedTweets: number;
+  assignedTweets: number;
+  vocabularySize: number;
+  generatedAt: Date;
+}
+
+const topicSchema = new Schema(
+  {
+    id: { type: Number, required: true, min: 0 },
+    label: { type: String, required: true },
+    terms: [
+      {
+        _id: false,
+        term: { type: String, required: true },
+        weight: { type: Number, required: true, min: 0, max: 1 },
+      },
+    ],
+    tweetCount: { type: Number, required: true, min: 0 },
+    share: { type: Number, required: true, min: 0, max: 1 },
+    sentiment: {
+      positive: { type: Number, default: 0, min: 0 },
+      neutral: { type: Number, default: 0, min: 0 },
+      negative: { type: Number, default: 0, min: 0 },
+      averageScore: { type: Number, default: 0, min: -1, max: 1 },
+    },
+    representativeTweets: [{ type: String }],
+    timeline: [
+      {
+        _id: false,
+        date: { type: String, required: true },
+        tweetCount: { type: Number, required: true, min: 0 },
+        averageScore: { type: Number, default: 0, min: -1, max: 1 },
+      },
+    ],
+  },
+  { _id: false },
+);
+
+const campaignTopicsSchema = new Schema<ICampaignTopicsDocument>(
+  {
+    campaignId: {
+      type: String,
+      required: [true, "Campaign ID is required"],
+      unique: true,
+    },
+    topics: { type: [topicSchema], default: [] },
+    analyzedTweets: { type: Number, required: true, min: 0 },
+    assignedTweets: { type: Number, required: true, min: 0 },
+    vocabularySize: { type: Number, required: true, min: 0 },
+    generatedAt: { type: Date, required: true },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+export const CampaignTopicsModel = mongoose.model<ICampaignTopicsDocument>(
+  "CampaignTopics",
+  campaignTopicsSchema,
+  "campaign_topics",
+);
+export default CampaignTopicsModel;
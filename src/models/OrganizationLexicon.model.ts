@@ -0,0 +1,77 @@
+/**
+ * MongoDB Organization Lexicon Model
+ * Per-organization overrides of the sentiment lexicon ("sick" sneakers, "killer" game)
+ */
+
+import mongoose, { Document, Schema } from "mongoose";
+import { LEXICON_LANGUAGES } from "../lib/sentiment/lexicons";
+
+export const LEXICON_POLARITIES = ["positive", "negative", "neutral"] as const;
+export type LexiconPolarity = (typeof LEXICON_POLARITIES)[number];
+
+export interface IOrganizationLexiconTermDocument extends Document {
+  organizationId: string;
+  term: string; // single word, normalized like the lexicon tokens
+  polarity: LexiconPolarity; // neutral: the term stops counting in this domain
+  weight: number;
+  context: string[]; // only applies when one of these words is in the text
+  language?: string; // only applies to texts in this language
+
+  createdBy: string;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const organizationLexiconTermSchema =
+  new Schema<IOrganizationLexiconTermDocument>(
+    {
+      organizationId: {
+        type: String,
+        required: [true, "Organization ID is required"],
+        index: true,
+      },
+      term: {
+        type: String,
+        required: [true, "Term is required"],
+        trim: true,
+        maxlength: [50, "Term cannot exceed 50 characters"],
+      },
+      polarity: {
+        type: String,
+        enum: {
+          values: LEXICON_POLARITIES,
+          message: "Polarity must be one of: positive, negative, neutral",
+        },
+        required: [true, "Polarity is required"],
+      },
+      weight: {
+        type: Number,
+        min: [0, "Weight cannot be negative"],
+        max: [3, "Weight cannot exceed 3"],
+        default: 1,
+      },
+      context: { type: [String], default: [] },
+      language: { type: String, enum: LEXICON_LANGUAGES },
+
+      createdBy: { type: String, required: true },
+      updatedBy: { type: String },
+    },
+    {
+      timestamps: true,
+      versionKey: false,
+    },
+  );
+
+// Un término por organización e idioma
+organizationLexiconTermSchema.index(
+  { organizationId: 1, term: 1, language: 1 },
+  { unique: true },
+);
+
+export const OrganizationLexiconTermModel =
+  mongoose.model<IOrganizationLexiconTermDocument>(
+    "OrganizationLexiconTerm",
+    organizationLexiconTermSchema,
+  );
+export default OrganizationLexiconTermModel;
@@ -0,0 +1,78 @@
+/**
+ * MongoDB Quota Policy Model
+ * Scraping quotas of a plan, or of an organization (its plan plus overrides).
+ * Limits left unset fall back to the plan, then to the configured defaults.
+ */
+
+import mongoose, { Document, Schema } from "mongoose";
+
+export const QUOTA_POLICY_SCOPES = ["plan", "organization"] as const;
+export type QuotaPolicyScope = (typeof QUOTA_POLICY_SCOPES)[number];
+
+export interface QuotaLimits {
+  dailyTweets: number;
+  monthlyTweets: number;
+  maxConcurrentJobs: number; // queue jobs processed at once
+  maxActiveCampaigns: number;
+}
+
+export const QUOTA_LIMIT_KEYS: readonly (keyof QuotaLimits)[] = [
+  "dailyTweets",
+  "monthlyTweets",
+  "maxConcurrentJobs",
+  "maxActiveCampaigns",
+];
+
+export interface IQuotaPolicyDocument extends Document {
+  scope: QuotaPolicyScope;
+  key: string; // plan name or organization ID
+  plan?: string; // organizations only
+  limits: Partial<QuotaLimits>;
+
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const limitsSchema = new Schema(
+  {
+    dailyTweets: { type: Number, min: 0 },
+    monthlyTweets: { type: Number, min: 0 },
+    maxConcurrentJobs: { type: Number, min: 0 },
+    maxActiveCampaigns: { type: Number, min: 0 },
+  },
+  { _id: false },
+);
+
+const quotaPolicySchema = new Schema<IQuotaPolicyDocument>(
+  {
+    scope: {
+      type: String,
+      enum: QUOTA_POLICY_SCOPES,
+      required: [true, "Scope is required"],
+    },
+    key: {
+      type: String,
+      required: [true, "Key is required"],
+      trim: true,
+    },
+    plan: { type: String, trim: true },
+    limits: { type: limitsSchema, default: {} },
+
+    updatedBy: { type: String },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+// Una política por plan u organización
+quotaPolicySchema.index({ scope: 1, key: 1 }, { unique: true });
+
+export const QuotaPolicyModel = mongoose.model<IQuotaPolicyDocument>(
+  "QuotaPolicy",
+  quotaPolicySchema,
+  "quota_policies",
+);
+export default QuotaPolicyModel;
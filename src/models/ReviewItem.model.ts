@@ -0,0 +1,86 @@
+/**
+ * MongoDB Review Item Model
+ * Low-confidence predictions waiting for a human label (abstain / review queue)
+ */
+
+import mongoose, { Document, Schema } from "mongoose";
+import { ReviewStatus } from "../enums/review.enum";
+import type { SentimentLabel } from "../services/naive-bayes-sentiment.service";
+
+export const REVIEW_LABELS: readonly SentimentLabel[] = [
+  "positive",
+  "negative",
+  "neutral",
+];
+
+export interface IReviewItemDocument extends Document {
+  text: string;
+  tweetId?: string;
+  campaignId?: string;
+  language: string;
+
+  // Model prediction that triggered the abstention
+  predictedLabel: string;
+  confidence: number;
+  rawConfidence?: number;
+
+  // Review workflow
+  status: ReviewStatus;
+  claimedBy?: string;
+  claimedAt?: Date;
+  label?: SentimentLabel;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reviewItemSchema = new Schema<IReviewItemDocument>(
+  {
+    text: {
+      type: String,
+      required: [true, "Review text is required"],
+      maxlength: [2000, "Review text cannot exceed 2000 characters"],
+    },
+    tweetId: { type: String },
+    campaignId: { type: String, index: true },
+    language: { type: String, default: "unknown" },
+
+    predictedLabel: { type: String, required: true },
+    confidence: { type: Number, required: true, min: 0, max: 1 },
+    rawConfidence: { type: Number, min: 0, max: 1 },
+
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(ReviewStatus),
+        message: "Status must be one of: pending, claimed, labeled, skipped",
+      },
+      default: ReviewStatus.PENDING,
+      index: true,
+    },
+    claimedBy: { type: String },
+    claimedAt: { type: Date },
+    label: { type: String, enum: REVIEW_LABELS },
+    reviewedBy: { type: String },
+    reviewedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+// Un tweet solo entra una vez en la cola aunque se vuelva a scrapear
+reviewItemSchema.index(
+  { tweetId: 1 },
+  { unique: true, partialFilterExpression: { tweetId: { $type: "string" } } },
+);
+reviewItemSchema.index({ status: 1, createdAt: 1 });
+
+export const ReviewItemModel = mongoose.model<IReviewItemDocument>(
+  "ReviewItem",
+  reviewItemSchema,
+);
+export default ReviewItemModel;
@@ -0,0 +1,180 @@
+/**
+ * MongoDB Scraping Job Model
+ * Jobs of the scraping queue with their chunks, shared by every API process.
+ * A worker holds a job through a lease that it renews while processing it; a
+ * job whose lease expires (crashed or stopped process) returns to the queue.
+ */
+
+import mongoose, { Document, Schema } from "mongoose";
+import type {
+  QueueChunk,
+  QueueJob,
+} from "../services/scraping-queue.service";
+
+export const QUEUE_JOB_STATUSES: readonly QueueJob["status"][] = [
+  "pending",
+  "chunked",
+  "processing",
+  "completed",
+  "failed",
+  "dead_letter",
+  "paused",
+  "cancelled",
+];
+
+export const QUEUE_CHUNK_STATUSES: readonly QueueChunk["status"][] = [
+  "pending",
+  "processing",
+  "completed",
+  "failed",
+];
+
+// Higher first when claiming the next job
+export const QUEUE_PRIORITY_RANK: Record<QueueJob["priority"], number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+export interface IScrapingJobDocument extends Document {
+  jobId: string;
+  type: QueueJob["type"];
+  query: string;
+  targetTweets: number;
+  campaignId: string;
+  organizationId?: string; // of the campaign, for its scraping quotas
+  collectionRun?: QueueJob["collectionRun"];
+  options: QueueJob["options"];
+  priority: QueueJob["priority"];
+  priorityRank: number;
+  attempts: number;
+  maxAttempts: number;
+  status: QueueJob["status"];
+  chunks?: QueueChunk[];
+  progress?: QueueJob["progress"];
+
+  // Retry and lease bookkeeping
+  nextAttemptAt: Date;
+  lease?: { owner: string; expiresAt: Date; heartbeatAt: Date };
+  lastError?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const chunkSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    jobId: { type: String, required: true },
+    chunkIndex: { type: Number, required: true, min: 0 },
+    targetTweets: { type: Number, required: true, min: 1 },
+    status: {
+      type: String,
+      enum: QUEUE_CHUNK_STATUSES,
+      default: "pending",
+    },
+    retries: { type: Number, default: 0, min: 0 },
+    result: { type: Schema.Types.Mixed },
+    error: { type: String },
+  },
+  { _id: false },
+);
+
+const scrapingJobSchema = new Schema<IScrapingJobDocument>(
+  {
+    jobId: {
+      type: String,
+      required: [true, "Job ID is required"],
+      unique: true,
+    },
+    type: {
+      type: String,
+      enum: ["hashtag", "user", "search"],
+      required: true,
+    },
+    query: { type: String, required: [true, "Query is required"] },
+    targetTweets: { type: Number, required: true, min: 1 },
+    campaignId: { type: String, index: true },
+    organizationId: { type: String },
+    collectionRun: {
+      type: new Schema(
+        {
+          id: { type: String, required: true },
+          jobs: { type: Number, required: true, min: 1 },
+          plannedAt: { type: Date, required: true },
+        },
+        { _id: false },
+      ),
+      default: undefined,
+    },
+    options: { type: Schema.Types.Mixed, default: {} },
+    priority: {
+      type: String,
+      enum: ["high", "medium", "low"],
+      default: "medium",
+    },
+    priorityRank: { type: Number, default: 2 },
+    attempts: { type: Number, default: 0, min: 0 },
+    maxAttempts: { type: Number, default: 3, min: 1 },
+    status: {
+      type: String,
+      enum: QUEUE_JOB_STATUSES,
+      default: "pending",
+    },
+    chunks: { type: [chunkSchema], default: undefined },
+    progress: {
+      type: new Schema(
+        {
+          completed: { type: Number, default: 0, min: 0 },
+          total: { type: Number, default: 0, min: 0 },
+          currentChunk: { type: Number, min: 1 },
+        },
+        { _id: false },
+      ),
+      default: undefined,
+    },
+
+    nextAttemptAt: { type: Date, default: Date.now },
+    lease: {
+      type: new Schema(
+        {
+          owner: { type: String, required: true },
+          expiresAt: { type: Date, required: true },
+          heartbeatAt: { type: Date, required: true },
+        },
+        { _id: false },
+      ),
+      default: undefined,
+    },
+    lastError: { type: String },
+    startedAt: { type: Date },
+    completedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+// Claiming the next job: waiting jobs by priority, then FIFO
+scrapingJobSchema.index({
+  status: 1,
+  priorityRank: -1,
+  createdAt: 1,
+});
+// Jobs of crashed workers
+scrapingJobSchema.index({ status: 1, "lease.expiresAt": 1 });
+// Completed jobs of a collection run
+scrapingJobSchema.index(
+  { "collectionRun.id": 1, status: 1 },
+  { partialFilterExpression: { collectionRun: { $exists: true } } },
+);
+
+export const ScrapingJobModel = mongoose.model<IScrapingJobDocument>(
+  "ScrapingJob",
+  scrapingJobSchema,
+  "scraping_jobs",
+);
+export default ScrapingJobModel;
@@ -0,0 +1,51 @@
+/**
+ * MongoDB Scraping Usage Model
+ * Tweets scraped per organization and period (UTC day or month), counted by
+ * every API process with atomic increments
+ */
+
+import mongoose, { Document, Schema } from "mongoose";
+
+export const USAGE_PERIODS = ["day", "month"] as const;
+export type UsagePeriod = (typeof USAGE_PERIODS)[number];
+
+export interface IScrapingUsageDocument extends Document {
+  organizationId: string;
+  period: UsagePeriod;
+  periodStart: Date;
+  tweets: number;
+  warnedAt?: Date; // the warning threshold was reached (notified once)
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scrapingUsageSchema = new Schema<IScrapingUsageDocument>(
+  {
+    organizationId: {
+      type: String,
+      required: [true, "Organization ID is required"],
+    },
+    period: { type: String, enum: USAGE_PERIODS, required: true },
+    periodStart: { type: Date, required: true },
+    tweets: { type: Number, default: 0, min: 0 },
+    warnedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+// Un contador por organización y periodo
+scrapingUsageSchema.index(
+  { organizationId: 1, period: 1, periodStart: 1 },
+  { unique: true },
+);
+
+export const ScrapingUsageModel = mongoose.model<IScrapingUsageDocument>(
+  "ScrapingUsage",
+  scrapingUsageSchema,
+  "scraping_usage",
+);
+export default ScrapingUsageModel;
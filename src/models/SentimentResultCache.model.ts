@@ -0,0 +1,38 @@
+/**
+ * MongoDB Sentiment Result Cache Model
+ * Shared orchestrator cache: one document per (engine version, normalized text) hash
+ */
+
+import mongoose, { Document, Schema } from "mongoose";
+import type { AnalysisResult } from "../lib/sentiment/types";
+
+export interface ISentimentResultCacheDocument extends Omit<Document, "_id"> {
+  _id: string; // cache key (sha256)
+  version: string; // engine version the result was produced with
+  result: AnalysisResult;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const sentimentResultCacheSchema = new Schema<ISentimentResultCacheDocument>(
+  {
+    _id: { type: String, required: true },
+    version: { type: String, required: true, index: true },
+    result: { type: Schema.Types.Mixed, required: true },
+    // TTL index: MongoDB removes the entry once expiresAt has passed
+    expiresAt: { type: Date, required: true, expires: 0 },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+    minimize: false,
+  },
+);
+
+export const SentimentResultCacheModel =
+  mongoose.model<ISentimentResultCacheDocument>(
+    "SentimentResultCache",
+    sentimentResultCacheSchema,
+    "sentiment_result_cache",
+  );
+export default SentimentResultCacheModel;
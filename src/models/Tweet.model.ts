@@ -5,6 +5,7 @@
 
 import mongoose, { Document, Schema } from "mongoose";
 import { Label } from "../enums/sentiment.enum";
+import { ENTITY_TYPES } from "../lib/sentiment/entity-extractor";
 import { SentimentAnalysis, TweetMetrics, TwitterUser } from "../types/twitter";
 
 export interface ITweetDocument extends Document {
@@ -41,6 +42,20 @@ export interface ITweetDocument extends Document {
   };
   location?: any; // New field for rich location data
 
+  // Near-duplicate detection (MinHash LSH keys and cluster of near-identical tweets)
+  nearDuplicate?: {
+    bands: string[];
+    clusterId?: string; // tweetId of the oldest tweet of the cluster
+    size?: number;
+    coordinated?: boolean; // many distinct accounts within a short window
+  };
+
+  // Topic assigned by the campaign topic model
+  topic?: {
+    id: number;
+    weight: number;
+  };
+
   // Language
   language: string;
 
@@ -88,6 +103,60 @@ const tweetMetricsSchema = new Schema(
   { _id: false },
 );
 
+const aspectSentimentSchema = new Schema(
+  {
+    aspect: { type: String, required: true },
+    term: { type: String, required: true },
+    span: {
+      start: { type: Number, required: true, min: 0 },
+      end: { type: Number, required: true, min: 0 },
+      text: { type: String, required: true },
+    },
+    label: {
+      type: String,
+      required: true,
+      enum: [
+        Label.VERY_POSITIVE,
+        Label.POSITIVE,
+        Label.NEUTRAL,
+        Label.NEGATIVE,
+        Label.VERY_NEGATIVE,
+      ],
+    },
+    score: { type: Number, required: true, min: -1, max: 1 },
+    confidence: { type: Number, required: true, min: 0, max: 1 },
+  },
+  { _id: false },
+);
+
+const entityMentionSchema = new Schema(
+  {
+    entity: { type: String, required: true },
+    type: { type: String, required: true, enum: ENTITY_TYPES },
+    alias: { type: String, required: true },
+    competitor: { type: Boolean, default: false },
+    span: {
+      start: { type: Number, required: true, min: 0 },
+      end: { type: Number, required: true, min: 0 },
+      text: { type: String, required: true },
+    },
+    label: {
+      type: String,
+      required: true,
+      enum: [
+        Label.VERY_POSITIVE,
+        Label.POSITIVE,
+        Label.NEUTRAL,
+        Label.NEGATIVE,
+        Label.VERY_NEGATIVE,
+      ],
+    },
+    score: { type: Number, required: true, min: -1, max: 1 },
+    confidence: { type: Number, required: true, min: 0, max: 1 },
+  },
+  { _id: false },
+);
+
 const sentimentAnalysisSchema = new Schema(
   {
     score: { type: Number, required: true, min: -1, max: 1 },
@@ -111,8 +180,13 @@ const sentimentAnalysisSchema = new Schema(
       sadness: { type: Number, min: 0, max: 1 },
       surprise: { type: Number, min: 0, max: 1 },
       disgust: { type: Number, min: 0, max: 1 },
+      trust: { type: Number, min: 0, max: 1 },
+      anticipation: { type: Number, min: 0, max: 1 },
     },
     keywords: [{ type: String }],
+    aspects: { type: [aspectSentimentSchema], default: undefined },
+    entities: { type: [entityMentionSchema], default: undefined },
+    needsReview: { type: Boolean },
     analyzedAt: { type: Date, required: true },
     processingTime: { type: Number, required: true, min: 0 },
   },
@@ -298,6 +372,30 @@ const tweetSchema = new Schema<ITweetDocument>(
     geoLocation: geoLocationSchema,
     location: locationSchema,
 
+    nearDuplicate: {
+      type: new Schema(
+        {
+          bands: { type: [String], default: [] },
+          clusterId: { type: String },
+          size: { type: Number, min: 1 },
+          coordinated: { type: Boolean },
+        },
+        { _id: false },
+      ),
+      default: undefined,
+    },
+
+    topic: {
+      type: new Schema(
+        {
+          id: { type: Number, required: true, min: 0 },
+          weight: { type: Number, required: true, min: 0, max: 1 },
+        },
+        { _id: false },
+      ),
+      default: undefined,
+    },
+
     language: {
       type: String,
       required: [true, "Language is required"],
@@ -361,6 +459,10 @@ tweetSchema.index({
   "author.username": "text",
 });
 
+// Near-duplicate lookups: candidates by LSH key within a campaign, members by cluster
+tweetSchema.index({ campaignId: 1, "nearDuplicate.bands": 1 });
+tweetSchema.index({ "nearDuplicate.clusterId": 1 }, { sparse: true });
+
 // Pre-save middleware
 tweetSchema.pre("save", function (next) {
   // Calculate engagement if not provided
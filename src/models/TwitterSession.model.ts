@@ -0,0 +1,113 @@
+/**
+ * MongoDB Twitter Session Model
+ * Twitter accounts of the scraping session pool: their cookies and
+ * credentials (encrypted with TWITTER_MASTER_PASSWORD), health score,
+ * requests in the current rate-limit window and cooldown. Shared by every API
+ * process, so a rate-limited or blocked account is skipped by all of them.
+ */
+
+import mongoose, { Document, Schema } from "mongoose";
+import { AuthenticationStatus, ScrapingErrorType } from "../enums/scraping.enum";
+import type { EncryptedPayload } from "../lib/security/session-store";
+
+export const MAX_HEALTH_SCORE = 100;
+
+export interface ITwitterSessionDocument extends Document {
+  label: string;
+  secret: EncryptedPayload; // cookies and/or credentials, never selected by default
+  hasCookies: boolean;
+  hasCredentials: boolean;
+  enabled: boolean;
+  disabledReason?: string;
+  authStatus: AuthenticationStatus;
+  healthScore: number; // 0-100, the healthiest available session is used first
+  rateLimit: {
+    windowStartedAt?: Date;
+    requests: number; // scraping requests in the window
+  };
+  cooldownUntil?: Date;
+  consecutiveFailures: number;
+  authFailures: number; // consecutive, the session is blocked at the limit
+  lastError?: { type: ScrapingErrorType; message: string; at: Date };
+  lastUsedAt?: Date;
+  lastSuccessAt?: Date;
+  createdBy: string;
+  updatedBy?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const twitterSessionSchema = new Schema<ITwitterSessionDocument>(
+  {
+    label: {
+      type: String,
+      required: [true, "Label is required"],
+      trim: true,
+      maxlength: [64, "Label cannot exceed 64 characters"],
+    },
+    secret: {
+      type: new Schema(
+        {
+          iv: { type: String, required: true },
+          tag: { type: String, required: true },
+          ciphertext: { type: String, required: true },
+        },
+        { _id: false },
+      ),
+      required: true,
+      select: false,
+    },
+    hasCookies: { type: Boolean, default: false },
+    hasCredentials: { type: Boolean, default: false },
+    enabled: { type: Boolean, default: true },
+    disabledReason: { type: String },
+    authStatus: {
+      type: String,
+      enum: Object.values(AuthenticationStatus),
+      default: AuthenticationStatus.PENDING,
+    },
+    healthScore: {
+      type: Number,
+      default: MAX_HEALTH_SCORE,
+      min: 0,
+      max: MAX_HEALTH_SCORE,
+    },
+    rateLimit: {
+      windowStartedAt: { type: Date },
+      requests: { type: Number, default: 0, min: 0 },
+    },
+    cooldownUntil: { type: Date },
+    consecutiveFailures: { type: Number, default: 0, min: 0 },
+    authFailures: { type: Number, default: 0, min: 0 },
+    lastError: {
+      type: new Schema(
+        {
+          type: { type: String, enum: Object.values(ScrapingErrorType) },
+          message: String,
+          at: Date,
+        },
+        { _id: false },
+      ),
+    },
+    lastUsedAt: { type: Date },
+    lastSuccessAt: { type: Date },
+    createdBy: { type: String, required: true },
+    updatedBy: { type: String },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+twitterSessionSchema.index({ label: 1 }, { unique: true });
+// Selección de la sesión más sana disponible
+twitterSessionSchema.index({ enabled: 1, healthScore: -1, lastUsedAt: 1 });
+
+export const TwitterSessionModel = mongoose.model<ITwitterSessionDocument>(
+  "TwitterSession",
+  twitterSessionSchema,
+  "twitter_sessions",
+);
+export default TwitterSessionModel;
@@ -0,0 +1,55 @@
+/**
+ * MongoDB Campaign Topics Repository
+ * Data access layer for the topic-modelling reports of each campaign
+ */
+
+import {
+  CampaignTopicsModel,
+  ICampaignTopicsDocument,
+} from "../models/CampaignTopics.model";
+import { CampaignTopicsReport } from "../types/campaign";
+
+export class MongoCampaignTopicsRepository {
+  /**
+   * Latest report of a campaign
+   * @returns The report, or null if topics were never computed for the campaign
+   */
+  async findByCampaign(
+    campaignId: string,
+  ): Promise<CampaignTopicsReport | null> {
+    try {
+      const document = await CampaignTopicsModel.findOne({ campaignId })
+        .lean<ICampaignTopicsDocument>()
+        .exec();
+      if (!document) return null;
+
+      return {
+        campaignId: document.campaignId,
+        topics: document.topics,
+        analyzedTweets: document.analyzedTweets,
+        assignedTweets: document.assignedTweets,
+        vocabularySize: document.vocabularySize,
+        generatedAt: document.generatedAt,
+      };
+    } catch (error) {
+      console.error("Error finding campaign topics:", error);
+      throw new Error("FIND_CAMPAIGN_TOPICS_ERROR");
+    }
+  }
+
+  /**
+   * Replace the report of a campaign with a new one
+   */
+  async save(report: CampaignTopicsReport): Promise<void> {
+    try {
+      await CampaignTopicsModel.findOneAndUpdate(
+        { campaignId: report.campaignId },
+        { $set: report },
+        { upsert: true, runValidators: true },
+      ).exec();
+    } catch (error) {
+      console.error("Error saving campaign topics:", error);
+      throw new Error("SAVE_CAMPAIGN_TOPICS_ERROR");
+    }
+  }
+}
@@ -5,6 +5,7 @@
 
 import { CampaignModel, ICampaignDocument } from "../models/Campaign.model";
 import {
+  CampaignEmotionStats,
   CampaignFilter,
   CreateCampaignRequest,
   UpdateCampaignRequest,
@@ -41,6 +42,9 @@ export class MongoCampaignRepository {
         emotionAnalysis: campaignData.emotionAnalysis ?? false,
         topicsAnalysis: campaignData.topicsAnalysis ?? false,
         influencerAnalysis: campaignData.influencerAnalysis ?? false,
+        aspects: campaignData.aspects ?? [],
+        entities: campaignData.entities ?? [],
+        duplicateHandling: campaignData.duplicateHandling ?? "include",
         assignedTo: campaignData.assignedTo ?? [],
       };
 
@@ -341,6 +345,63 @@ export class MongoCampaignRepository {
     }
   }
 
+  /**
+   * Take the scheduled collection run of a slot: only the first process whose
+   * schedule fires for the slot gets it
+   * @returns false if the slot was already taken or the campaign is not active
+   */
+  async claimScheduledCollection(id: string, slot: Date): Promise<boolean> {
+    try {
+      const result = await CampaignModel.updateOne(
+        {
+          _id: id,
+          status: "active",
+          $or: [
+            { lastScheduledCollection: { $exists: false } },
+            { lastScheduledCollection: { $lt: slot } },
+          ],
+        },
+        { $set: { lastScheduledCollection: slot } },
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error("Error claiming scheduled collection:", error);
+      throw new Error("CLAIM_SCHEDULED_COLLECTION_ERROR");
+    }
+  }
+
+  /**
+   * Move the collection cursor forward (never backwards)
+   */
+  async markDataCollected(id: string, collectedUntil: Date): Promise<void> {
+    try {
+      await CampaignModel.updateOne(
+        { _id: id },
+        { $max: { lastDataCollection: collectedUntil } },
+      );
+    } catch (error) {
+      console.error("Error updating campaign data collection:", error);
+      throw new Error("UPDATE_DATA_COLLECTION_ERROR");
+    }
+  }
+
+  /**
+   * Mark as completed the active campaigns whose end date has passed
+   * @returns Number of campaigns completed
+   */
+  async completeEnded(now: Date = new Date()): Promise<number> {
+    try {
+      const result = await CampaignModel.updateMany(
+        { status: "active", endDate: { $lt: now } },
+        { $set: { status: "completed", updatedAt: now } },
+      );
+      return result.modifiedCount;
+    } catch (error) {
+      console.error("Error completing ended campaigns:", error);
+      throw new Error("COMPLETE_ENDED_CAMPAIGNS_ERROR");
+    }
+  }
+
   /**
    * Update campaign statistics
    */
@@ -373,6 +434,25 @@ export class MongoCampaignRepository {
     }
   }
 
+  /**
+   * Update only the emotion aggregates, leaving the rest of the stats untouched
+   */
+  async updateEmotionStats(
+    id: string,
+    emotions: CampaignEmotionStats,
+  ): Promise<ICampaignDocument | null> {
+    try {
+      return await CampaignModel.findByIdAndUpdate(
+        id,
+        { $set: { "stats.emotions": emotions, updatedAt: new Date() } },
+        { new: true },
+      );
+    } catch (error) {
+      console.error("Error updating campaign emotion stats:", error);
+      throw new Error("UPDATE_CAMPAIGN_EMOTION_STATS_ERROR");
+    }
+  }
+
   /**
    * Search campaigns by text
    */
@@ -426,6 +506,40 @@ export class MongoCampaignRepository {
     }
   }
 
+  /**
+   * IDs of the campaigns a user can edit (creator or assigned)
+   */
+  async findEditableIds(userId: string): Promise<string[]> {
+    try {
+      const campaigns = await CampaignModel.find(
+        { $or: [{ createdBy: userId }, { assignedTo: userId }] },
+        { _id: 1 },
+      )
+        .lean()
+        .exec();
+
+      return campaigns.map((campaign) => String(campaign._id));
+    } catch (error) {
+      console.error("Error finding editable campaigns:", error);
+      throw new Error("FIND_EDITABLE_CAMPAIGNS_ERROR");
+    }
+  }
+
+  /**
+   * Count the active campaigns of an organization
+   */
+  async countActiveByOrganization(organizationId: string): Promise<number> {
+    try {
+      return await CampaignModel.countDocuments({
+        organizationId,
+        status: "active",
+      });
+    } catch (error) {
+      console.error("Error counting active campaigns:", error);
+      throw new Error("COUNT_ACTIVE_CAMPAIGNS_ERROR");
+    }
+  }
+
   /**
    * Count campaigns by user ID
    */
@@ -0,0 +1,108 @@
+/**
+ * MongoDB Organization Lexicon Repository
+ * Data access layer for the per-organization lexicon overrides
+ */
+
+import {
+  IOrganizationLexiconTermDocument,
+  LexiconPolarity,
+  OrganizationLexiconTermModel,
+} from "../models/OrganizationLexicon.model";
+
+export interface LexiconTermInput {
+  term: string;
+  polarity: LexiconPolarity;
+  weight: number;
+  context: string[];
+  language?: string;
+}
+
+export class MongoOrganizationLexiconRepository {
+  /**
+   * All terms of an organization, alphabetically
+   */
+  async findByOrganization(
+    organizationId: string,
+  ): Promise<IOrganizationLexiconTermDocument[]> {
+    try {
+      return await OrganizationLexiconTermModel.find({ organizationId })
+        .sort({ term: 1, language: 1 })
+        .exec();
+    } catch (error) {
+      console.error("Error finding organization lexicon:", error);
+      throw new Error("FIND_LEXICON_TERMS_ERROR");
+    }
+  }
+
+  /**
+   * Add a term to an organization's lexicon
+   * @throws Error("LEXICON_TERM_EXISTS") if the term is already defined for that language
+   */
+  async create(
+    organizationId: string,
+    input: LexiconTermInput,
+    userId: string,
+  ): Promise<IOrganizationLexiconTermDocument> {
+    try {
+      const term = new OrganizationLexiconTermModel({
+        ...input,
+        organizationId,
+        createdBy: userId,
+      });
+      return await term.save();
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new Error("LEXICON_TERM_EXISTS");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a term's definition
+   * @returns The updated term, or null if it does not belong to the organization
+   * @throws Error("LEXICON_TERM_EXISTS") if the change collides with another term
+   */
+  async update(
+    organizationId: string,
+    id: string,
+    input: LexiconTermInput,
+    userId: string,
+  ): Promise<IOrganizationLexiconTermDocument | null> {
+    try {
+      const { language, ...fields } = input;
+      return await OrganizationLexiconTermModel.findOneAndUpdate(
+        { _id: id, organizationId },
+        {
+          $set: { ...fields, ...(language && { language }), updatedBy: userId },
+          ...(!language && { $unset: { language: 1 } }),
+        },
+        { new: true, runValidators: true },
+      );
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new Error("LEXICON_TERM_EXISTS");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a term
+   * @returns The removed term, or null if it does not belong to the organization
+   */
+  async delete(
+    organizationId: string,
+    id: string,
+  ): Promise<IOrganizationLexiconTermDocument | null> {
+    try {
+      return await OrganizationLexiconTermModel.findOneAndDelete({
+        _id: id,
+        organizationId,
+      });
+    } catch (error) {
+      console.error("Error deleting lexicon term:", error);
+      throw new Error("DELETE_LEXICON_TERM_ERROR");
+    }
+  }
+}
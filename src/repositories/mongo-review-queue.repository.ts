@@ -0,0 +1,197 @@
+/**
+ * MongoDB Review Queue Repository
+ * Data access layer for the human-review queue of low-confidence predictions
+ */
+
+import { ReviewStatus } from "../enums/review.enum";
+import { IReviewItemDocument, ReviewItemModel } from "../models/ReviewItem.model";
+import type { SentimentLabel } from "../services/naive-bayes-sentiment.service";
+import { PaginationOptions } from "../types/common";
+
+// A claim that is not resolved in this time returns to the queue
+export const REVIEW_CLAIM_TTL_MS = 30 * 60 * 1000; // 30 minutes
+
+export interface EnqueueReviewItem {
+  text: string;
+  tweetId?: string;
+  campaignId?: string;
+  language?: string;
+  predictedLabel: string;
+  confidence: number;
+  rawConfidence?: number;
+}
+
+export interface ReviewQueueFilter {
+  status?: ReviewStatus;
+  campaignId?: string;
+  claimedBy?: string;
+}
+
+export class MongoReviewQueueRepository {
+  /**
+   * Add low-confidence predictions to the queue.
+   * Tweets already queued are left untouched (no duplicate reviews).
+   * @returns Number of new items queued
+   */
+  async enqueue(items: EnqueueReviewItem[]): Promise<number> {
+    if (items.length === 0) return 0;
+
+    try {
+      const operations = items.map((item) =>
+        item.tweetId
+          ? {
+              updateOne: {
+                filter: { tweetId: item.tweetId },
+                update: { $setOnInsert: { ...item, status: ReviewStatus.PENDING } },
+                upsert: true,
+              },
+            }
+          : { insertOne: { document: { ...item, status: ReviewStatus.PENDING } } },
+      );
+
+      const result = await ReviewItemModel.bulkWrite(operations, { ordered: false });
+      return result.upsertedCount + result.insertedCount;
+    } catch (error) {
+      console.error("Error enqueuing review items:", error);
+      throw new Error("ENQUEUE_REVIEW_ERROR");
+    }
+  }
+
+  /**
+   * Find review item by ID
+   */
+  async findById(id: string): Promise<IReviewItemDocument | null> {
+    try {
+      return await ReviewItemModel.findById(id);
+    } catch (error) {
+      console.error("Error finding review item by ID:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Find review items with filtering and pagination (oldest first by default)
+   */
+  async findMany(
+    filter: ReviewQueueFilter = {},
+    options: PaginationOptions = {},
+  ): Promise<IReviewItemDocument[]> {
+    try {
+      const {
+        offset = 0,
+        limit = 20,
+        sortBy = "createdAt",
+        sortOrder = "asc",
+      } = options;
+
+      const sort: Record<string, 1 | -1> = {
+        [sortBy]: sortOrder === "desc" ? -1 : 1,
+      };
+
+      return await ReviewItemModel.find(this.buildFilter(filter))
+        .sort(sort)
+        .skip(offset)
+        .limit(limit)
+        .exec();
+    } catch (error) {
+      console.error("Error finding review items:", error);
+      throw new Error("FIND_REVIEW_ITEMS_ERROR");
+    }
+  }
+
+  /**
+   * Count review items with filtering
+   */
+  async count(filter: ReviewQueueFilter = {}): Promise<number> {
+    try {
+      return await ReviewItemModel.countDocuments(this.buildFilter(filter));
+    } catch (error) {
+      console.error("Error counting review items:", error);
+      throw new Error("COUNT_REVIEW_ITEMS_ERROR");
+    }
+  }
+
+  /**
+   * Lock an item for a reviewer
+   * @returns The claimed item, or null if it is resolved or claimed by someone else
+   */
+  async claim(id: string, userId: string): Promise<IReviewItemDocument | null> {
+    try {
+      return await ReviewItemModel.findOneAndUpdate(
+        { _id: id, ...this.availableTo(userId) },
+        {
+          $set: {
+            status: ReviewStatus.CLAIMED,
+            claimedBy: userId,
+            claimedAt: new Date(),
+          },
+        },
+        { new: true },
+      );
+    } catch (error) {
+      console.error("Error claiming review item:", error);
+      throw new Error("CLAIM_REVIEW_ITEM_ERROR");
+    }
+  }
+
+  /**
+   * Store the human label for an item
+   * @returns The labeled item, or null if it is resolved or claimed by someone else
+   */
+  async label(
+    id: string,
+    userId: string,
+    label: SentimentLabel,
+  ): Promise<IReviewItemDocument | null> {
+    return this.resolve(id, userId, { status: ReviewStatus.LABELED, label });
+  }
+
+  /**
+   * Take an item out of the queue without labeling it
+   * @returns The skipped item, or null if it is resolved or claimed by someone else
+   */
+  async skip(id: string, userId: string): Promise<IReviewItemDocument | null> {
+    return this.resolve(id, userId, { status: ReviewStatus.SKIPPED });
+  }
+
+  private async resolve(
+    id: string,
+    userId: string,
+    update: { status: ReviewStatus; label?: SentimentLabel },
+  ): Promise<IReviewItemDocument | null> {
+    try {
+      return await ReviewItemModel.findOneAndUpdate(
+        { _id: id, ...this.availableTo(userId) },
+        { $set: { ...update, reviewedBy: userId, reviewedAt: new Date() } },
+        { new: true },
+      );
+    } catch (error) {
+      console.error("Error resolving review item:", error);
+      throw new Error("RESOLVE_REVIEW_ITEM_ERROR");
+    }
+  }
+
+  /**
+   * Pending items, items already claimed by this reviewer and expired claims
+   */
+  private availableTo(userId: string): Record<string, unknown> {
+    return {
+      $or: [
+        { status: ReviewStatus.PENDING },
+        { status: ReviewStatus.CLAIMED, claimedBy: userId },
+        {
+          status: ReviewStatus.CLAIMED,
+          claimedAt: { $lt: new Date(Date.now() - REVIEW_CLAIM_TTL_MS) },
+        },
+      ],
+    };
+  }
+
+  private buildFilter(filter: ReviewQueueFilter): Record<string, unknown> {
+    const mongoFilter: Record<string, unknown> = {};
+    if (filter.status) mongoFilter.status = filter.status;
+    if (filter.campaignId) mongoFilter.campaignId = filter.campaignId;
+    if (filter.claimedBy) mongoFilter.claimedBy = filter.claimedBy;
+    return mongoFilter;
+  }
+}
@@ -0,0 +1,598 @@
+/**
+ * MongoDB Scraping Job Repository
+ * Data access layer for the durable scraping queue. Every write made while
+ * processing a job is guarded by the worker's lease, so a worker that lost its
+ * job to another process cannot overwrite the other's progress.
+ */
+
+import {
+  IScrapingJobDocument,
+  QUEUE_PRIORITY_RANK,
+  ScrapingJobModel,
+} from "../models/ScrapingJob.model";
+import type {
+  QueueChunk,
+  QueueJob,
+  QueueStats,
+} from "../services/scraping-queue.service";
+
+type JobProgress = Pick<QueueJob, "chunks" | "progress">;
+
+export interface ScrapingJobFilter {
+  campaignId?: string;
+  campaignIds?: string[]; // jobs of any of these campaigns
+  collectionRunId?: string;
+  status?: QueueJob["status"];
+  type?: QueueJob["type"];
+}
+
+// Jobs that have not finished yet
+const UNFINISHED_STATUSES: QueueJob["status"][] = [
+  "pending",
+  "chunked",
+  "failed",
+  "processing",
+  "paused",
+];
+
+// Restart a job from its chunks, or from scratch if it has none
+const WAITING_STATUS = {
+  $cond: [{ $isArray: "$chunks" }, "chunked", "pending"],
+};
+
+export class MongoScrapingJobRepository {
+  /**
+   * Store a new job
+   */
+  async create(job: QueueJob): Promise<void> {
+    try {
+      await ScrapingJobModel.create({
+        jobId: job.id,
+        type: job.type,
+        query: job.query,
+        targetTweets: job.targetTweets,
+        campaignId: job.campaignId,
+        organizationId: job.organizationId,
+        collectionRun: job.collectionRun,
+        options: job.options,
+        priority: job.priority,
+        priorityRank: QUEUE_PRIORITY_RANK[job.priority],
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        status: job.status,
+        chunks: job.chunks,
+        progress: job.progress,
+        nextAttemptAt: job.createdAt,
+        createdAt: job.createdAt,
+      });
+    } catch (error) {
+      console.error("Error creating scraping job:", error);
+      throw new Error("CREATE_SCRAPING_JOB_ERROR");
+    }
+  }
+
+  /**
+   * Find job by ID
+   */
+  async findById(jobId: string): Promise<QueueJob | null> {
+    try {
+      const document = await ScrapingJobModel.findOne({ jobId })
+        .lean<IScrapingJobDocument>()
+        .exec();
+      return document ? this.toQueueJob(document) : null;
+    } catch (error) {
+      console.error("Error finding scraping job:", error);
+      throw new Error("FIND_SCRAPING_JOB_ERROR");
+    }
+  }
+
+  /**
+   * Find jobs with filtering and pagination (newest first)
+   */
+  async findMany(
+    filter: ScrapingJobFilter = {},
+    { offset = 0, limit = 20 }: { offset?: number; limit?: number } = {},
+  ): Promise<QueueJob[]> {
+    try {
+      const documents = await ScrapingJobModel.find(this.buildFilter(filter))
+        .sort({ createdAt: -1 })
+        .skip(offset)
+        .limit(limit)
+        .lean<IScrapingJobDocument[]>()
+        .exec();
+      return documents.map((document) => this.toQueueJob(document));
+    } catch (error) {
+      console.error("Error finding scraping jobs:", error);
+      throw new Error("FIND_SCRAPING_JOBS_ERROR");
+    }
+  }
+
+  /**
+   * Count jobs with filtering
+   */
+  async count(filter: ScrapingJobFilter = {}): Promise<number> {
+    try {
+      return await ScrapingJobModel.countDocuments(this.buildFilter(filter));
+    } catch (error) {
+      console.error("Error counting scraping jobs:", error);
+      throw new Error("COUNT_SCRAPING_JOBS_ERROR");
+    }
+  }
+
+  /**
+   * Cancel an unfinished job. A worker processing it loses its lease and
+   * stops after the chunk in progress.
+   * @returns The cancelled job, or null if it does not exist or already finished
+   */
+  async cancel(jobId: string): Promise<QueueJob | null> {
+    return this.transition(
+      { jobId, status: { $in: UNFINISHED_STATUSES } },
+      { $set: { status: "cancelled" }, $unset: { lease: "" } },
+    );
+  }
+
+  /**
+   * Pause a waiting or running job, keeping its chunk progress. The attempt
+   * of a running job is not counted.
+   * @returns The paused job, or null if it does not exist or cannot be paused
+   */
+  async pause(jobId: string): Promise<QueueJob | null> {
+    return this.transition(
+      {
+        jobId,
+        status: { $in: ["pending", "chunked", "failed", "processing"] },
+      },
+      [
+        {
+          $set: {
+            status: "paused",
+            attempts: {
+              $cond: [
+                { $eq: ["$status", "processing"] },
+                { $max: [{ $subtract: ["$attempts", 1] }, 0] },
+                "$attempts",
+              ],
+            },
+          },
+        },
+        { $unset: "lease" },
+      ],
+    );
+  }
+
+  /**
+   * Put a paused job back in the queue
+   * @returns The resumed job, or null if it does not exist or is not paused
+   */
+  async resume(jobId: string): Promise<QueueJob | null> {
+    return this.transition({ jobId, status: "paused" }, [
+      { $set: { status: WAITING_STATUS, nextAttemptAt: new Date() } },
+    ]);
+  }
+
+  /**
+   * Queue again a failed or dead-lettered job, or the failed chunks of a
+   * completed job, with its attempts and the retries of those chunks reset
+   * @returns The job, or null if it does not exist or has nothing to retry
+   */
+  async retryFailed(jobId: string): Promise<QueueJob | null> {
+    return this.transition(
+      {
+        jobId,
+        $or: [
+          { status: { $in: ["failed", "dead_letter"] } },
+          { status: "completed", "chunks.status": "failed" },
+        ],
+      },
+      [
+        {
+          $set: {
+            chunks: {
+              $cond: [
+                { $isArray: "$chunks" },
+                {
+                  $map: {
+                    input: "$chunks",
+                    as: "chunk",
+                    in: {
+                      $cond: [
+                        { $eq: ["$$chunk.status", "failed"] },
+                        {
+                          $mergeObjects: [
+                            "$$chunk",
+                            { status: "pending", retries: 0 },
+                          ],
+                        },
+                        "$$chunk",
+                      ],
+                    },
+                  },
+                },
+                "$$REMOVE",
+              ],
+            },
+            status: WAITING_STATUS,
+            attempts: 0,
+            nextAttemptAt: new Date(),
+          },
+        },
+        { $unset: ["lease", "lastError", "completedAt", "chunks.error"] },
+      ],
+    );
+  }
+
+  /**
+   * Change the priority of an unfinished job
+   * @returns The job, or null if it does not exist or already finished
+   */
+  async setPriority(
+    jobId: string,
+    priority: QueueJob["priority"],
+  ): Promise<QueueJob | null> {
+    return this.transition(
+      { jobId, status: { $in: UNFINISHED_STATUSES } },
+      {
+        $set: { priority, priorityRank: QUEUE_PRIORITY_RANK[priority] },
+      },
+    );
+  }
+
+  /**
+   * Lease the next job to a worker: waiting jobs whose retry time has come,
+   * by priority and then FIFO, or jobs whose worker stopped renewing its lease
+   * (they resume from their stored chunk progress)
+   * @returns The claimed job, or null if there is nothing to process
+   */
+  async claimNext(
+    owner: string,
+    leaseMs: number,
+    excludeOrganizations: string[] = [],
+  ): Promise<QueueJob | null> {
+    const now = new Date();
+    try {
+      const document = await ScrapingJobModel.findOneAndUpdate(
+        {
+          ...(excludeOrganizations.length > 0 && {
+            organizationId: { $nin: excludeOrganizations },
+          }),
+          $or: [
+            {
+              status: { $in: ["pending", "chunked", "failed"] },
+              nextAttemptAt: { $lte: now },
+            },
+            {
+              status: "processing",
+              "lease.expiresAt": { $lt: now },
+              $expr: { $lt: ["$attempts", "$maxAttempts"] },
+            },
+          ],
+        },
+        {
+          $set: {
+            status: "processing",
+            lease: {
+              owner,
+              expiresAt: new Date(now.getTime() + leaseMs),
+              heartbeatAt: now,
+            },
+            startedAt: now,
+          },
+          $inc: { attempts: 1 },
+        },
+        { new: true, sort: { priorityRank: -1, createdAt: 1 } },
+      )
+        .lean<IScrapingJobDocument>()
+        .exec();
+      return document ? this.toQueueJob(document) : null;
+    } catch (error) {
+      console.error("Error claiming scraping job:", error);
+      throw new Error("CLAIM_SCRAPING_JOB_ERROR");
+    }
+  }
+
+  /**
+   * Organizations with jobs waiting or being processed, with how many are
+   * being processed (by any worker)
+   */
+  async findOrganizationsWithWork(): Promise<
+    { organizationId: string; processing: number }[]
+  > {
+    try {
+      const rows = await ScrapingJobModel.aggregate<{
+        _id: string;
+        processing: number;
+      }>([
+        {
+          $match: {
+            status: { $in: ["pending", "chunked", "failed", "processing"] },
+            organizationId: { $type: "string" },
+          },
+        },
+        {
+          $group: {
+            _id: "$organizationId",
+            processing: {
+              $sum: { $cond: [{ $eq: ["$status", "processing"] }, 1, 0] },
+            },
+          },
+        },
+      ]);
+      return rows.map((row) => ({
+        organizationId: row._id,
+        processing: row.processing,
+      }));
+    } catch (error) {
+      console.error("Error finding organizations with queued jobs:", error);
+      throw new Error("FIND_QUEUE_ORGANIZATIONS_ERROR");
+    }
+  }
+
+  /**
+   * Count the unfinished jobs of a campaign's scheduled collection runs
+   */
+  async countUnfinishedCollectionJobs(campaignId: string): Promise<number> {
+    try {
+      return await ScrapingJobModel.countDocuments({
+        campaignId,
+        collectionRun: { $exists: true },
+        status: { $in: UNFINISHED_STATUSES },
+      });
+    } catch (error) {
+      console.error("Error counting unfinished collection jobs:", error);
+      throw new Error("COUNT_COLLECTION_JOBS_ERROR");
+    }
+  }
+
+  /**
+   * Count the jobs of an organization being processed
+   */
+  async countProcessing(organizationId: string): Promise<number> {
+    try {
+      return await ScrapingJobModel.countDocuments({
+        organizationId,
+        status: "processing",
+      });
+    } catch (error) {
+      console.error("Error counting processing jobs:", error);
+      throw new Error("COUNT_PROCESSING_JOBS_ERROR");
+    }
+  }
+
+  /**
+   * Move to the dead letter the jobs whose lease expired on their last attempt
+   * @returns Number of jobs dead-lettered
+   */
+  async deadLetterExpired(): Promise<number> {
+    try {
+      const result = await ScrapingJobModel.updateMany(
+        {
+          status: "processing",
+          "lease.expiresAt": { $lt: new Date() },
+          $expr: { $gte: ["$attempts", "$maxAttempts"] },
+        },
+        {
+          $set: {
+            status: "dead_letter",
+            lastError: "Lease expired on the last attempt",
+          },
+          $unset: { lease: "" },
+        },
+      ).exec();
+      return result.modifiedCount;
+    } catch (error) {
+      console.error("Error dead-lettering expired scraping jobs:", error);
+      throw new Error("DEAD_LETTER_SCRAPING_JOBS_ERROR");
+    }
+  }
+
+  /**
+   * Renew the lease of a job
+   * @returns false if the worker no longer holds the job
+   */
+  async heartbeat(
+    jobId: string,
+    owner: string,
+    leaseMs: number,
+  ): Promise<boolean> {
+    const now = new Date();
+    return this.updateLeased(jobId, owner, {
+      $set: {
+        "lease.expiresAt": new Date(now.getTime() + leaseMs),
+        "lease.heartbeatAt": now,
+      },
+    });
+  }
+
+  /**
+   * Store the chunk progress of a job
+   * @returns false if the worker no longer holds the job
+   */
+  async saveProgress(
+    jobId: string,
+    owner: string,
+    { chunks, progress }: JobProgress,
+  ): Promise<boolean> {
+    return this.updateLeased(jobId, owner, {
+      $set: { ...(chunks && { chunks }), ...(progress && { progress }) },
+    });
+  }
+
+  /**
+   * Mark a job as completed and release its lease
+   * @returns false if the worker no longer holds the job
+   */
+  async complete(
+    jobId: string,
+    owner: string,
+    { chunks, progress }: JobProgress,
+  ): Promise<boolean> {
+    return this.updateLeased(jobId, owner, {
+      $set: {
+        status: "completed",
+        completedAt: new Date(),
+        ...(chunks && { chunks }),
+        ...(progress && { progress }),
+      },
+      $unset: { lease: "", lastError: "" },
+    });
+  }
+
+  /**
+   * Record a failed attempt and release the lease: the job is retried at
+   * `retryAt`, or goes to the dead letter if `retryAt` is null
+   * @returns false if the worker no longer holds the job
+   */
+  async fail(
+    jobId: string,
+    owner: string,
+    error: string,
+    retryAt: Date | null,
+    { chunks, progress }: JobProgress,
+  ): Promise<boolean> {
+    return this.updateLeased(jobId, owner, {
+      $set: {
+        status: retryAt ? "failed" : "dead_letter",
+        lastError: error,
+        ...(retryAt && { nextAttemptAt: retryAt }),
+        ...(chunks && { chunks }),
+        ...(progress && { progress }),
+      },
+      $unset: { lease: "" },
+    });
+  }
+
+  /**
+   * Give a job back to the queue without counting the attempt (shutdown)
+   */
+  async release(job: QueueJob, owner: string): Promise<boolean> {
+    return this.updateLeased(job.id, owner, {
+      $set: {
+        status: job.chunks ? "chunked" : "pending",
+        nextAttemptAt: new Date(),
+        ...(job.chunks && { chunks: job.chunks }),
+        ...(job.progress && { progress: job.progress }),
+      },
+      $inc: { attempts: -1 },
+      $unset: { lease: "" },
+    });
+  }
+
+  /**
+   * Job counts by status and average duration of the successful attempts
+   */
+  async getStats(): Promise<QueueStats> {
+    try {
+      const [byStatus, [durations]] = await Promise.all([
+        ScrapingJobModel.aggregate<{ _id: QueueJob["status"]; count: number }>([
+          { $group: { _id: "$status", count: { $sum: 1 } } },
+        ]),
+        ScrapingJobModel.aggregate<{ average: number }>([
+          {
+            $match: {
+              status: "completed",
+              startedAt: { $exists: true },
+              completedAt: { $exists: true },
+            },
+          },
+          {
+            $group: {
+              _id: null,
+              average: {
+                $avg: { $subtract: ["$completedAt", "$startedAt"] },
+              },
+            },
+          },
+        ]),
+      ]);
+
+      const count = (...statuses: QueueJob["status"][]) =>
+        byStatus
+          .filter((row) => statuses.includes(row._id))
+          .reduce((sum, row) => sum + row.count, 0);
+
+      return {
+        totalJobs: byStatus.reduce((sum, row) => sum + row.count, 0),
+        pendingJobs: count("pending", "chunked", "failed"),
+        processingJobs: count("processing"),
+        completedJobs: count("completed"),
+        failedJobs: count("failed", "dead_letter"),
+        deadLetterJobs: count("dead_letter"),
+        averageProcessingTime: durations?.average ?? 0,
+      };
+    } catch (error) {
+      console.error("Error computing scraping queue stats:", error);
+      throw new Error("SCRAPING_QUEUE_STATS_ERROR");
+    }
+  }
+
+  private async transition(
+    filter: Record<string, unknown>,
+    update: Record<string, unknown> | Record<string, unknown>[],
+  ): Promise<QueueJob | null> {
+    try {
+      const document = await ScrapingJobModel.findOneAndUpdate(filter, update, {
+        new: true,
+      })
+        .lean<IScrapingJobDocument>()
+        .exec();
+      return document ? this.toQueueJob(document) : null;
+    } catch (error) {
+      console.error("Error updating scraping job:", error);
+      throw new Error("UPDATE_SCRAPING_JOB_ERROR");
+    }
+  }
+
+  private buildFilter(filter: ScrapingJobFilter): Record<string, unknown> {
+    return {
+      ...(filter.campaignIds && { campaignId: { $in: filter.campaignIds } }),
+      ...(filter.campaignId && { campaignId: filter.campaignId }),
+      ...(filter.collectionRunId && {
+        "collectionRun.id": filter.collectionRunId,
+      }),
+      ...(filter.status && { status: filter.status }),
+      ...(filter.type && { type: filter.type }),
+    };
+  }
+
+  private async updateLeased(
+    jobId: string,
+    owner: string,
+    update: Record<string, unknown>,
+  ): Promise<boolean> {
+    try {
+      const result = await ScrapingJobModel.updateOne(
+        { jobId, status: "processing", "lease.owner": owner },
+        update,
+      ).exec();
+      return result.matchedCount > 0;
+    } catch (error) {
+      console.error("Error updating scraping job:", error);
+      throw new Error("UPDATE_SCRAPING_JOB_ERROR");
+    }
+  }
+
+  private toQueueJob(document: IScrapingJobDocument): QueueJob {
+    return {
+      id: document.jobId,
+      type: document.type,
+      query: document.query,
+      targetTweets: document.targetTweets,
+      campaignId: document.campaignId,
+      organizationId: document.organizationId,
+      collectionRun: document.collectionRun,
+      options: document.options ?? {},
+      priority: document.priority,
+      createdAt: document.createdAt,
+      attempts: document.attempts,
+      maxAttempts: document.maxAttempts,
+      status: document.status,
+      chunks: document.chunks?.map((chunk: QueueChunk) => ({ ...chunk })),
+      progress: document.progress,
+      nextAttemptAt: document.nextAttemptAt,
+      lease: document.lease,
+      lastError: document.lastError,
+      startedAt: document.startedAt,
+      completedAt: document.completedAt,
+    };
+  }
+}
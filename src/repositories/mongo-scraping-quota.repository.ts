@@ -0,0 +1,159 @@
+/**
+ * MongoDB Scraping Quota Repository
+ * Data access layer for the quota policies and the scraping usage counters
+ */
+
+import {
+  IQuotaPolicyDocument,
+  QuotaLimits,
+  QuotaPolicyModel,
+  QuotaPolicyScope,
+} from "../models/QuotaPolicy.model";
+import {
+  IScrapingUsageDocument,
+  ScrapingUsageModel,
+  UsagePeriod,
+} from "../models/ScrapingUsage.model";
+
+export interface QuotaPolicyInput {
+  plan?: string; // organizations only
+  limits: Partial<QuotaLimits>;
+}
+
+export class MongoScrapingQuotaRepository {
+  /**
+   * Policy of a plan or an organization
+   */
+  async findPolicy(
+    scope: QuotaPolicyScope,
+    key: string,
+  ): Promise<IQuotaPolicyDocument | null> {
+    try {
+      return await QuotaPolicyModel.findOne({ scope, key })
+        .lean<IQuotaPolicyDocument>()
+        .exec();
+    } catch (error) {
+      console.error("Error finding quota policy:", error);
+      throw new Error("FIND_QUOTA_POLICY_ERROR");
+    }
+  }
+
+  /**
+   * All policies of a scope, by key
+   */
+  async findPolicies(scope: QuotaPolicyScope): Promise<IQuotaPolicyDocument[]> {
+    try {
+      return await QuotaPolicyModel.find({ scope })
+        .sort({ key: 1 })
+        .lean<IQuotaPolicyDocument[]>()
+        .exec();
+    } catch (error) {
+      console.error("Error finding quota policies:", error);
+      throw new Error("FIND_QUOTA_POLICIES_ERROR");
+    }
+  }
+
+  /**
+   * Create or replace the policy of a plan or an organization
+   */
+  async upsertPolicy(
+    scope: QuotaPolicyScope,
+    key: string,
+    input: QuotaPolicyInput,
+    userId: string,
+  ): Promise<IQuotaPolicyDocument> {
+    try {
+      return await QuotaPolicyModel.findOneAndUpdate(
+        { scope, key },
+        {
+          $set: {
+            limits: input.limits,
+            updatedBy: userId,
+            ...(input.plan && { plan: input.plan }),
+          },
+          ...(!input.plan && { $unset: { plan: 1 } }),
+        },
+        { new: true, upsert: true, runValidators: true },
+      )
+        .lean<IQuotaPolicyDocument>()
+        .orFail()
+        .exec();
+    } catch (error) {
+      console.error("Error saving quota policy:", error);
+      throw new Error("SAVE_QUOTA_POLICY_ERROR");
+    }
+  }
+
+  /**
+   * Add scraped tweets to a usage counter, creating it on the first use
+   * @returns The counter after the increment
+   */
+  async incrementUsage(
+    organizationId: string,
+    period: UsagePeriod,
+    periodStart: Date,
+    tweets: number,
+  ): Promise<IScrapingUsageDocument> {
+    try {
+      return await ScrapingUsageModel.findOneAndUpdate(
+        { organizationId, period, periodStart },
+        { $inc: { tweets } },
+        { new: true, upsert: true },
+      )
+        .lean<IScrapingUsageDocument>()
+        .orFail()
+        .exec();
+    } catch (error) {
+      console.error("Error incrementing scraping usage:", error);
+      throw new Error("INCREMENT_SCRAPING_USAGE_ERROR");
+    }
+  }
+
+  /**
+   * Mark a counter as warned
+   * @returns false if it was already warned (by this or another process)
+   */
+  async markWarned(
+    organizationId: string,
+    period: UsagePeriod,
+    periodStart: Date,
+  ): Promise<boolean> {
+    try {
+      const result = await ScrapingUsageModel.updateOne(
+        {
+          organizationId,
+          period,
+          periodStart,
+          warnedAt: { $exists: false },
+        },
+        { $set: { warnedAt: new Date() } },
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error("Error marking scraping usage as warned:", error);
+      throw new Error("MARK_SCRAPING_USAGE_WARNED_ERROR");
+    }
+  }
+
+  /**
+   * Tweets counted in a period (0 if nothing was scraped yet)
+   */
+  async getUsage(
+    organizationId: string,
+    period: UsagePeriod,
+    periodStart: Date,
+  ): Promise<number> {
+    try {
+      const counter = await ScrapingUsageModel.findOne(
+        { organizationId, period, periodStart },
+        { tweets: 1 },
+      )
+        .lean<Pick<IScrapingUsageDocument, "tweets">>()
+        .exec();
+      return counter?.tweets ?? 0;
+    } catch (error) {
+      console.error("Error finding scraping usage:", error);
+      throw new Error("FIND_SCRAPING_USAGE_ERROR");
+    }
+  }
+}
@@ -4,9 +4,24 @@
  */
 
 import { Label } from "../enums/sentiment.enum";
+import type { EntityType } from "../lib/sentiment/types";
+import type { DuplicateHandling } from "../lib/utils/near-duplicate.utils";
 import { ITweetDocument, TweetModel } from "../models/Tweet.model";
+import type { CampaignShareOfVoice } from "../types/campaign";
 import { TweetMetrics, TwitterUser } from "../types/twitter";
 
+// Emotions stored per tweet in sentiment.emotions
+const EMOTION_FIELDS = [
+  "joy",
+  "sadness",
+  "anger",
+  "fear",
+  "surprise",
+  "disgust",
+  "trust",
+  "anticipation",
+] as const;
+
 // Define polarity enum for simplified sentiment classification
 // Note: This differs from Label enum intentionally:
 // - Label (5 values): For detailed analysis, ML training, granular insights
@@ -50,6 +65,7 @@ export interface TweetFilters {
   verified?: boolean;
   minFollowers?: number;
   maxFollowers?: number;
+  duplicates?: DuplicateHandling; // near-duplicate clusters in counts and averages
 }
 
 export interface TweetAnalytics {
@@ -218,6 +234,13 @@ export class MongoTweetRepository {
     return this.findMany({ campaignId }, pagination);
   }
 
+  /**
+   * Number of tweets stored for a campaign
+   */
+  async countByCampaign(campaignId: string): Promise<number> {
+    return TweetModel.countDocuments({ campaignId });
+  }
+
   /**
    * Find tweets by hashtag
    */
@@ -340,8 +363,8 @@ export class MongoTweetRepository {
       languageStats,
       timelineStats,
     ] = await Promise.all([
-      this.getBasicStats(query),
-      this.getSentimentStats(query),
+      this.getBasicStats(query, this.tweetWeight(filters)),
+      this.getSentimentStats(query, this.tweetWeight(filters)),
       this.getHashtagStats(query),
       this.getMentionStats(query),
       this.getLanguageStats(query),
@@ -386,7 +409,10 @@ export class MongoTweetRepository {
    */
   async getSentimentMetrics(filters: TweetFilters = {}) {
     const query = this.buildQuery(filters);
-    const sentimentStats = await this.getSentimentStats(query);
+    const sentimentStats = await this.getSentimentStats(
+      query,
+      this.tweetWeight(filters),
+    );
     const total = Object.values(sentimentStats).reduce(
       (sum, count) => sum + count,
       0,
@@ -439,6 +465,424 @@ export class MongoTweetRepository {
       polarity,
     };
   }
+
+  /**
+   * Average emotion intensities over the tweets that have emotions stored
+   */
+  async getEmotionAverages(filters: TweetFilters = {}): Promise<{
+    averages: Record<(typeof EMOTION_FIELDS)[number], number>;
+    analyzedTweets: number;
+  }> {
+    const query = this.buildQuery(filters);
+    const weight = this.tweetWeight(filters);
+    // Tweets stored before trust/anticipation existed count as 0
+    const sums = Object.fromEntries(
+      EMOTION_FIELDS.map((emotion) => [
+        emotion,
+        {
+          $sum: {
+            $multiply: [
+              weight,
+              { $ifNull: [`$sentiment.emotions.${emotion}`, 0] },
+            ],
+          },
+        },
+      ]),
+    );
+
+    const [result] = await TweetModel.aggregate([
+      { $match: query },
+      { $match: { "sentiment.emotions": { $exists: true } } },
+      {
+        $group: {
+          _id: null,
+          analyzedTweets: { $sum: 1 },
+          totalWeight: { $sum: weight },
+          ...sums,
+        },
+      },
+    ]);
+
+    return {
+      averages: Object.fromEntries(
+        EMOTION_FIELDS.map((emotion) => [
+          emotion,
+          result?.totalWeight > 0 ? result[emotion] / result.totalWeight : 0,
+        ]),
+      ) as Record<(typeof EMOTION_FIELDS)[number], number>,
+      analyzedTweets: result?.analyzedTweets ?? 0,
+    };
+  }
+
+  /**
+   * Share of voice of the entities extracted from the tweets: each tweet counts
+   * once per entity it mentions. A tweet whose mentions of an entity are all
+   * positive (or all negative) counts as positive (negative); mixed or neutral
+   * mentions count as neutral. Near-duplicates count (and weigh in engagement)
+   * 1 / cluster size when down-weighting them.
+   */
+  async getShareOfVoice(
+    filters: TweetFilters = {},
+  ): Promise<Omit<CampaignShareOfVoice, "updatedAt">> {
+    const query = this.buildQuery(filters);
+    const positive = [Label.POSITIVE, Label.VERY_POSITIVE];
+    const negative = [Label.NEGATIVE, Label.VERY_NEGATIVE];
+    const isIn = (labels: Label[]) => ({
+      $cond: [{ $in: ["$sentiment.entities.label", labels] }, 1, 0],
+    });
+
+    const rows: Array<{
+      _id: string;
+      type: EntityType;
+      competitor: boolean;
+      mentions: number;
+      engagement: number;
+      positive: number;
+      negative: number;
+      averageScore: number;
+    }> = await TweetModel.aggregate([
+      { $match: query },
+      { $match: { "sentiment.entities.0": { $exists: true } } },
+      { $unwind: "$sentiment.entities" },
+      {
+        $group: {
+          _id: { tweet: "$_id", entity: "$sentiment.entities.entity" },
+          type: { $first: "$sentiment.entities.type" },
+          competitor: { $first: "$sentiment.entities.competitor" },
+          weight: { $first: this.tweetWeight(filters) },
+          score: { $avg: "$sentiment.entities.score" },
+          positive: { $max: isIn(positive) },
+          negative: { $max: isIn(negative) },
+          engagement: {
+            $first: {
+              $add: [
+                { $ifNull: ["$metrics.likes", 0] },
+                { $ifNull: ["$metrics.retweets", 0] },
+                { $ifNull: ["$metrics.replies", 0] },
+                { $ifNull: ["$metrics.quotes", 0] },
+              ],
+            },
+          },
+        },
+      },
+      {
+        $group: {
+          _id: "$_id.entity",
+          type: { $first: "$type" },
+          competitor: { $max: "$competitor" },
+          mentions: { $sum: "$weight" },
+          engagement: { $sum: { $multiply: ["$weight", "$engagement"] } },
+          positive: {
+            $sum: {
+              $cond: [{ $gt: ["$positive", "$negative"] }, "$weight", 0],
+            },
+          },
+          negative: {
+            $sum: {
+              $cond: [{ $gt: ["$negative", "$positive"] }, "$weight", 0],
+            },
+          },
+          averageScore: { $avg: "$score" },
+        },
+      },
+      { $sort: { mentions: -1, _id: 1 } },
+    ]);
+
+    const totalMentions = rows.reduce((sum, row) => sum + row.mentions, 0);
+    const totalEngagement = rows.reduce((sum, row) => sum + row.engagement, 0);
+
+    return {
+      totalMentions,
+      entities: rows.map((row) => ({
+        entity: row._id,
+        type: row.type,
+        competitor: Boolean(row.competitor),
+        mentions: row.mentions,
+        share: totalMentions > 0 ? row.mentions / totalMentions : 0,
+        engagement: row.engagement,
+        engagementShare:
+          totalEngagement > 0 ? row.engagement / totalEngagement : 0,
+        sentiment: {
+          positive: row.positive,
+          neutral: row.mentions - row.positive - row.negative,
+          negative: row.negative,
+          averageScore: row.averageScore ?? 0,
+          netSentiment: (row.positive - row.negative) / row.mentions,
+        },
+      })),
+    };
+  }
+
+  /**
+   * Hashtags and sentiment score of the most recent tweets with hashtags,
+   * for the co-occurrence graph
+   */
+  async findHashtagSets(
+    filters: TweetFilters = {},
+    limit: number = 20000,
+  ): Promise<Array<{ hashtags: string[]; sentimentScore?: number }>> {
+    const tweets: Array<{
+      hashtags: string[];
+      sentiment?: { score?: number };
+    }> = await TweetModel.find(
+      { ...this.buildQuery(filters), "hashtags.0": { $exists: true } },
+      { _id: 0, hashtags: 1, "sentiment.score": 1 },
+    )
+      .sort({ tweetCreatedAt: -1 })
+      .limit(limit)
+      .lean()
+      .exec();
+
+    return tweets.map((tweet) => ({
+      hashtags: tweet.hashtags,
+      sentimentScore: tweet.sentiment?.score,
+    }));
+  }
+
+  /**
+   * Tweets per hashtag
+   */
+  async getHashtagFrequencies(
+    filters: TweetFilters = {},
+  ): Promise<Record<string, number>> {
+    const results: Array<{ _id: string; count: number }> =
+      await TweetModel.aggregate([
+        { $match: this.buildQuery(filters) },
+        { $unwind: "$hashtags" },
+        { $group: { _id: "$hashtags", count: { $sum: 1 } } },
+      ]);
+
+    return Object.fromEntries(
+      results.map((result) => [result._id, result.count]),
+    );
+  }
+
+  /**
+   * Most recent tweets of a campaign with the fields the topic model needs
+   */
+  async findForTopicModeling(
+    campaignId: string,
+    limit: number,
+  ): Promise<
+    Array<{
+      tweetId: string;
+      content: string;
+      sentiment?: { label: Label; score: number };
+      tweetCreatedAt: Date;
+    }>
+  > {
+    return await TweetModel.find(
+      { campaignId },
+      {
+        _id: 0,
+        tweetId: 1,
+        content: 1,
+        "sentiment.label": 1,
+        "sentiment.score": 1,
+        tweetCreatedAt: 1,
+      },
+    )
+      .sort({ tweetCreatedAt: -1 })
+      .limit(limit)
+      .lean()
+      .exec();
+  }
+
+  /**
+   * Store the topic of each tweet, clearing the previous assignment of the
+   * campaign's tweets that are no longer assigned to any topic
+   */
+  async assignTopics(
+    campaignId: string,
+    assignments: Array<{ tweetId: string; id: number; weight: number }>,
+  ): Promise<void> {
+    await TweetModel.updateMany(
+      {
+        campaignId,
+        topic: { $exists: true },
+        tweetId: { $nin: assignments.map(({ tweetId }) => tweetId) },
+      },
+      { $unset: { topic: 1 } },
+    );
+
+    if (assignments.length === 0) return;
+    await TweetModel.bulkWrite(
+      assignments.map(({ tweetId, id, weight }) => ({
+        updateOne: {
+          filter: { tweetId, campaignId },
+          update: { $set: { topic: { id, weight } } },
+        },
+      })),
+      { ordered: false },
+    );
+  }
+
+  /**
+   * Stored tweets sharing an LSH key with the given ones, created since the
+   * given date: the candidates to be near-duplicates of new tweets
+   */
+  async findNearDuplicateCandidates(
+    campaignId: string | undefined,
+    bands: string[],
+    since: Date,
+    limit: number = 5000,
+  ): Promise<
+    Array<{
+      tweetId: string;
+      content: string;
+      author: { username: string };
+      tweetCreatedAt: Date;
+      nearDuplicate?: { clusterId?: string; coordinated?: boolean };
+    }>
+  > {
+    if (bands.length === 0) return [];
+    return await TweetModel.find(
+      {
+        ...(campaignId && { campaignId }),
+        "nearDuplicate.bands": { $in: bands },
+        tweetCreatedAt: { $gte: since },
+      },
+      {
+        _id: 0,
+        tweetId: 1,
+        content: 1,
+        "author.username": 1,
+        tweetCreatedAt: 1,
+        "nearDuplicate.clusterId": 1,
+        "nearDuplicate.coordinated": 1,
+      },
+    )
+      .sort({ tweetCreatedAt: -1 })
+      .limit(limit)
+      .lean()
+      .exec();
+  }
+
+  /**
+   * Store the cluster of stored tweets and move the members of merged
+   * clusters to the cluster they were merged into
+   */
+  async assignNearDuplicateClusters(
+    assignments: Array<{
+      tweetId: string;
+      clusterId: string;
+      coordinated: boolean;
+    }>,
+    merges: Map<string, string>,
+  ): Promise<void> {
+    const operations = [
+      ...[...merges].map(([from, to]) => ({
+        updateMany: {
+          filter: { "nearDuplicate.clusterId": from },
+          update: { $set: { "nearDuplicate.clusterId": to } },
+        },
+      })),
+      ...assignments.map(({ tweetId, clusterId, coordinated }) => ({
+        updateOne: {
+          filter: { tweetId },
+          update: {
+            $set: {
+              "nearDuplicate.clusterId": clusterId,
+              ...(coordinated && { "nearDuplicate.coordinated": true }),
+            },
+          },
+        },
+      })),
+    ];
+    if (operations.length === 0) return;
+    await TweetModel.bulkWrite(operations, { ordered: true });
+  }
+
+  /**
+   * Recount the members of the clusters and spread the coordinated flag to
+   * all of them
+   */
+  async refreshNearDuplicateClusters(clusterIds: string[]): Promise<void> {
+    if (clusterIds.length === 0) return;
+    const clusters: Array<{ _id: string; size: number; coordinated: boolean }> =
+      await TweetModel.aggregate([
+        { $match: { "nearDuplicate.clusterId": { $in: clusterIds } } },
+        {
+          $group: {
+            _id: "$nearDuplicate.clusterId",
+            size: { $sum: 1 },
+            coordinated: {
+              $max: { $ifNull: ["$nearDuplicate.coordinated", false] },
+            },
+          },
+        },
+      ]);
+    if (clusters.length === 0) return;
+
+    await TweetModel.bulkWrite(
+      clusters.map(({ _id, size, coordinated }) => ({
+        updateMany: {
+          filter: { "nearDuplicate.clusterId": _id },
+          update: {
+            $set: {
+              "nearDuplicate.size": size,
+              "nearDuplicate.coordinated": coordinated,
+            },
+          },
+        },
+      })),
+      { ordered: false },
+    );
+  }
+
+  /**
+   * Near-duplicate clusters of the tweets, coordinated ones first
+   */
+  async getNearDuplicateClusters(
+    filters: TweetFilters = {},
+    limit: number = 50,
+  ): Promise<
+    Array<{
+      clusterId: string;
+      size: number;
+      accounts: number;
+      coordinated: boolean;
+      firstSeen: Date;
+      lastSeen: Date;
+      sample: string;
+      averageScore: number;
+    }>
+  > {
+    const clusters = await TweetModel.aggregate([
+      { $match: this.buildQuery({ ...filters, duplicates: "include" }) },
+      { $match: { "nearDuplicate.clusterId": { $exists: true } } },
+      { $sort: { tweetCreatedAt: 1 } },
+      {
+        $group: {
+          _id: "$nearDuplicate.clusterId",
+          size: { $sum: 1 },
+          accounts: { $addToSet: "$author.username" },
+          coordinated: {
+            $max: { $ifNull: ["$nearDuplicate.coordinated", false] },
+          },
+          firstSeen: { $first: "$tweetCreatedAt" },
+          lastSeen: { $last: "$tweetCreatedAt" },
+          sample: { $first: "$content" },
+          averageScore: { $avg: "$sentiment.score" },
+        },
+      },
+      { $match: { size: { $gt: 1 } } },
+      { $sort: { coordinated: -1, size: -1, _id: 1 } },
+      { $limit: limit },
+    ]);
+
+    return clusters.map((cluster) => ({
+      clusterId: cluster._id,
+      size: cluster.size,
+      accounts: cluster.accounts.length,
+      coordinated: cluster.coordinated,
+      firstSeen: cluster.firstSeen,
+      lastSeen: cluster.lastSeen,
+      sample: cluster.sample,
+      averageScore: cluster.averageScore ?? 0,
+    }));
+  }
+
   async getHashtagTrends(
     hashtag: string,
     days: number = 30,
@@ -577,23 +1021,50 @@ export class MongoTweetRepository {
       query["author.followersCount"] = followersQuery;
     }
 
+    // Each near-duplicate cluster counts once, through its oldest tweet
+    if (filters.duplicates === "exclude") {
+      query.$and = [
+        {
+          $or: [
+            { "nearDuplicate.clusterId": { $exists: false } },
+            { $expr: { $eq: ["$nearDuplicate.clusterId", "$tweetId"] } },
+          ],
+        },
+      ];
+    }
+
     return query;
   }
 
+  /**
+   * Weight of each tweet in counts and averages: 1, or 1 / cluster size for
+   * near-duplicates when down-weighting them
+   */
+  private tweetWeight(filters: TweetFilters): number | Record<string, unknown> {
+    return filters.duplicates === "downweight"
+      ? { $divide: [1, { $ifNull: ["$nearDuplicate.size", 1] }] }
+      : 1;
+  }
+
   /**
    * Get basic statistics
    */
-  private async getBasicStats(query: Record<string, unknown>) {
+  private async getBasicStats(
+    query: Record<string, unknown>,
+    weight: number | Record<string, unknown> = 1,
+  ) {
+    const weighted = (field: string) =>
+      weight === 1 ? field : { $multiply: [weight, field] };
     const results = await TweetModel.aggregate([
       { $match: query },
       {
         $group: {
           _id: null,
-          totalTweets: { $sum: 1 },
-          totalEngagement: { $sum: "$metrics.engagement" },
-          totalLikes: { $sum: "$metrics.likes" },
-          totalRetweets: { $sum: "$metrics.retweets" },
-          totalReplies: { $sum: "$metrics.replies" },
+          totalTweets: { $sum: weight },
+          totalEngagement: { $sum: weighted("$metrics.engagement") },
+          totalLikes: { $sum: weighted("$metrics.likes") },
+          totalRetweets: { $sum: weighted("$metrics.retweets") },
+          totalReplies: { $sum: weighted("$metrics.replies") },
         },
       },
     ]);
@@ -611,14 +1082,17 @@ export class MongoTweetRepository {
   /**
    * Get sentiment statistics
    */
-  private async getSentimentStats(query: Record<string, unknown>) {
+  private async getSentimentStats(
+    query: Record<string, unknown>,
+    weight: number | Record<string, unknown> = 1,
+  ) {
     const results = await TweetModel.aggregate([
       { $match: query },
       { $match: { "sentiment.label": { $exists: true } } },
       {
         $group: {
           _id: "$sentiment.label",
-          count: { $sum: 1 },
+          count: { $sum: weight },
         },
       },
     ]);
@@ -0,0 +1,273 @@
+/**
+ * MongoDB Twitter Session Repository
+ * Data access layer for the Twitter session pool. Usage, successes and
+ * failures are recorded with atomic updates, as several API processes share
+ * the pool.
+ */
+
+import mongoose from "mongoose";
+import {
+  AuthenticationStatus,
+  ScrapingErrorType,
+} from "../enums/scraping.enum";
+import type { EncryptedPayload } from "../lib/security/session-store";
+import {
+  ITwitterSessionDocument,
+  MAX_HEALTH_SCORE,
+  TwitterSessionModel,
+} from "../models/TwitterSession.model";
+
+export interface TwitterSessionInput {
+  label: string;
+  secret: EncryptedPayload;
+  hasCookies: boolean;
+  hasCredentials: boolean;
+}
+
+export interface SessionFailure {
+  type: ScrapingErrorType;
+  message: string;
+  cooldownUntil: Date;
+  penalty: number; // health score lost
+  maxAuthFailures: number; // consecutive authentication failures before blocking
+}
+
+export class MongoTwitterSessionRepository {
+  /**
+   * Add a session to the pool
+   * @throws Error("TWITTER_SESSION_EXISTS") if the label is taken
+   */
+  async create(
+    input: TwitterSessionInput,
+    userId: string,
+  ): Promise<ITwitterSessionDocument> {
+    try {
+      const session = new TwitterSessionModel({ ...input, createdBy: userId });
+      return await session.save();
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new Error("TWITTER_SESSION_EXISTS");
+      }
+      console.error("Error creating Twitter session:", error);
+      throw new Error("CREATE_TWITTER_SESSION_ERROR");
+    }
+  }
+
+  /**
+   * All sessions of the pool, without their secrets
+   */
+  async findAll(): Promise<ITwitterSessionDocument[]> {
+    try {
+      return await TwitterSessionModel.find()
+        .sort({ label: 1 })
+        .lean<ITwitterSessionDocument[]>()
+        .exec();
+    } catch (error) {
+      console.error("Error finding Twitter sessions:", error);
+      throw new Error("FIND_TWITTER_SESSIONS_ERROR");
+    }
+  }
+
+  async findById(id: string): Promise<ITwitterSessionDocument | null> {
+    if (!mongoose.Types.ObjectId.isValid(id)) return null;
+    try {
+      return await TwitterSessionModel.findById(id)
+        .lean<ITwitterSessionDocument>()
+        .exec();
+    } catch (error) {
+      console.error("Error finding Twitter session:", error);
+      throw new Error("FIND_TWITTER_SESSION_ERROR");
+    }
+  }
+
+  /**
+   * Take the healthiest session that is enabled, not blocked, out of its
+   * cooldown and under the requests of its rate-limit window. Sessions of
+   * equal health are used in turn (least recently used first).
+   * @returns The session with its secret, or null if none is available (or
+   * the database is not connected, instead of waiting on mongoose buffering)
+   */
+  async claimNext(
+    windowMs: number,
+    maxRequests: number,
+    excludeIds: string[] = [],
+  ): Promise<ITwitterSessionDocument | null> {
+    if (mongoose.connection.readyState !== 1) return null;
+
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - windowMs);
+    try {
+      return await TwitterSessionModel.findOneAndUpdate(
+        {
+          enabled: true,
+          authStatus: { $ne: AuthenticationStatus.BLOCKED },
+          ...(excludeIds.length > 0 && { _id: { $nin: excludeIds } }),
+          $and: [
+            {
+              $or: [
+                { cooldownUntil: { $exists: false } },
+                { cooldownUntil: { $lte: now } },
+              ],
+            },
+            {
+              $or: [
+                { "rateLimit.windowStartedAt": { $exists: false } },
+                { "rateLimit.windowStartedAt": { $lte: windowStart } },
+                { "rateLimit.requests": { $lt: maxRequests } },
+              ],
+            },
+          ],
+        },
+        { $set: { lastUsedAt: now } },
+        { new: true, sort: { healthScore: -1, lastUsedAt: 1 } },
+      )
+        .select("+secret")
+        .lean<ITwitterSessionDocument>()
+        .exec();
+    } catch (error) {
+      console.error("Error claiming Twitter session:", error);
+      throw new Error("CLAIM_TWITTER_SESSION_ERROR");
+    }
+  }
+
+  /**
+   * Count a successful request: starts a new rate-limit window when the last
+   * one is over, raises the health score and clears failures and cooldown
+   */
+  async recordSuccess(
+    id: string,
+    windowMs: number,
+    reward: number,
+  ): Promise<ITwitterSessionDocument | null> {
+    const now = new Date();
+    const windowOver = {
+      $or: [
+        { $not: ["$rateLimit.windowStartedAt"] },
+        {
+          $lte: [
+            "$rateLimit.windowStartedAt",
+            new Date(now.getTime() - windowMs),
+          ],
+        },
+      ],
+    };
+
+    return this.update(id, [
+      {
+        $set: {
+          "rateLimit.windowStartedAt": {
+            $cond: [windowOver, now, "$rateLimit.windowStartedAt"],
+          },
+          "rateLimit.requests": {
+            $cond: [windowOver, 1, { $add: ["$rateLimit.requests", 1] }],
+          },
+          healthScore: {
+            $min: [MAX_HEALTH_SCORE, { $add: ["$healthScore", reward] }],
+          },
+          authStatus: AuthenticationStatus.AUTHENTICATED,
+          consecutiveFailures: 0,
+          authFailures: 0,
+          lastSuccessAt: now,
+        },
+      },
+      { $unset: "cooldownUntil" },
+    ]);
+  }
+
+  /**
+   * Record a rate-limit or authentication failure: lowers the health score,
+   * starts a cooldown and, after `maxAuthFailures` consecutive authentication
+   * failures, blocks the session until an admin enables it again
+   */
+  async recordFailure(
+    id: string,
+    failure: SessionFailure,
+  ): Promise<ITwitterSessionDocument | null> {
+    const isAuth = failure.type === ScrapingErrorType.AUTHENTICATION_ERROR;
+
+    return this.update(id, [
+      {
+        $set: {
+          healthScore: {
+            $max: [0, { $subtract: ["$healthScore", failure.penalty] }],
+          },
+          consecutiveFailures: { $add: ["$consecutiveFailures", 1] },
+          authFailures: isAuth
+            ? { $add: ["$authFailures", 1] }
+            : "$authFailures",
+          cooldownUntil: failure.cooldownUntil,
+          lastError: {
+            type: failure.type,
+            message: failure.message,
+            at: new Date(),
+          },
+        },
+      },
+      {
+        $set: {
+          authStatus: !isAuth
+            ? "$authStatus"
+            : {
+                $cond: [
+                  { $gte: ["$authFailures", failure.maxAuthFailures] },
+                  AuthenticationStatus.BLOCKED,
+                  AuthenticationStatus.FAILED,
+                ],
+              },
+        },
+      },
+    ]);
+  }
+
+  /**
+   * Enable (a fresh start: full health, no failures or cooldown) or disable a
+   * session
+   */
+  async setEnabled(
+    id: string,
+    enabled: boolean,
+    userId: string,
+    reason?: string,
+  ): Promise<ITwitterSessionDocument | null> {
+    return this.update(
+      id,
+      enabled
+        ? {
+            $set: {
+              enabled,
+              authStatus: AuthenticationStatus.PENDING,
+              healthScore: MAX_HEALTH_SCORE,
+              consecutiveFailures: 0,
+              authFailures: 0,
+              updatedBy: userId,
+            },
+            $unset: { cooldownUntil: 1, disabledReason: 1 },
+          }
+        : {
+            $set: {
+              enabled,
+              updatedBy: userId,
+              ...(reason && { disabledReason: reason }),
+            },
+            ...(!reason && { $unset: { disabledReason: 1 } }),
+          },
+    );
+  }
+
+  private async update(
+    id: string,
+    update: Record<string, unknown> | Record<string, unknown>[],
+  ): Promise<ITwitterSessionDocument | null> {
+    if (!mongoose.Types.ObjectId.isValid(id)) return null;
+    try {
+      return await TwitterSessionModel.findByIdAndUpdate(id, update, {
+        new: true,
+      })
+        .lean<ITwitterSessionDocument>()
+        .exec();
+    } catch (error) {
+      console.error("Error updating Twitter session:", error);
+      throw new Error("UPDATE_TWITTER_SESSION_ERROR");
+    }
+  }
+}
@@ -5,13 +5,25 @@
 import { Router } from "express";
 import {
   asyncHandler,
+  BusinessLogicError,
   ErrorCode,
   InternalServerError,
   NotFoundError,
   ResponseHelper,
+  SentimentErrors,
+  ValidationError,
 } from "../core/errors";
+import {
+  AuthenticatedRequest,
+  authenticateToken,
+  requireAdmin,
+} from "../middleware/express-auth";
+import { EnhancedSentimentEngine } from "../lib/sentiment/enhanced-engine";
+import { getSharedShadowEvaluator } from "../lib/sentiment/shadow-evaluation";
+import { HybridWeights } from "../lib/sentiment/types";
 import { MongoUserRepository } from "../repositories/mongo-user.repository";
 import { cacheService } from "../services/cache.service";
+import { modelRegistry } from "../services/model-registry.service";
 import { performanceMonitor } from "../services/performance-monitor.service";
 
 const router = Router();
@@ -170,4 +182,344 @@ router.post("/clear-cache", (req, res) => {
   }
 });
 
+/**
+ * Model registry endpoints
+ * Versiones del modelo Naive Bayes: listar, comparar, promover y revertir.
+ * Los orquestadores cargan la versión activa en su siguiente análisis.
+ */
+
+/**
+ * @swagger
+ * /api/v1/admin/models:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List model versions
+ *     description: All registered model versions (newest first), the active one and the audit log
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Model versions retrieved
+ *       403:
+ *         description: Admin role required
+ */
+router.get(
+  "/models",
+  authenticateToken,
+  requireAdmin,
+  asyncHandler(async (req: any, res: any) => {
+    const [versions, activeVersion, events] = await Promise.all([
+      modelRegistry.listVersions(),
+      modelRegistry.getActiveVersion(),
+      modelRegistry.getEvents(),
+    ]);
+    ResponseHelper.success(
+      res,
+      {
+        activeVersion: activeVersion?.versionId ?? null,
+        versions,
+        count: versions.length,
+        events,
+      },
+      "Model versions retrieved successfully",
+    );
+  }),
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/models/diff:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Compare two model versions
+ *     description: Hyperparameter changes, metric deltas, dataset and vocabulary differences
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: to
+ *         description: Defaults to the active version
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Version diff
+ *       404:
+ *         description: Version not found
+ */
+router.get(
+  "/models/diff",
+  authenticateToken,
+  requireAdmin,
+  asyncHandler(async (req: any, res: any) => {
+    const from = req.query.from as string | undefined;
+    const to =
+      (req.query.to as string | undefined) ??
+      (await modelRegistry.getActiveVersion())?.versionId;
+
+    if (!from || !to) {
+      throw new ValidationError(
+        "Query parameters 'from' and 'to' are required (to defaults to the active version)",
+      );
+    }
+
+    const diff = await modelRegistry.diffVersions(from, to);
+    if (!diff) {
+      throw SentimentErrors.modelNotFound(`${from} or ${to}`);
+    }
+
+    ResponseHelper.success(res, diff, "Model versions compared successfully");
+  }),
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/models/rollback:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Roll back the active model
+ *     description: Reactivate the version that was active before the current one
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Previous version reactivated
+ *       422:
+ *         description: No previous version to roll back to
+ */
+router.post(
+  "/models/rollback",
+  authenticateToken,
+  requireAdmin,
+  asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+    const version = await modelRegistry.rollback(req.user?.email);
+    if (!version) {
+      throw new BusinessLogicError(
+        "There is no previous model version to roll back to",
+        ErrorCode.MODEL_NOT_FOUND,
+        { operation: "model_rollback" },
+      );
+    }
+
+    ResponseHelper.success(
+      res,
+      version,
+      `Model rolled back to version ${version.versionId}`,
+    );
+  }),
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/models/{versionId}:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Get a model version
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: versionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Version manifest (dataset hash, hyperparameters, metrics)
+ *       404:
+ *         description: Version not found
+ */
+router.get(
+  "/models/:versionId",
+  authenticateToken,
+  requireAdmin,
+  asyncHandler(async (req: any, res: any) => {
+    const version = await modelRegistry.getVersion(req.params.versionId);
+    if (!version) {
+      throw SentimentErrors.modelNotFound(req.params.versionId);
+    }
+
+    ResponseHelper.success(
+      res,
+      version,
+      "Model version retrieved successfully",
+    );
+  }),
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/models/{versionId}/promote:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Promote a model version
+ *     description: Make the version active; running orchestrators switch to it without a restart
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: versionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Version promoted
+ *       404:
+ *         description: Version not found
+ */
+router.post(
+  "/models/:versionId/promote",
+  authenticateToken,
+  requireAdmin,
+  asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+    const version = await modelRegistry.promote(
+      req.params.versionId,
+      req.user?.email,
+    );
+    if (!version) {
+      throw SentimentErrors.modelNotFound(req.params.versionId);
+    }
+
+    ResponseHelper.success(
+      res,
+      version,
+      `Model version ${version.versionId} is now active`,
+    );
+  }),
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/models/shadow:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Start a shadow / A-B evaluation
+ *     description: |
+ *       Score live traffic with a candidate (a registry version, fixed hybrid weights or both)
+ *       in the background. trafficPercent routes that share of callers to the candidate.
+ *       Results are reported in GET /api/v1/sentiment/metrics (shadowEvaluation).
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               versionId:
+ *                 type: string
+ *               hybridWeights:
+ *                 type: object
+ *                 properties:
+ *                   naive:
+ *                     type: number
+ *                   rule:
+ *                     type: number
+ *               trafficPercent:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 default: 0
+ *               sampleRate:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 1
+ *                 default: 1
+ *     responses:
+ *       200:
+ *         description: Shadow evaluation started
+ *       404:
+ *         description: Version not found
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Stop the shadow / A-B evaluation
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Shadow evaluation stopped; returns its final metrics
+ */
+router.post(
+  "/models/shadow",
+  authenticateToken,
+  requireAdmin,
+  asyncHandler(async (req: any, res: any) => {
+    const {
+      versionId,
+      hybridWeights,
+      trafficPercent = 0,
+      sampleRate = 1,
+    } = req.body ?? {};
+
+    if (!versionId && !hybridWeights) {
+      throw new ValidationError("Provide a versionId, hybridWeights or both");
+    }
+    if (
+      typeof trafficPercent !== "number" ||
+      trafficPercent < 0 ||
+      trafficPercent > 100
+    ) {
+      throw new ValidationError(
+        "trafficPercent must be a number between 0 and 100",
+      );
+    }
+    if (typeof sampleRate !== "number" || sampleRate < 0 || sampleRate > 1) {
+      throw new ValidationError("sampleRate must be a number between 0 and 1");
+    }
+
+    const engine = new EnhancedSentimentEngine();
+    const name: string[] = [];
+    if (versionId) {
+      const model = await modelRegistry.loadVersionModel(versionId);
+      if (!model) {
+        throw SentimentErrors.modelNotFound(versionId);
+      }
+      engine.loadNaiveBayesModel(model);
+      name.push(versionId);
+    }
+    if (hybridWeights) {
+      const { naive, rule } = hybridWeights as HybridWeights;
+      try {
+        engine.setHybridWeights({ naive, rule });
+      } catch (error) {
+        throw new ValidationError((error as Error).message);
+      }
+      name.push(`weights:${naive}/${rule}`);
+    }
+
+    const shadow = getSharedShadowEvaluator();
+    shadow.setCandidate({
+      name: name.join("+"),
+      engine,
+      trafficPercent,
+      sampleRate,
+    });
+
+    ResponseHelper.success(
+      res,
+      shadow.getMetrics(),
+      `Shadow evaluation of ${name.join("+")} started`,
+    );
+  }),
+);
+
+router.delete(
+  "/models/shadow",
+  authenticateToken,
+  requireAdmin,
+  asyncHandler(async (req: any, res: any) => {
+    const shadow = getSharedShadowEvaluator();
+    const metrics = shadow.getMetrics();
+    shadow.clearCandidate();
+    ResponseHelper.success(res, metrics, "Shadow evaluation stopped");
+  }),
+);
+
 export default router;
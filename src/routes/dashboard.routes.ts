@@ -310,6 +310,47 @@ export function configureDashboardRoutes(): Router {
     }
   });
 
+  /**
+   * @swagger
+   * /api/v1/dashboard/tweets/{tweetId}:
+   *   get:
+   *     tags: [Dashboard]
+   *     summary: Get tweet detail with sentiment explanation
+   *     description: |
+   *       Returns the stored tweet, its persisted sentiment and a fresh analysis with the
+   *       token-level explanation (rule contributions, negation scopes, Naive Bayes
+   *       log-likelihood ratios, slang hits, sarcasm score and hybrid weights).
+   *     parameters:
+   *       - in: path
+   *         name: tweetId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Tweet detail retrieved successfully
+   *       404:
+   *         description: Tweet not found
+   *       500:
+   *         description: Internal server error
+   */
+  // Tweet detail endpoint
+  router.get("/tweets/:tweetId", async (req, res) => {
+    try {
+      await dashboardController.getTweetDetail(req, res);
+    } catch (error) {
+      systemLogger.error(
+        "Dashboard tweet detail route error",
+        error instanceof Error ? error : new Error(String(error)),
+      );
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
   systemLogger.info("Dashboard API routes configured", {
     endpoints: [
       "GET /api/v1/dashboard/metrics",
@@ -317,6 +358,7 @@ export function configureDashboardRoutes(): Router {
       "GET /api/v1/dashboard/summary",
       "GET /api/v1/dashboard/stream",
       "GET /api/v1/dashboard/info",
+      "GET /api/v1/dashboard/tweets/:tweetId",
     ],
   });
 
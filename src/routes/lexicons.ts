@@ -0,0 +1,9 @@
+/**
+ * Organization Lexicon Routes
+ * Re-exports the modular organization lexicon routes (./modules/lexicons)
+ */
+
+import lexiconRoutes from "./modules/lexicons/index";
+
+// Default export for compatibility with server.ts
+export default lexiconRoutes;
@@ -6,10 +6,19 @@
 import { Request, Response } from "express";
 import { Order } from "../../../enums/api.enum";
 import { CampaignType } from "../../../enums/campaign.enum";
+import {
+  buildHashtagGraph,
+  toGEXF,
+  toGraphML,
+} from "../../../lib/utils/hashtag-graph.utils";
 import { MongoCampaignRepository } from "../../../repositories/mongo-campaign.repository";
+import { MongoTweetRepository } from "../../../repositories/mongo-tweet.repository";
+import { campaignTopicsService } from "../../../services/campaign-topics.service";
+import { scrapingQuotaService } from "../../../services/scraping-quota.service";
 import { TweetDatabaseService } from "../../../services/tweet-database.service";
 import {
   CampaignFilter,
+  CampaignShareOfVoice,
   CampaignStatus,
   CreateCampaignRequest,
   UpdateCampaignRequest,
@@ -17,6 +26,10 @@ import {
 
 const campaignRepository = new MongoCampaignRepository();
 const tweetDatabaseService = new TweetDatabaseService();
+const tweetRepository = new MongoTweetRepository();
+
+const HASHTAG_GRAPH_FORMATS = ["json", "graphml", "gexf"] as const;
+const DEFAULT_HASHTAG_GRAPH_WINDOW_DAYS = 7;
 
 /**
  * Get all campaigns handler
@@ -378,6 +391,31 @@ export const updateCampaignHandler = async (req: Request, res: Response) => {
       }
     }
 
+    // Activating the campaign counts against the organization's active campaigns
+    if (
+      updateData.status === CampaignStatus.active &&
+      existingCampaign.status !== CampaignStatus.active
+    ) {
+      const quota = await scrapingQuotaService.checkActiveCampaigns(
+        existingCampaign.organizationId,
+      );
+      if (!quota.allowed) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            message: `The organization already has ${quota.used} active campaigns (limit ${quota.limit})`,
+            code: "QUOTA_EXCEEDED",
+            details: {
+              metric: quota.metric,
+              used: quota.used,
+              limit: quota.limit,
+            },
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+    }
+
     // Add update metadata
     const updateWithMetadata = {
       ...updateData,
@@ -574,6 +612,414 @@ export const getCampaignTweetsHandler = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Get campaign share of voice handler
+ * Mentions, engagement and sentiment per tracked entity (brands, products,
+ * people, places), optionally limited to tweets created between `from` and `to`
+ */
+export const getCampaignShareOfVoiceHandler = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const { id } = req.params;
+    const dateFrom = req.query.from
+      ? new Date(String(req.query.from))
+      : undefined;
+    const dateTo = req.query.to ? new Date(String(req.query.to)) : undefined;
+
+    if (
+      (dateFrom && isNaN(dateFrom.getTime())) ||
+      (dateTo && isNaN(dateTo.getTime()))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: "from and to must be valid ISO dates",
+          code: "INVALID_DATE_RANGE",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    const campaign = await campaignRepository.findById(id);
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          message: "Campaign not found",
+          code: "CAMPAIGN_NOT_FOUND",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    const shareOfVoice: CampaignShareOfVoice = {
+      ...(await tweetRepository.getShareOfVoice({
+        campaignId: id,
+        dateFrom,
+        dateTo,
+        duplicates: campaign.duplicateHandling,
+      })),
+      updatedAt: new Date(),
+    };
+
+    res.json({
+      success: true,
+      data: {
+        campaignId: id,
+        trackedEntities: campaign.entities?.length ?? 0,
+        ...shareOfVoice,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error computing campaign share of voice:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to compute campaign share of voice",
+        code: "CAMPAIGN_SHARE_OF_VOICE_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Get campaign hashtag graph handler
+ * Co-occurrence graph of the campaign's hashtags in a window, compared with
+ * the window of the same length right before it to find emerging hashtags
+ */
+export const getCampaignHashtagGraphHandler = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const { id } = req.params;
+    const format = String(req.query.format ?? "json");
+    const dateTo = req.query.to ? new Date(String(req.query.to)) : new Date();
+    const dateFrom = req.query.from
+      ? new Date(String(req.query.from))
+      : new Date(
+          dateTo.getTime() -
+            DEFAULT_HASHTAG_GRAPH_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+        );
+    const maxNodes = Number(req.query.maxNodes ?? 150);
+    const minEdgeWeight = Number(req.query.minEdgeWeight ?? 2);
+
+    if (
+      isNaN(dateFrom.getTime()) ||
+      isNaN(dateTo.getTime()) ||
+      dateFrom >= dateTo
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: "from and to must be valid ISO dates with from before to",
+          code: "INVALID_DATE_RANGE",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    if (
+      !HASHTAG_GRAPH_FORMATS.includes(
+        format as (typeof HASHTAG_GRAPH_FORMATS)[number],
+      ) ||
+      !(Number.isInteger(maxNodes) && maxNodes >= 1 && maxNodes <= 500) ||
+      !(Number.isInteger(minEdgeWeight) && minEdgeWeight >= 1)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: `format must be one of ${HASHTAG_GRAPH_FORMATS.join(", ")}, maxNodes an integer between 1 and 500 and minEdgeWeight a positive integer`,
+          code: "INVALID_HASHTAG_GRAPH_PARAMS",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    const campaign = await campaignRepository.findById(id);
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          message: "Campaign not found",
+          code: "CAMPAIGN_NOT_FOUND",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    const previousFrom = new Date(
+      dateFrom.getTime() - (dateTo.getTime() - dateFrom.getTime()),
+    );
+    const [tweets, previousFrequencies] = await Promise.all([
+      tweetRepository.findHashtagSets({ campaignId: id, dateFrom, dateTo }),
+      tweetRepository.getHashtagFrequencies({
+        campaignId: id,
+        dateFrom: previousFrom,
+        dateTo: new Date(dateFrom.getTime() - 1),
+      }),
+    ]);
+    const graph = buildHashtagGraph(tweets, {
+      maxNodes,
+      minEdgeWeight,
+      previousFrequencies,
+    });
+
+    if (format !== "json") {
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="campaign-${id}-hashtags.${format}"`,
+      );
+      return res
+        .type(
+          format === "gexf"
+            ? "application/gexf+xml"
+            : "application/graphml+xml",
+        )
+        .send(format === "gexf" ? toGEXF(graph) : toGraphML(graph));
+    }
+
+    res.json({
+      success: true,
+      data: {
+        campaignId: id,
+        window: {
+          from: dateFrom.toISOString(),
+          to: dateTo.toISOString(),
+          previousFrom: previousFrom.toISOString(),
+        },
+        ...graph,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error building campaign hashtag graph:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to build campaign hashtag graph",
+        code: "CAMPAIGN_HASHTAG_GRAPH_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Get campaign duplicates handler
+ * Lists the near-duplicate clusters of the campaign's tweets, coordinated first
+ */
+export const getCampaignDuplicatesHandler = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const { id } = req.params;
+    const dateFrom = req.query.from
+      ? new Date(String(req.query.from))
+      : undefined;
+    const dateTo = req.query.to ? new Date(String(req.query.to)) : undefined;
+    const limit = req.query.limit ? Number(req.query.limit) : 50;
+
+    if (
+      (dateFrom && isNaN(dateFrom.getTime())) ||
+      (dateTo && isNaN(dateTo.getTime()))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: "from and to must be valid ISO dates",
+          code: "INVALID_DATE_RANGE",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: "limit must be an integer between 1 and 500",
+          code: "INVALID_LIMIT",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    const campaign = await campaignRepository.findById(id);
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          message: "Campaign not found",
+          code: "CAMPAIGN_NOT_FOUND",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    const clusters = await tweetRepository.getNearDuplicateClusters(
+      { campaignId: id, dateFrom, dateTo },
+      limit,
+    );
+
+    res.json({
+      success: true,
+      data: {
+        campaignId: id,
+        duplicateHandling: campaign.duplicateHandling,
+        coordinatedClusters: clusters.filter((cluster) => cluster.coordinated)
+          .length,
+        clusters,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching campaign duplicates:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to fetch campaign duplicates",
+        code: "CAMPAIGN_DUPLICATES_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Get campaign topics handler
+ * Returns the latest report of the topic-modelling job
+ */
+export const getCampaignTopicsHandler = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const campaign = await campaignRepository.findById(id);
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          message: "Campaign not found",
+          code: "CAMPAIGN_NOT_FOUND",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    const report = await campaignTopicsService.getReport(id);
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          message: "Topics have not been computed for this campaign yet",
+          code: "TOPICS_NOT_COMPUTED",
+          details: { running: campaignTopicsService.isRunning(id) },
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { ...report, running: campaignTopicsService.isRunning(id) },
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching campaign topics:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to fetch campaign topics",
+        code: "CAMPAIGN_TOPICS_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Run campaign topics handler
+ * Starts the topic-modelling job in the background
+ */
+export const runCampaignTopicsHandler = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const topics =
+      req.body?.topics !== undefined ? Number(req.body.topics) : undefined;
+
+    if (
+      topics !== undefined &&
+      !(Number.isInteger(topics) && topics >= 2 && topics <= 30)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: "topics must be an integer between 2 and 30",
+          code: "INVALID_TOPIC_COUNT",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    const campaign = await campaignRepository.findById(id);
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          message: "Campaign not found",
+          code: "CAMPAIGN_NOT_FOUND",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    if (!campaign.topicsAnalysis) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          message: "Topic analysis is not enabled for this campaign",
+          code: "TOPICS_ANALYSIS_DISABLED",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    if (campaignTopicsService.isRunning(id)) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          message: "Topics are already being computed for this campaign",
+          code: "TOPICS_ALREADY_RUNNING",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    campaignTopicsService
+      .run(id, { topics })
+      .catch((error) =>
+        console.error(`Error computing topics for campaign ${id}:`, error),
+      );
+
+    res.status(202).json({
+      success: true,
+      message: "Topic modelling started",
+      data: { campaignId: id, running: true },
+    });
+  } catch (error: unknown) {
+    console.error("Error starting campaign topics:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to start topic modelling",
+        code: "CAMPAIGN_TOPICS_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
 /**
  * Get campaigns overview handler
  */
@@ -12,9 +12,14 @@ import {
     createCampaignHandler,
     deleteCampaignHandler,
     getCampaignByIdHandler,
+    getCampaignDuplicatesHandler,
+    getCampaignHashtagGraphHandler,
+    getCampaignShareOfVoiceHandler,
+    getCampaignTopicsHandler,
     getCampaignTweetsHandler,
     getCampaignsHandler,
     getCampaignsOverviewHandler,
+    runCampaignTopicsHandler,
     updateCampaignHandler,
 } from "./handlers";
 import {
@@ -593,6 +598,563 @@ router.get(
   getCampaignTweetsHandler,
 );
 
+/**
+ * @swagger
+ * /api/campaigns/{id}/share-of-voice:
+ *   get:
+ *     summary: Get campaign share of voice
+ *     description: |
+ *       Mentions, engagement and sentiment of each entity tracked by the campaign
+ *       (its `entities`: brands, products, people and places with their aliases).
+ *       The sentiment of a mention is that of the clause around it, not of the
+ *       whole tweet, so a tweet praising one brand and criticizing a competitor
+ *       counts once on each side.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Campaign ID (MongoDB ObjectId)
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only tweets created at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only tweets created at or before this date
+ *     responses:
+ *       200:
+ *         description: Share of voice computed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     campaignId:
+ *                       type: string
+ *                     trackedEntities:
+ *                       type: integer
+ *                       example: 4
+ *                     totalMentions:
+ *                       type: integer
+ *                       example: 320
+ *                     entities:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           entity:
+ *                             type: string
+ *                             example: Nike
+ *                           type:
+ *                             type: string
+ *                             enum: [brand, product, person, place]
+ *                           competitor:
+ *                             type: boolean
+ *                           mentions:
+ *                             type: integer
+ *                             example: 180
+ *                           share:
+ *                             type: number
+ *                             example: 0.5625
+ *                           engagement:
+ *                             type: integer
+ *                           engagementShare:
+ *                             type: number
+ *                           sentiment:
+ *                             type: object
+ *                             properties:
+ *                               positive:
+ *                                 type: integer
+ *                               neutral:
+ *                                 type: integer
+ *                               negative:
+ *                                 type: integer
+ *                               averageScore:
+ *                                 type: number
+ *                               netSentiment:
+ *                                 type: number
+ *       400:
+ *         description: Invalid campaign ID or date range
+ *       401:
+ *         description: Unauthorized - invalid or missing token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Campaign not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/:id/share-of-voice",
+  authenticateToken,
+  requireRole(["admin", "manager", "analyst"]),
+  validateCampaignId,
+  getCampaignShareOfVoiceHandler,
+);
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/hashtag-graph:
+ *   get:
+ *     summary: Get campaign hashtag co-occurrence graph
+ *     description: |
+ *       Hashtags of the campaign's tweets in a window as a graph: nodes with
+ *       their frequency and average sentiment, edges weighted by the tweets that
+ *       share both hashtags, clusters found by modularity (Louvain) and emerging
+ *       hashtags, whose frequency at least doubled against the window of the
+ *       same length right before `from`. `format=graphml` or `format=gexf`
+ *       downloads the graph for Gephi instead of JSON.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Campaign ID (MongoDB ObjectId)
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the window (default 7 days before `to`)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the window (default now)
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, graphml, gexf]
+ *           default: json
+ *       - in: query
+ *         name: maxNodes
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 150
+ *         description: Most frequent hashtags kept in the graph
+ *       - in: query
+ *         name: minEdgeWeight
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 2
+ *         description: Minimum number of tweets sharing two hashtags to link them
+ *     responses:
+ *       200:
+ *         description: Hashtag graph built successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     campaignId:
+ *                       type: string
+ *                     window:
+ *                       type: object
+ *                       properties:
+ *                         from:
+ *                           type: string
+ *                           format: date-time
+ *                         to:
+ *                           type: string
+ *                           format: date-time
+ *                         previousFrom:
+ *                           type: string
+ *                           format: date-time
+ *                     analyzedTweets:
+ *                       type: integer
+ *                     modularity:
+ *                       type: number
+ *                       example: 0.42
+ *                     emerging:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: [blackfriday]
+ *                     nodes:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             example: nike
+ *                           frequency:
+ *                             type: integer
+ *                           averageSentiment:
+ *                             type: number
+ *                           cluster:
+ *                             type: integer
+ *                           previousFrequency:
+ *                             type: integer
+ *                           growth:
+ *                             type: number
+ *                             nullable: true
+ *                           emerging:
+ *                             type: boolean
+ *                     edges:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           source:
+ *                             type: string
+ *                           target:
+ *                             type: string
+ *                           weight:
+ *                             type: integer
+ *                     clusters:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                           hashtags:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                           frequency:
+ *                             type: integer
+ *                           averageSentiment:
+ *                             type: number
+ *           application/graphml+xml:
+ *             schema:
+ *               type: string
+ *           application/gexf+xml:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid campaign ID, date range or graph parameters
+ *       401:
+ *         description: Unauthorized - invalid or missing token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Campaign not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/:id/hashtag-graph",
+  authenticateToken,
+  requireRole(["admin", "manager", "analyst"]),
+  validateCampaignId,
+  getCampaignHashtagGraphHandler,
+);
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/duplicates:
+ *   get:
+ *     summary: Get campaign near-duplicate clusters
+ *     description: |
+ *       Clusters of near-identical tweets of the campaign, grouped at ingest
+ *       (MinHash over the text without links or mentions). A cluster is
+ *       coordinated when many distinct accounts posted it within a short
+ *       window. The campaign's `duplicateHandling` says whether its stats count
+ *       every tweet (`include`), one per cluster (`exclude`) or each tweet as
+ *       1 / cluster size (`downweight`).
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Campaign ID (MongoDB ObjectId)
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Near-duplicate clusters retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     campaignId:
+ *                       type: string
+ *                     duplicateHandling:
+ *                       type: string
+ *                       enum: [include, exclude, downweight]
+ *                     coordinatedClusters:
+ *                       type: integer
+ *                     clusters:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           clusterId:
+ *                             type: string
+ *                             description: ID of the oldest tweet of the cluster
+ *                           size:
+ *                             type: integer
+ *                             example: 42
+ *                           accounts:
+ *                             type: integer
+ *                             example: 37
+ *                           coordinated:
+ *                             type: boolean
+ *                           firstSeen:
+ *                             type: string
+ *                             format: date-time
+ *                           lastSeen:
+ *                             type: string
+ *                             format: date-time
+ *                           sample:
+ *                             type: string
+ *                           averageScore:
+ *                             type: number
+ *       400:
+ *         description: Invalid campaign ID, date range or limit
+ *       401:
+ *         description: Unauthorized - invalid or missing token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Campaign not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/:id/duplicates",
+  authenticateToken,
+  requireRole(["admin", "manager", "analyst"]),
+  validateCampaignId,
+  getCampaignDuplicatesHandler,
+);
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/topics:
+ *   get:
+ *     summary: Get campaign topics
+ *     description: |
+ *       Latest result of the topic-modelling job: the topics found in the most
+ *       recent tweets of the campaign, labelled with their top terms, with the
+ *       sentiment of the tweets assigned to each topic and its daily evolution.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Campaign ID (MongoDB ObjectId)
+ *     responses:
+ *       200:
+ *         description: Campaign topics retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     campaignId:
+ *                       type: string
+ *                     analyzedTweets:
+ *                       type: integer
+ *                       example: 4200
+ *                     assignedTweets:
+ *                       type: integer
+ *                       example: 3975
+ *                     vocabularySize:
+ *                       type: integer
+ *                       example: 2000
+ *                     generatedAt:
+ *                       type: string
+ *                       format: date-time
+ *                     running:
+ *                       type: boolean
+ *                       description: Whether a new run is in progress
+ *                     topics:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                             example: 0
+ *                           label:
+ *                             type: string
+ *                             example: battery / charge / hours
+ *                           terms:
+ *                             type: array
+ *                             items:
+ *                               type: object
+ *                               properties:
+ *                                 term:
+ *                                   type: string
+ *                                 weight:
+ *                                   type: number
+ *                           tweetCount:
+ *                             type: integer
+ *                           share:
+ *                             type: number
+ *                             example: 0.31
+ *                           sentiment:
+ *                             type: object
+ *                             properties:
+ *                               positive:
+ *                                 type: integer
+ *                               neutral:
+ *                                 type: integer
+ *                               negative:
+ *                                 type: integer
+ *                               averageScore:
+ *                                 type: number
+ *                           representativeTweets:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                           timeline:
+ *                             type: array
+ *                             items:
+ *                               type: object
+ *                               properties:
+ *                                 date:
+ *                                   type: string
+ *                                   example: "2026-10-18"
+ *                                 tweetCount:
+ *                                   type: integer
+ *                                 averageScore:
+ *                                   type: number
+ *       400:
+ *         description: Invalid campaign ID
+ *       401:
+ *         description: Unauthorized - invalid or missing token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Campaign not found or topics not computed yet
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     summary: Compute campaign topics
+ *     description: |
+ *       Starts the topic-modelling job for the campaign in the background. The
+ *       campaign must have `topicsAnalysis` enabled. Poll the GET endpoint for
+ *       the result.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Campaign ID (MongoDB ObjectId)
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               topics:
+ *                 type: integer
+ *                 minimum: 2
+ *                 maximum: 30
+ *                 description: Number of topics (chosen from the number of tweets when omitted)
+ *     responses:
+ *       202:
+ *         description: Topic modelling started
+ *       400:
+ *         description: Invalid campaign ID or topic count
+ *       401:
+ *         description: Unauthorized - invalid or missing token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: Topic analysis disabled for the campaign or already running
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/:id/topics",
+  authenticateToken,
+  requireRole(["admin", "manager", "analyst"]),
+  validateCampaignId,
+  getCampaignTopicsHandler,
+);
+
+router.post(
+  "/:id/topics",
+  authenticateToken,
+  requireRole(["admin", "manager"]),
+  validateCampaignId,
+  runCampaignTopicsHandler,
+);
+
 /**
  * @swagger
  * /api/campaigns/overview:
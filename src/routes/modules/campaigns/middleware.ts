@@ -4,8 +4,13 @@
  */
 
 import { NextFunction, Request, Response } from "express";
+import cron from "node-cron";
 import { CampaignType } from "../../../enums/campaign.enum";
 import { logger } from "../../../lib/observability/logger";
+import {
+  DUPLICATE_HANDLING_MODES,
+  DuplicateHandling,
+} from "../../../lib/utils/near-duplicate.utils";
 import {
   CreateCampaignRequest,
   UpdateCampaignRequest,
@@ -181,6 +186,38 @@ export const validateCreateCampaignRequest = (
       });
     }
 
+    if (
+      campaignData.collectionSchedule !== undefined &&
+      (typeof campaignData.collectionSchedule !== "string" ||
+        !cron.validate(campaignData.collectionSchedule))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message:
+            'Collection schedule must be a valid cron expression (e.g. "0 * * * *")',
+          code: "INVALID_COLLECTION_SCHEDULE",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    if (
+      campaignData.duplicateHandling !== undefined &&
+      !DUPLICATE_HANDLING_MODES.includes(
+        campaignData.duplicateHandling as DuplicateHandling,
+      )
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: `Duplicate handling must be one of: ${DUPLICATE_HANDLING_MODES.join(", ")}`,
+          code: "INVALID_DUPLICATE_HANDLING",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
     next();
   } catch (error) {
     logger.error("Validation error:", { error });
@@ -263,6 +300,38 @@ export const validateUpdateCampaignRequest = (
       }
     }
 
+    if (
+      updateData.collectionSchedule !== undefined &&
+      (typeof updateData.collectionSchedule !== "string" ||
+        !cron.validate(updateData.collectionSchedule))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message:
+            'Collection schedule must be a valid cron expression (e.g. "0 * * * *")',
+          code: "INVALID_COLLECTION_SCHEDULE",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    if (
+      updateData.duplicateHandling !== undefined &&
+      !DUPLICATE_HANDLING_MODES.includes(
+        updateData.duplicateHandling as DuplicateHandling,
+      )
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: `Duplicate handling must be one of: ${DUPLICATE_HANDLING_MODES.join(", ")}`,
+          code: "INVALID_DUPLICATE_HANDLING",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
     next();
   } catch (error) {
     logger.error("Update validation error:", { error });
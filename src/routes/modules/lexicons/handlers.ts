@@ -0,0 +1,176 @@
+/**
+ * Organization Lexicon Handlers Module
+ * Route handlers for the per-organization lexicon overrides
+ */
+
+import { Request, Response } from "express";
+import { AuthenticatedRequest } from "../../../middleware/express-auth";
+import { getSharedOrganizationLexicons } from "../../../lib/sentiment/organization-lexicons";
+import {
+  LexiconTermInput,
+  MongoOrganizationLexiconRepository,
+} from "../../../repositories/mongo-organization-lexicon.repository";
+
+const lexiconRepository = new MongoOrganizationLexiconRepository();
+
+/**
+ * Reload the organization's terms into the analysis store.
+ * The new fingerprint takes the cached results that used the old terms out of use.
+ * @returns The terms and the lexicon fingerprint
+ */
+async function refreshLexicon(organizationId: string) {
+  const terms = await lexiconRepository.findByOrganization(organizationId);
+  const lexicon = getSharedOrganizationLexicons().set(
+    organizationId,
+    terms.map((term) => term.toObject()),
+  );
+  return { terms, fingerprint: lexicon.fingerprint };
+}
+
+function termNotFound(res: Response) {
+  return res.status(404).json({
+    success: false,
+    error: {
+      message: "Lexicon term not found",
+      code: "LEXICON_TERM_NOT_FOUND",
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+function termExists(res: Response, input: LexiconTermInput) {
+  return res.status(409).json({
+    success: false,
+    error: {
+      message: "Term is already defined for this organization and language",
+      code: "LEXICON_TERM_EXISTS",
+      details: { term: input.term, language: input.language ?? null },
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+function currentUserId(req: Request): string {
+  return (req as AuthenticatedRequest).user?.id ?? "system";
+}
+
+/**
+ * Get organization lexicon handler
+ */
+export const getLexiconHandler = async (req: Request, res: Response) => {
+  try {
+    const { terms, fingerprint } = await refreshLexicon(
+      req.params.organizationId,
+    );
+
+    res.json({
+      success: true,
+      data: {
+        organizationId: req.params.organizationId,
+        fingerprint,
+        terms,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching organization lexicon:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to fetch organization lexicon",
+        code: "LEXICON_FETCH_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Add lexicon term handler
+ */
+export const createLexiconTermHandler = async (req: Request, res: Response) => {
+  const { organizationId } = req.params;
+  const input = req.body as LexiconTermInput;
+
+  try {
+    const term = await lexiconRepository.create(
+      organizationId,
+      input,
+      currentUserId(req),
+    );
+    const { fingerprint } = await refreshLexicon(organizationId);
+
+    res.status(201).json({ success: true, data: term, fingerprint });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "LEXICON_TERM_EXISTS") {
+      return termExists(res, input);
+    }
+    console.error("Error creating lexicon term:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to create lexicon term",
+        code: "LEXICON_TERM_CREATE_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Replace lexicon term handler
+ */
+export const updateLexiconTermHandler = async (req: Request, res: Response) => {
+  const { organizationId, termId } = req.params;
+  const input = req.body as LexiconTermInput;
+
+  try {
+    const term = await lexiconRepository.update(
+      organizationId,
+      termId,
+      input,
+      currentUserId(req),
+    );
+    if (!term) return termNotFound(res);
+    const { fingerprint } = await refreshLexicon(organizationId);
+
+    res.json({ success: true, data: term, fingerprint });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === "LEXICON_TERM_EXISTS") {
+      return termExists(res, input);
+    }
+    console.error("Error updating lexicon term:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to update lexicon term",
+        code: "LEXICON_TERM_UPDATE_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Delete lexicon term handler
+ */
+export const deleteLexiconTermHandler = async (req: Request, res: Response) => {
+  const { organizationId, termId } = req.params;
+
+  try {
+    const term = await lexiconRepository.delete(organizationId, termId);
+    if (!term) return termNotFound(res);
+    const { fingerprint } = await refreshLexicon(organizationId);
+
+    res.json({ success: true, data: term, fingerprint });
+  } catch (error: unknown) {
+    console.error("Error deleting lexicon term:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to delete lexicon term",
+        code: "LEXICON_TERM_DELETE_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
@@ -0,0 +1,248 @@
+/**
+ * Organization Lexicon Routes Module
+ * Per-organization overrides of the sentiment lexicon, applied to the
+ * organization's campaigns at analysis time
+ */
+
+import { Router } from "express";
+import {
+    authenticateToken,
+    requireRole,
+} from "../../../middleware/express-auth";
+import { requireOrganizationAccess } from "../../../middleware/organization-permission";
+import {
+    createLexiconTermHandler,
+    deleteLexiconTermHandler,
+    getLexiconHandler,
+    updateLexiconTermHandler,
+} from "./handlers";
+import {
+    validateLexiconTerm,
+    validateLexiconTermId,
+    validateOrganizationId,
+} from "./middleware";
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LexiconTerm:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: 60f7b3b3b3b3b3b3b3b3b3b3
+ *         organizationId:
+ *           type: string
+ *           example: org-sneakers
+ *         term:
+ *           type: string
+ *           description: Single word, stored lowercase and without accents
+ *           example: sick
+ *         polarity:
+ *           type: string
+ *           enum: [positive, negative, neutral]
+ *           description: neutral makes the term stop counting for this organization
+ *           example: positive
+ *         weight:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 3
+ *           default: 1
+ *           example: 1.5
+ *         context:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: The term only applies when one of these words is in the text
+ *           example: [sneakers, kicks, drop]
+ *         language:
+ *           type: string
+ *           enum: [en, es, fr, de]
+ *           description: The term only applies to texts in this language
+ *         createdBy:
+ *           type: string
+ *         updatedBy:
+ *           type: string
+ *     LexiconTermInput:
+ *       type: object
+ *       required: [term, polarity]
+ *       properties:
+ *         term:
+ *           type: string
+ *           example: sick
+ *         polarity:
+ *           type: string
+ *           enum: [positive, negative, neutral]
+ *         weight:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 3
+ *           default: 1
+ *         context:
+ *           type: array
+ *           maxItems: 20
+ *           items:
+ *             type: string
+ *         language:
+ *           type: string
+ *           enum: [en, es, fr, de]
+ */
+
+/**
+ * @swagger
+ * /api/v1/lexicons/{organizationId}:
+ *   get:
+ *     summary: Get an organization's lexicon
+ *     description: Terms that override the built-in lexicon for the organization's campaigns, and the fingerprint that keys cached results.
+ *     tags: [Lexicons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Lexicon retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid or missing token
+ *       403:
+ *         description: Forbidden - insufficient permissions or another organization
+ */
+router.get(
+  "/:organizationId",
+  authenticateToken,
+  requireRole(["admin", "manager", "analyst"]),
+  validateOrganizationId,
+  requireOrganizationAccess,
+  getLexiconHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/lexicons/{organizationId}/terms:
+ *   post:
+ *     summary: Add a lexicon term
+ *     description: The term applies to new analyses of the organization's campaigns right away; cached results are not reused.
+ *     tags: [Lexicons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LexiconTermInput'
+ *     responses:
+ *       201:
+ *         description: Term added
+ *       400:
+ *         description: Invalid term definition
+ *       403:
+ *         description: Forbidden - insufficient permissions or another organization
+ *       409:
+ *         description: Term already defined for this organization and language
+ */
+router.post(
+  "/:organizationId/terms",
+  authenticateToken,
+  requireRole(["admin", "manager"]),
+  validateOrganizationId,
+  requireOrganizationAccess,
+  validateLexiconTerm,
+  createLexiconTermHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/lexicons/{organizationId}/terms/{termId}:
+ *   put:
+ *     summary: Replace a lexicon term
+ *     tags: [Lexicons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: termId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LexiconTermInput'
+ *     responses:
+ *       200:
+ *         description: Term updated
+ *       400:
+ *         description: Invalid term definition
+ *       403:
+ *         description: Forbidden - insufficient permissions or another organization
+ *       404:
+ *         description: Term not found in this organization
+ *       409:
+ *         description: Term already defined for this organization and language
+ *   delete:
+ *     summary: Remove a lexicon term
+ *     tags: [Lexicons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: termId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Term removed
+ *       403:
+ *         description: Forbidden - insufficient permissions or another organization
+ *       404:
+ *         description: Term not found in this organization
+ */
+router.put(
+  "/:organizationId/terms/:termId",
+  authenticateToken,
+  requireRole(["admin", "manager"]),
+  validateOrganizationId,
+  requireOrganizationAccess,
+  validateLexiconTermId,
+  validateLexiconTerm,
+  updateLexiconTermHandler,
+);
+
+router.delete(
+  "/:organizationId/terms/:termId",
+  authenticateToken,
+  requireRole(["admin", "manager"]),
+  validateOrganizationId,
+  requireOrganizationAccess,
+  validateLexiconTermId,
+  deleteLexiconTermHandler,
+);
+
+export default router;
@@ -0,0 +1,153 @@
+/**
+ * Organization Lexicon Middleware Module
+ * Validation middleware for the per-organization lexicon routes
+ */
+
+import { NextFunction, Request, Response } from "express";
+import {
+  LEXICON_LANGUAGES,
+  LexiconLanguage,
+  tokenize,
+} from "../../../lib/sentiment/lexicons";
+import {
+  LEXICON_POLARITIES,
+  LexiconPolarity,
+} from "../../../models/OrganizationLexicon.model";
+import type { LexiconTermInput } from "../../../repositories/mongo-organization-lexicon.repository";
+
+const MAX_CONTEXT_WORDS = 20;
+
+function invalid(res: Response, message: string, code: string) {
+  return res.status(400).json({
+    success: false,
+    error: {
+      message,
+      code,
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Validate organization ID
+ */
+export const validateOrganizationId = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { organizationId } = req.params;
+
+  if (!organizationId || !/^[\w-]{1,64}$/.test(organizationId)) {
+    return invalid(
+      res,
+      "Organization ID must be 1-64 letters, digits, '_' or '-'",
+      "INVALID_ORGANIZATION_ID",
+    );
+  }
+
+  next();
+};
+
+/**
+ * Validate lexicon term ID (MongoDB ObjectId)
+ */
+export const validateLexiconTermId = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { termId } = req.params;
+
+  if (!termId || !/^[0-9a-fA-F]{24}$/.test(termId)) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        message: "Invalid lexicon term ID format",
+        code: "INVALID_LEXICON_TERM_ID",
+        details: {
+          provided: termId,
+          expected: "24-character hex string (MongoDB ObjectId)",
+        },
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate a term definition and normalize it like the lexicon tokens
+ * (lowercase, no accents), so that it matches at analysis time
+ */
+export const validateLexiconTerm = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { term, polarity, weight, context, language } = req.body ?? {};
+
+  const words = typeof term === "string" ? tokenize(term) : [];
+  if (words.length !== 1) {
+    return invalid(res, "Term must be a single word", "INVALID_LEXICON_TERM");
+  }
+
+  if (!LEXICON_POLARITIES.includes(polarity as LexiconPolarity)) {
+    return invalid(
+      res,
+      `Polarity must be one of: ${LEXICON_POLARITIES.join(", ")}`,
+      "INVALID_LEXICON_POLARITY",
+    );
+  }
+
+  if (
+    weight !== undefined &&
+    (typeof weight !== "number" || !(weight >= 0 && weight <= 3))
+  ) {
+    return invalid(
+      res,
+      "Weight must be a number between 0 and 3",
+      "INVALID_LEXICON_WEIGHT",
+    );
+  }
+
+  if (
+    context !== undefined &&
+    (!Array.isArray(context) ||
+      context.length > MAX_CONTEXT_WORDS ||
+      !context.every((word) => typeof word === "string"))
+  ) {
+    return invalid(
+      res,
+      `Context must be an array of at most ${MAX_CONTEXT_WORDS} words`,
+      "INVALID_LEXICON_CONTEXT",
+    );
+  }
+
+  if (
+    language !== undefined &&
+    !LEXICON_LANGUAGES.includes(language as LexiconLanguage)
+  ) {
+    return invalid(
+      res,
+      `Language must be one of: ${LEXICON_LANGUAGES.join(", ")}`,
+      "INVALID_LEXICON_LANGUAGE",
+    );
+  }
+
+  const input: LexiconTermInput = {
+    term: words[0],
+    polarity,
+    weight: weight ?? 1,
+    context: [
+      ...new Set(
+        ((context ?? []) as string[]).flatMap((word) => tokenize(word)),
+      ),
+    ],
+    ...(language && { language }),
+  };
+  req.body = input;
+
+  next();
+};
@@ -0,0 +1,201 @@
+/**
+ * Review Queue Handlers Module
+ * Route handlers for the human-review queue of low-confidence predictions
+ */
+
+import { Request, Response } from "express";
+import { ReviewStatus } from "../../../enums/review.enum";
+import { AuthenticatedRequest } from "../../../middleware/express-auth";
+import { MongoReviewQueueRepository } from "../../../repositories/mongo-review-queue.repository";
+import type { SentimentLabel } from "../../../services/naive-bayes-sentiment.service";
+import { tweetSentimentAnalysisManager } from "../../../services/tweet-sentiment-analysis.manager.service";
+
+const reviewQueueRepository = new MongoReviewQueueRepository();
+
+const REVIEW_FEEDBACK_SOURCE = "review_queue";
+
+/**
+ * Responds 404 if the item does not exist or 409 if it cannot be taken by this reviewer
+ */
+async function respondUnavailable(res: Response, id: string) {
+  const item = await reviewQueueRepository.findById(id);
+
+  if (!item) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        message: "Review item not found",
+        code: "REVIEW_ITEM_NOT_FOUND",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  return res.status(409).json({
+    success: false,
+    error: {
+      message:
+        item.status === ReviewStatus.CLAIMED
+          ? "Review item is claimed by another reviewer"
+          : `Review item is already ${item.status}`,
+      code: "REVIEW_ITEM_UNAVAILABLE",
+      details: { status: item.status },
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+function requireReviewer(req: Request, res: Response): string | null {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user?.id) {
+    res.status(401).json({
+      success: false,
+      error: {
+        message: "Authentication required to review predictions",
+        code: "AUTH_REQUIRED",
+        timestamp: new Date().toISOString(),
+      },
+    });
+    return null;
+  }
+  return user.id;
+}
+
+/**
+ * List review queue handler (pending items by default, oldest first)
+ */
+export const getReviewQueueHandler = async (req: Request, res: Response) => {
+  try {
+    const { page = 1, limit = 20, status, campaignId } = req.query;
+
+    const filter = {
+      status: (status as ReviewStatus) || ReviewStatus.PENDING,
+      ...(campaignId && { campaignId: campaignId as string }),
+    };
+
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const offset = (pageNum - 1) * limitNum;
+
+    const [items, total] = await Promise.all([
+      reviewQueueRepository.findMany(filter, { offset, limit: limitNum }),
+      reviewQueueRepository.count(filter),
+    ]);
+    const totalPages = Math.ceil(total / limitNum);
+
+    res.json({
+      success: true,
+      data: items,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages,
+        hasNext: pageNum < totalPages,
+        hasPrev: pageNum > 1,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching review queue:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to fetch review queue",
+        code: "REVIEW_QUEUE_FETCH_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Claim review item handler
+ */
+export const claimReviewItemHandler = async (req: Request, res: Response) => {
+  try {
+    const reviewerId = requireReviewer(req, res);
+    if (!reviewerId) return;
+
+    const item = await reviewQueueRepository.claim(req.params.id, reviewerId);
+    if (!item) return respondUnavailable(res, req.params.id);
+
+    res.json({ success: true, data: item });
+  } catch (error: unknown) {
+    console.error("Error claiming review item:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to claim review item",
+        code: "REVIEW_CLAIM_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Label review item handler
+ * The human label is fed to the auto-learning Naive Bayes with the reviewer as userId
+ */
+export const labelReviewItemHandler = async (req: Request, res: Response) => {
+  try {
+    const reviewerId = requireReviewer(req, res);
+    if (!reviewerId) return;
+
+    const label = req.body.label as SentimentLabel;
+    const item = await reviewQueueRepository.label(
+      req.params.id,
+      reviewerId,
+      label,
+    );
+    if (!item) return respondUnavailable(res, req.params.id);
+
+    const feedbackAccepted = tweetSentimentAnalysisManager.provideFeedback(
+      item.text,
+      label,
+      reviewerId,
+      REVIEW_FEEDBACK_SOURCE,
+    );
+
+    res.json({
+      success: true,
+      data: item,
+      feedbackAccepted,
+    });
+  } catch (error: unknown) {
+    console.error("Error labeling review item:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to label review item",
+        code: "REVIEW_LABEL_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Skip review item handler
+ */
+export const skipReviewItemHandler = async (req: Request, res: Response) => {
+  try {
+    const reviewerId = requireReviewer(req, res);
+    if (!reviewerId) return;
+
+    const item = await reviewQueueRepository.skip(req.params.id, reviewerId);
+    if (!item) return respondUnavailable(res, req.params.id);
+
+    res.json({ success: true, data: item });
+  } catch (error: unknown) {
+    console.error("Error skipping review item:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to skip review item",
+        code: "REVIEW_SKIP_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
@@ -0,0 +1,225 @@
+/**
+ * Review Queue Routes Module
+ * Human review of low-confidence (abstained) sentiment predictions
+ */
+
+import { Router } from "express";
+import {
+    authenticateToken,
+    requireRole,
+} from "../../../middleware/express-auth";
+import {
+    claimReviewItemHandler,
+    getReviewQueueHandler,
+    labelReviewItemHandler,
+    skipReviewItemHandler,
+} from "./handlers";
+import {
+    validateReviewItemId,
+    validateReviewLabel,
+    validateReviewQuery,
+} from "./middleware";
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReviewItem:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: 60f7b3b3b3b3b3b3b3b3b3b3
+ *         text:
+ *           type: string
+ *           example: Not sure how I feel about the new update...
+ *         tweetId:
+ *           type: string
+ *         campaignId:
+ *           type: string
+ *         language:
+ *           type: string
+ *           example: en
+ *         predictedLabel:
+ *           type: string
+ *           example: neutral
+ *         confidence:
+ *           type: number
+ *           description: Calibrated confidence that fell below the abstain threshold
+ *           example: 0.41
+ *         status:
+ *           type: string
+ *           enum: [pending, claimed, labeled, skipped]
+ *         claimedBy:
+ *           type: string
+ *         label:
+ *           type: string
+ *           enum: [positive, negative, neutral]
+ *         reviewedBy:
+ *           type: string
+ *         reviewedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/v1/review:
+ *   get:
+ *     summary: List the review queue
+ *     description: Predictions whose confidence was below SENTIMENT_ABSTAIN_THRESHOLD. Oldest first.
+ *     tags: [Review]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, claimed, labeled, skipped]
+ *           default: pending
+ *       - in: query
+ *         name: campaignId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Review items retrieved successfully
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized - invalid or missing token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ */
+router.get(
+  "/",
+  authenticateToken,
+  requireRole(["admin", "manager", "analyst"]),
+  validateReviewQuery,
+  getReviewQueueHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/review/{id}/claim:
+ *   post:
+ *     summary: Claim a review item
+ *     description: Locks the item for the current reviewer. Claims expire after 30 minutes.
+ *     tags: [Review]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Item claimed
+ *       404:
+ *         description: Review item not found
+ *       409:
+ *         description: Item already resolved or claimed by another reviewer
+ */
+router.post(
+  "/:id/claim",
+  authenticateToken,
+  requireRole(["admin", "manager", "analyst"]),
+  validateReviewItemId,
+  claimReviewItemHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/review/{id}/label:
+ *   post:
+ *     summary: Label a review item
+ *     description: Stores the human label and feeds it to the auto-learning model with the reviewer as userId.
+ *     tags: [Review]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [label]
+ *             properties:
+ *               label:
+ *                 type: string
+ *                 enum: [positive, negative, neutral]
+ *     responses:
+ *       200:
+ *         description: Item labeled
+ *       400:
+ *         description: Invalid label
+ *       404:
+ *         description: Review item not found
+ *       409:
+ *         description: Item already resolved or claimed by another reviewer
+ */
+router.post(
+  "/:id/label",
+  authenticateToken,
+  requireRole(["admin", "manager", "analyst"]),
+  validateReviewItemId,
+  validateReviewLabel,
+  labelReviewItemHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/review/{id}/skip:
+ *   post:
+ *     summary: Skip a review item
+ *     description: Removes the item from the queue without labeling it (spam, ambiguous, off-topic).
+ *     tags: [Review]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Item skipped
+ *       404:
+ *         description: Review item not found
+ *       409:
+ *         description: Item already resolved or claimed by another reviewer
+ */
+router.post(
+  "/:id/skip",
+  authenticateToken,
+  requireRole(["admin", "manager", "analyst"]),
+  validateReviewItemId,
+  skipReviewItemHandler,
+);
+
+export default router;
@@ -0,0 +1,116 @@
+/**
+ * Review Queue Middleware Module
+ * Validation middleware for the human-review queue routes
+ */
+
+import { NextFunction, Request, Response } from "express";
+import { ReviewStatus } from "../../../enums/review.enum";
+import { REVIEW_LABELS } from "../../../models/ReviewItem.model";
+import type { SentimentLabel } from "../../../services/naive-bayes-sentiment.service";
+
+/**
+ * Validate review item ID (MongoDB ObjectId)
+ */
+export const validateReviewItemId = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { id } = req.params;
+
+  if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        message: "Invalid review item ID format",
+        code: "INVALID_REVIEW_ITEM_ID",
+        details: {
+          provided: id,
+          expected: "24-character hex string (MongoDB ObjectId)",
+        },
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate queue listing query (status filter and pagination)
+ */
+export const validateReviewQuery = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { status, page, limit } = req.query;
+
+  if (
+    status !== undefined &&
+    !Object.values(ReviewStatus).includes(status as ReviewStatus)
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        message: `Status must be one of: ${Object.values(ReviewStatus).join(", ")}`,
+        code: "INVALID_REVIEW_STATUS",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  if (page !== undefined) {
+    const pageNum = parseInt(page as string);
+    if (isNaN(pageNum) || pageNum < 1) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: "Page must be a positive integer",
+          code: "INVALID_PAGE_PARAMETER",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
+  if (limit !== undefined) {
+    const limitNum = parseInt(limit as string);
+    if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: "Limit must be a positive integer between 1 and 100",
+          code: "INVALID_LIMIT_PARAMETER",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
+  next();
+};
+
+/**
+ * Validate submitted label
+ */
+export const validateReviewLabel = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { label } = req.body ?? {};
+
+  if (!REVIEW_LABELS.includes(label as SentimentLabel)) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        message: `Label must be one of: ${REVIEW_LABELS.join(", ")}`,
+        code: "INVALID_REVIEW_LABEL",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  next();
+};
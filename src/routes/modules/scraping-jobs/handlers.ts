@@ -0,0 +1,175 @@
+/**
+ * Scraping Jobs Handlers Module
+ * Route handlers to inspect and manage the jobs of the scraping queue. Jobs are
+ * changed in the shared collection, so a worker processing a cancelled or
+ * paused job loses its lease and stops after the chunk in progress.
+ */
+
+import { Request, Response } from "express";
+import { AuthenticatedRequest } from "../../../middleware/express-auth";
+import { MongoCampaignRepository } from "../../../repositories/mongo-campaign.repository";
+import {
+  MongoScrapingJobRepository,
+  ScrapingJobFilter,
+} from "../../../repositories/mongo-scraping-job.repository";
+import type { QueueJob } from "../../../services/scraping-queue.service";
+
+const scrapingJobRepository = new MongoScrapingJobRepository();
+const campaignRepository = new MongoCampaignRepository();
+
+/**
+ * Responds 404 if the job does not exist or 409 if its status does not allow the action
+ */
+async function respondUnavailable(
+  res: Response,
+  jobId: string,
+  action: string,
+) {
+  const job = await scrapingJobRepository.findById(jobId);
+
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        message: "Scraping job not found",
+        code: "JOB_NOT_FOUND",
+        details: { jobId },
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  return res.status(409).json({
+    success: false,
+    error: {
+      message: `Cannot ${action} a job that is ${job.status}`,
+      code: "JOB_STATE_CONFLICT",
+      details: { status: job.status },
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Run a status change of the job loaded by loadScrapingJob
+ */
+async function changeJob(
+  res: Response,
+  action: string,
+  change: (jobId: string) => Promise<QueueJob | null>,
+) {
+  const { id } = res.locals.job as QueueJob;
+
+  try {
+    const job = await change(id);
+    if (!job) return respondUnavailable(res, id, action);
+
+    res.json({ success: true, data: job });
+  } catch (error: unknown) {
+    console.error(`Error trying to ${action} scraping job:`, error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: `Failed to ${action} scraping job`,
+        code: "JOB_UPDATE_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+}
+
+/**
+ * List jobs handler (newest first). Non-admin users only see the jobs of the
+ * campaigns they can edit.
+ */
+export const listJobsHandler = async (req: Request, res: Response) => {
+  try {
+    const { page = 1, limit = 20, status, type, campaignId } = req.query;
+    const user = (req as AuthenticatedRequest).user!;
+
+    const filter: ScrapingJobFilter = {
+      ...(status && { status: status as QueueJob["status"] }),
+      ...(type && { type: type as QueueJob["type"] }),
+      // campaignId was checked by requireCampaignEditAccess
+      ...(campaignId && { campaignId: campaignId as string }),
+    };
+    if (!campaignId && user.role !== "admin") {
+      filter.campaignIds = await campaignRepository.findEditableIds(user.id);
+    }
+
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const offset = (pageNum - 1) * limitNum;
+
+    const [jobs, total] = await Promise.all([
+      scrapingJobRepository.findMany(filter, { offset, limit: limitNum }),
+      scrapingJobRepository.count(filter),
+    ]);
+    const totalPages = Math.ceil(total / limitNum);
+
+    res.json({
+      success: true,
+      data: jobs,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages,
+        hasNext: pageNum < totalPages,
+        hasPrev: pageNum > 1,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching scraping jobs:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to fetch scraping jobs",
+        code: "JOBS_FETCH_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Get job handler: the job with its chunks, progress and last errors
+ */
+export const getJobHandler = (_req: Request, res: Response) => {
+  res.json({ success: true, data: res.locals.job as QueueJob });
+};
+
+/**
+ * Cancel job handler
+ */
+export const cancelJobHandler = (_req: Request, res: Response) =>
+  changeJob(res, "cancel", (jobId) => scrapingJobRepository.cancel(jobId));
+
+/**
+ * Pause job handler
+ */
+export const pauseJobHandler = (_req: Request, res: Response) =>
+  changeJob(res, "pause", (jobId) => scrapingJobRepository.pause(jobId));
+
+/**
+ * Resume job handler
+ */
+export const resumeJobHandler = (_req: Request, res: Response) =>
+  changeJob(res, "resume", (jobId) => scrapingJobRepository.resume(jobId));
+
+/**
+ * Retry job handler: failed chunks (or the whole job if it has none) go back to the queue
+ */
+export const retryJobHandler = (_req: Request, res: Response) =>
+  changeJob(res, "retry", (jobId) => scrapingJobRepository.retryFailed(jobId));
+
+/**
+ * Change job priority handler
+ */
+export const updateJobPriorityHandler = (req: Request, res: Response) =>
+  changeJob(res, "reprioritize", (jobId) =>
+    scrapingJobRepository.setPriority(
+      jobId,
+      req.body.priority as QueueJob["priority"],
+    ),
+  );
@@ -0,0 +1,387 @@
+/**
+ * Scraping Jobs Routes Module
+ * Management of the scraping queue jobs, limited to the campaigns the user can edit
+ */
+
+import { Request, Response, Router } from "express";
+import { requireCampaignEditAccess } from "../../../middleware/campaign-permission";
+import { authenticateToken } from "../../../middleware/express-auth";
+import type { QueueJob } from "../../../services/scraping-queue.service";
+import {
+    cancelJobHandler,
+    getJobHandler,
+    listJobsHandler,
+    pauseJobHandler,
+    resumeJobHandler,
+    retryJobHandler,
+    updateJobPriorityHandler,
+} from "./handlers";
+import {
+    loadScrapingJob,
+    validateJobPriority,
+    validateJobQuery,
+} from "./middleware";
+
+const router = Router();
+
+// Edit access to the campaign of the listing filter (optional) / of the
+// loaded job (admins only for jobs without a campaign)
+const requireQueryCampaignAccess = requireCampaignEditAccess(
+  (req: Request) => req.query.campaignId as string | undefined,
+  { optional: true },
+);
+const requireJobCampaignAccess = requireCampaignEditAccess(
+  (_req: Request, res: Response) => (res.locals.job as QueueJob).campaignId,
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ScrapingJob:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: hashtag-1760788800000-k3j9x2
+ *         type:
+ *           type: string
+ *           enum: [hashtag, user, search]
+ *         query:
+ *           type: string
+ *           example: JustDoIt
+ *         targetTweets:
+ *           type: integer
+ *           example: 500
+ *         campaignId:
+ *           type: string
+ *         priority:
+ *           type: string
+ *           enum: [high, medium, low]
+ *         status:
+ *           type: string
+ *           enum: [pending, chunked, processing, completed, failed, dead_letter, paused, cancelled]
+ *         attempts:
+ *           type: integer
+ *         maxAttempts:
+ *           type: integer
+ *         progress:
+ *           type: object
+ *           properties:
+ *             completed:
+ *               type: integer
+ *             total:
+ *               type: integer
+ *             currentChunk:
+ *               type: integer
+ *         chunks:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               chunkIndex:
+ *                 type: integer
+ *               targetTweets:
+ *                 type: integer
+ *               status:
+ *                 type: string
+ *                 enum: [pending, processing, completed, failed]
+ *               retries:
+ *                 type: integer
+ *               error:
+ *                 type: string
+ *                 description: Last scraping error of the chunk
+ *         lastError:
+ *           type: string
+ *           description: Error of the last failed attempt
+ *         nextAttemptAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/v1/scraping/jobs:
+ *   get:
+ *     summary: List scraping queue jobs
+ *     description: Newest first. Non-admin users only see the jobs of the campaigns they can edit.
+ *     tags: [Twitter Scraping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: campaignId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, chunked, processing, completed, failed, dead_letter, paused, cancelled]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [hashtag, user, search]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Jobs retrieved successfully
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized - invalid or missing token
+ *       403:
+ *         description: Forbidden - the user cannot edit the campaign
+ */
+router.get(
+  "/",
+  authenticateToken,
+  validateJobQuery,
+  requireQueryCampaignAccess,
+  listJobsHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/scraping/jobs/{jobId}:
+ *   get:
+ *     summary: Get a scraping queue job
+ *     description: The job with its chunks, progress and errors
+ *     tags: [Twitter Scraping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ScrapingJob'
+ *       401:
+ *         description: Unauthorized - invalid or missing token
+ *       403:
+ *         description: Forbidden - the user cannot edit the campaign of the job (admins only without one)
+ *       404:
+ *         description: Job not found
+ */
+router.get(
+  "/:jobId",
+  authenticateToken,
+  loadScrapingJob,
+  requireJobCampaignAccess,
+  getJobHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/scraping/jobs/{jobId}/cancel:
+ *   post:
+ *     summary: Cancel a scraping queue job
+ *     description: A job being processed stops after the chunk in progress
+ *     tags: [Twitter Scraping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job cancelled
+ *       403:
+ *         description: Forbidden - the user cannot edit the campaign of the job (admins only without one)
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: The job already finished
+ */
+router.post(
+  "/:jobId/cancel",
+  authenticateToken,
+  loadScrapingJob,
+  requireJobCampaignAccess,
+  cancelJobHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/scraping/jobs/{jobId}/pause:
+ *   post:
+ *     summary: Pause a scraping queue job
+ *     description: Keeps the completed chunks; a job being processed stops after the chunk in progress
+ *     tags: [Twitter Scraping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job paused
+ *       403:
+ *         description: Forbidden - the user cannot edit the campaign of the job (admins only without one)
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: The job is paused, finished or dead-lettered
+ */
+router.post(
+  "/:jobId/pause",
+  authenticateToken,
+  loadScrapingJob,
+  requireJobCampaignAccess,
+  pauseJobHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/scraping/jobs/{jobId}/resume:
+ *   post:
+ *     summary: Resume a paused scraping queue job
+ *     tags: [Twitter Scraping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job back in the queue
+ *       403:
+ *         description: Forbidden - the user cannot edit the campaign of the job (admins only without one)
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: The job is not paused
+ */
+router.post(
+  "/:jobId/resume",
+  authenticateToken,
+  loadScrapingJob,
+  requireJobCampaignAccess,
+  resumeJobHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/scraping/jobs/{jobId}/retry:
+ *   post:
+ *     summary: Retry the failed chunks of a scraping queue job
+ *     description: >
+ *       Failed and dead-lettered jobs, and completed jobs with failed chunks, go back
+ *       to the queue with their attempts reset. Only the failed chunks are scraped again.
+ *     tags: [Twitter Scraping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job back in the queue
+ *       403:
+ *         description: Forbidden - the user cannot edit the campaign of the job (admins only without one)
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: The job has nothing to retry
+ */
+router.post(
+  "/:jobId/retry",
+  authenticateToken,
+  loadScrapingJob,
+  requireJobCampaignAccess,
+  retryJobHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/scraping/jobs/{jobId}/priority:
+ *   patch:
+ *     summary: Change the priority of a scraping queue job
+ *     tags: [Twitter Scraping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [priority]
+ *             properties:
+ *               priority:
+ *                 type: string
+ *                 enum: [high, medium, low]
+ *     responses:
+ *       200:
+ *         description: Priority updated
+ *       400:
+ *         description: Invalid priority
+ *       403:
+ *         description: Forbidden - the user cannot edit the campaign of the job (admins only without one)
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: The job already finished
+ */
+router.patch(
+  "/:jobId/priority",
+  authenticateToken,
+  validateJobPriority,
+  loadScrapingJob,
+  requireJobCampaignAccess,
+  updateJobPriorityHandler,
+);
+
+export default router;
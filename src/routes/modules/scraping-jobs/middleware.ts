@@ -0,0 +1,156 @@
+/**
+ * Scraping Jobs Middleware Module
+ * Validation and job loading middleware for the scraping queue job routes
+ */
+
+import { NextFunction, Request, Response } from "express";
+import { QUEUE_JOB_STATUSES } from "../../../models/ScrapingJob.model";
+import { MongoScrapingJobRepository } from "../../../repositories/mongo-scraping-job.repository";
+import type { QueueJob } from "../../../services/scraping-queue.service";
+
+const scrapingJobRepository = new MongoScrapingJobRepository();
+
+export const JOB_TYPES: QueueJob["type"][] = ["hashtag", "user", "search"];
+export const JOB_PRIORITIES: QueueJob["priority"][] = ["high", "medium", "low"];
+
+/**
+ * Load the job of `:jobId` into `res.locals.job` (404 if it does not exist)
+ */
+export const loadScrapingJob = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  try {
+    const job = await scrapingJobRepository.findById(req.params.jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          message: "Scraping job not found",
+          code: "JOB_NOT_FOUND",
+          details: { jobId: req.params.jobId },
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    res.locals.job = job;
+    next();
+  } catch (error: unknown) {
+    console.error("Error loading scraping job:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to load scraping job",
+        code: "JOB_FETCH_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Validate job listing query (filters and pagination)
+ */
+export const validateJobQuery = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { status, type, campaignId, page, limit } = req.query;
+
+  if (
+    status !== undefined &&
+    !QUEUE_JOB_STATUSES.includes(status as QueueJob["status"])
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        message: `Status must be one of: ${QUEUE_JOB_STATUSES.join(", ")}`,
+        code: "INVALID_JOB_STATUS",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  if (type !== undefined && !JOB_TYPES.includes(type as QueueJob["type"])) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        message: `Type must be one of: ${JOB_TYPES.join(", ")}`,
+        code: "INVALID_JOB_TYPE",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  if (
+    campaignId !== undefined &&
+    (typeof campaignId !== "string" || !campaignId.trim())
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        message: "campaignId must be a non-empty string",
+        code: "INVALID_CAMPAIGN_ID",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  if (page !== undefined) {
+    const pageNum = parseInt(page as string);
+    if (isNaN(pageNum) || pageNum < 1) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: "Page must be a positive integer",
+          code: "INVALID_PAGE_PARAMETER",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
+  if (limit !== undefined) {
+    const limitNum = parseInt(limit as string);
+    if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: "Limit must be a positive integer between 1 and 100",
+          code: "INVALID_LIMIT_PARAMETER",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
+  next();
+};
+
+/**
+ * Validate submitted priority
+ */
+export const validateJobPriority = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { priority } = req.body ?? {};
+
+  if (!JOB_PRIORITIES.includes(priority as QueueJob["priority"])) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        message: `Priority must be one of: ${JOB_PRIORITIES.join(", ")}`,
+        code: "INVALID_JOB_PRIORITY",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  next();
+};
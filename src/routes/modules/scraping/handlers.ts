@@ -4,6 +4,7 @@
 
 import { Request, Response } from 'express';
 import { toStringArray } from '../../../lib/utils';
+import { type QuotaCheck, scrapingQuotaService } from '../../../services/scraping-quota.service';
 import {
   getScraperService,
   handleScrapingError,
@@ -137,6 +138,19 @@ const createCampaignNotFoundError = (campaignId: string) => ({
   suggestion: 'Create the campaign using POST /api/v1/campaigns before starting scraping',
 });
 
+const createQuotaExceededError = (quota: QuotaCheck) => ({
+  success: false,
+  error: 'Scraping quota exceeded',
+  code: 'QUOTA_EXCEEDED',
+  details: `The ${quota.metric} quota of the organization has ${quota.remaining} left (${quota.used}/${quota.limit} used)`,
+  quota,
+  suggestion: quota.resetsAt
+    ? 'Reduce maxTweets or wait until the quota resets'
+    : quota.metric === 'concurrentJobs'
+      ? 'Wait until another scrape of the organization finishes'
+      : 'Pause or complete another campaign of the organization first',
+});
+
 const validateCampaignId = (campaignId: any): boolean => {
   return typeof campaignId === 'string' && campaignId.trim().length > 0;
 };
@@ -360,6 +374,19 @@ async function handleGenericScraping(
       return;
     }
 
+    // Tweet budgets of the campaign's organization
+    const organizationId: string | undefined = campaignValidation.campaign?.organizationId;
+    if (organizationId) {
+      const quota = await scrapingQuotaService.checkTweets(
+        organizationId,
+        Number(maxTweets) * identifiers.length
+      );
+      if (!quota.allowed) {
+        res.status(429).json(createQuotaExceededError(quota));
+        return;
+      }
+    }
+
     // Determine processing strategy
     const shouldUseAsync = maxTweets > ASYNC_THRESHOLD_TWEETS || identifiers.length > 3;
 
@@ -423,11 +450,37 @@ async function handleAsyncGenericScraping(
       return;
     }
 
+    // Activating the campaign counts against the organization's active campaigns
+    const { campaign } = campaignValidation;
+    if (campaign.status !== 'active' && campaign.organizationId) {
+      const quota = await scrapingQuotaService.checkActiveCampaigns(campaign.organizationId);
+      if (!quota.allowed) {
+        res.status(403).json(createQuotaExceededError(quota));
+        return;
+      }
+    }
+
+    // The scrape runs in the background and counts against the organization's concurrent jobs
+    const quotaOrganizationId: string | undefined = campaign.organizationId;
+    if (quotaOrganizationId) {
+      const quota = await scrapingQuotaService.startManualScrape(quotaOrganizationId);
+      if (!quota.allowed) {
+        res.status(429).json(createQuotaExceededError(quota));
+        return;
+      }
+    }
+    const finishScrape = () => {
+      if (quotaOrganizationId) scrapingQuotaService.finishManualScrape(quotaOrganizationId);
+    };
+
     // Update campaign status atomically
     await updateCampaignStatus(campaignId, 'active', {
       maxTweets,
       startedAt: new Date(),
       processingStatus: 'processing', // ✅ Cambiado a processingStatus para evitar conflicto
+    }).catch((error) => {
+      finishScrape();
+      throw error;
     });
 
     // Respond immediately
@@ -460,7 +513,7 @@ async function handleAsyncGenericScraping(
           error: error.message,
           failedAt: new Date(),
         }).catch(console.error);
-      });
+      }).finally(finishScrape);
     });
   } catch (error) {
     return handleScrapingError(res, error, `async ${scrapingType} scraping`);
@@ -563,6 +616,7 @@ async function processAsyncScraping(
     }
 
     const tweets = Array.isArray(result.tweets) ? result.tweets : [];
+    await scrapingQuotaService.recordCampaignTweets(campaignId, tweets.length);
 
     // Update to analysis phase
     progressService.updateProgress(campaignId, {
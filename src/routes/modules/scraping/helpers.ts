@@ -4,14 +4,27 @@
  */
 
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import { SCRAPING_CONFIG, Sanitizers } from '../../../config/scraping.config';
 import { Label } from '../../../enums/sentiment.enum';
 import { logger } from '../../../lib/observability/logger';
-import type { TweetSentimentAnalysis } from '../../../lib/sentiment/types';
+import { campaignAspectsToDictionary } from '../../../lib/sentiment/aspect-analyzer';
+import { campaignEntitiesToDefinitions } from '../../../lib/sentiment/entity-extractor';
+import { getSharedDriftMonitor } from '../../../lib/sentiment/drift-monitor';
+import type {
+  AspectDictionary,
+  EntityDefinition,
+  TweetSentimentAnalysis,
+} from '../../../lib/sentiment/types';
+import { MongoCampaignRepository } from '../../../repositories/mongo-campaign.repository';
+import { MongoReviewQueueRepository } from '../../../repositories/mongo-review-queue.repository';
+import { MongoTweetRepository } from '../../../repositories/mongo-tweet.repository';
+import { scrapingQuotaService } from '../../../services/scraping-quota.service';
 import { TweetDatabaseService } from '../../../services/tweet-database.service';
 import { TweetSentimentAnalysisManager } from '../../../services/tweet-sentiment-analysis.manager.service';
 import { TwitterAuthManager } from '../../../services/twitter-auth-manager.service';
 import { TwitterRealScraperService } from '../../../services/twitter-scraper.service';
+import type { CampaignEmotionStats } from '../../../types/campaign';
 import type { ScrapingResult, SentimentAnalysis, Tweet } from '../../../types/twitter';
 
 // ==================== Constants & Configuration ====================
@@ -103,6 +116,9 @@ type ErrorResponse = {
 export const sentimentManager = new TweetSentimentAnalysisManager();
 export const tweetDatabaseService = new TweetDatabaseService();
 export const twitterAuth = TwitterAuthManager.getInstance();
+const campaignRepository = new MongoCampaignRepository();
+const tweetRepository = new MongoTweetRepository();
+const reviewQueueRepository = new MongoReviewQueueRepository();
 
 // ==================== Concurrency Management ====================
 class ConcurrencyManager {
@@ -254,8 +270,10 @@ const normalizeSentimentLabel = (label: string): Label => {
 
 export function processSentimentAnalysis(
   tweets: readonly Tweet[],
-  analyses: readonly TweetSentimentAnalysis[]
+  analyses: readonly TweetSentimentAnalysis[],
+  options: { readonly includeEmotions?: boolean } = {}
 ): Tweet[] {
+  const { includeEmotions = true } = options;
   const result: Tweet[] = [];
   const maxIndex = Math.min(tweets.length, analyses.length);
 
@@ -290,8 +308,11 @@ export function processSentimentAnalysis(
           : Math.abs(src.score ?? 0),
       label: normalized,
       confidence: typeof src.confidence === 'number' ? src.confidence : 1,
-      emotions: (src as any).emotions,
+      ...(includeEmotions && src.emotions && { emotions: src.emotions }),
       keywords: analysis.analysis.keywords ?? [],
+      ...(analysis.analysis.aspects && { aspects: analysis.analysis.aspects }),
+      ...(analysis.analysis.entities && { entities: analysis.analysis.entities }),
+      ...(analysis.analysis.status === 'needs_review' && { needsReview: true }),
       analyzedAt: analysis.analyzedAt,
       processingTime: Date.now() - analysis.analyzedAt.getTime(),
     };
@@ -441,6 +462,99 @@ async function performScraping(
     : scraper.scrapeByHashtag(safeIdentifier, scrapingOptions);
 }
 
+/**
+ * Resolve the analysis settings of a campaign: its aspect dictionary and tracked
+ * entities, if any, and whether emotions are kept (always, when there is no campaign)
+ */
+async function loadCampaignAnalysisSettings(campaignId?: string): Promise<{
+  readonly aspectDictionary?: AspectDictionary;
+  readonly entities?: EntityDefinition[];
+  readonly emotionAnalysis: boolean;
+}> {
+  if (!campaignId || !mongoose.Types.ObjectId.isValid(campaignId)) {
+    return { emotionAnalysis: true };
+  }
+  const campaign = await campaignRepository.findById(campaignId);
+  return {
+    aspectDictionary: campaignAspectsToDictionary(campaign?.aspects),
+    entities: campaignEntitiesToDefinitions(campaign?.entities),
+    emotionAnalysis: campaign ? campaign.emotionAnalysis : true,
+  };
+}
+
+/**
+ * Recompute the campaign's average emotions over all its stored tweets, treating
+ * near-duplicate tweets as the campaign's duplicateHandling says
+ */
+async function updateCampaignEmotionStats(campaignId: string): Promise<CampaignEmotionStats> {
+  const campaign = await campaignRepository.findById(campaignId);
+  const { averages, analyzedTweets } = await tweetRepository.getEmotionAverages({
+    campaignId,
+    duplicates: campaign?.duplicateHandling,
+  });
+  const [dominant, highest] = Object.entries(averages).reduce((best, entry) =>
+    entry[1] > best[1] ? entry : best
+  );
+  const stats: CampaignEmotionStats = {
+    ...averages,
+    dominant: highest > 0 ? dominant : null,
+    analyzedTweets,
+    updatedAt: new Date(),
+  };
+  await campaignRepository.updateEmotionStats(campaignId, stats);
+  return stats;
+}
+
+/**
+ * Queue the predictions the orchestrator abstained on for human review
+ * @returns number of newly queued items
+ */
+async function enqueueForReview(
+  tweets: readonly Tweet[],
+  analyses: readonly TweetSentimentAnalysis[],
+  campaignId?: string
+): Promise<number> {
+  const items = analyses.flatMap((analysis, i) => {
+    const tweet = tweets[i];
+    if (!tweet || analysis.analysis.status !== 'needs_review') return [];
+    const { sentiment } = analysis.analysis;
+    return [
+      {
+        text: tweet.content,
+        tweetId: tweet.tweetId,
+        campaignId,
+        language: analysis.analysis.language,
+        predictedLabel: sentiment.label,
+        confidence: sentiment.confidence,
+        rawConfidence: sentiment.rawConfidence,
+      },
+    ];
+  });
+
+  return reviewQueueRepository.enqueue(items);
+}
+
+/**
+ * Feed the campaign's drift window without delaying the request (the first call
+ * builds the training baseline)
+ */
+function monitorDrift(
+  tweets: readonly Tweet[],
+  analyses: readonly TweetSentimentAnalysis[],
+  campaignId: string
+): void {
+  const observations = analyses.flatMap((analysis, i) => {
+    const tweet = tweets[i];
+    if (!tweet) return [];
+    const { label, confidence } = analysis.analysis.sentiment;
+    return [{ text: tweet.content, label, confidence }];
+  });
+
+  getSharedDriftMonitor()
+    .observe(campaignId, observations)
+    .catch((error: unknown) => logger.warn('Drift monitoring failed', { campaignId, error }));
+}
+
 /**
  * Process and persist sentiment analysis results
  * @param tweets - array of tweets to analyze
@@ -458,6 +572,7 @@ export async function processAndPersistSentiment(
 }> {
   let tweetsWithSentiment: Tweet[] = [...tweets];
   let sentimentSummary: ReturnType<typeof sentimentManager.generateStatistics> | null = null;
+  let emotionsStored = false;
 
   if (analyzeSentiment && tweetsWithSentiment.length > 0) {
     try {
@@ -467,7 +582,13 @@ export async function processAndPersistSentiment(
         firstTweetContent: tweetsWithSentiment[0]?.content?.substring(0, 50) + '...',
       });
       
-      const analyses = await sentimentManager.analyzeTweetsBatch(tweetsWithSentiment);
+      const { aspectDictionary, entities, emotionAnalysis } =
+        await loadCampaignAnalysisSettings(campaignId);
+      const analyses = await sentimentManager.analyzeTweetsBatch(tweetsWithSentiment, {
+        aspectDictionary,
+        entities,
+        campaignId,
+      });
       
       console.log('📊 SENTIMENT ANALYSIS COMPLETED:', {
         analysesCount: analyses.length,
@@ -479,7 +600,19 @@ export async function processAndPersistSentiment(
       });
       
       sentimentSummary = sentimentManager.generateStatistics(analyses);
-      tweetsWithSentiment = processSentimentAnalysis(tweetsWithSentiment, analyses);
+
+      try {
+        const queued = await enqueueForReview(tweetsWithSentiment, analyses, campaignId);
+        if (queued > 0) logger.info(`Queued ${queued} low-confidence tweets for review`, { campaignId });
+      } catch (reviewError) {
+        logger.warn('Failed to queue low-confidence tweets for review', { error: reviewError });
+      }
+      if (campaignId) monitorDrift(tweetsWithSentiment, analyses, campaignId);
+
+      tweetsWithSentiment = processSentimentAnalysis(tweetsWithSentiment, analyses, {
+        includeEmotions: emotionAnalysis,
+      });
+      emotionsStored = emotionAnalysis;
     } catch (sentimentError) {
       logger.warn('Sentiment analysis failed, continuing without sentiment data', {
         error: sentimentError,
@@ -510,6 +643,19 @@ export async function processAndPersistSentiment(
           tweetsProcessed: saveResult.totalProcessed,
         });
       }
+
+      if (emotionsStored && campaignId && mongoose.Types.ObjectId.isValid(campaignId)) {
+        try {
+          const emotionStats = await updateCampaignEmotionStats(campaignId);
+          logger.info('Campaign emotion stats updated', {
+            campaignId,
+            dominant: emotionStats.dominant,
+            analyzedTweets: emotionStats.analyzedTweets,
+          });
+        } catch (statsError) {
+          logger.warn('Failed to update campaign emotion stats', { error: statsError, campaignId });
+        }
+      }
     } catch (dbErr) {
       logger.error('Critical database save error', {
         error: dbErr,
@@ -628,6 +774,10 @@ export async function handleScrapingRequest<B extends ScrapingRequestBody = Scra
       includeReplies,
       languageFilter
     );
+    await scrapingQuotaService.recordCampaignTweets(
+      params.campaignId,
+      scrapingResult.tweets.length
+    );
 
     const { tweetsWithSentiment, sentimentSummary } = await processAndPersistSentiment(
       scrapingResult.tweets,
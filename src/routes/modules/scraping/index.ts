@@ -6,6 +6,7 @@ import {
     scrapeSearch,
     scrapeUser,
 } from "./handlers";
+import scrapingJobRoutes from "../scraping-jobs";
 
 const router = Router();
 
@@ -460,4 +461,7 @@ router.get("/status", getScrapingStatus);
 // router.post("/reauth", forceReauth);
 router.get("/tweets", listTweets);
 
+// Scraping queue jobs (list, inspect, cancel, pause, resume, retry, priority)
+router.use("/jobs", scrapingJobRoutes);
+
 export default router;
@@ -7,19 +7,37 @@
 
 import { Request, Response } from "express";
 import { successResponse } from "../../../core/errors/error-handler";
-import { ValidationError } from "../../../core/errors/error-types";
+import { NotFoundError, ValidationError } from "../../../core/errors/error-types";
 import { SentimentAnalysisErrorFactory as SentimentAnalysisError } from "../../../core/errors/sentiment-errors";
 import { Method } from "../../../enums/sentiment.enum";
+import { campaignAspectsToDictionary } from "../../../lib/sentiment/aspect-analyzer";
+import {
+  NDJSON_CONTENT_TYPE,
+  streamNdjsonAnalysis,
+} from "../../../lib/sentiment/ndjson-stream";
 import { SentimentAnalysisOrchestrator } from "../../../lib/sentiment/orchestrator";
 import { getOrchestrator } from "../../../lib/sentiment/orchestrator-provider";
+import { describePipelines } from "../../../lib/sentiment/pipeline";
+import { getSharedShadowEvaluator } from "../../../lib/sentiment/shadow-evaluation";
 import { sentimentServiceFacade } from "../../../lib/sentiment/sentiment-service-facade";
-import { LanguageCode, TweetDTO } from "../../../lib/sentiment/types";
+import {
+  AspectDictionary,
+  LanguageCode,
+  TweetDTO,
+} from "../../../lib/sentiment/types";
+import type { AuthenticatedRequest } from "../../../middleware/express-auth";
+import { MongoCampaignRepository } from "../../../repositories/mongo-campaign.repository";
+import { modelRegistry } from "../../../services/model-registry.service";
+import type { SentimentLabel } from "../../../services/naive-bayes-sentiment.service";
+
+const campaignRepository = new MongoCampaignRepository();
 
 /**
  * Analyze text sentiment handler
  */
 export const analyzeTextHandler = async (req: Request, res: Response) => {
   const { text } = req.body;
+  const explain = req.query.explain === "true";
 
   if (!text || typeof text !== "string") {
     throw SentimentAnalysisError.invalidText();
@@ -28,10 +46,11 @@ export const analyzeTextHandler = async (req: Request, res: Response) => {
   // Crear una instancia del orquestador para análisis de sentimiento
   const orchestrator = new SentimentAnalysisOrchestrator();
 
-  // Usar el orquestador para analizar el texto
+  // Usar el orquestador para analizar el texto (sin idioma: el motor lo detecta)
   const analysisResult = await orchestrator.analyzeText({
     text,
-    language: "en", // Idioma predeterminado, podría determinarse automáticamente
+    explain,
+    callerId: (req as AuthenticatedRequest).user?.id ?? req.ip,
   });
 
   // Determinar nivel de confianza
@@ -68,9 +87,11 @@ export const analyzeTextHandler = async (req: Request, res: Response) => {
       confidence: analysisResult.sentiment.confidence,
       confidenceLevel: confidenceLevel.level,
       confidenceDescription: confidenceLevel.description,
+      status: analysisResult.status ?? "ok",
       method: "hybrid-orchestrator",
       enhanced: true,
       modelVersion: analysisResult.version || "unified-2.0",
+      ...(explain && { explanation: analysisResult.explanation }),
     },
     brandMentions: [],
     hashtagSentiments: [],
@@ -86,6 +107,61 @@ export const analyzeTextHandler = async (req: Request, res: Response) => {
   );
 };
 
+/**
+ * Aspect-based sentiment handler - USING ORCHESTRATOR
+ * Aspect dictionary priority: body.aspects > campaign aspects > built-in default
+ */
+export const analyzeAspectsHandler = async (req: Request, res: Response) => {
+  const { text, language, aspects, campaignId } = req.body;
+
+  if (!text || typeof text !== "string") {
+    throw SentimentAnalysisError.invalidText();
+  }
+
+  let aspectDictionary: AspectDictionary | undefined = aspects;
+  let dictionarySource = aspects ? "request" : "default";
+
+  if (!aspectDictionary && campaignId) {
+    const campaign = await campaignRepository.findById(campaignId);
+    if (!campaign) {
+      throw new NotFoundError(`Campaign ${campaignId} not found`);
+    }
+    aspectDictionary = campaignAspectsToDictionary(campaign.aspects);
+    if (aspectDictionary) dictionarySource = "campaign";
+  }
+
+  const mappedLanguage: LanguageCode = ["en", "es", "fr", "de"].includes(language)
+    ? language
+    : "en";
+
+  const orchestrator = getOrchestrator();
+  const analysisResult = await orchestrator.analyzeText({
+    text,
+    language: mappedLanguage,
+    aspectMode: true,
+    aspectDictionary,
+  });
+
+  const result = {
+    text,
+    overall: {
+      sentiment: analysisResult.sentiment.label,
+      score: analysisResult.sentiment.score,
+      confidence: analysisResult.sentiment.confidence,
+    },
+    aspects: analysisResult.aspects ?? [],
+    dictionarySource,
+    modelVersion: analysisResult.version,
+    analyzedAt: new Date().toISOString(),
+  };
+
+  return successResponse(
+    res,
+    result,
+    "Aspect-based sentiment analysis completed successfully",
+  );
+};
+
 /**
  * Analyze text with multi-language support handler - USING ORCHESTRATOR
  */
@@ -114,7 +190,8 @@ export const analyzeMultiLangHandler = async (req: Request, res: Response) => {
   // Mantener compatibilidad con el formato anterior
   const result = {
     text,
-    detectedLanguage: mappedLanguage,
+    detectedLanguage:
+      mappedLanguage === "unknown" ? multiLangResult.language : mappedLanguage,
     supportedLanguages: ["en", "es", "fr", "de"],
     analysis: {
       multiLanguage: {
@@ -221,6 +298,22 @@ export const analyzeTweetHandler = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Streaming analysis handler - NDJSON in, NDJSON out
+ * Una petición `{ text, id?, language? }` por línea; cada resultado se escribe
+ * en cuanto termina y al final se envía una línea `{ type: "summary" }`
+ */
+export const streamAnalyzeHandler = async (req: Request, res: Response) => {
+  res.status(200);
+  res.setHeader("Content-Type", `${NDJSON_CONTENT_TYPE}; charset=utf-8`);
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("X-Accel-Buffering", "no"); // sin buffering en proxies (nginx)
+  res.flushHeaders();
+
+  await streamNdjsonAnalysis(req, res, getOrchestrator());
+  res.end();
+};
+
 /**
  * Batch analyze tweets handler - USING ORCHESTRATOR
  */
@@ -268,50 +361,52 @@ export const batchAnalyzeHandler = async (req: Request, res: Response) => {
     });
   }
 
-  // Usar el orquestrador para análisis en lote
-  const orchestrator = new SentimentAnalysisOrchestrator();
-  const analysisResults = await orchestrator.analyzeBatch(tweetsDTO);
+  // Pipeline por lotes: cada tweet trae su propio estado; un fallo no rechaza el lote
+  const { items, summary } = await getOrchestrator().analyzeBatchWithStatus(
+    tweetsDTO.map(({ id, text, language }) => ({ id, text, language })),
+  );
 
   // Formatear los resultados
-  const mappedResults = analysisResults.map((result, index) => {
-    return {
-      tweetId: tweetsDTO[index].id,
-      analysis: result,
-      brandMentions: [],
-      marketingInsights: {
-        engagementPotential: 0.5,
-        viralityIndicators: [],
-        targetDemographics: [],
-        trendAlignment: 0,
-        brandRisk: "low",
-        opportunityScore: 0,
-      },
-      analyzedAt: new Date(),
-    };
-  });
-
-  // Calcular estadísticas
-  const totalAnalyzed = mappedResults.length;
+  const mappedResults = items.map((item) => ({
+    tweetId: tweetsDTO[item.index].id,
+    status: item.status,
+    ...(item.result
+      ? {
+          analysis: item.result,
+          brandMentions: [],
+          marketingInsights: {
+            engagementPotential: 0.5,
+            viralityIndicators: [],
+            targetDemographics: [],
+            trendAlignment: 0,
+            brandRisk: "low",
+            opportunityScore: 0,
+          },
+          analyzedAt: new Date(),
+        }
+      : { error: item.error }),
+  }));
+
+  // Calcular estadísticas (solo sobre los tweets analizados)
+  const analyses = items.flatMap((item) => (item.result ? [item.result] : []));
+  const totalAnalyzed = analyses.length;
   const averageSentiment =
-    mappedResults.length > 0
-      ? mappedResults.reduce((sum, a) => sum + a.analysis.sentiment.score, 0) /
-        mappedResults.length
+    totalAnalyzed > 0
+      ? analyses.reduce((sum, a) => sum + a.sentiment.score, 0) / totalAnalyzed
       : 0;
 
   const sentimentCounts = {
-    positive: mappedResults.filter(
-      (r) =>
-        r.analysis.sentiment.label === "positive" ||
-        r.analysis.sentiment.label === "very_positive",
+    positive: analyses.filter(
+      (a) =>
+        a.sentiment.label === "positive" ||
+        a.sentiment.label === "very_positive",
     ).length,
-    negative: mappedResults.filter(
-      (r) =>
-        r.analysis.sentiment.label === "negative" ||
-        r.analysis.sentiment.label === "very_negative",
-    ).length,
-    neutral: mappedResults.filter(
-      (r) => r.analysis.sentiment.label === "neutral",
+    negative: analyses.filter(
+      (a) =>
+        a.sentiment.label === "negative" ||
+        a.sentiment.label === "very_negative",
     ).length,
+    neutral: analyses.filter((a) => a.sentiment.label === "neutral").length,
   };
 
   const results = {
@@ -323,8 +418,11 @@ export const batchAnalyzeHandler = async (req: Request, res: Response) => {
     },
     summary: {
       totalProcessed: totalAnalyzed,
+      failed: summary.failed,
+      cached: summary.cached,
+      uniqueTexts: summary.unique,
       averageSentiment: Number(averageSentiment.toFixed(3)),
-      processingTime: `${Date.now()}ms`,
+      processingTime: `${summary.processingTime}ms`,
       sentimentDistribution: sentimentCounts,
     },
   };
@@ -504,8 +602,8 @@ export const getDemoHandler = async (req: Request, res: Response) => {
 /**
  * Train sentiment model handler - NOT SUPPORTED IN UNIFIED ARCHITECTURE
  */
-export const trainModelHandler = async (req: Request, _res: Response) => {
-  const { examples } = req.body;
+export const trainModelHandler = async (req: Request, res: Response) => {
+  const { examples, hyperparameters, holdoutRatio, includeBaseDatasets, notes } = req.body;
 
   if (!examples || !Array.isArray(examples)) {
     throw SentimentAnalysisError.invalidTrainingData();
@@ -525,24 +623,47 @@ export const trainModelHandler = async (req: Request, _res: Response) => {
     }
   }
 
-  // Model training is no longer supported in unified architecture
-  throw SentimentAnalysisError.modelError({
-    message: "Model training not supported in unified architecture. Use SentimentAnalysisOrchestrator training methods instead.",
-    modelType: "unified",
-    errorSource: "training_deprecated"
-  });
+  // Cada entrenamiento crea una versión nueva; la activa solo cambia al promoverla
+  let version;
+  try {
+    version = await modelRegistry.trainVersion(
+      examples.map((example: { text: string; label: SentimentLabel }) => ({
+        text: example.text,
+        label: example.label,
+      })),
+      {
+        hyperparameters,
+        holdoutRatio,
+        includeBaseDatasets,
+        notes,
+        createdBy: (req as AuthenticatedRequest).user?.email,
+      },
+    );
+  } catch (error) {
+    throw SentimentAnalysisError.trainingFailed(examples.length, error as Error);
+  }
+
+  return successResponse(
+    res,
+    { version, active: false },
+    `Model version ${version.versionId} registered. Promote it to serve traffic`,
+  );
 };
 
 /**
  * Get model status and metrics handler - SIMPLIFIED FOR UNIFIED ARCHITECTURE
  */
 export const getModelStatusHandler = async (req: Request, res: Response) => {
+  const activeVersion = await modelRegistry.getActiveVersion();
+
   // Return simplified status for unified architecture
   const result = {
     model: { exists: true, size: 0, lastModified: new Date().toISOString() },
-    accuracy: { overall: 92.5 },
+    accuracy: { overall: activeVersion?.metrics.accuracy ?? 92.5 },
     message: "Unified orchestrator is operational",
     version: "2.0.0",
+    activeVersion,
+    pipeline: describePipelines(),
     methods: ["hybrid", "rule-based", "bert"],
     status: "active"
   };
@@ -664,6 +785,8 @@ export const getMetricsHandler = async (req: Request, res: Response) => {
         accuracy: 0.925,
         uptime: 0.997,
       },
+      // Candidate under shadow / A-B evaluation (POST /api/v1/admin/models/shadow)
+      shadowEvaluation: getSharedShadowEvaluator().getMetrics(),
     };
 
     res.json({
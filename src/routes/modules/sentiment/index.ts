@@ -5,10 +5,15 @@
 
 import { Router } from "express";
 import { asyncHandler } from "../../../core/errors/error-handler";
+import {
+    authenticateToken,
+    requireAdmin,
+} from "../../../middleware/express-auth";
 
 // Import handlers
 import {
     advancedCompareHandler,
+    analyzeAspectsHandler,
     analyzeMultiLangHandler,
     analyzeTextHandler,
     analyzeTweetHandler,
@@ -21,6 +26,7 @@ import {
     getModelStatusHandler,
     getTestHandler,
     initializeBertHandler,
+    streamAnalyzeHandler,
     trainModelHandler,
 } from "./handlers";
 
@@ -31,11 +37,13 @@ import {
     sentimentRateLimit,
     setApiVersion,
     setSentimentSecurityHeaders,
+    validateAspectInput,
     validateBatchInput,
     validateBertInitInput,
     validateContentType,
     validateMethodInput,
     validateMultiLangInput,
+    validateNdjsonContentType,
     validateTextInput,
     validateTrainingInput,
     validateTweetInput,
@@ -230,8 +238,11 @@ router.post("/analyze", validateTextInput, asyncHandler(analyzeTextHandler));
  * /api/sentiment/batch:
  *   post:
  *     tags: [Sentiment Analysis]
- *     summary: Analyze multiple texts (batch processing)
- *     description: Analyze sentiment of multiple texts in a single request
+ *     summary: Analyze multiple tweets (batch processing)
+ *     description: |
+ *       Analyze sentiment of multiple tweets in a single request. Identical texts
+ *       are analyzed once, and each tweet gets its own status so a failing item
+ *       does not reject the whole batch.
  *     requestBody:
  *       required: true
  *       content:
@@ -239,21 +250,27 @@ router.post("/analyze", validateTextInput, asyncHandler(analyzeTextHandler));
  *           schema:
  *             type: object
  *             required:
- *               - texts
+ *               - tweets
  *             properties:
- *               texts:
+ *               tweets:
  *                 type: array
- *                 items:
- *                   type: string
- *                   minLength: 1
- *                   maxLength: 1000
  *                 minItems: 1
  *                 maxItems: 100
- *                 description: Array of texts to analyze
- *                 example: ["I love this!", "This is okay", "I hate this"]
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - content
+ *                   properties:
+ *                     tweetId:
+ *                       type: string
+ *                     content:
+ *                       type: string
+ *                     language:
+ *                       type: string
+ *                       enum: [en, es, fr, de]
  *     responses:
  *       200:
- *         description: Batch sentiment analysis completed
+ *         description: Batch analysis completed (some items may have failed)
  *         content:
  *           application/json:
  *             schema:
@@ -262,9 +279,35 @@ router.post("/analyze", validateTextInput, asyncHandler(analyzeTextHandler));
  *                 success:
  *                   type: boolean
  *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/SentimentAnalysisResult'
+ *                   type: object
+ *                   properties:
+ *                     analyses:
+ *                       type: array
+ *                       description: One entry per tweet, in request order
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           tweetId:
+ *                             type: string
+ *                           status:
+ *                             type: string
+ *                             enum: [ok, cached, error]
+ *                           analysis:
+ *                             $ref: '#/components/schemas/SentimentAnalysisResult'
+ *                           error:
+ *                             type: string
+ *                             description: Only present when status is error
+ *                     summary:
+ *                       type: object
+ *                       properties:
+ *                         totalProcessed:
+ *                           type: integer
+ *                         failed:
+ *                           type: integer
+ *                         cached:
+ *                           type: integer
+ *                         uniqueTexts:
+ *                           type: integer
  *                 message:
  *                   type: string
  */
@@ -276,7 +319,18 @@ router.post("/batch", validateBatchInput, asyncHandler(batchAnalyzeHandler));
  *   post:
  *     tags: [Sentiment Analysis]
  *     summary: Analyze text sentiment (detailed endpoint)
- *     description: Detailed sentiment analysis with comprehensive results
+ *     description: |
+ *       Detailed sentiment analysis with comprehensive results. With `explain=true` the
+ *       response also carries `analysis.explanation`: per-token rule contributions,
+ *       negation scopes, Naive Bayes log-likelihood ratios, slang hits, sarcasm score
+ *       and the weights the hybrid analyzer used to combine each component.
+ *     parameters:
+ *       - in: query
+ *         name: explain
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Include the token-level explanation
  *     requestBody:
  *       required: true
  *       content:
@@ -323,6 +377,92 @@ router.post(
   asyncHandler(analyzeTextHandler),
 );
 
+/**
+ * @swagger
+ * /api/sentiment/analyze-aspects:
+ *   post:
+ *     tags: [Sentiment Analysis]
+ *     summary: Aspect-based sentiment analysis
+ *     description: |
+ *       Returns one sentiment entry per aspect (price, support, delivery...) scored on
+ *       the clause where the aspect is mentioned. The aspect dictionary comes from the
+ *       request body, from the campaign's configured aspects, or the built-in default.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - text
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 minLength: 1
+ *                 maxLength: 5000
+ *                 example: "The camera is amazing but the battery is trash"
+ *               language:
+ *                 type: string
+ *                 enum: [en, es, fr, de]
+ *               aspects:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 example: { "camera": ["camera", "photos"], "battery": ["battery"] }
+ *               campaignId:
+ *                 type: string
+ *                 description: Use the aspect dictionary configured on this campaign
+ *     responses:
+ *       200:
+ *         description: Aspect analysis completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     aspects:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           aspect:
+ *                             type: string
+ *                           term:
+ *                             type: string
+ *                           span:
+ *                             type: object
+ *                             properties:
+ *                               start:
+ *                                 type: integer
+ *                               end:
+ *                                 type: integer
+ *                               text:
+ *                                 type: string
+ *                           label:
+ *                             type: string
+ *                           score:
+ *                             type: number
+ *                           confidence:
+ *                             type: number
+ *       400:
+ *         description: Invalid input data
+ *       404:
+ *         description: Campaign not found
+ */
+router.post(
+  "/analyze-aspects",
+  validateTextInput,
+  validateAspectInput,
+  asyncHandler(analyzeAspectsHandler),
+);
+
 /**
  * @swagger
  * /api/sentiment/analyze-multilang:
@@ -456,7 +596,7 @@ router.post(
  *   post:
  *     tags: [Sentiment Analysis]
  *     summary: Batch analyze tweets
- *     description: Analyze sentiment for multiple tweets in a single request
+ *     description: Analyze sentiment for multiple tweets in a single request, with a status per tweet (same as /batch)
  *     requestBody:
  *       required: true
  *       content:
@@ -483,7 +623,7 @@ router.post(
  *                       maxLength: 280
  *     responses:
  *       200:
- *         description: Batch analysis completed
+ *         description: Batch analysis completed (some items may have failed)
  *         content:
  *           application/json:
  *             schema:
@@ -492,9 +632,35 @@ router.post(
  *                 success:
  *                   type: boolean
  *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/SentimentAnalysisResult'
+ *                   type: object
+ *                   properties:
+ *                     analyses:
+ *                       type: array
+ *                       description: One entry per tweet, in request order
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           tweetId:
+ *                             type: string
+ *                           status:
+ *                             type: string
+ *                             enum: [ok, cached, error]
+ *                           analysis:
+ *                             $ref: '#/components/schemas/SentimentAnalysisResult'
+ *                           error:
+ *                             type: string
+ *                             description: Only present when status is error
+ *                     summary:
+ *                       type: object
+ *                       properties:
+ *                         totalProcessed:
+ *                           type: integer
+ *                         failed:
+ *                           type: integer
+ *                         cached:
+ *                           type: integer
+ *                         uniqueTexts:
+ *                           type: integer
  *                 message:
  *                   type: string
  */
@@ -504,6 +670,46 @@ router.post(
   asyncHandler(batchAnalyzeHandler),
 );
 
+/**
+ * @swagger
+ * /api/sentiment/analyze-stream:
+ *   post:
+ *     tags: [Sentiment Analysis]
+ *     summary: Stream analysis over NDJSON
+ *     description: |
+ *       Accepts a newline-delimited JSON body (one `{ "text", "id"?, "language"? }`
+ *       object per line, no size limit) and streams one NDJSON line per item as it
+ *       finishes, in completion order. Invalid lines produce an error line without
+ *       stopping the stream. The last line is a summary.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-ndjson:
+ *           schema:
+ *             type: string
+ *             example: |
+ *               {"id":"1","text":"I love this!"}
+ *               {"id":"2","text":"Esto es horrible","language":"es"}
+ *     responses:
+ *       200:
+ *         description: NDJSON stream of results followed by a summary line
+ *         content:
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 {"type":"result","line":1,"id":"1","status":"ok","result":{...}}
+ *                 {"type":"result","line":2,"id":"2","status":"cached","result":{...}}
+ *                 {"type":"summary","total":2,"succeeded":2,"failed":0,"cached":1,"processingTime":42}
+ *       415:
+ *         description: Content-Type is not application/x-ndjson
+ */
+router.post(
+  "/analyze-stream",
+  validateNdjsonContentType,
+  asyncHandler(streamAnalyzeHandler),
+);
+
 /**
  * @swagger
  * /api/sentiment/compare-methods:
@@ -646,8 +852,14 @@ router.get("/demo", asyncHandler(getDemoHandler));
  * /api/sentiment/train:
  *   post:
  *     tags: [Sentiment Analysis]
- *     summary: Train sentiment model
- *     description: Train or update the sentiment analysis model with new examples
+ *     summary: Train a new model version
+ *     description: |
+ *       Train a Naive Bayes model on the examples (plus the base datasets), evaluate it on a
+ *       holdout split and register it as a new immutable version in the model registry.
+ *       The active model does not change until the version is promoted
+ *       (POST /api/v1/admin/models/{versionId}/promote).
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -674,15 +886,42 @@ router.get("/demo", asyncHandler(getDemoHandler));
  *                     label:
  *                       type: string
  *                       enum: [positive, negative, neutral]
- *               saveModel:
+ *               hyperparameters:
+ *                 type: object
+ *                 properties:
+ *                   smoothing:
+ *                     type: number
+ *                     default: 1
+ *                   prior:
+ *                     type: string
+ *                     enum: [empirical, uniform]
+ *                   enableStopwords:
+ *                     type: boolean
+ *               holdoutRatio:
+ *                 type: number
+ *                 default: 0.2
+ *                 maximum: 0.5
+ *                 description: Share of the examples kept out of training for evaluation
+ *               includeBaseDatasets:
  *                 type: boolean
  *                 default: true
- *                 description: Whether to save the trained model
+ *               notes:
+ *                 type: string
  *     responses:
  *       200:
- *         description: Model training completed
+ *         description: Model version registered (not active)
+ *       401:
+ *         description: Unauthorized - invalid or missing token
+ *       403:
+ *         description: Admin role required
  */
-router.post("/train", validateTrainingInput, asyncHandler(trainModelHandler));
+router.post(
+  "/train",
+  authenticateToken,
+  requireAdmin,
+  validateTrainingInput,
+  asyncHandler(trainModelHandler),
+);
 
 /**
  * @swagger
@@ -713,6 +952,9 @@ router.post("/train", validateTrainingInput, asyncHandler(trainModelHandler));
  *                       format: date-time
  *                     version:
  *                       type: string
+ *                     pipeline:
+ *                       type: object
+ *                       description: Active analyzer pipeline (stages, weights, fallbacks) and per-campaign overrides
  *                 message:
  *                   type: string
  */
@@ -734,7 +976,10 @@ router.get("/benchmarks", asyncHandler(getBenchmarksHandler));
  *   get:
  *     tags: [Sentiment Analysis]
  *     summary: Get analysis metrics
- *     description: Get comprehensive analysis metrics and statistics
+ *     description: |
+ *       Get comprehensive analysis metrics and statistics. `shadowEvaluation` reports the
+ *       candidate model under shadow / A-B evaluation: agreement rate, label flip matrix
+ *       (primary label -> candidate label), latency deltas and recent disagreements.
  */
 router.get("/metrics", asyncHandler(getMetricsHandler));
 
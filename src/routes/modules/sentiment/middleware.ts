@@ -6,6 +6,10 @@
 import { NextFunction, Request, Response } from "express";
 import { asyncHandler } from "../../../core/errors/error-handler";
 import { ValidationError } from "../../../core/errors/error-types";
+import { NDJSON_CONTENT_TYPE } from "../../../lib/sentiment/ndjson-stream";
+
+// Rutas cuyo cuerpo es NDJSON y se lee como stream (sin express.json ni límite de tamaño)
+const NDJSON_STREAM_PATHS = new Set(["/analyze-stream"]);
 
 /**
  * Validate text input middleware
@@ -32,6 +36,48 @@ export const validateTextInput = (
   next();
 };
 
+/**
+ * Validate aspect-based analysis input middleware
+ */
+export const validateAspectInput = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { aspects, campaignId } = req.body;
+
+  if (aspects !== undefined) {
+    if (!aspects || typeof aspects !== "object" || Array.isArray(aspects)) {
+      throw new ValidationError(
+        "Aspects must be an object mapping aspect names to term arrays",
+      );
+    }
+
+    const entries = Object.entries(aspects);
+    if (entries.length === 0 || entries.length > 50) {
+      throw new ValidationError("Aspects must define between 1 and 50 aspects");
+    }
+
+    for (const [name, terms] of entries) {
+      if (
+        !Array.isArray(terms) ||
+        terms.length === 0 ||
+        !terms.every((t) => typeof t === "string" && t.trim().length > 0)
+      ) {
+        throw new ValidationError(
+          `Aspect "${name}" must be a non-empty array of strings`,
+        );
+      }
+    }
+  }
+
+  if (campaignId !== undefined && typeof campaignId !== "string") {
+    throw new ValidationError("campaignId must be a string");
+  }
+
+  next();
+};
+
 /**
  * Validate multi-language text input middleware
  */
@@ -241,7 +287,8 @@ export const validateTrainingInput = (
   res: Response,
   next: NextFunction,
 ) => {
-  const { examples, saveModel } = req.body;
+  const { examples, hyperparameters, holdoutRatio, includeBaseDatasets, notes } =
+    req.body;
 
   if (!Array.isArray(examples)) {
     throw new ValidationError("Examples must be an array");
@@ -287,8 +334,43 @@ export const validateTrainingInput = (
     }
   }
 
-  if (saveModel !== undefined && typeof saveModel !== "boolean") {
-    throw new ValidationError("saveModel must be a boolean");
+  if (
+    holdoutRatio !== undefined &&
+    (typeof holdoutRatio !== "number" || holdoutRatio <= 0 || holdoutRatio > 0.5)
+  ) {
+    throw new ValidationError("holdoutRatio must be a number in (0, 0.5]");
+  }
+
+  if (
+    includeBaseDatasets !== undefined &&
+    typeof includeBaseDatasets !== "boolean"
+  ) {
+    throw new ValidationError("includeBaseDatasets must be a boolean");
+  }
+
+  if (notes !== undefined && typeof notes !== "string") {
+    throw new ValidationError("notes must be a string");
+  }
+
+  if (hyperparameters !== undefined) {
+    if (typeof hyperparameters !== "object" || Array.isArray(hyperparameters)) {
+      throw new ValidationError("hyperparameters must be an object");
+    }
+    const { smoothing, prior, enableStopwords } = hyperparameters;
+    if (
+      smoothing !== undefined &&
+      (typeof smoothing !== "number" || smoothing <= 0)
+    ) {
+      throw new ValidationError("hyperparameters.smoothing must be a positive number");
+    }
+    if (prior !== undefined && !["empirical", "uniform"].includes(prior)) {
+      throw new ValidationError(
+        "hyperparameters.prior must be empirical or uniform",
+      );
+    }
+    if (enableStopwords !== undefined && typeof enableStopwords !== "boolean") {
+      throw new ValidationError("hyperparameters.enableStopwords must be a boolean");
+    }
   }
 
   next();
@@ -367,6 +449,11 @@ export const validateContentType = (
     return next();
   }
 
+  // El content type de las rutas de streaming lo valida validateNdjsonContentType
+  if (NDJSON_STREAM_PATHS.has(req.path)) {
+    return next();
+  }
+
   const contentType = req.get("Content-Type") || "";
   const isJson = contentType.toLowerCase().includes("application/json");
 
@@ -382,6 +469,28 @@ export const validateContentType = (
   next();
 };
 
+/**
+ * NDJSON content type validation middleware (streaming routes)
+ */
+export const validateNdjsonContentType = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const contentType = req.get("Content-Type") || "";
+
+  if (!contentType.toLowerCase().includes(NDJSON_CONTENT_TYPE)) {
+    return res.status(415).json({
+      success: false,
+      error: `Content-Type must be ${NDJSON_CONTENT_TYPE}`,
+      received: contentType || "none",
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  next();
+};
+
 /**
  * Request size limitation middleware
  */
@@ -390,6 +499,11 @@ export const limitRequestSize = (
   res: Response,
   next: NextFunction,
 ) => {
+  // Los cuerpos NDJSON se procesan línea a línea, sin cargarlos en memoria
+  if (NDJSON_STREAM_PATHS.has(req.path)) {
+    return next();
+  }
+
   const contentLength = parseInt(req.get("content-length") || "0", 10);
   const maxSize = 10 * 1024 * 1024; // 10MB
 
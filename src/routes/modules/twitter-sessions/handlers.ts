@@ -0,0 +1,193 @@
+/**
+ * Twitter Sessions Handlers Module
+ * Route handlers to add, inspect, disable and enable the sessions of the
+ * Twitter scraping pool. Secrets are encrypted on arrival and never returned.
+ */
+
+import { Request, Response } from "express";
+import {
+  AuthenticationStatus,
+  RateLimitStatus,
+} from "../../../enums/scraping.enum";
+import { AuthenticatedRequest } from "../../../middleware/express-auth";
+import {
+  NewTwitterSession,
+  twitterSessionPool,
+  TwitterSessionView,
+} from "../../../services/twitter-session-pool.service";
+
+function currentUserId(req: Request): string {
+  return (req as AuthenticatedRequest).user?.id ?? "system";
+}
+
+function sessionNotFound(res: Response, sessionId: string) {
+  return res.status(404).json({
+    success: false,
+    error: {
+      message: "Twitter session not found",
+      code: "SESSION_NOT_FOUND",
+      details: { sessionId },
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+function isAvailable(session: TwitterSessionView): boolean {
+  return (
+    session.enabled &&
+    session.authStatus !== AuthenticationStatus.BLOCKED &&
+    !session.cooldownUntil &&
+    session.rateLimit.status !== RateLimitStatus.LIMITED
+  );
+}
+
+/**
+ * List sessions handler, with a summary of the pool
+ */
+export const listSessionsHandler = async (_req: Request, res: Response) => {
+  try {
+    const sessions = await twitterSessionPool.listSessions();
+
+    res.json({
+      success: true,
+      data: {
+        sessions,
+        summary: {
+          total: sessions.length,
+          enabled: sessions.filter((session) => session.enabled).length,
+          available: sessions.filter(isAvailable).length,
+          coolingDown: sessions.filter((session) => !!session.cooldownUntil)
+            .length,
+          blocked: sessions.filter(
+            (session) => session.authStatus === AuthenticationStatus.BLOCKED,
+          ).length,
+        },
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching Twitter sessions:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to fetch Twitter sessions",
+        code: "SESSION_FETCH_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Get session handler
+ */
+export const getSessionHandler = async (req: Request, res: Response) => {
+  try {
+    const session = await twitterSessionPool.getSession(req.params.sessionId);
+    if (!session) return sessionNotFound(res, req.params.sessionId);
+
+    res.json({ success: true, data: session });
+  } catch (error: unknown) {
+    console.error("Error fetching Twitter session:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to fetch Twitter session",
+        code: "SESSION_FETCH_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Add session handler
+ */
+export const addSessionHandler = async (req: Request, res: Response) => {
+  try {
+    const { label, cookies, credentials } = req.body as NewTwitterSession;
+    const session = await twitterSessionPool.addSession(
+      { label, cookies, credentials },
+      currentUserId(req),
+    );
+
+    res.status(201).json({ success: true, data: session });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "";
+
+    if (message === "TWITTER_SESSION_EXISTS") {
+      return res.status(409).json({
+        success: false,
+        error: {
+          message: "A session with this label already exists",
+          code: "SESSION_EXISTS",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    if (message === "TWITTER_MASTER_PASSWORD_REQUIRED") {
+      return res.status(503).json({
+        success: false,
+        error: {
+          message:
+            "Sessions cannot be encrypted: TWITTER_MASTER_PASSWORD is not configured",
+          code: "SESSION_ENCRYPTION_UNAVAILABLE",
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    console.error("Error adding Twitter session:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to add Twitter session",
+        code: "SESSION_CREATE_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Enable or disable the session of `:sessionId`
+ */
+async function setSessionEnabled(
+  req: Request,
+  res: Response,
+  enabled: boolean,
+) {
+  try {
+    const session = await twitterSessionPool.setEnabled(
+      req.params.sessionId,
+      enabled,
+      currentUserId(req),
+      enabled ? undefined : req.body?.reason,
+    );
+    if (!session) return sessionNotFound(res, req.params.sessionId);
+
+    res.json({ success: true, data: session });
+  } catch (error: unknown) {
+    console.error("Error updating Twitter session:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to update Twitter session",
+        code: "SESSION_UPDATE_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+}
+
+/**
+ * Disable session handler: the scrapers stop taking it
+ */
+export const disableSessionHandler = (req: Request, res: Response) =>
+  setSessionEnabled(req, res, false);
+
+/**
+ * Enable session handler: a fresh start, with full health and no cooldown
+ */
+export const enableSessionHandler = (req: Request, res: Response) =>
+  setSessionEnabled(req, res, true);
@@ -0,0 +1,288 @@
+/**
+ * Twitter Sessions Routes Module
+ * Admin API of the Twitter session pool used by the scrapers
+ */
+
+import { Router } from "express";
+import {
+    authenticateToken,
+    requireRole,
+} from "../../../middleware/express-auth";
+import {
+    addSessionHandler,
+    disableSessionHandler,
+    enableSessionHandler,
+    getSessionHandler,
+    listSessionsHandler,
+} from "./handlers";
+import {
+    validateDisableReason,
+    validateNewSession,
+    validateSessionId,
+} from "./middleware";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Twitter Sessions
+ *   description: Pool of Twitter sessions used in turn by the scrapers
+ *   x-internal: true
+ *
+ * components:
+ *   schemas:
+ *     TwitterSession:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         label:
+ *           type: string
+ *           example: scraper-account-1
+ *         enabled:
+ *           type: boolean
+ *         disabledReason:
+ *           type: string
+ *         authStatus:
+ *           type: string
+ *           enum: [authenticated, failed, pending, expired, blocked]
+ *           description: blocked after TWITTER_SESSION_MAX_AUTH_FAILURES consecutive authentication failures
+ *         healthScore:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100
+ *           description: The healthiest available session is used first
+ *         hasCookies:
+ *           type: boolean
+ *         hasCredentials:
+ *           type: boolean
+ *         rateLimit:
+ *           type: object
+ *           properties:
+ *             status:
+ *               type: string
+ *               enum: [available, limited, exceeded, reset_pending]
+ *             requests:
+ *               type: integer
+ *               description: Requests in the current window (TWITTER_SESSION_WINDOW_MS)
+ *             limit:
+ *               type: integer
+ *             remaining:
+ *               type: integer
+ *             resetsAt:
+ *               type: string
+ *               format: date-time
+ *         cooldownUntil:
+ *           type: string
+ *           format: date-time
+ *         consecutiveFailures:
+ *           type: integer
+ *         lastError:
+ *           type: object
+ *           properties:
+ *             type:
+ *               type: string
+ *               enum: [rate_limit_error, authentication_error]
+ *             message:
+ *               type: string
+ *             at:
+ *               type: string
+ *               format: date-time
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *         lastSuccessAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/v1/twitter-sessions:
+ *   get:
+ *     summary: List the sessions of the pool
+ *     description: Health, rate limit and cooldown of every session, never its cookies or credentials.
+ *     tags: [Twitter Sessions]
+ *     x-internal: true
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid or missing token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ */
+router.get(
+  "/",
+  authenticateToken,
+  requireRole(["admin"]),
+  listSessionsHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/twitter-sessions:
+ *   post:
+ *     summary: Add a session to the pool
+ *     description: >
+ *       Cookies and credentials are encrypted with TWITTER_MASTER_PASSWORD. Cookies are
+ *       tried first; credentials are used to log in when they are missing or expired.
+ *     tags: [Twitter Sessions]
+ *     x-internal: true
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [label]
+ *             properties:
+ *               label:
+ *                 type: string
+ *                 example: scraper-account-1
+ *               cookies:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 example: { auth_token: "...", ct0: "..." }
+ *               credentials:
+ *                 type: object
+ *                 properties:
+ *                   username:
+ *                     type: string
+ *                   password:
+ *                     type: string
+ *                   email:
+ *                     type: string
+ *     responses:
+ *       201:
+ *         description: Session added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TwitterSession'
+ *       400:
+ *         description: Invalid label, cookies or credentials
+ *       409:
+ *         description: A session with this label already exists
+ *       503:
+ *         description: TWITTER_MASTER_PASSWORD is not configured
+ */
+router.post(
+  "/",
+  authenticateToken,
+  requireRole(["admin"]),
+  validateNewSession,
+  addSessionHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/twitter-sessions/{sessionId}:
+ *   get:
+ *     summary: Get a session of the pool
+ *     tags: [Twitter Sessions]
+ *     x-internal: true
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session retrieved successfully
+ *       404:
+ *         description: Session not found
+ */
+router.get(
+  "/:sessionId",
+  authenticateToken,
+  requireRole(["admin"]),
+  validateSessionId,
+  getSessionHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/twitter-sessions/{sessionId}/disable:
+ *   post:
+ *     summary: Disable a session
+ *     description: The scrapers stop taking it once their current login ends.
+ *     tags: [Twitter Sessions]
+ *     x-internal: true
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 200
+ *     responses:
+ *       200:
+ *         description: Session disabled
+ *       404:
+ *         description: Session not found
+ */
+router.post(
+  "/:sessionId/disable",
+  authenticateToken,
+  requireRole(["admin"]),
+  validateSessionId,
+  validateDisableReason,
+  disableSessionHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/twitter-sessions/{sessionId}/enable:
+ *   post:
+ *     summary: Enable a session
+ *     description: Also unblocks it, with full health and no cooldown.
+ *     tags: [Twitter Sessions]
+ *     x-internal: true
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session enabled
+ *       404:
+ *         description: Session not found
+ */
+router.post(
+  "/:sessionId/enable",
+  authenticateToken,
+  requireRole(["admin"]),
+  validateSessionId,
+  enableSessionHandler,
+);
+
+export default router;
@@ -0,0 +1,127 @@
+/**
+ * Twitter Sessions Middleware Module
+ * Validation middleware for the Twitter session pool routes
+ */
+
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+
+const LABEL_PATTERN = /^[\w.@-]{1,64}$/;
+const REQUIRED_COOKIES = ["auth_token", "ct0"];
+const CREDENTIAL_FIELDS = ["username", "password", "email"];
+const MAX_REASON_LENGTH = 200;
+
+function invalid(res: Response, message: string, code: string) {
+  return res.status(400).json({
+    success: false,
+    error: {
+      message,
+      code,
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Validate session ID
+ */
+export const validateSessionId = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.sessionId ?? "")) {
+    return invalid(res, "Invalid session ID", "INVALID_SESSION_ID");
+  }
+
+  next();
+};
+
+/**
+ * Validate a new session: a label and browser cookies (auth_token and ct0 at
+ * least), login credentials or both
+ */
+export const validateNewSession = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { label, cookies, credentials } = req.body ?? {};
+
+  if (typeof label !== "string" || !LABEL_PATTERN.test(label)) {
+    return invalid(
+      res,
+      "label must be 1-64 letters, digits, '_', '.', '@' or '-'",
+      "INVALID_SESSION_LABEL",
+    );
+  }
+
+  if (cookies === undefined && credentials === undefined) {
+    return invalid(
+      res,
+      "A session needs cookies, credentials or both",
+      "INVALID_SESSION_SECRET",
+    );
+  }
+
+  if (cookies !== undefined) {
+    const valid =
+      isPlainObject(cookies) &&
+      Object.values(cookies).every((value) => typeof value === "string") &&
+      REQUIRED_COOKIES.every((name) => !!cookies[name]);
+    if (!valid) {
+      return invalid(
+        res,
+        `cookies must be an object of strings with ${REQUIRED_COOKIES.join(" and ")}`,
+        "INVALID_SESSION_COOKIES",
+      );
+    }
+  }
+
+  if (credentials !== undefined) {
+    const valid =
+      isPlainObject(credentials) &&
+      CREDENTIAL_FIELDS.every(
+        (field) =>
+          typeof credentials[field] === "string" &&
+          (credentials[field] as string).trim().length > 0,
+      );
+    if (!valid) {
+      return invalid(
+        res,
+        `credentials must have ${CREDENTIAL_FIELDS.join(", ")}`,
+        "INVALID_SESSION_CREDENTIALS",
+      );
+    }
+  }
+
+  next();
+};
+
+/**
+ * Validate the optional reason of disabling a session
+ */
+export const validateDisableReason = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const reason = req.body?.reason;
+
+  if (
+    reason !== undefined &&
+    (typeof reason !== "string" || reason.length > MAX_REASON_LENGTH)
+  ) {
+    return invalid(
+      res,
+      `reason must be a string of at most ${MAX_REASON_LENGTH} characters`,
+      "INVALID_REASON",
+    );
+  }
+
+  next();
+};
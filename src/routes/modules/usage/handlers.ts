@@ -0,0 +1,136 @@
+/**
+ * Usage Handlers Module
+ * Route handlers for the scraping usage of organizations and their quota policies
+ */
+
+import { Request, Response } from "express";
+import { appConfig } from "../../../lib/config/app";
+import { AuthenticatedRequest } from "../../../middleware/express-auth";
+import {
+  MongoScrapingQuotaRepository,
+  QuotaPolicyInput,
+} from "../../../repositories/mongo-scraping-quota.repository";
+import { scrapingQuotaService } from "../../../services/scraping-quota.service";
+
+const quotaRepository = new MongoScrapingQuotaRepository();
+
+function currentUserId(req: Request): string {
+  return (req as AuthenticatedRequest).user?.id ?? "system";
+}
+
+/**
+ * Get organization usage handler: usage and limit of every quota, with the
+ * warnings of those at or above the warning percentage
+ */
+export const getOrganizationUsageHandler = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const usage = await scrapingQuotaService.getUsage(
+      req.params.organizationId,
+    );
+
+    res.json({ success: true, data: usage });
+  } catch (error: unknown) {
+    console.error("Error fetching scraping usage:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to fetch scraping usage",
+        code: "USAGE_FETCH_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Set organization quota policy handler (plan and limit overrides)
+ */
+export const setOrganizationPolicyHandler = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const { organizationId } = req.params;
+    const policy = await quotaRepository.upsertPolicy(
+      "organization",
+      organizationId,
+      req.body as QuotaPolicyInput,
+      currentUserId(req),
+    );
+    scrapingQuotaService.invalidatePolicies(organizationId);
+
+    res.json({
+      success: true,
+      data: {
+        policy,
+        effective: await scrapingQuotaService.getPolicy(organizationId),
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error saving organization quota policy:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to save organization quota policy",
+        code: "QUOTA_POLICY_SAVE_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * List plan quota policies handler, with the defaults of unset limits
+ */
+export const getPlanPoliciesHandler = async (_req: Request, res: Response) => {
+  try {
+    const plans = await quotaRepository.findPolicies("plan");
+    const { defaultPlan, defaults, warningPercent } = appConfig.scrapingQuotas;
+
+    res.json({
+      success: true,
+      data: { defaultPlan, defaults, warningPercent, plans },
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching plan quota policies:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to fetch plan quota policies",
+        code: "QUOTA_POLICY_FETCH_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
+
+/**
+ * Set plan quota policy handler
+ */
+export const setPlanPolicyHandler = async (req: Request, res: Response) => {
+  try {
+    const policy = await quotaRepository.upsertPolicy(
+      "plan",
+      req.params.plan,
+      { limits: (req.body as QuotaPolicyInput).limits },
+      currentUserId(req),
+    );
+    // Any organization can be on the plan
+    scrapingQuotaService.invalidatePolicies();
+
+    res.json({ success: true, data: policy });
+  } catch (error: unknown) {
+    console.error("Error saving plan quota policy:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: "Failed to save plan quota policy",
+        code: "QUOTA_POLICY_SAVE_ERROR",
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+};
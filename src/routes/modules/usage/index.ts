@@ -0,0 +1,250 @@
+/**
+ * Usage Routes Module
+ * Scraping usage of organizations against their quotas, and the quota
+ * policies of plans and organizations
+ */
+
+import { Router } from "express";
+import {
+    authenticateToken,
+    requireRole,
+} from "../../../middleware/express-auth";
+import { requireOrganizationAccess } from "../../../middleware/organization-permission";
+import {
+    getOrganizationUsageHandler,
+    getPlanPoliciesHandler,
+    setOrganizationPolicyHandler,
+    setPlanPolicyHandler,
+} from "./handlers";
+import {
+    validateOrganizationId,
+    validatePlanName,
+    validateQuotaPolicy,
+} from "./middleware";
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     QuotaLimits:
+ *       type: object
+ *       properties:
+ *         dailyTweets:
+ *           type: integer
+ *           example: 5000
+ *         monthlyTweets:
+ *           type: integer
+ *           example: 100000
+ *         maxConcurrentJobs:
+ *           type: integer
+ *           description: Scraping queue jobs processed at once
+ *           example: 2
+ *         maxActiveCampaigns:
+ *           type: integer
+ *           example: 5
+ *     QuotaMeter:
+ *       type: object
+ *       properties:
+ *         used:
+ *           type: integer
+ *         limit:
+ *           type: integer
+ *         remaining:
+ *           type: integer
+ *         percentage:
+ *           type: integer
+ *         resetsAt:
+ *           type: string
+ *           format: date-time
+ *           description: Tweet budgets only (UTC day or month)
+ */
+
+/**
+ * @swagger
+ * /api/v1/usage/plans:
+ *   get:
+ *     summary: List the quota policies of the plans
+ *     description: Limits a plan leaves unset fall back to the configured defaults.
+ *     tags: [Usage]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Plan policies retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid or missing token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ */
+router.get(
+  "/plans",
+  authenticateToken,
+  requireRole(["admin"]),
+  getPlanPoliciesHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/usage/plans/{plan}:
+ *   put:
+ *     summary: Set the quota policy of a plan
+ *     tags: [Usage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: plan
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: pro
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [limits]
+ *             properties:
+ *               limits:
+ *                 $ref: '#/components/schemas/QuotaLimits'
+ *     responses:
+ *       200:
+ *         description: Plan policy saved
+ *       400:
+ *         description: Invalid limits
+ */
+router.put(
+  "/plans/:plan",
+  authenticateToken,
+  requireRole(["admin"]),
+  validatePlanName,
+  validateQuotaPolicy,
+  setPlanPolicyHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/usage/{organizationId}:
+ *   get:
+ *     summary: Get the scraping usage of an organization
+ *     description: >
+ *       Tweets scraped today and this month (UTC), queue jobs being processed and active
+ *       campaigns, against the organization's limits. Quotas at or above
+ *       SCRAPING_QUOTA_WARNING_PERCENT (80 by default) are listed in warnings.
+ *     tags: [Usage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Usage retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     organizationId:
+ *                       type: string
+ *                     plan:
+ *                       type: string
+ *                       example: free
+ *                     limits:
+ *                       $ref: '#/components/schemas/QuotaLimits'
+ *                     usage:
+ *                       type: object
+ *                       properties:
+ *                         dailyTweets:
+ *                           $ref: '#/components/schemas/QuotaMeter'
+ *                         monthlyTweets:
+ *                           $ref: '#/components/schemas/QuotaMeter'
+ *                         concurrentJobs:
+ *                           $ref: '#/components/schemas/QuotaMeter'
+ *                         activeCampaigns:
+ *                           $ref: '#/components/schemas/QuotaMeter'
+ *                     warnings:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           metric:
+ *                             type: string
+ *                             enum: [dailyTweets, monthlyTweets, concurrentJobs, activeCampaigns]
+ *                           used:
+ *                             type: integer
+ *                           limit:
+ *                             type: integer
+ *                           percentage:
+ *                             type: integer
+ *       400:
+ *         description: Invalid organization ID
+ *       401:
+ *         description: Unauthorized - invalid or missing token
+ *       403:
+ *         description: Forbidden - insufficient permissions or another organization
+ */
+router.get(
+  "/:organizationId",
+  authenticateToken,
+  requireRole(["admin", "manager", "analyst"]),
+  validateOrganizationId,
+  requireOrganizationAccess,
+  getOrganizationUsageHandler,
+);
+
+/**
+ * @swagger
+ * /api/v1/usage/{organizationId}/policy:
+ *   put:
+ *     summary: Set the quota policy of an organization
+ *     description: Its plan (SCRAPING_QUOTA_DEFAULT_PLAN if unset) and the limits that override the plan.
+ *     tags: [Usage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [limits]
+ *             properties:
+ *               plan:
+ *                 type: string
+ *                 example: pro
+ *               limits:
+ *                 $ref: '#/components/schemas/QuotaLimits'
+ *     responses:
+ *       200:
+ *         description: Organization policy saved, with the resulting limits
+ *       400:
+ *         description: Invalid plan or limits
+ */
+router.put(
+  "/:organizationId/policy",
+  authenticateToken,
+  requireRole(["admin"]),
+  validateOrganizationId,
+  validateQuotaPolicy,
+  setOrganizationPolicyHandler,
+);
+
+export default router;
@@ -0,0 +1,111 @@
+/**
+ * Usage Middleware Module
+ * Validation middleware for the scraping usage and quota policy routes
+ */
+
+import { NextFunction, Request, Response } from "express";
+import { QUOTA_LIMIT_KEYS } from "../../../models/QuotaPolicy.model";
+
+const KEY_PATTERN = /^[\w-]{1,64}$/;
+
+function invalid(res: Response, message: string, code: string) {
+  return res.status(400).json({
+    success: false,
+    error: {
+      message,
+      code,
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Validate organization ID
+ */
+export const validateOrganizationId = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (!KEY_PATTERN.test(req.params.organizationId ?? "")) {
+    return invalid(
+      res,
+      "Organization ID must be 1-64 letters, digits, '_' or '-'",
+      "INVALID_ORGANIZATION_ID",
+    );
+  }
+
+  next();
+};
+
+/**
+ * Validate plan name
+ */
+export const validatePlanName = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (!KEY_PATTERN.test(req.params.plan ?? "")) {
+    return invalid(
+      res,
+      "Plan must be 1-64 letters, digits, '_' or '-'",
+      "INVALID_PLAN",
+    );
+  }
+
+  next();
+};
+
+/**
+ * Validate quota policy body: limits (any subset, non-negative integers) and,
+ * for organizations, an optional plan
+ */
+export const validateQuotaPolicy = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { limits, plan } = req.body ?? {};
+
+  if (!limits || typeof limits !== "object" || Array.isArray(limits)) {
+    return invalid(res, "limits must be an object", "INVALID_QUOTA_LIMITS");
+  }
+
+  const unknownKeys = Object.keys(limits).filter(
+    (key) =>
+      !QUOTA_LIMIT_KEYS.includes(key as (typeof QUOTA_LIMIT_KEYS)[number]),
+  );
+  if (unknownKeys.length > 0) {
+    return invalid(
+      res,
+      `Unknown limits: ${unknownKeys.join(", ")}. Allowed: ${QUOTA_LIMIT_KEYS.join(", ")}`,
+      "INVALID_QUOTA_LIMITS",
+    );
+  }
+
+  for (const [key, value] of Object.entries(limits)) {
+    if (!Number.isInteger(value) || (value as number) < 0) {
+      return invalid(
+        res,
+        `${key} must be a non-negative integer`,
+        "INVALID_QUOTA_LIMITS",
+      );
+    }
+  }
+
+  if (
+    plan !== undefined &&
+    (req.params.plan !== undefined ||
+      typeof plan !== "string" ||
+      !KEY_PATTERN.test(plan))
+  ) {
+    return invalid(
+      res,
+      "plan is only set on organizations and must be 1-64 letters, digits, '_' or '-'",
+      "INVALID_PLAN",
+    );
+  }
+
+  next();
+};
@@ -0,0 +1,9 @@
+/**
+ * Review Queue Routes
+ * Re-exports the modular review queue routes (./modules/review)
+ */
+
+import reviewRoutes from "./modules/review/index";
+
+// Default export for compatibility with server.ts
+export default reviewRoutes;
@@ -0,0 +1,9 @@
+/**
+ * Twitter Sessions Routes
+ * Re-exports the modular Twitter session pool routes (./modules/twitter-sessions)
+ */
+
+import twitterSessionRoutes from "./modules/twitter-sessions/index";
+
+// Default export for compatibility with server.ts
+export default twitterSessionRoutes;
@@ -0,0 +1,9 @@
+/**
+ * Usage Routes
+ * Re-exports the modular scraping usage and quota routes (./modules/usage)
+ */
+
+import usageRoutes from "./modules/usage/index";
+
+// Default export for compatibility with server.ts
+export default usageRoutes;
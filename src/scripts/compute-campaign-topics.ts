@@ -0,0 +1,48 @@
+/**
+ * Calcula los temas de las campañas con `topicsAnalysis` activado
+ *
+ * Uso: npm run topics:compute [-- <campaignId> ...]
+ * Sin IDs recorre todas las campañas activas con el análisis de temas
+ * activado. Pensado para ejecutarse periódicamente (cron) fuera del servidor.
+ */
+import { CampaignStatus } from "../enums/campaign.enum";
+import databaseConnection from "../lib/database/connection";
+import { CampaignModel } from "../models/Campaign.model";
+import { campaignTopicsService } from "../services/campaign-topics.service";
+
+(async () => {
+  await databaseConnection.connect();
+
+  const ids = process.argv.slice(2);
+  const campaigns = await CampaignModel.find(
+    ids.length > 0
+      ? { _id: { $in: ids } }
+      : { topicsAnalysis: true, status: CampaignStatus.active },
+    { _id: 1, name: 1 },
+  ).lean();
+
+  console.log(`🧵 Calculando temas de ${campaigns.length} campaña(s)`);
+  let failed = 0;
+  for (const campaign of campaigns) {
+    const id = String(campaign._id);
+    try {
+      const startedAt = Date.now();
+      const report = await campaignTopicsService.run(id);
+      console.log(
+        `✅ ${campaign.name} (${id}): ${report.topics.length} temas, ${report.assignedTweets}/${report.analyzedTweets} tweets en ${Date.now() - startedAt} ms`,
+      );
+      report.topics.forEach((topic) =>
+        console.log(`   #${topic.id} ${topic.label} (${topic.tweetCount})`),
+      );
+    } catch (error) {
+      failed++;
+      console.error(`❌ ${campaign.name} (${id}):`, error);
+    }
+  }
+
+  await databaseConnection.disconnect();
+  process.exit(failed > 0 ? 1 : 0);
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
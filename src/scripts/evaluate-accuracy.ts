@@ -1,6 +1,14 @@
 import * as fs from "fs";
 import * as path from "path";
 import { enhancedTrainingDataV3Clean as TRAIN } from "../data/enhanced-training-data-v3-clean";
+import {
+  CalibrationSample,
+  expectedCalibrationError,
+  formatReliabilityDiagram,
+  reliabilityDiagram,
+} from "../lib/sentiment/calibration";
+import { detectLexiconLanguage } from "../lib/sentiment/lexicons";
+import { LanguageCode } from "../lib/sentiment/types";
 import { TweetSentimentAnalysisManager } from "../services/tweet-sentiment-analysis.manager.service";
 
 type Label = "positive" | "negative" | "neutral";
@@ -24,6 +32,14 @@ interface EvaluationResults {
   totalSamples: number;
 }
 
+function emptyConfusionMatrix(): Record<Label, Record<Label, number>> {
+  return {
+    positive: { positive: 0, negative: 0, neutral: 0 },
+    negative: { positive: 0, negative: 0, neutral: 0 },
+    neutral: { positive: 0, negative: 0, neutral: 0 },
+  };
+}
+
 /** Separa train/test estratificado (80/20) con seed fijo para reproducibilidad */
 function stratifiedSplit<T extends { label: Label }>(data: T[], seed = 42) {
   // Usar seed para reproducibilidad
@@ -293,6 +309,47 @@ function printDetailedResults(results: EvaluationResults) {
   console.log("\n" + "=".repeat(80));
 }
 
+function printLanguageResults(
+  results: Partial<Record<LanguageCode, EvaluationResults>>,
+) {
+  console.log(`\n🌍 MÉTRICAS POR IDIOMA (detectado):`);
+  console.log("   " + "-".repeat(50));
+  console.log(
+    "   Idioma".padEnd(12) +
+      "Muestras".padStart(10) +
+      "Accuracy".padStart(12) +
+      "Macro-F1".padStart(12),
+  );
+  console.log("   " + "-".repeat(50));
+
+  for (const [language, r] of Object.entries(results)) {
+    console.log(
+      "   " +
+        language.padEnd(9) +
+        r.totalSamples.toString().padStart(10) +
+        (r.accuracy * 100).toFixed(1).padStart(11) +
+        "%" +
+        (r.macroF1 * 100).toFixed(1).padStart(11) +
+        "%",
+    );
+  }
+}
+
+function printCalibrationResults(results: {
+  ece: number;
+  rawEce: number;
+  reliability: ReturnType<typeof reliabilityDiagram>;
+}) {
+  console.log(`\n📐 CALIBRACIÓN DE LA CONFIANZA:`);
+  console.log(
+    `   ECE: ${(results.ece * 100).toFixed(2)}% (sin calibrar: ${(results.rawEce * 100).toFixed(2)}%)`,
+  );
+  console.log("   Diagrama de fiabilidad (barra = accuracy del intervalo):");
+  formatReliabilityDiagram(results.reliability).forEach((line) =>
+    console.log(`   ${line}`),
+  );
+}
+
 (async () => {
   console.log("🚀 Iniciando evaluación detallada del modelo...");
 
@@ -331,12 +388,14 @@ function printDetailedResults(results: EvaluationResults) {
 
   const manager = new TweetSentimentAnalysisManager();
 
-  // Inicializar matriz de confusión
-  const confusionMatrix: Record<Label, Record<Label, number>> = {
-    positive: { positive: 0, negative: 0, neutral: 0 },
-    negative: { positive: 0, negative: 0, neutral: 0 },
-    neutral: { positive: 0, negative: 0, neutral: 0 },
-  };
+  // Inicializar matriz de confusión (global y por idioma detectado)
+  const confusionMatrix = emptyConfusionMatrix();
+  const languageMatrices: Partial<
+    Record<LanguageCode, Record<Label, Record<Label, number>>>
+  > = {};
+  // Pares (confianza, acierto) para medir la calibración
+  const calibrationSamples: CalibrationSample[] = [];
+  const rawCalibrationSamples: CalibrationSample[] = [];
 
   console.log("\n🔄 Evaluando modelo en test set...");
   let processed = 0;
@@ -358,6 +417,18 @@ function printDetailedResults(results: EvaluationResults) {
       const actualLabel = example.label as Label;
 
       confusionMatrix[actualLabel][predictedLabel] += 1;
+      const language = detectLexiconLanguage(example.text);
+      const languageMatrix = (languageMatrices[language] ??=
+        emptyConfusionMatrix());
+      languageMatrix[actualLabel][predictedLabel] += 1;
+
+      const { confidence, rawConfidence } = result.analysis.sentiment;
+      const correct = predictedLabel === actualLabel;
+      calibrationSamples.push({ confidence, correct });
+      rawCalibrationSamples.push({
+        confidence: rawConfidence ?? confidence,
+        correct,
+      });
 
       processed++;
       if (processed % 50 === 0 || processed === totalSamples) {
@@ -376,6 +447,21 @@ function printDetailedResults(results: EvaluationResults) {
   const results = calculateMetrics(confusionMatrix);
   printDetailedResults(results);
 
+  const languageResults = Object.fromEntries(
+    Object.entries(languageMatrices).map(([language, matrix]) => [
+      language,
+      calculateMetrics(matrix),
+    ]),
+  ) as Partial<Record<LanguageCode, EvaluationResults>>;
+  printLanguageResults(languageResults);
+
+  const calibrationResults = {
+    ece: expectedCalibrationError(calibrationSamples),
+    rawEce: expectedCalibrationError(rawCalibrationSamples),
+    reliability: reliabilityDiagram(calibrationSamples),
+  };
+  printCalibrationResults(calibrationResults);
+
   // Guardar ejemplos mal clasificados para análisis
   console.log("\n📝 EJEMPLOS MAL CLASIFICADOS (primeros 10):");
   let errorCount = 0;
@@ -449,6 +535,22 @@ function printDetailedResults(results: EvaluationResults) {
       macro_f1: results.macroF1,
       weighted_f1: results.weightedF1,
       test_samples: totalSamples,
+      calibration: {
+        ece: calibrationResults.ece,
+        raw_ece: calibrationResults.rawEce,
+        reliability_diagram: calibrationResults.reliability,
+      },
+      metrics_by_language: Object.fromEntries(
+        Object.entries(languageResults).map(([language, r]) => [
+          language,
+          {
+            accuracy: r.accuracy,
+            macro_f1: r.macroF1,
+            weighted_f1: r.weightedF1,
+            test_samples: r.totalSamples,
+          },
+        ]),
+      ),
       metrics_by_class: {
         positive: {
           precision: results.perClassMetrics.positive.precision,
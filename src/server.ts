@@ -30,6 +30,7 @@ declare global {
 // Import configurations and utilities
 import { appConfig } from './lib/config/app';
 import { features } from './lib/config/feature-flags';
+import { getOrchestrator } from './lib/sentiment/orchestrator-provider';
 import specs from './lib/swagger';
 import './types/socket';
 
@@ -52,8 +53,10 @@ import {
 } from './middleware/request-logging';
 
 // Import services
+import { CampaignCollectionScheduler } from './services/campaign-collection-scheduler.service';
 import { modelPersistenceManager } from './services/model-persistence.service';
 import { performanceMonitor } from './services/performance-monitor.service';
+import { ScrapingQueueService } from './services/scraping-queue.service';
 import { TweetSentimentAnalysisManager } from './services/tweet-sentiment-analysis.manager.service';
 import { TwitterAuthManager } from './services/twitter-auth-manager.service';
 
@@ -66,12 +69,17 @@ import authRoutes from './routes/auth';
 import campaignRoutes from './routes/campaigns';
 import configureDashboardRoutes from './routes/dashboard.routes';
 import configureHealthRoutes from './routes/health.routes';
+import lexiconRoutes from './routes/lexicons';
+import usageRoutes from './routes/usage';
 import configureMetricsRoutes from './routes/metrics.routes';
+import reviewRoutes from './routes/review';
 import { scrapingRoutes } from './routes/scraping';
+import { processAndPersistSentiment } from './routes/modules/scraping/helpers';
 import securityRoutes from './routes/security';
 import sentimentRoutes from './routes/sentiment';
 import templateRoutes from './routes/templates';
 import twitterAuthRoutes from './routes/twitter-auth';
+import twitterSessionRoutes from './routes/twitter-sessions';
 import userRoutes from './routes/users';
 
 // Import IoC Configuration
@@ -91,6 +99,7 @@ const MODEL_PATH = path.join(process.cwd(), 'src', 'data', 'trained-classifier.j
 // Server instances for graceful shutdown
 let httpServer: http.Server | null = null;
 let socketIOServer: SocketIOServer | null = null;
+let collectionScheduler: CampaignCollectionScheduler | null = null;
 
 /**
  * Database initialization with retry logic
@@ -120,6 +129,22 @@ async function initializeDatabase(
   }
 }
 
+/**
+ * Start the scheduled collection of active campaigns: the scraping queue saves
+ * what it collects through the same sentiment pipeline as manual scrapes
+ */
+function startCampaignCollection(): void {
+  const queue = ScrapingQueueService.getInstance();
+  queue.setTweetHandler(async (job, tweets) => {
+    const analyzeSentiment = job.options.analyzeSentiment !== false;
+    await processAndPersistSentiment(tweets, analyzeSentiment, job.campaignId);
+  });
+
+  collectionScheduler = new CampaignCollectionScheduler(queue);
+  collectionScheduler.start();
+  systemLogger.info('📅 Campaign collection scheduler started');
+}
+
 /**
  * Enhanced graceful shutdown with timeout
  */
@@ -154,6 +179,12 @@ async function gracefulShutdown(signal: string): Promise<void> {
       });
     }
 
+    // Stop scheduled collection, returning the jobs in progress to the queue
+    if (collectionScheduler) {
+      systemLogger.info('📅 Stopping campaign collection scheduler...');
+      await collectionScheduler.stop();
+    }
+
     // Close database connection
     await DatabaseConnection.disconnect();
     systemLogger.info('✅ MongoDB connection closed');
@@ -256,14 +287,19 @@ function configureRoutes(app: express.Application): void {
     { path: '/api/v1/campaigns', middleware: analyticsRateLimit, router: campaignRoutes },
     { path: '/api/v1/templates', middleware: analyticsRateLimit, router: templateRoutes },
     { path: '/api/v1/twitter-auth', middleware: authRateLimit, router: twitterAuthRoutes },
+    { path: '/api/v1/twitter-sessions', middleware: authRateLimit, router: twitterSessionRoutes },
     {
       path: '/api/v1/sentiment',
       middleware: [analyticsRateLimit, cacheControlMiddleware(300)],
       router: sentimentRoutes,
     },
+    { path: '/api/v1/review', middleware: analyticsRateLimit, router: reviewRoutes },
+    { path: '/api/v1/lexicons', middleware: analyticsRateLimit, router: lexiconRoutes },
+    { path: '/api/v1/usage', middleware: analyticsRateLimit, router: usageRoutes },
     { path: '/api/v1/security', middleware: authRateLimit, router: securityRoutes },
     { path: '/api/v1/admin', middleware: authRateLimit, router: adminRoutes },
     { path: '/api/v1/dashboard', middleware: [], router: configureDashboardRoutes() },
+    { path: '/api/v1/metrics', middleware: [], router: configureMetricsRoutes() },
   ];
 
   // Register routes
@@ -507,6 +543,18 @@ async function initializeSentimentAnalysis(): Promise<void> {
   systemLogger.info(
     loaded ? 'Model loaded successfully' : 'No pre-trained model, using heuristic fallback'
   );
+
+  // Local ONNX BERT model: load and warm it up before serving requests
+  if (appConfig.sentiment.bert.local) {
+    try {
+      await getOrchestrator().initializeBertModel(true);
+    } catch (error) {
+      systemLogger.warn('⚠️ Local BERT model could not be loaded, continuing without BERT', {
+        modelPath: appConfig.sentiment.bert.modelPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
 }
 
 /**
@@ -657,14 +705,21 @@ function initializeWebSocketServer(httpServer: http.Server): SocketIOServer {
  */
 async function initializeWebSocketServices(io: SocketIOServer): Promise<void> {
   try {
-    const [{ webSocketService }, { scrapingProgressService }] = await Promise.all([
-      import('./services/websocket.service'),
-      import('./services/scraping-progress.service'),
-    ]);
+    const [{ webSocketService }, { scrapingProgressService }, { scrapingQuotaService }] =
+      await Promise.all([
+        import('./services/websocket.service'),
+        import('./services/scraping-progress.service'),
+        import('./services/scraping-quota.service'),
+      ]);
 
     webSocketService.initialize(io);
     scrapingProgressService.initialize(io);
 
+    // Scraping quota warnings reach the connected users of the organization
+    scrapingQuotaService.on('quotaWarning', (warning) =>
+      webSocketService.emitToOrganization(warning.organizationId, 'quota-warning', warning)
+    );
+
     systemLogger.info('WebSocket services initialized successfully');
   } catch (error) {
     systemLogger.error('Failed to initialize WebSocket services:', error);
@@ -722,6 +777,11 @@ async function startServer(): Promise<void> {
     // Initialize WebSocket services
     await initializeWebSocketServices(socketIOServer);
 
+    // Scheduled campaign collection (scrapes, so it follows the scraping flag)
+    if (features.ENABLE_SCRAPING && appConfig.campaignCollection.enabled) {
+      startCampaignCollection();
+    }
+
     // Start server
     httpServer.listen(PORT, () => {
       systemLogger.info('Server started successfully', {
@@ -37,7 +37,8 @@ export interface PerformanceMetrics {
  * Características:
  * - Aprendizaje incremental sin pérdida de conocimiento previo
  * - Buffer de retroalimentación automática
- * - Detección de concept drift
+ * - Detección de caídas de precisión sobre la retroalimentación recibida
+ *   (el drift sin etiquetas de los tweets lo vigila lib/sentiment/drift-monitor)
  * - Re-entrenamiento inteligente
  * - Métricas de rendimiento en tiempo real
  */
@@ -1,18 +1,20 @@
 /**
  * BERT Sentiment Analyzer Service
  * Integrates a pre-trained BERT model for advanced sentiment analysis
- * Using pure tfjs to avoid native dependencies
+ * Runs a local quantized ONNX model on the CPU (air-gapped deployments) or
+ * calls the Hugging Face inference API
  */
 
-import * as tf from "@tensorflow/tfjs";
 import axios from "axios";
 import { SentimentLabel } from "./naive-bayes-sentiment.service";
+import { appConfig } from "../lib/config/app";
 import { logger } from "../lib/observability/logger";
+import { OnnxSentimentModel } from "../lib/sentiment/onnx-model";
 
 // Environment variables (should be defined in .env)
 const HUGGINGFACE_API_KEY = process.env.HUGGINGFACE_API_KEY || "";
-const USE_LOCAL_MODEL = process.env.USE_LOCAL_BERT_MODEL === "true";
-const LOCAL_MODEL_PATH = process.env.BERT_MODEL_PATH || "./models/bert";
+const USE_LOCAL_MODEL = appConfig.sentiment.bert.local;
+const LOCAL_MODEL_PATH = appConfig.sentiment.bert.modelPath;
 const REMOTE_MODEL_ENDPOINT =
   process.env.BERT_API_ENDPOINT ||
   "https://api-inference.huggingface.co/models/finiteautomata/bertweet-base-sentiment-analysis";
@@ -23,13 +25,19 @@ export interface BertPrediction {
   score: number;
 }
 
+// Prediction mapped to our labels and score scale
+export interface BertSentimentResult {
+  label: SentimentLabel;
+  confidence: number;
+  score: number;
+}
+
 /**
  * Service that handles sentiment analysis using BERT models
- * Supports both local TensorFlow.js models and remote Hugging Face inference API
+ * Supports both local ONNX models and remote Hugging Face inference API
  */
 export class BertSentimentAnalyzerService {
-  private model: tf.LayersModel | null = null;
-  private tokenizer: any = null;
+  private model: OnnxSentimentModel | null = null;
   private isModelLoaded = false;
   private isLoading = false;
   private loadPromise: Promise<void> | null = null;
@@ -44,6 +52,13 @@ export class BertSentimentAnalyzerService {
     NEGATIVE: "negative",
   };
 
+  // Returned when a prediction fails
+  private static NEUTRAL_FALLBACK: BertSentimentResult = {
+    label: "neutral",
+    confidence: 0.5,
+    score: 0,
+  };
+
   constructor() {
     // Initialize - will lazy load when needed
   }
@@ -82,17 +97,24 @@ export class BertSentimentAnalyzerService {
         const startTime = Date.now();
 
         if (USE_LOCAL_MODEL) {
-          // With pure TF.js, we can't use file:// protocol easily in Node.js
-          // We would need to use tf.io.fileSystem or similar approach
-          // For this implementation, we'll primarily support the API approach
-          logger.warn(
-            "Local model loading with pure TF.js requires additional setup",
-          );
-          logger.info("Defaulting to API approach for BERT analysis");
-        }
-
-        // Check if API key is available (but don't fail if not)
-        if (!HUGGINGFACE_API_KEY) {
+          const { batchSize, maxSequenceLength, threads, warmUpOnStart } =
+            appConfig.sentiment.bert;
+          this.model = await OnnxSentimentModel.load(LOCAL_MODEL_PATH, {
+            batchSize,
+            maxSequenceLength,
+            threads,
+          });
+          logger.info(`Local ONNX BERT model loaded from ${LOCAL_MODEL_PATH}`, {
+            labels: this.model.getLabels(),
+          });
+
+          // La primera inferencia reserva memoria y optimiza el grafo
+          if (warmUpOnStart) {
+            const warmUpMs = await this.model.warmUp();
+            logger.info(`BERT model warmed up in ${warmUpMs}ms`);
+          }
+        } else if (!HUGGINGFACE_API_KEY) {
+          // Check if API key is available (but don't fail if not)
           logger.warn(
             "HUGGINGFACE_API_KEY not set. BERT will operate in demo mode with limited functionality.",
           );
@@ -127,11 +149,7 @@ export class BertSentimentAnalyzerService {
    * @param text Text to analyze
    * @returns Prediction with label, confidence and score
    */
-  public async predict(text: string): Promise<{
-    label: SentimentLabel;
-    confidence: number;
-    score: number;
-  }> {
+  public async predict(text: string): Promise<BertSentimentResult> {
     try {
       // Ensure model is loaded
       if (!this.isAvailable()) {
@@ -142,30 +160,13 @@ export class BertSentimentAnalyzerService {
 
       if (USE_LOCAL_MODEL && this.model) {
         // Local model inference
-        prediction = await this.predictWithLocalModel(text);
+        prediction = await this.model.predict(text);
       } else {
         // Remote API inference
         prediction = await this.predictWithRemoteAPI(text);
       }
 
-      // Map to our standard format
-      const label =
-        BertSentimentAnalyzerService.LABEL_MAPPING[prediction.label] ||
-        "neutral";
-
-      // Convert score to our format (-1 to 1 scale)
-      let score = 0;
-      if (label === "positive") {
-        score = prediction.score * 0.8; // 0 to 0.8
-      } else if (label === "negative") {
-        score = -prediction.score * 0.8; // 0 to -0.8
-      }
-
-      return {
-        label: label as SentimentLabel,
-        confidence: prediction.score,
-        score,
-      };
+      return this.toSentiment(prediction);
     } catch (error) {
       logger.error("BERT prediction failed:", {
         error: error instanceof Error ? error.message : String(error),
@@ -173,25 +174,62 @@ export class BertSentimentAnalyzerService {
       });
 
       // Return neutral as fallback
-      return {
-        label: "neutral",
-        confidence: 0.5,
-        score: 0,
-      };
+      return { ...BertSentimentAnalyzerService.NEUTRAL_FALLBACK };
     }
   }
 
   /**
-   * Predict with local TensorFlow.js model
-   * This is now just a fallback that redirects to API prediction
-   * @param text Input text
-   * @returns Prediction result
+   * Predict sentiment for several texts at once
+   * The local model runs them in batches; the remote API is called per text
+   * @param texts Texts to analyze
+   * @returns One prediction per text, in order
    */
-  private async predictWithLocalModel(text: string): Promise<BertPrediction> {
-    // Since we're using pure TF.js without node-specific bindings,
-    // we'll default to using the API approach instead
-    logger.info("Redirecting local model prediction to API-based prediction");
-    return this.predictWithRemoteAPI(text);
+  public async predictBatch(texts: string[]): Promise<BertSentimentResult[]> {
+    if (!USE_LOCAL_MODEL) {
+      return Promise.all(texts.map((text) => this.predict(text)));
+    }
+
+    try {
+      if (!this.isAvailable()) {
+        await this.loadModel();
+      }
+      const predictions = await this.model!.predictBatch(texts);
+      return predictions.map((prediction) => this.toSentiment(prediction));
+    } catch (error) {
+      logger.error("BERT batch prediction failed:", {
+        error: error instanceof Error ? error.message : String(error),
+        texts: texts.length,
+      });
+      return texts.map(() => ({
+        ...BertSentimentAnalyzerService.NEUTRAL_FALLBACK,
+      }));
+    }
+  }
+
+  /**
+   * Map a model prediction to our labels and score scale
+   * @param prediction Raw label and probability
+   */
+  private toSentiment(prediction: BertPrediction): BertSentimentResult {
+    // Map to our standard format
+    const label =
+      BertSentimentAnalyzerService.LABEL_MAPPING[
+        prediction.label.toUpperCase()
+      ] || "neutral";
+
+    // Convert score to our format (-1 to 1 scale)
+    let score = 0;
+    if (label === "positive") {
+      score = prediction.score * 0.8; // 0 to 0.8
+    } else if (label === "negative") {
+      score = -prediction.score * 0.8; // 0 to -0.8
+    }
+
+    return {
+      label,
+      confidence: prediction.score,
+      score,
+    };
   }
 
   /**
@@ -328,7 +366,7 @@ export class BertSentimentAnalyzerService {
    */
   public dispose(): void {
     if (this.model) {
-      this.model.dispose();
+      void this.model.dispose();
       this.model = null;
     }
     this.isModelLoaded = false;
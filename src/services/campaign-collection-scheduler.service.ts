@@ -0,0 +1,298 @@
+/**
+ * Campaign Collection Scheduler
+ * Recurring collection of the active campaigns: the cron schedule of each
+ * campaign (in its timezone) enqueues a collection run in the scraping queue,
+ * spreading the tweets left to reach `maxTweets` over its hashtags, keywords
+ * and mentions and asking only for tweets newer than its collection cursor
+ * (`lastDataCollection`). The cursor moves once every job of a run completed,
+ * and no run is planned while the previous one is unfinished.
+ * Campaigns whose end date passed are completed.
+ */
+
+import { randomUUID } from "crypto";
+import mongoose from "mongoose";
+import cron, { ScheduledTask } from "node-cron";
+import { CampaignStatus } from "../enums/campaign.enum";
+import { appConfig } from "../lib/config/app";
+import { logger } from "../lib/observability/logger";
+import { MongoCampaignRepository } from "../repositories/mongo-campaign.repository";
+import { MongoScrapingJobRepository } from "../repositories/mongo-scraping-job.repository";
+import { MongoTweetRepository } from "../repositories/mongo-tweet.repository";
+import type { Campaign } from "../types/campaign";
+import {
+  QUEUE_CHUNK_SIZE,
+  QueueJob,
+  ScrapingQueueService,
+} from "./scraping-queue.service";
+
+// Campaigns and their schedules are re-read every minute
+const SYNC_SCHEDULE = "* * * * *";
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface CollectionRun {
+  type: QueueJob["type"];
+  query: string;
+  targetTweets: number;
+  options: QueueJob["options"];
+}
+
+export type CollectionCampaign = Pick<
+  Campaign,
+  | "hashtags"
+  | "keywords"
+  | "mentions"
+  | "startDate"
+  | "endDate"
+  | "maxTweets"
+  | "lastDataCollection"
+  | "collectReplies"
+  | "languages"
+  | "sentimentAnalysis"
+>;
+
+export class CampaignCollectionScheduler {
+  private readonly tasks = new Map<
+    string,
+    { schedule: string; task: ScheduledTask }
+  >();
+  private syncTask?: ScheduledTask;
+
+  constructor(
+    private readonly queue = ScrapingQueueService.getInstance(),
+    private readonly campaigns = new MongoCampaignRepository(),
+    private readonly tweets = new MongoTweetRepository(),
+    private readonly jobs = new MongoScrapingJobRepository(),
+  ) {}
+
+  /**
+   * Start scheduling the active campaigns
+   */
+  start(): void {
+    if (this.syncTask) return;
+
+    this.queue.on("jobCompleted", this.onJobCompleted);
+    this.syncTask = cron.schedule(SYNC_SCHEDULE, () => this.sync(), {
+      name: "campaign-collection-sync",
+      noOverlap: true,
+    });
+    void this.sync();
+  }
+
+  /**
+   * Stop scheduling and give the jobs in progress back to the queue
+   */
+  async stop(): Promise<void> {
+    await this.syncTask?.destroy();
+    this.syncTask = undefined;
+    for (const { task } of this.tasks.values()) await task.destroy();
+    this.tasks.clear();
+
+    this.queue.off("jobCompleted", this.onJobCompleted);
+    await this.queue.stop();
+  }
+
+  /**
+   * Complete the campaigns that ended and keep one cron task per active
+   * campaign, recreating it when its schedule or timezone changed
+   */
+  async sync(): Promise<void> {
+    try {
+      const completed = await this.campaigns.completeEnded();
+      if (completed > 0) {
+        logger.info("Campaigns completed after their end date", { completed });
+      }
+
+      const active = new Set<string>();
+      for (const campaign of await this.campaigns.findActiveForCollection()) {
+        const campaignId = String(campaign._id);
+        const expression =
+          campaign.collectionSchedule ||
+          appConfig.campaignCollection.defaultSchedule;
+        const timezone = campaign.timezone || "UTC";
+        const schedule = `${expression} (${timezone})`;
+        active.add(campaignId);
+
+        const current = this.tasks.get(campaignId);
+        if (current?.schedule === schedule) continue;
+        await current?.task.destroy();
+        this.tasks.delete(campaignId);
+
+        try {
+          const task = cron.schedule(
+            expression,
+            (context) => this.runScheduled(campaignId, context.date),
+            { timezone, noOverlap: true },
+          );
+          this.tasks.set(campaignId, { schedule, task });
+        } catch (error) {
+          logger.warn("Invalid collection schedule, campaign not scheduled", {
+            campaignId,
+            schedule,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      for (const [campaignId, { task }] of this.tasks) {
+        if (!active.has(campaignId)) {
+          await task.destroy();
+          this.tasks.delete(campaignId);
+        }
+      }
+    } catch (error) {
+      logger.error("Campaign collection sync failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Enqueue a collection run of a campaign
+   * @returns IDs of the enqueued jobs; none if the campaign is not active,
+   * outside its dates, already reached `maxTweets` or a previous run has not
+   * finished (it already asks for the same window and budget)
+   */
+  async collect(campaignId: string, now: Date = new Date()): Promise<string[]> {
+    const campaign = await this.campaigns.findById(campaignId);
+    if (!campaign || campaign.status !== CampaignStatus.active) return [];
+    if ((await this.jobs.countUnfinishedCollectionJobs(campaignId)) > 0) {
+      logger.info("Previous collection run unfinished, run skipped", {
+        campaignId,
+      });
+      return [];
+    }
+
+    const collected = await this.tweets.countByCampaign(campaignId);
+    const runs = CampaignCollectionScheduler.planRun(campaign, collected, now);
+    const collectionRun = {
+      id: randomUUID(),
+      jobs: runs.length,
+      plannedAt: now,
+    };
+    const jobIds: string[] = [];
+    for (const run of runs) {
+      jobIds.push(
+        await this.queue.addJob(
+          run.type,
+          run.query,
+          run.targetTweets,
+          campaignId,
+          run.options,
+          "low", // manual scrapes go first
+          collectionRun,
+        ),
+      );
+    }
+    return jobIds;
+  }
+
+  /**
+   * Jobs of a collection run: one per hashtag, keyword and mention, sharing
+   * the tweets left to reach `maxTweets` (at most `maxTweetsPerRun`, and one
+   * queue chunk per job), limited to tweets newer than the cursor and never
+   * older than the campaign start
+   */
+  static planRun(
+    campaign: CollectionCampaign,
+    collected: number,
+    now: Date = new Date(),
+    maxTweetsPerRun: number = appConfig.campaignCollection.maxTweetsPerRun,
+  ): CollectionRun[] {
+    if (now < campaign.startDate || now > campaign.endDate) return [];
+
+    const queries: Array<Pick<CollectionRun, "type" | "query">> = [
+      ...campaign.hashtags.map((hashtag) => ({
+        type: "hashtag" as const,
+        query: hashtag.replace(/^#/, ""),
+      })),
+      ...campaign.keywords.map((keyword) => ({
+        type: "search" as const,
+        query: keyword,
+      })),
+      ...campaign.mentions.map((mention) => ({
+        type: "search" as const,
+        query: `@${mention.replace(/^@/, "")}`,
+      })),
+    ];
+    // A chunked job would scrape the same query and window once per chunk, so
+    // each query asks for one chunk at most and the rest is left to later runs
+    const budget = Math.min(
+      campaign.maxTweets - collected,
+      maxTweetsPerRun,
+      queries.length * QUEUE_CHUNK_SIZE,
+    );
+    if (budget <= 0 || queries.length === 0) return [];
+
+    const since = Math.max(
+      campaign.startDate.getTime(),
+      campaign.lastDataCollection?.getTime() ?? 0,
+    );
+    const options: QueueJob["options"] = {
+      maxAgeHours: Math.max(1, Math.ceil((now.getTime() - since) / HOUR_MS)),
+      includeReplies: campaign.collectReplies,
+      analyzeSentiment: campaign.sentimentAnalysis,
+      ...(campaign.languages.length === 1 && {
+        language: campaign.languages[0],
+      }),
+    };
+
+    const share = Math.floor(budget / queries.length);
+    return queries.flatMap((query, i) => {
+      const targetTweets = share + (i < budget % queries.length ? 1 : 0);
+      return targetTweets > 0 ? [{ ...query, targetTweets, options }] : [];
+    });
+  }
+
+  /**
+   * Run of a cron tick; when several processes schedule the same campaign,
+   * only the one that claims the minute enqueues it
+   */
+  private async runScheduled(campaignId: string, firedAt: Date): Promise<void> {
+    const slot = new Date(Math.floor(firedAt.getTime() / 60000) * 60000);
+
+    try {
+      if (!(await this.campaigns.claimScheduledCollection(campaignId, slot))) {
+        return;
+      }
+      const jobIds = await this.collect(campaignId);
+      logger.info("Scheduled campaign collection enqueued", {
+        campaignId,
+        jobs: jobIds.length,
+      });
+    } catch (error) {
+      logger.error("Scheduled campaign collection failed", {
+        campaignId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Move the cursor of the job's campaign to when its collection run was
+   * planned, once every job of the run completed. Jobs outside a run (manual
+   * scrapes) cover only some of the campaign's queries and never move it.
+   * @returns Whether the cursor moved
+   */
+  async advanceCursor(job: QueueJob): Promise<boolean> {
+    const run = job.collectionRun;
+    if (!run || !mongoose.Types.ObjectId.isValid(job.campaignId)) return false;
+
+    const completed = await this.jobs.count({
+      collectionRunId: run.id,
+      status: "completed",
+    });
+    if (completed < run.jobs) return false;
+
+    await this.campaigns.markDataCollected(job.campaignId, run.plannedAt);
+    return true;
+  }
+
+  private readonly onJobCompleted = (job: QueueJob): void => {
+    this.advanceCursor(job).catch((error: unknown) =>
+      logger.warn("Failed to move the campaign collection cursor", {
+        campaignId: job.campaignId,
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    );
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Campaign Topics Service
+ * Offline topic modelling of a campaign's tweets: fits the topic model on the
+ * most recent tweets, stores the topic of each tweet and a report with the
+ * sentiment and the daily evolution of every topic
+ */
+
+import { Label } from "../enums/sentiment.enum";
+import { appConfig } from "../lib/config/app";
+import { fitTopicModel, TopicModelResult } from "../lib/sentiment/topic-model";
+import { MongoCampaignTopicsRepository } from "../repositories/mongo-campaign-topics.repository";
+import { MongoTweetRepository } from "../repositories/mongo-tweet.repository";
+import { CampaignTopic, CampaignTopicsReport } from "../types/campaign";
+
+const REPRESENTATIVE_TWEETS = 3;
+
+export interface TopicTweet {
+  tweetId: string;
+  content: string;
+  sentiment?: { label: Label; score: number };
+  tweetCreatedAt: Date;
+}
+
+export interface CampaignTopicsRunOptions {
+  topics?: number;
+  maxTweets?: number;
+}
+
+const POSITIVE_LABELS: string[] = [Label.POSITIVE, Label.VERY_POSITIVE];
+const NEGATIVE_LABELS: string[] = [Label.NEGATIVE, Label.VERY_NEGATIVE];
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export class CampaignTopicsService {
+  private readonly running = new Set<string>();
+
+  constructor(
+    private readonly tweets = new MongoTweetRepository(),
+    private readonly reports = new MongoCampaignTopicsRepository(),
+  ) {}
+
+  /**
+   * Whether topics are being computed for the campaign
+   */
+  isRunning(campaignId: string): boolean {
+    return this.running.has(campaignId);
+  }
+
+  /**
+   * Compute and store the topics of a campaign
+   * @throws Error("TOPICS_ALREADY_RUNNING") if a run for the campaign is in progress
+   */
+  async run(
+    campaignId: string,
+    options: CampaignTopicsRunOptions = {},
+  ): Promise<CampaignTopicsReport> {
+    if (this.running.has(campaignId)) {
+      throw new Error("TOPICS_ALREADY_RUNNING");
+    }
+    this.running.add(campaignId);
+
+    try {
+      const tweets = await this.tweets.findForTopicModeling(
+        campaignId,
+        options.maxTweets ?? appConfig.sentiment.topics.maxTweets,
+      );
+      const topics = options.topics ?? appConfig.sentiment.topics.count;
+      const result = fitTopicModel(
+        tweets.map((tweet) => tweet.content),
+        topics > 0 ? { topics } : {},
+      );
+
+      await this.tweets.assignTopics(
+        campaignId,
+        tweets.flatMap((tweet, i) => {
+          const assignment = result.assignments[i];
+          return assignment
+            ? [
+                {
+                  tweetId: tweet.tweetId,
+                  id: assignment.topic,
+                  weight: round(assignment.weight),
+                },
+              ]
+            : [];
+        }),
+      );
+
+      const report = CampaignTopicsService.buildReport(
+        campaignId,
+        tweets,
+        result,
+      );
+      await this.reports.save(report);
+      return report;
+    } finally {
+      this.running.delete(campaignId);
+    }
+  }
+
+  /**
+   * Latest stored report of a campaign, or null if topics were never computed
+   */
+  async getReport(campaignId: string): Promise<CampaignTopicsReport | null> {
+    return this.reports.findByCampaign(campaignId);
+  }
+
+  /**
+   * Summarize the model output per topic: sentiment of the assigned tweets,
+   * tweets per UTC day and the tweets most strongly assigned to the topic
+   * @param tweets - Tweets in the same order as the texts given to the model
+   */
+  static buildReport(
+    campaignId: string,
+    tweets: readonly TopicTweet[],
+    result: TopicModelResult,
+    generatedAt: Date = new Date(),
+  ): CampaignTopicsReport {
+    const members = result.topics.map(
+      () => [] as Array<{ tweet: TopicTweet; weight: number }>,
+    );
+    result.assignments.forEach((assignment, i) => {
+      if (assignment) {
+        members[assignment.topic].push({
+          tweet: tweets[i],
+          weight: assignment.weight,
+        });
+      }
+    });
+    const assignedTweets = members.reduce((sum, list) => sum + list.length, 0);
+
+    const topics: CampaignTopic[] = result.topics.map((topic) => {
+      const list = members[topic.id];
+      const scores = list.map(({ tweet }) => tweet.sentiment?.score ?? 0);
+      const days = new Map<string, number[]>();
+      list.forEach(({ tweet }, i) => {
+        const date = new Date(tweet.tweetCreatedAt).toISOString().slice(0, 10);
+        days.set(date, [...(days.get(date) ?? []), scores[i]]);
+      });
+
+      return {
+        id: topic.id,
+        label: topic.label,
+        terms: topic.terms,
+        tweetCount: list.length,
+        share: assignedTweets > 0 ? round(list.length / assignedTweets) : 0,
+        sentiment: {
+          positive: list.filter(({ tweet }) =>
+            POSITIVE_LABELS.includes(tweet.sentiment?.label ?? ""),
+          ).length,
+          neutral: list.filter(
+            ({ tweet }) =>
+              !POSITIVE_LABELS.includes(tweet.sentiment?.label ?? "") &&
+              !NEGATIVE_LABELS.includes(tweet.sentiment?.label ?? ""),
+          ).length,
+          negative: list.filter(({ tweet }) =>
+            NEGATIVE_LABELS.includes(tweet.sentiment?.label ?? ""),
+          ).length,
+          averageScore: round(average(scores)),
+        },
+        representativeTweets: [...list]
+          .sort((a, b) => b.weight - a.weight)
+          .slice(0, REPRESENTATIVE_TWEETS)
+          .map(({ tweet }) => tweet.tweetId),
+        timeline: [...days]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([date, dayScores]) => ({
+            date,
+            tweetCount: dayScores.length,
+            averageScore: round(average(dayScores)),
+          })),
+      };
+    });
+
+    return {
+      campaignId,
+      topics,
+      analyzedTweets: tweets.length,
+      assignedTweets,
+      vocabularySize: result.vocabularySize,
+      generatedAt,
+    };
+  }
+}
+
+function average(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+export const campaignTopicsService = new CampaignTopicsService();
@@ -4,14 +4,16 @@
  * de análisis de sentimiento con mayor precisión
  */
 
+import { getSarcasmTrainingExamples } from "../data/complex-sentiment-dataset";
 import { logger } from "../lib/observability/logger";
+import { SarcasmDetector } from "../lib/sentiment/sarcasm-detector";
 import { AdvancedHybridAnalyzer } from "./advanced-hybrid-analyzer.service";
 import { AdvancedTextPreprocessor } from "./advanced-text-preprocessor.service";
 import { NaiveBayesSentimentService, SentimentPrediction } from "./naive-bayes-sentiment.service";
 
 export interface ComplexCaseFeatures {
   // Características de sarcasmo
-  sarcasmScore: number;
+  sarcasmScore: number; // probabilidad de la etapa de sarcasmo escalada a 0-10
   hasQuotedPositives: boolean;
   hasContradictions: boolean;
   
@@ -49,15 +51,12 @@ export interface EnhancedPrediction extends SentimentPrediction {
 export class EnhancedComplexCaseHandler {
   private hybridAnalyzer: AdvancedHybridAnalyzer;
   private naiveBayesService: NaiveBayesSentimentService;
+  private sarcasmDetector: SarcasmDetector;
   
   // Patrones para detección de características complejas
   private readonly SARCASM_PATTERNS = {
     quotedPositives: /'([^']*(?:good|great|amazing|perfect|wonderful|fantastic|excellent|brilliant)[^']*)'/gi,
-    contradiction: /\b(love|great|amazing|perfect|wonderful|fantastic|excellent|brilliant|good)\b.*\b(but|however|though|although|yet)\b.*\b(terrible|awful|bad|worst|hate|horrible|disgusting|pathetic|useless|broken|slow|worse|crashes|fails|disappointing)\b/gi,
-    temporalDisplacement: /\b(was|used to be)\s+\w+\s+\b(but|now|today|currently)\b/gi,
-    ironicPhrases: /\b(oh\s+(great|wonderful|perfect|fantastic|brilliant)|just\s+(great|perfect|what|wonderful)|exactly\s+what|how\s+(wonderful|perfect|great)|perfect\s+timing|great\s+job)\b/gi,
-    suspiciousEllipsis: /\b(great|perfect|amazing|wonderful|excellent|brilliant|good)\b.*\.\.\./gi,
-    fakeEnthusiasm: /\b(amazing|wonderful|perfect|great|excellent|brilliant)\s+(how|that)\b/gi
+    contradiction: /\b(love|great|amazing|perfect|wonderful|fantastic|excellent|brilliant|good)\b.*\b(but|however|though|although|yet)\b.*\b(terrible|awful|bad|worst|hate|horrible|disgusting|pathetic|useless|broken|slow|worse|crashes|fails|disappointing)\b/gi
   };
   
   private readonly DOUBLE_NEGATION_PATTERNS = [
@@ -87,6 +86,8 @@ export class EnhancedComplexCaseHandler {
   constructor() {
     this.hybridAnalyzer = new AdvancedHybridAnalyzer();
     this.naiveBayesService = new NaiveBayesSentimentService();
+    this.sarcasmDetector = new SarcasmDetector();
+    this.sarcasmDetector.train(getSarcasmTrainingExamples());
     
     logger.info("EnhancedComplexCaseHandler initialized");
   }
@@ -281,38 +282,10 @@ export class EnhancedComplexCaseHandler {
   }
 
   /**
-   * Detecta puntuación de sarcasmo en el texto
+   * Puntuación de sarcasmo (0-10) a partir de la etapa de sarcasmo
    */
   private detectSarcasmScore(text: string): number {
-    let score = 0;
-    
-    // Palabras positivas entre comillas - indicador fuerte de sarcasmo
-    if (this.SARCASM_PATTERNS.quotedPositives.test(text)) score += 4;
-    
-    // Contradicciones explícitas - muy común en sarcasmo
-    if (this.SARCASM_PATTERNS.contradiction.test(text)) score += 5;
-    
-    // Desplazamiento temporal
-    if (this.SARCASM_PATTERNS.temporalDisplacement.test(text)) score += 3;
-    
-    // Frases irónicas específicas
-    if (this.SARCASM_PATTERNS.ironicPhrases.test(text)) score += 4;
-    
-    // Puntos suspensivos después de palabras positivas
-    if (this.SARCASM_PATTERNS.suspiciousEllipsis.test(text)) score += 3;
-    
-    // Falso entusiasmo
-    if (this.SARCASM_PATTERNS.fakeEnthusiasm.test(text)) score += 3;
-    
-    // Elongaciones sarcásticas: "soooo good"
-    const elongations = /\b\w*([aeiou])\1{2,}\w*\b/gi;
-    if (elongations.test(text)) score += 2;
-    
-    // Exclamación excesiva seguida de crítica
-    const excessiveExclamation = /\b(amazing|great|perfect|wonderful|excellent|fantastic)!\s*.*\b(but|however|unfortunately|sadly|except|crashes|broken|fails|slow|terrible|awful|horrible)\b/gi;
-    if (excessiveExclamation.test(text)) score += 4;
-    
-    return Math.min(10, score);
+    return Math.floor(this.sarcasmDetector.detect(text).probability * 10);
   }
 
   /**
@@ -5,6 +5,11 @@
 
 import fs from "fs/promises";
 import path from "path";
+import {
+  CalibrationMethod,
+  ConfidenceCalibrator,
+  SerializedCalibrator,
+} from "../lib/sentiment/calibration";
 import { logger } from "../lib/observability/logger";
 import { NaiveBayesSentimentService } from "./naive-bayes-sentiment.service";
 
@@ -16,6 +21,21 @@ export interface ModelMetadata {
   features: string[];
   modelType: "naive_bayes" | "enhanced" | "hybrid";
   checksumMD5?: string;
+  calibration?: CalibrationSummary;
+}
+
+export interface CalibrationSummary {
+  method: CalibrationMethod;
+  fittedAt: string;
+  dataset: string;
+  sampleCount: number;
+  eceBefore: number;
+  eceAfter: number;
+}
+
+export interface StoredCalibration {
+  summary: CalibrationSummary;
+  calibrator: SerializedCalibrator;
 }
 
 export interface SerializedNaiveBayesModel {
@@ -40,6 +60,8 @@ export interface SavedModel {
 export class ModelPersistenceManager {
   private modelsDir: string;
   private metadataFile: string;
+  private calibrationFile: string;
+  private calibrationCache?: Promise<ConfidenceCalibrator | null>;
 
   constructor() {
     this.modelsDir = path.join(process.cwd(), "src", "data", "models");
@@ -49,6 +71,10 @@ export class ModelPersistenceManager {
       "data",
       "model-metadata.json",
     );
+    this.calibrationFile = path.join(
+      this.modelsDir,
+      "confidence_calibration.json",
+    );
   }
 
   /**
@@ -162,6 +188,61 @@ export class ModelPersistenceManager {
     }
   }
 
+  /**
+   * Save a fitted confidence calibrator and record it in the model metadata
+   */
+  async saveCalibration(
+    calibrator: ConfidenceCalibrator,
+    summary: CalibrationSummary,
+  ): Promise<void> {
+    await this.ensureModelsDirectory();
+
+    const stored: StoredCalibration = {
+      summary,
+      calibrator: calibrator.toJSON(),
+    };
+
+    try {
+      await fs.writeFile(
+        this.calibrationFile,
+        JSON.stringify(stored, null, 2),
+        "utf-8",
+      );
+
+      // The calibration belongs to the current model, so it travels with its metadata
+      const metadata = await this.loadMetadata();
+      if (metadata) {
+        await this.saveMetadata({ ...metadata, calibration: summary });
+      }
+
+      this.calibrationCache = Promise.resolve(calibrator);
+      logger.info(`Confidence calibration saved: ${this.calibrationFile}`, {
+        method: summary.method,
+        eceBefore: summary.eceBefore,
+        eceAfter: summary.eceAfter,
+      });
+    } catch (error) {
+      logger.error("Error saving confidence calibration", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load the saved confidence calibrator (read once, then cached)
+   */
+  async loadCalibration(): Promise<ConfidenceCalibrator | null> {
+    if (!this.calibrationCache) {
+      this.calibrationCache = fs
+        .readFile(this.calibrationFile, "utf-8")
+        .then((content) => {
+          const stored = JSON.parse(content) as StoredCalibration;
+          return ConfidenceCalibrator.fromJSON(stored.calibrator);
+        })
+        .catch(() => null);
+    }
+    return this.calibrationCache;
+  }
+
   /**
    * Validate model performance with test data
    */
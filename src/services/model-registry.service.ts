@@ -0,0 +1,488 @@
+/**
+ * Model Registry
+ * Versioned store of trained Naive Bayes models. Each training run becomes an
+ * immutable version (dataset hash, hyperparameters, holdout metrics) and exactly
+ * one version is active; orchestrators of every process switch to it on their
+ * next analysis.
+ */
+
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { logger } from "../lib/observability/logger";
+import { modelPersistenceManager } from "./model-persistence.service";
+import {
+  NaiveBayesOptions,
+  NaiveBayesSentimentService,
+  NaiveBayesTrainingExample,
+} from "./naive-bayes-sentiment.service";
+
+export type NaiveBayesModelState = ReturnType<NaiveBayesSentimentService["serialize"]>;
+
+export type ModelHyperparameters = Required<NaiveBayesOptions>;
+
+export interface ModelEvaluationMetrics {
+  // Percentages, as returned by ModelPersistenceManager.validateModel
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1Score: number;
+  holdoutSize: number;
+}
+
+export interface ModelVersion {
+  versionId: string;
+  createdAt: string;
+  createdBy?: string;
+  parentVersion: string | null; // active version when this one was trained
+  datasetHash: string;
+  datasetSize: number; // training examples, base datasets included
+  hyperparameters: ModelHyperparameters;
+  metrics: ModelEvaluationMetrics;
+  modelChecksum: string;
+  notes?: string;
+}
+
+export interface ModelVersionSummary extends ModelVersion {
+  active: boolean;
+}
+
+export interface ActiveModel {
+  version: ModelVersion;
+  model: NaiveBayesModelState;
+}
+
+export interface RegistryEvent {
+  action: "register" | "promote" | "rollback";
+  versionId: string;
+  previousVersion: string | null;
+  at: string;
+  by?: string;
+}
+
+export interface TrainModelVersionOptions {
+  hyperparameters?: Partial<NaiveBayesOptions>;
+  holdoutRatio?: number; // share of the examples kept for evaluation (default 0.2)
+  includeBaseDatasets?: boolean; // also train on the bootstrap datasets (default true)
+  createdBy?: string;
+  notes?: string;
+}
+
+export interface ModelVersionDiff {
+  from: ModelVersion;
+  to: ModelVersion;
+  hyperparameters: Record<string, { from: unknown; to: unknown }>; // changed only
+  metrics: Record<keyof ModelEvaluationMetrics, { from: number; to: number; delta: number }>;
+  dataset: { sameHash: boolean; sizeDelta: number };
+  vocabulary: { added: number; removed: number; shared: number };
+}
+
+interface RegistryIndex {
+  activeVersion: string | null;
+  previousVersions: string[]; // stack of formerly active versions, popped on rollback
+  events: RegistryEvent[];
+}
+
+interface StoredModelVersion {
+  manifest: ModelVersion;
+  model: NaiveBayesModelState;
+}
+
+const DEFAULT_HOLDOUT_RATIO = 0.2;
+const MAX_EVENTS = 200;
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Hash independiente del orden: Naive Bayes solo cuenta, así que el mismo
+ * conjunto de ejemplos produce siempre el mismo modelo
+ */
+export function hashDataset(examples: NaiveBayesTrainingExample[]): string {
+  const lines = examples.map((example) => `${example.label}\t${example.text}`);
+  return sha256(lines.sort().join("\n"));
+}
+
+/**
+ * Split determinista: los ejemplos se ordenan por hash del texto y los primeros
+ * `ratio` quedan para evaluación, así el holdout no depende del orden recibido
+ */
+export function splitHoldout(
+  examples: NaiveBayesTrainingExample[],
+  ratio: number,
+): { train: NaiveBayesTrainingExample[]; holdout: NaiveBayesTrainingExample[] } {
+  const sorted = [...examples].sort((a, b) => sha256(a.text).localeCompare(sha256(b.text)));
+  const holdoutSize = Math.max(1, Math.round(examples.length * ratio));
+  return {
+    holdout: sorted.slice(0, holdoutSize),
+    train: sorted.slice(holdoutSize),
+  };
+}
+
+export class ModelRegistry {
+  private registryDir: string;
+  private versionsDir: string;
+  private indexFile: string;
+  // Active version of the persisted index, re-read when the index file changes
+  private activeRevision: string | null = null;
+  private indexStamp?: string;
+  private activeCache?: Promise<ActiveModel | null>;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(options: { directory?: string } = {}) {
+    this.registryDir =
+      options.directory ?? path.join(process.cwd(), "src", "data", "models", "registry");
+    this.versionsDir = path.join(this.registryDir, "versions");
+    this.indexFile = path.join(this.registryDir, "registry.json");
+  }
+
+  /**
+   * Revision of the active version: the active version ID of the persisted
+   * index, so a promote or rollback made by another process is seen too. Costs
+   * a stat of the index per call; the index is only re-read when it changed
+   * (every write renames a new file over it, so its inode changes).
+   */
+  async getRevision(): Promise<string | null> {
+    const stamp = await fs
+      .stat(this.indexFile)
+      .then((stats) => `${stats.ino}:${stats.mtimeMs}`)
+      .catch(() => "missing");
+    if (stamp !== this.indexStamp) {
+      this.indexStamp = stamp;
+      const { activeVersion } = await this.readIndex();
+      if (activeVersion !== this.activeRevision) {
+        this.activeRevision = activeVersion;
+        this.activeCache = undefined;
+      }
+    }
+    return this.activeRevision;
+  }
+
+  /**
+   * Train a new Naive Bayes model, evaluate it on a holdout split and register it.
+   * The version is not activated: promote it to serve traffic.
+   */
+  async trainVersion(
+    examples: NaiveBayesTrainingExample[],
+    options: TrainModelVersionOptions = {},
+  ): Promise<ModelVersion> {
+    const { train, holdout } = splitHoldout(
+      examples,
+      options.holdoutRatio ?? DEFAULT_HOLDOUT_RATIO,
+    );
+
+    const service = new NaiveBayesSentimentService(options.hyperparameters);
+    // Mismos datos que el arranque del motor, más los ejemplos nuevos
+    const trainingSet =
+      (options.includeBaseDatasets ?? true)
+        ? [...NaiveBayesSentimentService.defaultDatasets().flat(), ...train]
+        : train;
+    service.train(trainingSet);
+
+    const validation = await modelPersistenceManager.validateModel(
+      service,
+      holdout.map((example) => ({
+        text: example.text,
+        expectedSentiment: example.label,
+      })),
+    );
+
+    return this.registerVersion(service, {
+      datasetHash: hashDataset(trainingSet),
+      datasetSize: trainingSet.length,
+      metrics: {
+        accuracy: validation.accuracy,
+        precision: validation.precision,
+        recall: validation.recall,
+        f1Score: validation.f1Score,
+        holdoutSize: holdout.length,
+      },
+      createdBy: options.createdBy,
+      notes: options.notes,
+    });
+  }
+
+  /**
+   * Store a trained model as a new immutable version
+   */
+  async registerVersion(
+    service: NaiveBayesSentimentService,
+    details: Pick<ModelVersion, "datasetHash" | "datasetSize" | "metrics" | "createdBy" | "notes">,
+  ): Promise<ModelVersion> {
+    return this.exclusive(async () => {
+      const model = service.serialize();
+      const index = await this.readIndex();
+      const createdAt = new Date().toISOString();
+      const modelChecksum = sha256(JSON.stringify(model));
+
+      const manifest: ModelVersion = {
+        versionId: `nb-${createdAt.replace(/[-:.]/g, "")}-${modelChecksum.slice(0, 8)}`,
+        createdAt,
+        ...(details.createdBy && { createdBy: details.createdBy }),
+        parentVersion: index.activeVersion,
+        datasetHash: details.datasetHash,
+        datasetSize: details.datasetSize,
+        hyperparameters: model.options,
+        metrics: details.metrics,
+        modelChecksum,
+        ...(details.notes && { notes: details.notes }),
+      };
+
+      await fs.mkdir(this.versionsDir, { recursive: true });
+      const stored: StoredModelVersion = { manifest, model };
+      // "wx": una versión nunca se sobrescribe
+      await fs.writeFile(this.versionFile(manifest.versionId), JSON.stringify(stored), {
+        encoding: "utf-8",
+        flag: "wx",
+      });
+
+      this.recordEvent(index, {
+        action: "register",
+        versionId: manifest.versionId,
+        previousVersion: index.activeVersion,
+        by: details.createdBy,
+      });
+      await this.writeIndex(index);
+
+      logger.info(`Model version registered: ${manifest.versionId}`, {
+        datasetSize: manifest.datasetSize,
+        accuracy: Number(manifest.metrics.accuracy.toFixed(2)),
+      });
+      return manifest;
+    });
+  }
+
+  /**
+   * All versions, newest first
+   */
+  async listVersions(): Promise<ModelVersionSummary[]> {
+    const index = await this.readIndex();
+    let files: string[];
+    try {
+      files = await fs.readdir(this.versionsDir);
+    } catch {
+      return [];
+    }
+
+    const versions = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => this.readVersion(path.basename(file, ".json"))),
+    );
+    return versions
+      .filter((stored): stored is StoredModelVersion => stored !== null)
+      .map(({ manifest }) => ({
+        ...manifest,
+        active: manifest.versionId === index.activeVersion,
+      }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getVersion(versionId: string): Promise<ModelVersionSummary | null> {
+    const stored = await this.readVersion(versionId);
+    if (!stored) return null;
+    const index = await this.readIndex();
+    return {
+      ...stored.manifest,
+      active: stored.manifest.versionId === index.activeVersion,
+    };
+  }
+
+  /**
+   * Serialized model of a version (e.g. to evaluate it before promoting)
+   */
+  async loadVersionModel(versionId: string): Promise<NaiveBayesModelState | null> {
+    return (await this.readVersion(versionId))?.model ?? null;
+  }
+
+  async getActiveVersion(): Promise<ModelVersion | null> {
+    return (await this.loadActiveModel())?.version ?? null;
+  }
+
+  async getEvents(): Promise<RegistryEvent[]> {
+    return (await this.readIndex()).events;
+  }
+
+  /**
+   * Active version and its model (read once per revision, then cached)
+   */
+  async loadActiveModel(): Promise<ActiveModel | null> {
+    if (!this.activeCache) {
+      this.activeCache = this.readIndex().then(async (index) => {
+        if (!index.activeVersion) return null;
+        const stored = await this.readVersion(index.activeVersion);
+        return stored ? { version: stored.manifest, model: stored.model } : null;
+      });
+    }
+    return this.activeCache;
+  }
+
+  /**
+   * Make a version active; the current one is kept for rollback
+   * @returns The promoted version, or null if it does not exist
+   */
+  async promote(versionId: string, by?: string): Promise<ModelVersion | null> {
+    return this.exclusive(async () => {
+      const stored = await this.readVersion(versionId);
+      if (!stored) return null;
+
+      const index = await this.readIndex();
+      if (index.activeVersion === versionId) return stored.manifest;
+
+      const previousVersion = index.activeVersion;
+      if (previousVersion) index.previousVersions.push(previousVersion);
+      index.activeVersion = versionId;
+      this.recordEvent(index, { action: "promote", versionId, previousVersion, by });
+      await this.activate(index);
+
+      logger.info(`Model version promoted: ${versionId}`, { previousVersion, by });
+      return stored.manifest;
+    });
+  }
+
+  /**
+   * Reactivate the version that was active before the current one
+   * @returns The restored version, or null if there is nothing to roll back to
+   */
+  async rollback(by?: string): Promise<ModelVersion | null> {
+    return this.exclusive(async () => {
+      const index = await this.readIndex();
+      const target = index.previousVersions.pop();
+      if (!target) return null;
+
+      const stored = await this.readVersion(target);
+      if (!stored) return null;
+
+      const previousVersion = index.activeVersion;
+      index.activeVersion = target;
+      this.recordEvent(index, { action: "rollback", versionId: target, previousVersion, by });
+      await this.activate(index);
+
+      logger.info(`Model version rolled back: ${previousVersion} -> ${target}`, { by });
+      return stored.manifest;
+    });
+  }
+
+  /**
+   * Compare two versions: hyperparameters, metrics, dataset and vocabulary
+   * @returns null if either version does not exist
+   */
+  async diffVersions(fromId: string, toId: string): Promise<ModelVersionDiff | null> {
+    const [from, to] = await Promise.all([this.readVersion(fromId), this.readVersion(toId)]);
+    if (!from || !to) return null;
+
+    const hyperparameters: ModelVersionDiff["hyperparameters"] = {};
+    const keys = new Set([
+      ...Object.keys(from.manifest.hyperparameters),
+      ...Object.keys(to.manifest.hyperparameters),
+    ]) as Set<keyof ModelHyperparameters>;
+    for (const key of keys) {
+      const before = from.manifest.hyperparameters[key];
+      const after = to.manifest.hyperparameters[key];
+      if (before !== after) hyperparameters[key] = { from: before, to: after };
+    }
+
+    const metricKeys: (keyof ModelEvaluationMetrics)[] = [
+      "accuracy",
+      "precision",
+      "recall",
+      "f1Score",
+      "holdoutSize",
+    ];
+    const metrics = Object.fromEntries(
+      metricKeys.map((key) => {
+        const before = from.manifest.metrics[key];
+        const after = to.manifest.metrics[key];
+        return [key, { from: before, to: after, delta: after - before }];
+      }),
+    ) as ModelVersionDiff["metrics"];
+
+    const fromVocabulary = new Set(from.model.vocabulary);
+    const toVocabulary = new Set(to.model.vocabulary);
+    const shared = [...toVocabulary].filter((word) => fromVocabulary.has(word)).length;
+
+    return {
+      from: from.manifest,
+      to: to.manifest,
+      hyperparameters,
+      metrics,
+      dataset: {
+        sameHash: from.manifest.datasetHash === to.manifest.datasetHash,
+        sizeDelta: to.manifest.datasetSize - from.manifest.datasetSize,
+      },
+      vocabulary: {
+        added: toVocabulary.size - shared,
+        removed: fromVocabulary.size - shared,
+        shared,
+      },
+    };
+  }
+
+  private async activate(index: RegistryIndex): Promise<void> {
+    await this.writeIndex(index);
+    this.activeCache = undefined;
+    this.activeRevision = index.activeVersion;
+    this.indexStamp = undefined;
+  }
+
+  private recordEvent(
+    index: RegistryIndex,
+    event: Omit<RegistryEvent, "at" | "by"> & { by?: string },
+  ): void {
+    index.events.push({
+      action: event.action,
+      versionId: event.versionId,
+      previousVersion: event.previousVersion,
+      at: new Date().toISOString(),
+      ...(event.by && { by: event.by }),
+    });
+    index.events = index.events.slice(-MAX_EVENTS);
+  }
+
+  private versionFile(versionId: string): string {
+    return path.join(this.versionsDir, `${versionId}.json`);
+  }
+
+  private async readVersion(versionId: string): Promise<StoredModelVersion | null> {
+    // Los ids vienen de la URL: nada de rutas relativas
+    if (!/^[\w-]+$/.test(versionId)) return null;
+    try {
+      const content = await fs.readFile(this.versionFile(versionId), "utf-8");
+      return JSON.parse(content) as StoredModelVersion;
+    } catch {
+      return null;
+    }
+  }
+
+  private async readIndex(): Promise<RegistryIndex> {
+    try {
+      const content = await fs.readFile(this.indexFile, "utf-8");
+      return JSON.parse(content) as RegistryIndex;
+    } catch {
+      return { activeVersion: null, previousVersions: [], events: [] };
+    }
+  }
+
+  /**
+   * Write the index through a temporary file so readers never see it half written
+   */
+  private async writeIndex(index: RegistryIndex): Promise<void> {
+    await fs.mkdir(this.registryDir, { recursive: true });
+    const tmpFile = `${this.indexFile}.tmp`;
+    await fs.writeFile(tmpFile, JSON.stringify(index, null, 2), "utf-8");
+    await fs.rename(tmpFile, this.indexFile);
+  }
+
+  /**
+   * Run registry writes one at a time
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(task, task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// Export singleton instance
+export const modelRegistry = new ModelRegistry();
@@ -1,10 +1,22 @@
 /**
  * Scraping Queue Service - Manejo asíncrono para requests grandes
- * Implementa cola de procesamiento con retry y backoff exponencial
+ * Implementa cola de procesamiento con retry y backoff exponencial.
+ * Los jobs y el progreso de sus chunks se guardan en Mongo: varios procesos de
+ * la API comparten la cola y, tras un reinicio o caída, los jobs se retoman
+ * desde el último chunk completado cuando expira el lease de su worker.
+ * Respeta las cuotas de la organización de cada campaña: no toma jobs de
+ * organizaciones en su límite de jobs simultáneos o sin tweets disponibles, y
+ * ajusta cada chunk a los tweets que le quedan.
  */
 
 import EventEmitter from 'events';
+import mongoose from 'mongoose';
+import os from 'os';
+import { appConfig } from '../lib/config/app';
 import { logger } from '../lib/observability/logger';
+import { MongoScrapingJobRepository } from '../repositories/mongo-scraping-job.repository';
+import type { Tweet } from '../types/twitter';
+import { scrapingQuotaService } from './scraping-quota.service';
 import { TwitterRealScraperService } from './twitter-scraper.service';
 
 // ==================== Types & Interfaces ====================
@@ -14,22 +26,40 @@ export interface QueueJob {
   query: string;
   targetTweets: number;
   campaignId: string;
+  organizationId?: string; // of the campaign, for its scraping quotas
+  // Scheduled collection run the job belongs to (its jobs and when it was planned)
+  collectionRun?: { id: string; jobs: number; plannedAt: Date };
   options: {
     includeReplies?: boolean;
     language?: string;
     maxAgeHours?: number;
+    analyzeSentiment?: boolean; // default true
   };
   priority: 'high' | 'medium' | 'low';
   createdAt: Date;
   attempts: number;
   maxAttempts: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'chunked';
+  // failed: waiting for a retry (nextAttemptAt); dead_letter: out of attempts
+  status:
+    | 'pending'
+    | 'processing'
+    | 'completed'
+    | 'failed'
+    | 'chunked'
+    | 'dead_letter'
+    | 'paused'
+    | 'cancelled';
   chunks?: QueueChunk[];
   progress?: {
     completed: number;
     total: number;
     currentChunk?: number;
   };
+  nextAttemptAt?: Date;
+  lease?: { owner: string; expiresAt: Date; heartbeatAt: Date };
+  lastError?: string;
+  startedAt?: Date;
+  completedAt?: Date;
 }
 
 export interface QueueChunk {
@@ -40,6 +70,7 @@ export interface QueueChunk {
   status: 'pending' | 'processing' | 'completed' | 'failed';
   retries: number;
   result?: any;
+  error?: string; // last scraping error of the chunk
 }
 
 export interface QueueStats {
@@ -48,18 +79,41 @@ export interface QueueStats {
   processingJobs: number;
   completedJobs: number;
   failedJobs: number;
+  deadLetterJobs: number;
   averageProcessingTime: number;
 }
 
+// Saves the tweets scraped for a job (sentiment, campaign, database)
+export type QueueTweetHandler = (job: QueueJob, tweets: Tweet[]) => Promise<void>;
+
+// Job leased by this process; leaseLost stops it when another worker took it over,
+// quotaExhausted when its organization has no tweets left
+interface ActiveJob {
+  job: QueueJob;
+  leaseLost: boolean;
+  quotaExhausted?: boolean;
+}
+
+// Jobs asking for more tweets are split into chunks of this size, each one a
+// new scrape of the same query
+export const QUEUE_CHUNK_SIZE = 100;
+
 // ==================== Main Queue Service ====================
 export class ScrapingQueueService extends EventEmitter {
   private static instance: ScrapingQueueService;
-  private queue: Map<string, QueueJob> = new Map();
-  private processing: Set<string> = new Set();
+  private repository = new MongoScrapingJobRepository();
+  private quotas = scrapingQuotaService;
+  private active: Map<string, ActiveJob> = new Map();
   private scraper: TwitterRealScraperService;
-  private maxConcurrent = 3;
-  private chunkSize = 100; // tweets per chunk
-  private retryDelay = 5000; // 5 seconds initial delay
+  private settings = appConfig.scrapingQueue;
+  private workerId = `${os.hostname()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+  private timer?: NodeJS.Timeout;
+  private tweetHandler?: QueueTweetHandler;
+  private polling = false;
+  private chunkSize = QUEUE_CHUNK_SIZE;
+  private chunkDelay = 2000; // between chunks to avoid overwhelming
+  private chunkRetryDelay = 5000;
+  private maxChunkRetries = 3;
 
   private constructor() {
     super();
@@ -85,9 +139,11 @@ export class ScrapingQueueService extends EventEmitter {
     targetTweets: number,
     campaignId: string,
     options: any = {},
-    priority: 'high' | 'medium' | 'low' = 'medium'
+    priority: 'high' | 'medium' | 'low' = 'medium',
+    collectionRun?: QueueJob['collectionRun']
   ): Promise<string> {
     const jobId = `${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const organizationId = await this.quotas.findOrganization(campaignId);
     
     const job: QueueJob = {
       id: jobId,
@@ -95,11 +151,13 @@ export class ScrapingQueueService extends EventEmitter {
       query,
       targetTweets,
       campaignId,
+      ...(organizationId && { organizationId }),
+      ...(collectionRun && { collectionRun }),
       options,
       priority,
       createdAt: new Date(),
       attempts: 0,
-      maxAttempts: 3,
+      maxAttempts: this.settings.maxAttempts,
       status: targetTweets > this.chunkSize ? 'chunked' : 'pending',
       progress: { completed: 0, total: targetTweets }
     };
@@ -110,7 +168,7 @@ export class ScrapingQueueService extends EventEmitter {
       job.status = 'chunked';
     }
 
-    this.queue.set(jobId, job);
+    await this.repository.create(job);
     
     logger.info('Job added to queue', {
       jobId,
@@ -125,35 +183,65 @@ export class ScrapingQueueService extends EventEmitter {
     return jobId;
   }
 
+  /**
+   * Registrar quién guarda los tweets scrapeados. Se llama antes de dar el
+   * chunk por completado, así que si falla el chunk se reintenta
+   */
+  setTweetHandler(handler: QueueTweetHandler): void {
+    this.tweetHandler = handler;
+  }
+
   /**
    * Obtener estado del job
    */
-  getJobStatus(jobId: string): QueueJob | null {
-    return this.queue.get(jobId) || null;
+  async getJobStatus(jobId: string): Promise<QueueJob | null> {
+    return this.repository.findById(jobId);
   }
 
   /**
-   * Obtener estadísticas de la cola
+   * Obtener estadísticas de la cola (de todos los procesos)
    */
-  getQueueStats(): QueueStats {
-    const jobs = Array.from(this.queue.values());
-    const totalTime = jobs
-      .filter(j => j.status === 'completed')
-      .reduce((sum, job) => {
-        const duration = job.progress?.completed || 0;
-        return sum + duration;
-      }, 0);
-
-    return {
-      totalJobs: jobs.length,
-      pendingJobs: jobs.filter(j => ['pending', 'chunked'].includes(j.status)).length,
-      processingJobs: jobs.filter(j => j.status === 'processing').length,
-      completedJobs: jobs.filter(j => j.status === 'completed').length,
-      failedJobs: jobs.filter(j => j.status === 'failed').length,
-      averageProcessingTime: jobs.filter(j => j.status === 'completed').length > 0 
-        ? totalTime / jobs.filter(j => j.status === 'completed').length 
-        : 0
-    };
+  async getQueueStats(): Promise<QueueStats> {
+    return this.repository.getStats();
+  }
+
+  /**
+   * Tomar y procesar el siguiente job disponible
+   * @returns false si no había ningún job que procesar
+   */
+  async processNext(): Promise<boolean> {
+    if (this.active.size >= this.settings.concurrency) return false;
+
+    const job = await this.claimNext();
+    if (!job) return false;
+
+    await this.processJob(job);
+    return true;
+  }
+
+  /**
+   * Detener el procesamiento y devolver a la cola los jobs en curso, que otro
+   * proceso (o este mismo tras reiniciar) retoma desde su último chunk
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    await Promise.all(
+      Array.from(this.active.values()).map(async (active) => {
+        active.leaseLost = true;
+        try {
+          await this.repository.release(active.job, this.workerId);
+        } catch (error) {
+          logger.warn('Failed to release job, it resumes when its lease expires', {
+            jobId: active.job.id,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      })
+    );
   }
 
   // ==================== Private Methods ====================
@@ -186,98 +274,175 @@ export class ScrapingQueueService extends EventEmitter {
    * Iniciar procesamiento de la cola
    */
   private startProcessing(): void {
-    setInterval(async () => {
-      if (this.processing.size >= this.maxConcurrent) return;
+    this.timer = setInterval(async () => {
+      if (this.polling || mongoose.connection.readyState !== 1) return;
+      this.polling = true;
+
+      try {
+        const deadLettered = await this.repository.deadLetterExpired();
+        if (deadLettered > 0) {
+          logger.warn('Jobs moved to the dead letter after their lease expired', { deadLettered });
+        }
 
-      const nextJob = this.getNextJob();
-      if (!nextJob) return;
+        while (this.active.size < this.settings.concurrency) {
+          const job = await this.claimNext();
+          if (!job) break;
+          void this.processJob(job);
+        }
+      } catch (error) {
+        logger.error('Queue polling failed', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      } finally {
+        this.polling = false;
+      }
+    }, this.settings.pollIntervalMs);
+  }
 
-      await this.processJob(nextJob);
-    }, 1000); // Check every second
+  /**
+   * Reclamar el siguiente job, saltando los de organizaciones en su límite de
+   * jobs simultáneos o sin tweets disponibles
+   */
+  private async claimNext(): Promise<QueueJob | null> {
+    const blocked = await this.quotas.findBlockedOrganizations(
+      await this.repository.findOrganizationsWithWork()
+    );
+    return this.repository.claimNext(this.workerId, this.settings.leaseMs, blocked);
   }
 
   /**
-   * Obtener siguiente job a procesar
+   * Tweets que puede pedir el job (como mucho `targetTweets`) según la cuota de
+   * su organización; 0 marca el job para esperar a que se renueve
    */
-  private getNextJob(): QueueJob | null {
-    const jobs = Array.from(this.queue.values())
-      .filter(job => 
-        !this.processing.has(job.id) && 
-        ['pending', 'chunked'].includes(job.status)
-      )
-      .sort((a, b) => {
-        // Priority order: high -> medium -> low
-        const priorityOrder = { high: 3, medium: 2, low: 1 };
-        if (priorityOrder[a.priority] !== priorityOrder[b.priority]) {
-          return priorityOrder[b.priority] - priorityOrder[a.priority];
-        }
-        // Then by creation time (FIFO)
-        return a.createdAt.getTime() - b.createdAt.getTime();
-      });
+  private async tweetBudget(active: ActiveJob, targetTweets: number): Promise<number> {
+    const { organizationId } = active.job;
+    if (!organizationId) return targetTweets;
 
-    return jobs[0] || null;
+    const budget = Math.min(targetTweets, await this.quotas.remainingTweets(organizationId));
+    if (budget <= 0) active.quotaExhausted = true;
+    return budget;
   }
 
   /**
-   * Procesar un job
+   * Descontar de la cuota de la organización los tweets scrapeados
+   */
+  private async recordUsage(job: QueueJob, tweets: number): Promise<void> {
+    if (!job.organizationId) return;
+    try {
+      await this.quotas.recordTweets(job.organizationId, tweets);
+    } catch (error) {
+      logger.warn('Failed to record scraping usage', {
+        jobId: job.id,
+        organizationId: job.organizationId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Procesar un job ya reclamado, renovando su lease mientras dure
    */
   private async processJob(job: QueueJob): Promise<void> {
-    this.processing.add(job.id);
-    job.status = 'processing';
-    job.attempts++;
+    const active: ActiveJob = { job, leaseLost: false };
+    this.active.set(job.id, active);
+
+    const heartbeat = setInterval(async () => {
+      try {
+        if (!(await this.repository.heartbeat(job.id, this.workerId, this.settings.leaseMs))) {
+          active.leaseLost = true;
+        }
+      } catch (error) {
+        logger.warn('Job heartbeat failed', {
+          jobId: job.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }, this.settings.leaseMs / 3);
 
     logger.info('Processing job', {
       jobId: job.id,
       type: job.type,
       targetTweets: job.targetTweets,
-      attempt: job.attempts
+      attempt: job.attempts,
+      resumedChunks: job.chunks?.filter(c => c.status === 'completed').length || 0
     });
 
     try {
       if (job.chunks && job.chunks.length > 0) {
-        await this.processChunkedJob(job);
+        await this.processChunkedJob(active);
       } else {
-        await this.processSingleJob(job);
+        await this.processSingleJob(active);
       }
 
+      // Sin tweets en la cuota: vuelve a la cola sin gastar el intento y no se
+      // reclama hasta que se renueve el presupuesto de su organización
+      if (active.quotaExhausted && !active.leaseLost) {
+        await this.repository.release(job, this.workerId);
+        logger.info('Job waiting for the scraping quota of its organization', {
+          jobId: job.id,
+          organizationId: job.organizationId
+        });
+        return;
+      }
+
+      if (active.leaseLost || !(await this.repository.complete(job.id, this.workerId, job))) {
+        logger.warn('Lost the lease of the job, left to the worker holding it', { jobId: job.id });
+        return;
+      }
       job.status = 'completed';
       this.emit('jobCompleted', job);
 
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       logger.error('Job processing failed', {
         jobId: job.id,
         attempt: job.attempts,
-        error: error instanceof Error ? error.message : String(error)
+        error: message
       });
 
-      if (job.attempts >= job.maxAttempts) {
-        job.status = 'failed';
-        this.emit('jobFailed', job);
-      } else {
-        job.status = 'pending';
-        // Exponential backoff
-        const delay = this.retryDelay * Math.pow(2, job.attempts - 1);
-        setTimeout(() => {
-          // Job will be retried in next processing cycle
-        }, delay);
+      // Exponential backoff; without attempts left the job goes to the dead letter
+      const retryAt = job.attempts >= job.maxAttempts
+        ? null
+        : new Date(Date.now() + this.settings.retryDelayMs * Math.pow(2, job.attempts - 1));
+
+      try {
+        if (await this.repository.fail(job.id, this.workerId, message, retryAt, job)) {
+          job.status = retryAt ? 'failed' : 'dead_letter';
+          job.lastError = message;
+          job.nextAttemptAt = retryAt ?? job.nextAttemptAt;
+          if (!retryAt) this.emit('jobFailed', job);
+        }
+      } catch (saveError) {
+        logger.error('Failed to record job failure, it resumes when its lease expires', {
+          jobId: job.id,
+          error: saveError instanceof Error ? saveError.message : String(saveError)
+        });
       }
     } finally {
-      this.processing.delete(job.id);
+      clearInterval(heartbeat);
+      this.active.delete(job.id);
     }
   }
 
   /**
    * Procesar job simple (sin chunks)
    */
-  private async processSingleJob(job: QueueJob): Promise<void> {
+  private async processSingleJob(active: ActiveJob): Promise<void> {
+    const { job } = active;
     const startTime = Date.now();
 
+    const budget = await this.tweetBudget(active, job.targetTweets);
+    if (budget <= 0) return;
+
     const result = await this.executeScraping(
       job.type,
       job.query,
-      job.targetTweets,
+      budget,
       job.options
     );
+    await this.tweetHandler?.(job, result.tweets);
+    // Solo se cobra lo ya entregado: si el handler falla, el reintento no lo cobra dos veces
+    await this.recordUsage(job, result.tweets.length);
 
     const duration = Date.now() - startTime;
     if (job.progress) {
@@ -293,17 +458,23 @@ export class ScrapingQueueService extends EventEmitter {
   }
 
   /**
-   * Procesar job con chunks
+   * Procesar job con chunks, guardando el progreso tras cada chunk. Los chunks
+   * ya completados (o fallidos) en un intento anterior no se repiten
    */
-  private async processChunkedJob(job: QueueJob): Promise<void> {
+  private async processChunkedJob(active: ActiveJob): Promise<void> {
+    const { job } = active;
     if (!job.chunks) return;
 
-    let totalTweets = 0;
-    const allTweets: any[] = [];
+    let totalTweets = job.progress?.completed || 0;
 
     for (let i = 0; i < job.chunks.length; i++) {
       const chunk = job.chunks[i];
-      
+      if (chunk.status === 'completed' || chunk.status === 'failed') continue;
+      if (active.leaseLost) return;
+
+      const budget = await this.tweetBudget(active, chunk.targetTweets);
+      if (budget <= 0) return;
+
       try {
         if (job.progress) {
           job.progress.currentChunk = i + 1;
@@ -314,14 +485,18 @@ export class ScrapingQueueService extends EventEmitter {
         const result = await this.executeScraping(
           job.type,
           job.query,
-          chunk.targetTweets,
+          budget,
           job.options
         );
+        await this.tweetHandler?.(job, result.tweets);
 
-        chunk.result = result;
+        // Only the count is stored: the tweets themselves are saved by the caller
+        chunk.result = { tweetCount: result.tweets.length };
         chunk.status = 'completed';
+        chunk.error = undefined;
+        // Charged with the completion, so a retried chunk is charged once
+        await this.recordUsage(job, result.tweets.length);
         totalTweets += result.tweets.length;
-        allTweets.push(...result.tweets);
 
         if (job.progress) {
           job.progress.completed = totalTweets;
@@ -335,12 +510,10 @@ export class ScrapingQueueService extends EventEmitter {
           totalTweets
         });
 
-        // Delay between chunks to avoid overwhelming
-        await this.sleep(2000);
-
       } catch (error: any) {
         chunk.retries++;
-        if (chunk.retries >= 3) {
+        chunk.error = error?.message || String(error);
+        if (chunk.retries >= this.maxChunkRetries) {
           chunk.status = 'failed';
           logger.error('Chunk failed permanently', {
             jobId: job.id,
@@ -350,11 +523,17 @@ export class ScrapingQueueService extends EventEmitter {
           });
         } else {
           chunk.status = 'pending';
-          // Retry chunk later
           i--; // Retry this chunk
-          await this.sleep(5000); // Wait before retry
         }
       }
+
+      if (!(await this.repository.saveProgress(job.id, this.workerId, job))) {
+        active.leaseLost = true;
+        return;
+      }
+
+      // Delay before the next chunk (or before retrying this one)
+      await this.sleep(chunk.status === 'pending' ? this.chunkRetryDelay : this.chunkDelay);
     }
 
     logger.info('Chunked job completed', {
@@ -0,0 +1,397 @@
+/**
+ * Scraping Quota Service
+ * Scraping quotas of each organization: daily and monthly tweet budgets,
+ * scrapes running at once (queue jobs and manual async scrapes) and active
+ * campaigns. Limits come from the organization policy, then its plan, then the
+ * configured defaults.
+ * Usage counters are shared by every API process. Checks do not reserve
+ * tweets, so concurrent requests can overshoot a budget by what they scrape at
+ * once; the queue clamps each chunk to what is left.
+ * Emits "quotaWarning" once per counter and period when the tweets scraped
+ * reach the warning percentage of the budget.
+ */
+
+import EventEmitter from "events";
+import mongoose from "mongoose";
+import { appConfig } from "../lib/config/app";
+import { logger } from "../lib/observability/logger";
+import { QUOTA_LIMIT_KEYS, QuotaLimits } from "../models/QuotaPolicy.model";
+import type { UsagePeriod } from "../models/ScrapingUsage.model";
+import { MongoCampaignRepository } from "../repositories/mongo-campaign.repository";
+import { MongoScrapingJobRepository } from "../repositories/mongo-scraping-job.repository";
+import { MongoScrapingQuotaRepository } from "../repositories/mongo-scraping-quota.repository";
+
+export type QuotaMetric =
+  | "dailyTweets"
+  | "monthlyTweets"
+  | "concurrentJobs"
+  | "activeCampaigns";
+
+export interface QuotaMeter {
+  used: number;
+  limit: number;
+  remaining: number;
+  percentage: number;
+  resetsAt?: Date; // tweet budgets only
+}
+
+export interface QuotaCheck extends QuotaMeter {
+  allowed: boolean;
+  metric: QuotaMetric;
+}
+
+export interface QuotaWarning {
+  organizationId: string;
+  metric: QuotaMetric;
+  used: number;
+  limit: number;
+  percentage: number;
+}
+
+export interface OrganizationUsage {
+  organizationId: string;
+  plan: string;
+  limits: QuotaLimits;
+  usage: Record<QuotaMetric, QuotaMeter>;
+  warnings: QuotaWarning[];
+}
+
+interface ResolvedPolicy {
+  plan: string;
+  limits: QuotaLimits;
+}
+
+const TWEET_PERIODS: Record<UsagePeriod, "dailyTweets" | "monthlyTweets"> = {
+  day: "dailyTweets",
+  month: "monthlyTweets",
+};
+
+/**
+ * Start and end (exclusive) of the UTC day or month containing `now`
+ */
+export function usagePeriod(
+  period: UsagePeriod,
+  now: Date,
+): { start: Date; end: Date } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const day = now.getUTCDate();
+
+  return period === "day"
+    ? {
+        start: new Date(Date.UTC(year, month, day)),
+        end: new Date(Date.UTC(year, month, day + 1)),
+      }
+    : {
+        start: new Date(Date.UTC(year, month, 1)),
+        end: new Date(Date.UTC(year, month + 1, 1)),
+      };
+}
+
+function meter(used: number, limit: number, resetsAt?: Date): QuotaMeter {
+  return {
+    used,
+    limit,
+    remaining: Math.max(0, limit - used),
+    percentage: limit > 0 ? Math.round((used / limit) * 100) : 100,
+    ...(resetsAt && { resetsAt }),
+  };
+}
+
+export class ScrapingQuotaService extends EventEmitter {
+  private readonly policies = new Map<
+    string,
+    { policy: ResolvedPolicy; expiresAt: number }
+  >();
+  // Manual async scrapes running in this process, per organization
+  private readonly manualScrapes = new Map<string, number>();
+
+  constructor(
+    private readonly quotas = new MongoScrapingQuotaRepository(),
+    private readonly campaigns = new MongoCampaignRepository(),
+    private readonly jobs = new MongoScrapingJobRepository(),
+    private readonly settings = appConfig.scrapingQuotas,
+  ) {
+    super();
+  }
+
+  /**
+   * Plan and limits of an organization (cached for `policyCacheMs`)
+   */
+  async getPolicy(organizationId: string): Promise<ResolvedPolicy> {
+    const cached = this.policies.get(organizationId);
+    if (cached && cached.expiresAt > Date.now()) return cached.policy;
+
+    const organization = await this.quotas.findPolicy(
+      "organization",
+      organizationId,
+    );
+    const plan = organization?.plan || this.settings.defaultPlan;
+    const planPolicy = await this.quotas.findPolicy("plan", plan);
+
+    const limits = { ...this.settings.defaults };
+    for (const overrides of [planPolicy?.limits, organization?.limits]) {
+      for (const key of QUOTA_LIMIT_KEYS) {
+        const value = overrides?.[key];
+        if (typeof value === "number") limits[key] = value;
+      }
+    }
+
+    const policy = { plan, limits };
+    this.policies.set(organizationId, {
+      policy,
+      expiresAt: Date.now() + this.settings.policyCacheMs,
+    });
+    return policy;
+  }
+
+  /**
+   * Forget the cached policies (all of them when a plan changed)
+   */
+  invalidatePolicies(organizationId?: string): void {
+    if (organizationId) this.policies.delete(organizationId);
+    else this.policies.clear();
+  }
+
+  /**
+   * Usage of every quota of an organization, with the warnings of those at or
+   * above the warning percentage
+   */
+  async getUsage(
+    organizationId: string,
+    now: Date = new Date(),
+  ): Promise<OrganizationUsage> {
+    const { plan, limits } = await this.getPolicy(organizationId);
+    const [tweets, concurrentJobs, activeCampaigns] = await Promise.all([
+      this.getTweetMeters(organizationId, limits, now),
+      this.countRunning(organizationId),
+      this.campaigns.countActiveByOrganization(organizationId),
+    ]);
+
+    const usage: Record<QuotaMetric, QuotaMeter> = {
+      ...tweets,
+      concurrentJobs: meter(concurrentJobs, limits.maxConcurrentJobs),
+      activeCampaigns: meter(activeCampaigns, limits.maxActiveCampaigns),
+    };
+    const warnings = (Object.keys(usage) as QuotaMetric[])
+      .filter(
+        (metric) => usage[metric].percentage >= this.settings.warningPercent,
+      )
+      .map((metric) => ({
+        organizationId,
+        metric,
+        used: usage[metric].used,
+        limit: usage[metric].limit,
+        percentage: usage[metric].percentage,
+      }));
+
+    return { organizationId, plan, limits, usage, warnings };
+  }
+
+  /**
+   * Whether an organization can scrape `requested` more tweets: checked
+   * against the tweet budget (daily or monthly) with less left
+   */
+  async checkTweets(
+    organizationId: string,
+    requested: number,
+    now: Date = new Date(),
+  ): Promise<QuotaCheck> {
+    const { limits } = await this.getPolicy(organizationId);
+    const { dailyTweets, monthlyTweets } = await this.getTweetMeters(
+      organizationId,
+      limits,
+      now,
+    );
+    const [metric, binding]: [QuotaMetric, QuotaMeter] =
+      monthlyTweets.remaining < dailyTweets.remaining
+        ? ["monthlyTweets", monthlyTweets]
+        : ["dailyTweets", dailyTweets];
+
+    return {
+      ...binding,
+      metric,
+      allowed: !this.settings.enabled || requested <= binding.remaining,
+    };
+  }
+
+  /**
+   * Whether an organization can activate one more campaign
+   */
+  async checkActiveCampaigns(organizationId: string): Promise<QuotaCheck> {
+    const { limits } = await this.getPolicy(organizationId);
+    const active =
+      await this.campaigns.countActiveByOrganization(organizationId);
+    const activeCampaigns = meter(active, limits.maxActiveCampaigns);
+
+    return {
+      ...activeCampaigns,
+      metric: "activeCampaigns",
+      allowed: !this.settings.enabled || activeCampaigns.remaining > 0,
+    };
+  }
+
+  /**
+   * Start a manual async scrape if the organization has fewer scrapes running
+   * (queue jobs and manual ones) than `maxConcurrentJobs`. An allowed scrape
+   * counts as running until `finishManualScrape`.
+   */
+  async startManualScrape(organizationId: string): Promise<QuotaCheck> {
+    const { limits } = await this.getPolicy(organizationId);
+    const processing = await this.jobs.countProcessing(organizationId);
+    // No await from here on: concurrent requests see each other's count
+    const running = processing + (this.manualScrapes.get(organizationId) ?? 0);
+    const concurrentJobs = meter(running, limits.maxConcurrentJobs);
+    const allowed = !this.settings.enabled || concurrentJobs.remaining > 0;
+
+    if (allowed) {
+      this.manualScrapes.set(
+        organizationId,
+        (this.manualScrapes.get(organizationId) ?? 0) + 1,
+      );
+    }
+    return { ...concurrentJobs, metric: "concurrentJobs", allowed };
+  }
+
+  /**
+   * End a manual async scrape started with `startManualScrape`
+   */
+  finishManualScrape(organizationId: string): void {
+    const running = (this.manualScrapes.get(organizationId) ?? 0) - 1;
+    if (running > 0) this.manualScrapes.set(organizationId, running);
+    else this.manualScrapes.delete(organizationId);
+  }
+
+  /**
+   * Count scraped tweets against the budgets of an organization, warning
+   * (once per period) when a budget reaches the warning percentage
+   */
+  async recordTweets(
+    organizationId: string,
+    tweets: number,
+    now: Date = new Date(),
+  ): Promise<void> {
+    if (tweets <= 0) return;
+    const { limits } = await this.getPolicy(organizationId);
+
+    for (const period of Object.keys(TWEET_PERIODS) as UsagePeriod[]) {
+      const { start } = usagePeriod(period, now);
+      const counter = await this.quotas.incrementUsage(
+        organizationId,
+        period,
+        start,
+        tweets,
+      );
+      const metric = TWEET_PERIODS[period];
+      const { used, limit, percentage } = meter(counter.tweets, limits[metric]);
+
+      if (
+        percentage >= this.settings.warningPercent &&
+        !counter.warnedAt &&
+        (await this.quotas.markWarned(organizationId, period, start))
+      ) {
+        const warning: QuotaWarning = {
+          organizationId,
+          metric,
+          used,
+          limit,
+          percentage,
+        };
+        logger.warn("Scraping quota warning", { ...warning });
+        this.emit("quotaWarning", warning);
+      }
+    }
+  }
+
+  /**
+   * Count scraped tweets against the organization of a campaign. Never
+   * throws: a failure only loses the count.
+   */
+  async recordCampaignTweets(
+    campaignId: string,
+    tweets: number,
+  ): Promise<void> {
+    try {
+      const organizationId = await this.findOrganization(campaignId);
+      if (organizationId) await this.recordTweets(organizationId, tweets);
+    } catch (error) {
+      logger.error("Failed to record scraping usage", {
+        campaignId,
+        tweets,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Organization of a campaign, if the campaign exists
+   */
+  async findOrganization(campaignId: string): Promise<string | undefined> {
+    if (!mongoose.Types.ObjectId.isValid(campaignId)) return undefined;
+    const campaign = await this.campaigns.findById(campaignId);
+    return campaign?.organizationId || undefined;
+  }
+
+  /**
+   * Organizations whose queue jobs must wait: as many scrapes running (jobs
+   * processing and manual scrapes) as they are allowed, or no tweets left in
+   * their budgets
+   */
+  async findBlockedOrganizations(
+    organizations: { organizationId: string; processing: number }[],
+    now: Date = new Date(),
+  ): Promise<string[]> {
+    if (!this.settings.enabled) return [];
+
+    const blocked: string[] = [];
+    for (const { organizationId, processing } of organizations) {
+      const { limits } = await this.getPolicy(organizationId);
+      const manual = this.manualScrapes.get(organizationId) ?? 0;
+      if (
+        processing + manual >= limits.maxConcurrentJobs ||
+        (await this.remainingTweets(organizationId, now)) <= 0
+      ) {
+        blocked.push(organizationId);
+      }
+    }
+    return blocked;
+  }
+
+  /**
+   * Tweets an organization can still scrape (Infinity with quotas disabled)
+   */
+  async remainingTweets(
+    organizationId: string,
+    now: Date = new Date(),
+  ): Promise<number> {
+    if (!this.settings.enabled) return Infinity;
+    return (await this.checkTweets(organizationId, 0, now)).remaining;
+  }
+
+  // Queue jobs processing and manual scrapes of this process
+  private async countRunning(organizationId: string): Promise<number> {
+    const processing = await this.jobs.countProcessing(organizationId);
+    return processing + (this.manualScrapes.get(organizationId) ?? 0);
+  }
+
+  private async getTweetMeters(
+    organizationId: string,
+    limits: QuotaLimits,
+    now: Date,
+  ): Promise<Record<"dailyTweets" | "monthlyTweets", QuotaMeter>> {
+    const day = usagePeriod("day", now);
+    const month = usagePeriod("month", now);
+    const [daily, monthly] = await Promise.all([
+      this.quotas.getUsage(organizationId, "day", day.start),
+      this.quotas.getUsage(organizationId, "month", month.start),
+    ]);
+
+    return {
+      dailyTweets: meter(daily, limits.dailyTweets, day.end),
+      monthlyTweets: meter(monthly, limits.monthlyTweets, month.end),
+    };
+  }
+}
+
+// Shared by the scraping handlers, the queue and the usage routes
+export const scrapingQuotaService = new ScrapingQuotaService();
@@ -4,7 +4,14 @@
  * Integrated with MongoTweetRepository functionality
  */
 
+import { appConfig } from "../lib/config/app";
 import { logger } from "../lib/observability/logger";
+import {
+  clusterNearDuplicates,
+  lshBands,
+  minHashSignature,
+  NearDuplicateItem,
+} from "../lib/utils/near-duplicate.utils";
 import { ITweetDocument, TweetModel } from "../models/Tweet.model";
 import { MongoTweetRepository } from "../repositories/mongo-tweet.repository";
 import { Tweet } from "../types/twitter";
@@ -33,6 +40,7 @@ export interface BulkSaveResult {
   errors: number;
   savedTweetIds: string[];
   errorMessages: string[];
+  nearDuplicates?: number; // new tweets that joined a near-duplicate cluster
 }
 
 export interface StorageStats {
@@ -42,6 +50,8 @@ export interface StorageStats {
   averageSentiment: number;
 }
 
+type NearDuplicateData = NonNullable<ITweetDocument["nearDuplicate"]>;
+
 // ==================== Utility Functions ====================
 const normalizeHashtag = (tag: string): string =>
   tag.replace("#", "").toLowerCase().trim();
@@ -243,7 +253,21 @@ export class TweetDatabaseService {
 
       // Process new tweets in optimized batches
       if (newTweets.length > 0) {
-        await this.processBatchInserts(newTweets, campaignId, result);
+        const nearDuplicates = await this.detectNearDuplicates(
+          newTweets,
+          campaignId,
+        );
+        result.nearDuplicates = [...nearDuplicates.values()].filter(
+          (nearDuplicate) => nearDuplicate.clusterId,
+        ).length;
+
+        await this.processBatchInserts(
+          newTweets,
+          campaignId,
+          result,
+          nearDuplicates,
+        );
+        await this.refreshNearDuplicateClusters(nearDuplicates);
       }
 
       // Process updates efficiently
@@ -271,6 +295,7 @@ export class TweetDatabaseService {
     tweets: Tweet[],
     campaignId: string | undefined,
     result: BulkSaveResult,
+    nearDuplicates: Map<string, NearDuplicateData> = new Map(),
   ): Promise<void> {
     for (let i = 0; i < tweets.length; i += BATCH_SIZE) {
       const batch = tweets.slice(i, i + BATCH_SIZE);
@@ -278,9 +303,10 @@ export class TweetDatabaseService {
 
       while (retryCount < MAX_RETRY_ATTEMPTS) {
         try {
-          const tweetDocuments = batch.map((tweet) =>
-            this.mapScrapedTweetToDocument(tweet, campaignId),
-          );
+          const tweetDocuments = batch.map((tweet) => ({
+            ...this.mapScrapedTweetToDocument(tweet, campaignId),
+            nearDuplicate: nearDuplicates.get(tweet.tweetId),
+          }));
 
           const insertedTweets = await TweetModel.insertMany(tweetDocuments, {
             ordered: false,
@@ -323,6 +349,122 @@ export class TweetDatabaseService {
     }
   }
 
+  /**
+   * Cluster new tweets with the near-identical tweets stored for the campaign
+   * in the last hours (MinHash LSH). Stored tweets that join, merge or turn a
+   * cluster coordinated are updated here; new ones get their data on insert.
+   * Detection never blocks saving: on failure tweets are saved without it.
+   * @returns Near-duplicate data of each new tweet long enough to compare
+   */
+  private async detectNearDuplicates(
+    tweets: Tweet[],
+    campaignId: string | undefined,
+  ): Promise<Map<string, NearDuplicateData>> {
+    const settings = appConfig.nearDuplicates;
+    const nearDuplicates = new Map<string, NearDuplicateData>();
+    if (!settings.enabled) return nearDuplicates;
+
+    try {
+      const items: NearDuplicateItem[] = [];
+      for (const tweet of tweets) {
+        const document = this.mapScrapedTweetToDocument(tweet, campaignId);
+        const signature = minHashSignature(document.content ?? "");
+        if (!signature) continue;
+
+        nearDuplicates.set(tweet.tweetId, { bands: lshBands(signature) });
+        items.push({
+          id: tweet.tweetId,
+          text: document.content ?? "",
+          author: document.author?.username ?? "",
+          createdAt: document.tweetCreatedAt ?? new Date(),
+        });
+      }
+      if (items.length === 0) return nearDuplicates;
+
+      const oldest = Math.min(...items.map((item) => item.createdAt.getTime()));
+      const candidates = await this.repository.findNearDuplicateCandidates(
+        campaignId,
+        [...new Set([...nearDuplicates.values()].flatMap((n) => n.bands))],
+        new Date(oldest - settings.lookbackHours * 60 * 60 * 1000),
+      );
+
+      const assignments = clusterNearDuplicates(
+        [
+          ...candidates.map((candidate) => ({
+            id: candidate.tweetId,
+            text: candidate.content,
+            author: candidate.author?.username ?? "",
+            createdAt: new Date(candidate.tweetCreatedAt),
+            clusterId: candidate.nearDuplicate?.clusterId,
+            coordinated: candidate.nearDuplicate?.coordinated,
+          })),
+          ...items,
+        ],
+        settings,
+      );
+
+      // Stored tweets that joined a cluster, were merged into another one or
+      // became part of a coordinated cluster
+      const merges = new Map<string, string>();
+      const updates: Array<{
+        tweetId: string;
+        clusterId: string;
+        coordinated: boolean;
+      }> = [];
+      for (const candidate of candidates) {
+        const assignment = assignments.get(candidate.tweetId);
+        if (!assignment) continue;
+        const previous = candidate.nearDuplicate ?? {};
+        if (previous.clusterId && previous.clusterId !== assignment.clusterId) {
+          merges.set(previous.clusterId, assignment.clusterId);
+        }
+        if (
+          previous.clusterId !== assignment.clusterId ||
+          (assignment.coordinated && !previous.coordinated)
+        ) {
+          updates.push({ tweetId: candidate.tweetId, ...assignment });
+        }
+      }
+      await this.repository.assignNearDuplicateClusters(updates, merges);
+
+      for (const [tweetId, nearDuplicate] of nearDuplicates) {
+        const assignment = assignments.get(tweetId);
+        if (assignment) {
+          nearDuplicates.set(tweetId, { ...nearDuplicate, ...assignment });
+        }
+      }
+      return nearDuplicates;
+    } catch (error) {
+      logger.warn("Near-duplicate detection failed, saving tweets without it", {
+        error: error instanceof Error ? error.message : String(error),
+        tweetCount: tweets.length,
+      });
+      return new Map();
+    }
+  }
+
+  /**
+   * Update size and coordinated flag of the clusters new tweets joined
+   */
+  private async refreshNearDuplicateClusters(
+    nearDuplicates: Map<string, NearDuplicateData>,
+  ): Promise<void> {
+    const clusterIds = new Set(
+      [...nearDuplicates.values()]
+        .map((nearDuplicate) => nearDuplicate.clusterId)
+        .filter((clusterId): clusterId is string => Boolean(clusterId)),
+    );
+
+    try {
+      await this.repository.refreshNearDuplicateClusters([...clusterIds]);
+    } catch (error) {
+      logger.warn("Failed to refresh near-duplicate clusters", {
+        error: error instanceof Error ? error.message : String(error),
+        clusters: clusterIds.size,
+      });
+    }
+  }
+
   private async processBatchUpdates(
     tweets: Tweet[],
     campaignId: string | undefined,
@@ -378,6 +520,8 @@ export class TweetDatabaseService {
         confidence: tweet.sentiment.confidence,
         emotions: tweet.sentiment.emotions,
         keywords: tweet.sentiment.keywords || [],
+        ...(tweet.sentiment.aspects && { aspects: tweet.sentiment.aspects }),
+        ...(tweet.sentiment.entities && { entities: tweet.sentiment.entities }),
         analyzedAt: new Date(),
         processingTime: tweet.sentiment.processingTime,
       };
@@ -431,6 +575,10 @@ export class TweetDatabaseService {
             confidence: tweet.sentiment.confidence,
             emotions: tweet.sentiment.emotions,
             keywords: tweet.sentiment.keywords || [],
+            ...(tweet.sentiment.aspects && { aspects: tweet.sentiment.aspects }),
+            ...(tweet.sentiment.entities && {
+              entities: tweet.sentiment.entities,
+            }),
             analyzedAt: now,
             processingTime: tweet.sentiment.processingTime,
           }
@@ -7,7 +7,13 @@ import { Core } from "../core";
 import { logger } from "../lib/observability/logger";
 import { defaultMetrics, metricsRegistry } from "../lib/observability/metrics";
 import { SentimentAnalysisOrchestrator } from "../lib/sentiment/orchestrator";
-import { TweetSentimentAnalysis } from "../lib/sentiment/types";
+import {
+    AnalysisResult,
+    AspectDictionary,
+    BatchAnalysisItem,
+    EntityDefinition,
+    TweetSentimentAnalysis,
+} from "../lib/sentiment/types";
 import { Tweet } from "../types/twitter";
 import { AutoLearningNaiveBayesService } from "./auto-learning-naive-bayes.service";
 import type {
@@ -34,10 +40,16 @@ export class TweetSentimentAnalysisManager {
 
   /**
    * Analiza el sentimiento de un tweet individual con validación centralizada
+   * Si se pasa `aspectDictionary`, el resultado incluye `analysis.aspects`;
+   * con `entities`, `analysis.entities` y las menciones de marca salen de ellas
    */
   async analyzeTweet(
     tweet: Tweet,
-    config?: { brandKeywords?: string[] },
+    config?: {
+      brandKeywords?: string[];
+      aspectDictionary?: AspectDictionary;
+      entities?: EntityDefinition[];
+    },
   ): Promise<TweetSentimentAnalysis> {
     // Manejo especial para tweets vacíos - retorna resultado neutral en lugar de lanzar error
     const content = tweet.content || tweet.text || "";
@@ -58,6 +70,8 @@ export class TweetSentimentAnalysisManager {
               fear: 0,
               surprise: 0,
               disgust: 0,
+              trust: 0,
+              anticipation: 0,
             },
           },
           language: "en", // Default language for empty tweets
@@ -95,55 +109,17 @@ export class TweetSentimentAnalysisManager {
 
     try {
       const start = Date.now();
-      const result = await this.orchestrator.analyzeText(tweetDTO);
+      const result = await this.orchestrator.analyzeText({
+        ...tweetDTO,
+        ...(config?.aspectDictionary && {
+          aspectMode: true,
+          aspectDictionary: config.aspectDictionary,
+        }),
+        ...(config?.entities && { entities: config.entities }),
+      });
       const duration = Date.now() - start;
 
-      // Update metrics
-      try {
-        const totalMetric = metricsRegistry.getMetric(
-          "sentiment_analysis_total",
-        );
-        totalMetric?.inc(1);
-        const durationMetric = metricsRegistry.getMetric(
-          "sentiment_analysis_duration_ms",
-        );
-        durationMetric?.observe(duration);
-
-        // Compute average confidence gauge (custom metric)
-        const confidence =
-          (result.sentiment && result.sentiment.confidence) || 0;
-        try {
-          defaultMetrics.tweetSentimentConfidence.set(confidence, {
-            language: result.language || "unknown",
-          });
-        } catch (err) {
-          logger.debug("Failed to set tweet_sentiment_confidence_avg", { err });
-        }
-
-        // Increment per-tweet sentiment counter
-        try {
-          const label = result.sentiment?.label || "neutral";
-          defaultMetrics.tweetSentimentTotal.inc(1, {
-            sentiment: label,
-            language: result.language || "unknown",
-          });
-        } catch (err) {
-          logger.debug("Failed to increment tweet_sentiment_total", { err });
-        }
-
-        // Observe per-tweet latency
-        try {
-          defaultMetrics.tweetSentimentLatency.observe(duration, {
-            language: result.language || "unknown",
-          });
-        } catch (err) {
-          logger.debug("Failed to observe tweet_sentiment_latency_ms", { err });
-        }
-      } catch (metricErr) {
-        logger.debug("Failed to update sentiment metrics", {
-          error: metricErr,
-        });
-      }
+      this.recordAnalysisMetrics(result, duration);
 
       // Convertimos el resultado a TweetSentimentAnalysis usando el mapper
       return Core.Mappers.SentimentAnalysis.map(tweet, result, {
@@ -161,11 +137,18 @@ export class TweetSentimentAnalysisManager {
 
   /**
    * Analiza el sentimiento de múltiples tweets en lote con validación centralizada
-   * Optimizado para procesamiento paralelo y deduplicación
+   * Usa el pipeline por lotes del orquestador (deduplicación, caché y NB vectorizado);
+   * los tweets que fallan reciben un análisis neutral sin romper el lote.
+   * Con `campaignId` se usa el pipeline de análisis de la campaña, si tiene uno
    */
   async analyzeTweetsBatch(
     tweets: Tweet[],
-    config?: { brandKeywords?: string[] },
+    config?: {
+      brandKeywords?: string[];
+      aspectDictionary?: AspectDictionary;
+      entities?: EntityDefinition[];
+      campaignId?: string;
+    },
   ): Promise<TweetSentimentAnalysis[]> {
     // Validar entrada del lote
     const validation = Core.Validators.Tweet.validateBatch(tweets);
@@ -176,39 +159,49 @@ export class TweetSentimentAnalysisManager {
     }
 
     try {
-      // Optimize for batch processing with controlled concurrency
-      const BATCH_SIZE = 10; // Process in chunks to avoid overwhelming the system
-      const results: TweetSentimentAnalysis[] = [];
-
-      // Process tweets in parallel batches
-      for (let i = 0; i < tweets.length; i += BATCH_SIZE) {
-        const batch = tweets.slice(i, i + BATCH_SIZE);
-
-        // Process batch in parallel with controlled concurrency
-        const batchPromises = batch.map(async (tweet) => {
-          try {
-            return await this.analyzeTweet(tweet, config);
-          } catch (error) {
-            // Handle individual tweet errors gracefully
-            logger.warn(
-              `Failed to analyze tweet ${tweet.id || tweet.tweetId}`,
-              { error },
-            );
-            // Return neutral analysis for failed tweets to maintain batch integrity
-            return this.createNeutralAnalysis(tweet);
-          }
-        });
+      const results: Array<TweetSentimentAnalysis | undefined> = new Array(tweets.length);
+      const pending: number[] = [];
+      const requests: BatchAnalysisItem[] = [];
 
-        const batchResults = await Promise.all(batchPromises);
-        results.push(...batchResults);
+      for (const [index, tweet] of tweets.entries()) {
+        try {
+          requests.push({
+            ...Core.Mappers.Tweet.map(tweet),
+            ...(config?.aspectDictionary && {
+              aspectMode: true,
+              aspectDictionary: config.aspectDictionary,
+            }),
+            ...(config?.entities && { entities: config.entities }),
+            ...(config?.campaignId && { campaignId: config.campaignId }),
+          });
+          pending.push(index);
+        } catch (error) {
+          logger.warn(`Failed to analyze tweet ${tweet.id || tweet.tweetId}`, { error });
+          results[index] = this.createNeutralAnalysis(tweet);
+        }
+      }
 
-        // Brief pause between batches to prevent overwhelming downstream services
-        if (i + BATCH_SIZE < tweets.length) {
-          await new Promise((resolve) => setTimeout(resolve, 10));
+      const { items, summary } = await this.orchestrator.analyzeBatchWithStatus(requests);
+      const duration = items.length > 0 ? summary.processingTime / items.length : 0;
+
+      for (const item of items) {
+        const tweet = tweets[pending[item.index]];
+        if (!item.result) {
+          logger.warn(`Failed to analyze tweet ${tweet.id || tweet.tweetId}`, {
+            error: item.error,
+          });
+          results[pending[item.index]] = this.createNeutralAnalysis(tweet);
+          continue;
         }
+        this.recordAnalysisMetrics(item.result, duration);
+        results[pending[item.index]] = Core.Mappers.SentimentAnalysis.map(tweet, item.result, {
+          includeMarketingInsights: true,
+          includeBrandMentions: true,
+          brandKeywords: config?.brandKeywords || [],
+        });
       }
 
-      return results;
+      return results as TweetSentimentAnalysis[];
     } catch (error) {
       throw Core.Errors.modelProcessingError(
         "batch analysis",
@@ -219,6 +212,57 @@ export class TweetSentimentAnalysisManager {
     }
   }
 
+  /**
+   * Actualiza las métricas de análisis (total, duración, confianza y etiqueta)
+   */
+  private recordAnalysisMetrics(result: AnalysisResult, duration: number): void {
+    try {
+      const totalMetric = metricsRegistry.getMetric(
+        "sentiment_analysis_total",
+      );
+      totalMetric?.inc(1);
+      const durationMetric = metricsRegistry.getMetric(
+        "sentiment_analysis_duration_ms",
+      );
+      durationMetric?.observe(duration);
+
+      // Compute average confidence gauge (custom metric)
+      const confidence =
+        (result.sentiment && result.sentiment.confidence) || 0;
+      try {
+        defaultMetrics.tweetSentimentConfidence.set(confidence, {
+          language: result.language || "unknown",
+        });
+      } catch (err) {
+        logger.debug("Failed to set tweet_sentiment_confidence_avg", { err });
+      }
+
+      // Increment per-tweet sentiment counter
+      try {
+        const label = result.sentiment?.label || "neutral";
+        defaultMetrics.tweetSentimentTotal.inc(1, {
+          sentiment: label,
+          language: result.language || "unknown",
+        });
+      } catch (err) {
+        logger.debug("Failed to increment tweet_sentiment_total", { err });
+      }
+
+      // Observe per-tweet latency
+      try {
+        defaultMetrics.tweetSentimentLatency.observe(duration, {
+          language: result.language || "unknown",
+        });
+      } catch (err) {
+        logger.debug("Failed to observe tweet_sentiment_latency_ms", { err });
+      }
+    } catch (metricErr) {
+      logger.debug("Failed to update sentiment metrics", {
+        error: metricErr,
+      });
+    }
+  }
+
   /**
    * Creates a neutral analysis result for failed tweet processing
    */
@@ -238,6 +282,8 @@ export class TweetSentimentAnalysisManager {
             fear: 0,
             surprise: 0,
             disgust: 0,
+            trust: 0,
+            anticipation: 0,
           },
         },
         language: "en",
@@ -15,6 +15,12 @@ import {
   ScrapingResult,
   Tweet,
 } from '../types/twitter';
+import {
+  classifyScrapingError,
+  isRotationError,
+  PooledSession,
+  twitterSessionPool,
+} from './twitter-session-pool.service';
 
 // ==================== Constants & Configuration ====================
 // Core configuration for production scraping
@@ -65,6 +71,7 @@ interface RateLimitStatus {
   readonly maxLoginAttempts: number;
   readonly cooldownRemaining: number;
   readonly canAttemptLogin: boolean;
+  readonly session: string | null; // label of the pooled session in use
 }
 
 // ==================== Utility Functions ====================
@@ -117,6 +124,7 @@ export class TwitterRealScraperService {
   private rateLimitResetTime = new Date();
 
   // Authentication state
+  private session: PooledSession | null = null; // null: environment credentials
   private scraper: any = null;
   private isAuthenticated = false;
   private loginAttempts = 0;
@@ -192,6 +200,7 @@ export class TwitterRealScraperService {
       cooldownRemaining: Math.ceil(cooldownRemaining / 60000),
       canAttemptLogin:
         this.loginAttempts < RATE_LIMIT_CONFIG.maxLoginAttempts || cooldownRemaining <= 0,
+      session: this.session?.label ?? null,
     });
   }
 
@@ -253,7 +262,8 @@ export class TwitterRealScraperService {
       },
     });
 
-    const scraper = await this.initializeScraper();
+    const triedSessions: string[] = [];
+    let scraper = await this.connect(triedSessions);
 
     while (collectedTweets.length < targetCount && attempt <= maxAttempts) {
       try {
@@ -285,6 +295,7 @@ export class TwitterRealScraperService {
 
         const batchData = await scraperFunction(scraper, query, adaptiveBatchSize);
         totalScraped += batchData.length;
+        await this.recordSessionSuccess();
 
         if (batchData.length === 0) {
           logger.info('No more tweets available from source', {
@@ -348,6 +359,30 @@ export class TwitterRealScraperService {
           targetCount,
         });
 
+        // Rate limited or logged out: carry on with the next pooled session
+        const pooled = this.session !== null;
+        if (await this.rotateSession(error, triedSessions)) {
+          scraper = await this.connect(triedSessions);
+          attempt++;
+          continue;
+        }
+
+        // Every pooled session tried is cooling down: carry on with the
+        // TWITTER_* environment credentials, or stop with what was collected
+        if (pooled && !this.session) {
+          try {
+            scraper = await this.connect(triedSessions);
+            attempt++;
+            continue;
+          } catch (connectError) {
+            logger.warn('No Twitter session left to continue scraping', {
+              error: connectError instanceof Error ? connectError.message : String(connectError),
+              triedSessions: triedSessions.length,
+            });
+            break;
+          }
+        }
+
         // If it's an auth error, don't continue
         if (AUTH_ERROR_PATTERNS.test(errorMessage)) {
           logger.error('Authentication error in adaptive scraping', { error: errorMessage });
@@ -644,6 +679,10 @@ export class TwitterRealScraperService {
         });
       }
     } catch (error) {
+      // Rate limited or logged out: the caller rotates the session and retries
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (isRotationError(classifyScrapingError(errorMessage))) throw error;
+
       logger.warn('Error during tweet collection', { error });
       if (progressService && campaignId) {
         progressService.errorProgress(campaignId, error instanceof Error ? error.message : 'Unknown error during collection');
@@ -664,7 +703,13 @@ export class TwitterRealScraperService {
    * Initialize and authenticate the scraper instance
    * @returns initialized and authenticated scraper instance
    */
-  private async initializeScraper(): Promise<any> {
+  private async initializeScraper(usePool = true): Promise<any> {
+    // Back to the pool as soon as a session is available again
+    if (!this.session && usePool) {
+      const session = await twitterSessionPool.acquire();
+      if (session) this.switchSession(session);
+    }
+
     if (this.scraper && this.isAuthenticated) {
       return this.scraper;
     }
@@ -694,18 +739,88 @@ export class TwitterRealScraperService {
   }
 
   /**
-   * Attempt to authenticate using cookies from environment variable
+   * Initialize the scraper, rotating to the next pooled session while the
+   * current one cannot log in. Once every session this scrape tried failed,
+   * the environment credentials are used.
+   */
+  private async connect(triedSessions: string[]): Promise<any> {
+    for (;;) {
+      try {
+        return await this.initializeScraper(triedSessions.length === 0);
+      } catch (error) {
+        const pooled = this.session !== null;
+        if (await this.rotateSession(error, triedSessions)) continue;
+        if (pooled && !this.session) continue; // pool exhausted: environment credentials
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Cool down the pooled session after a rate-limit or authentication error
+   * and switch to the healthiest session this scrape has not tried yet
+   * @returns true if there is another session to retry with
+   */
+  private async rotateSession(error: unknown, triedSessions: string[]): Promise<boolean> {
+    const current = this.session;
+    if (!current) return false;
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const errorType = classifyScrapingError(errorMessage);
+    if (!isRotationError(errorType)) return false;
+
+    await twitterSessionPool.recordFailure(current.id, errorType, errorMessage);
+    triedSessions.push(current.id);
+    this.switchSession(null);
+
+    const next = await twitterSessionPool.acquire(triedSessions);
+    if (!next) return false;
+
+    logger.info('Rotating Twitter session', {
+      from: current.label,
+      to: next.label,
+      reason: errorType,
+    });
+    this.switchSession(next);
+    return true;
+  }
+
+  /**
+   * Count a successful request of the pooled session; once it has used the
+   * requests of its window the next login takes another session
+   */
+  private async recordSessionSuccess(): Promise<void> {
+    if (!this.session) return;
+
+    const session = await twitterSessionPool.recordSuccess(this.session.id);
+    if (session && session.rateLimit.remaining <= 0) {
+      this.switchSession(null);
+    }
+  }
+
+  private switchSession(session: PooledSession | null): void {
+    this.session = session;
+    this.scraper = null;
+    this.isAuthenticated = false;
+    this.loginAttempts = 0; // login attempts are per account
+  }
+
+  /**
+   * Attempt to authenticate using the cookies of the pooled session, or
+   * without one from the environment variable
    * @returns true if authentication succeeded, false otherwise
    */
   private async tryAuthenticateWithCookies(): Promise<boolean> {
     const cookiesEnv = process.env.TWITTER_COOKIES?.trim();
-    if (!cookiesEnv || !this.scraper) {
+    const cookiesObj = this.session
+      ? this.session.cookies
+      : cookiesEnv && safeParseJson(cookiesEnv);
+    if (!cookiesObj || !this.scraper) {
       return false;
     }
 
     try {
-      const cookiesObj = safeParseJson(cookiesEnv);
-      if (!cookiesObj?.auth_token || !cookiesObj?.ct0) {
+      if (!cookiesObj.auth_token || !cookiesObj.ct0) {
         logger.warn('Invalid cookie format: missing essential cookies');
         return false;
       }
@@ -735,10 +850,15 @@ export class TwitterRealScraperService {
       throw new Error('Scraper not initialized');
     }
 
-    const { username, password, email } = this.credentials;
-    if (!username || !password || !email) {
-      throw new Error('Twitter credentials not configured in environment variables');
+    const credentials = this.session ? this.session.credentials : this.credentials;
+    if (!credentials?.username || !credentials.password || !credentials.email) {
+      throw new Error(
+        this.session
+          ? `Authentication failed: session ${this.session.label} has no valid cookies or credentials`
+          : 'Twitter credentials not configured in environment variables'
+      );
     }
+    const { username, password, email } = credentials;
 
     await sleep(2000); // Anti-detection delay
     await this.scraper.login(username, password, email);
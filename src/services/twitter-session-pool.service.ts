@@ -0,0 +1,353 @@
+/**
+ * Twitter Session Pool Service
+ * Pool of Twitter accounts used in turn by the scrapers. Each session keeps
+ * its cookies and/or credentials encrypted with TWITTER_MASTER_PASSWORD, a
+ * health score, the requests of its rate-limit window and a cooldown. When a
+ * scrape hits RATE_LIMIT_ERROR or AUTHENTICATION_ERROR the session is cooled
+ * down and the scraper rotates to the healthiest available one; repeated
+ * authentication failures block a session until an admin enables it again.
+ * With no session available the scrapers fall back to the TWITTER_*
+ * environment credentials.
+ */
+
+import {
+  AuthenticationStatus,
+  RateLimitStatus,
+  ScrapingErrorType,
+} from "../enums/scraping.enum";
+import { appConfig } from "../lib/config/app";
+import { logger } from "../lib/observability/logger";
+import {
+  SecureSessionStore,
+  secureSessionStore,
+} from "../lib/security/session-store";
+import type { ITwitterSessionDocument } from "../models/TwitterSession.model";
+import { MongoTwitterSessionRepository } from "../repositories/mongo-twitter-session.repository";
+
+export interface SessionCredentials {
+  username: string;
+  password: string;
+  email: string;
+}
+
+// What is encrypted: browser cookies (auth_token and ct0 at least) and/or a login
+export interface SessionSecret {
+  cookies?: Record<string, string>;
+  credentials?: SessionCredentials;
+}
+
+export interface NewTwitterSession extends SessionSecret {
+  label: string;
+}
+
+export interface PooledSession extends SessionSecret {
+  id: string;
+  label: string;
+}
+
+export interface TwitterSessionView {
+  id: string;
+  label: string;
+  enabled: boolean;
+  disabledReason?: string;
+  authStatus: AuthenticationStatus;
+  healthScore: number;
+  hasCookies: boolean;
+  hasCredentials: boolean;
+  rateLimit: {
+    status: RateLimitStatus;
+    requests: number;
+    limit: number;
+    remaining: number;
+    resetsAt?: Date;
+  };
+  cooldownUntil?: Date;
+  consecutiveFailures: number;
+  lastError?: { type: ScrapingErrorType; message: string; at: Date };
+  lastUsedAt?: Date;
+  lastSuccessAt?: Date;
+  createdAt: Date;
+}
+
+const RATE_LIMIT_PATTERNS = /\b429\b|rate.?limit|too many requests/i;
+const AUTH_ERROR_PATTERNS =
+  /\b401\b|Forbidden|Authentication|not logged-in|suspended|locked/i;
+const TIMEOUT_PATTERNS = /timeout|timed out/i;
+const NETWORK_PATTERNS = /ECONNRESET|ECONNREFUSED|ENOTFOUND|network/i;
+
+// Health score lost per failure and gained per successful request
+const FAILURE_PENALTIES: Partial<Record<ScrapingErrorType, number>> = {
+  [ScrapingErrorType.RATE_LIMIT_ERROR]: 20,
+  [ScrapingErrorType.AUTHENTICATION_ERROR]: 40,
+};
+const SUCCESS_REWARD = 5;
+
+/**
+ * Categorize a scraping error message
+ */
+export function classifyScrapingError(message: string): ScrapingErrorType {
+  if (RATE_LIMIT_PATTERNS.test(message)) {
+    return ScrapingErrorType.RATE_LIMIT_ERROR;
+  }
+  if (AUTH_ERROR_PATTERNS.test(message)) {
+    return ScrapingErrorType.AUTHENTICATION_ERROR;
+  }
+  if (TIMEOUT_PATTERNS.test(message)) return ScrapingErrorType.TIMEOUT_ERROR;
+  if (NETWORK_PATTERNS.test(message)) return ScrapingErrorType.NETWORK_ERROR;
+  return ScrapingErrorType.UNKNOWN_ERROR;
+}
+
+/**
+ * Whether a session should be cooled down and replaced after this error
+ */
+export function isRotationError(type: ScrapingErrorType): boolean {
+  return type in FAILURE_PENALTIES;
+}
+
+export class TwitterSessionPoolService {
+  constructor(
+    private readonly repository = new MongoTwitterSessionRepository(),
+    private readonly store: Pick<
+      SecureSessionStore,
+      "encrypt" | "decrypt"
+    > = secureSessionStore,
+    private readonly settings = appConfig.twitterSessionPool,
+  ) {}
+
+  /**
+   * Encrypt and add a session to the pool
+   * @throws Error("TWITTER_MASTER_PASSWORD_REQUIRED") without a master password
+   * @throws Error("TWITTER_SESSION_EXISTS") if the label is taken
+   */
+  async addSession(
+    input: NewTwitterSession,
+    userId: string,
+  ): Promise<TwitterSessionView> {
+    const { label, cookies, credentials } = input;
+    const secret = this.store.encrypt({ cookies, credentials });
+    const session = await this.repository.create(
+      {
+        label,
+        secret,
+        hasCookies: !!cookies,
+        hasCredentials: !!credentials,
+      },
+      userId,
+    );
+
+    logger.info("Twitter session added to the pool", { label, userId });
+    return this.toView(session);
+  }
+
+  async listSessions(now: Date = new Date()): Promise<TwitterSessionView[]> {
+    const sessions = await this.repository.findAll();
+    return sessions.map((session) => this.toView(session, now));
+  }
+
+  async getSession(
+    id: string,
+    now: Date = new Date(),
+  ): Promise<TwitterSessionView | null> {
+    const session = await this.repository.findById(id);
+    return session ? this.toView(session, now) : null;
+  }
+
+  async setEnabled(
+    id: string,
+    enabled: boolean,
+    userId: string,
+    reason?: string,
+  ): Promise<TwitterSessionView | null> {
+    const session = await this.repository.setEnabled(
+      id,
+      enabled,
+      userId,
+      reason,
+    );
+    if (session) {
+      logger.info(`Twitter session ${enabled ? "enabled" : "disabled"}`, {
+        label: session.label,
+        userId,
+        reason,
+      });
+    }
+    return session ? this.toView(session) : null;
+  }
+
+  /**
+   * Take the healthiest available session, skipping `excludeIds` (sessions
+   * already tried by the scrape, which rotates at most `maxRotations` times).
+   * Never throws: without a database or an available session the scraper
+   * uses the environment credentials.
+   */
+  async acquire(excludeIds: string[] = []): Promise<PooledSession | null> {
+    if (excludeIds.length > this.settings.maxRotations) return null;
+
+    const exclude = [...excludeIds];
+    try {
+      for (;;) {
+        const session = await this.repository.claimNext(
+          this.settings.windowMs,
+          this.settings.maxRequestsPerWindow,
+          exclude,
+        );
+        if (!session) return null;
+
+        const id = String(session._id);
+        try {
+          const secret = this.store.decrypt<SessionSecret>(session.secret);
+          return { id, label: session.label, ...secret };
+        } catch {
+          // Master password changed or secret corrupted: the session is unusable
+          await this.recordFailure(
+            id,
+            ScrapingErrorType.AUTHENTICATION_ERROR,
+            "Session secret cannot be decrypted",
+          );
+          exclude.push(id);
+        }
+      }
+    } catch (error) {
+      logger.error("Failed to acquire a Twitter session", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Count a successful request of a session. Never throws.
+   * @returns The session, whose rate limit tells whether it can keep going
+   */
+  async recordSuccess(id: string): Promise<TwitterSessionView | null> {
+    try {
+      const session = await this.repository.recordSuccess(
+        id,
+        this.settings.windowMs,
+        SUCCESS_REWARD,
+      );
+      return session ? this.toView(session) : null;
+    } catch (error) {
+      logger.error("Failed to record Twitter session success", {
+        id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Cool down a session after a rate-limit or authentication error. Other
+   * errors are not the session's fault and are ignored. Never throws.
+   */
+  async recordFailure(
+    id: string,
+    type: ScrapingErrorType,
+    message: string,
+  ): Promise<void> {
+    const penalty = FAILURE_PENALTIES[type];
+    if (penalty === undefined) return;
+
+    const cooldownMs =
+      type === ScrapingErrorType.RATE_LIMIT_ERROR
+        ? this.settings.rateLimitCooldownMs
+        : this.settings.authCooldownMs;
+    try {
+      const session = await this.repository.recordFailure(id, {
+        type,
+        message: message.slice(0, 500),
+        cooldownUntil: new Date(Date.now() + cooldownMs),
+        penalty,
+        maxAuthFailures: this.settings.maxAuthFailures,
+      });
+      if (!session) return;
+
+      const context = {
+        label: session.label,
+        type,
+        healthScore: session.healthScore,
+        cooldownUntil: session.cooldownUntil,
+      };
+      if (session.authStatus === AuthenticationStatus.BLOCKED) {
+        logger.error(
+          "Twitter session blocked after repeated auth failures",
+          context,
+        );
+      } else {
+        logger.warn("Twitter session cooling down", context);
+      }
+    } catch (error) {
+      logger.error("Failed to record Twitter session failure", {
+        id,
+        type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Public view of a session (never its secret), with the status of its rate
+   * limit: exceeded while cooling down after a rate-limit error, reset_pending
+   * until its next success, limited at the requests of its window
+   */
+  toView(
+    session: ITwitterSessionDocument,
+    now: Date = new Date(),
+  ): TwitterSessionView {
+    const { windowMs, maxRequestsPerWindow } = this.settings;
+    const windowStartedAt = session.rateLimit?.windowStartedAt;
+    const windowEndsAt =
+      windowStartedAt && new Date(windowStartedAt.getTime() + windowMs);
+    const windowActive = !!windowEndsAt && windowEndsAt > now;
+    const requests = windowActive ? session.rateLimit.requests : 0;
+
+    const coolingDown = !!session.cooldownUntil && session.cooldownUntil > now;
+    const rateLimited =
+      session.lastError?.type === ScrapingErrorType.RATE_LIMIT_ERROR &&
+      (!session.lastSuccessAt || session.lastSuccessAt < session.lastError.at);
+
+    let status = RateLimitStatus.AVAILABLE;
+    if (rateLimited) {
+      status = coolingDown
+        ? RateLimitStatus.EXCEEDED
+        : RateLimitStatus.RESET_PENDING;
+    } else if (requests >= maxRequestsPerWindow) {
+      status = RateLimitStatus.LIMITED;
+    }
+    const resetsAt =
+      status === RateLimitStatus.EXCEEDED
+        ? session.cooldownUntil
+        : windowActive
+          ? windowEndsAt
+          : undefined;
+
+    return {
+      id: String(session._id),
+      label: session.label,
+      enabled: session.enabled,
+      ...(session.disabledReason && {
+        disabledReason: session.disabledReason,
+      }),
+      authStatus: session.authStatus,
+      healthScore: session.healthScore,
+      hasCookies: session.hasCookies,
+      hasCredentials: session.hasCredentials,
+      rateLimit: {
+        status,
+        requests,
+        limit: maxRequestsPerWindow,
+        remaining: Math.max(0, maxRequestsPerWindow - requests),
+        ...(resetsAt && { resetsAt }),
+      },
+      ...(coolingDown && { cooldownUntil: session.cooldownUntil }),
+      consecutiveFailures: session.consecutiveFailures,
+      ...(session.lastError && { lastError: session.lastError }),
+      ...(session.lastUsedAt && { lastUsedAt: session.lastUsedAt }),
+      ...(session.lastSuccessAt && { lastSuccessAt: session.lastSuccessAt }),
+      createdAt: session.createdAt,
+    };
+  }
+}
+
+// Shared by every scraper instance and the session admin routes
+export const twitterSessionPool = new TwitterSessionPoolService();
@@ -13,6 +13,8 @@ import {
   CampaignType,
   DataSource,
 } from "../enums/campaign.enum";
+import type { EntityType } from "../lib/sentiment/types";
+import type { DuplicateHandling } from "../lib/utils/near-duplicate.utils";
 
 // Re-export enums for easier access
 export {
@@ -48,6 +50,7 @@ export interface Campaign {
 
   // Collection Settings
   maxTweets: number; // Maximum tweets to collect
+  collectionSchedule?: string; // Cron expression of the automatic collection (in `timezone`)
   collectImages: boolean; // Collect image URLs
   collectVideos: boolean; // Collect video URLs
   collectReplies: boolean; // Include replies
@@ -73,6 +76,9 @@ export interface Campaign {
   emotionAnalysis: boolean; // Enable emotion detection
   topicsAnalysis: boolean; // Enable topic modeling
   influencerAnalysis: boolean; // Track influencer metrics
+  aspects?: CampaignAspect[]; // Aspect dictionary for aspect-based sentiment
+  entities?: CampaignEntity[]; // Brands, products, people and places tracked per mention
+  duplicateHandling?: DuplicateHandling; // Near-duplicate tweets in stats (default "include")
 
   // Organization & Permissions
   organizationId: string;
@@ -92,9 +98,93 @@ export interface Campaign {
     topHashtags: { tag: string; count: number }[];
     topMentions: { mention: string; count: number }[];
     dailyVolume: { date: string; count: number }[];
+    emotions?: CampaignEmotionStats;
   };
 }
 
+/**
+ * Average emotion intensities over the analyzed tweets of a campaign
+ * (only collected when `emotionAnalysis` is enabled)
+ */
+export interface CampaignEmotionStats {
+  joy: number;
+  sadness: number;
+  anger: number;
+  fear: number;
+  surprise: number;
+  disgust: number;
+  trust: number;
+  anticipation: number;
+  dominant: string | null; // emotion with the highest average, null when all are 0
+  analyzedTweets: number;
+  updatedAt: Date;
+}
+
+export interface CampaignAspect {
+  name: string; // "price", "support", "delivery"
+  terms: string[]; // ["price", "cost", "expensive"]
+}
+
+export interface CampaignEntity {
+  name: string; // Canonical name: "Nike"
+  type: EntityType;
+  aliases: string[]; // ["nike", "@nike", "air max"]
+  competitor?: boolean; // Counted as a competitor in the share of voice
+}
+
+/**
+ * Share of voice of the tracked entities of a campaign: mentions, engagement
+ * and sentiment of the clause around each mention
+ */
+export interface CampaignShareOfVoice {
+  totalMentions: number; // tweets mentioning each entity, summed over entities
+  entities: Array<{
+    entity: string;
+    type: EntityType;
+    competitor: boolean;
+    mentions: number; // tweets mentioning the entity
+    share: number; // 0..1 of totalMentions
+    engagement: number; // likes + retweets + replies + quotes of those tweets
+    engagementShare: number; // 0..1
+    sentiment: {
+      positive: number;
+      neutral: number;
+      negative: number;
+      averageScore: number; // -1..1
+      netSentiment: number; // (positive - negative) / mentions
+    };
+  }>;
+  updatedAt: Date;
+}
+
+/**
+ * Topic found in a campaign's tweets by the topic-modelling job
+ */
+export interface CampaignTopic {
+  id: number; // 0 is the largest topic
+  label: string; // top three terms: "battery / charge / hours"
+  terms: { term: string; weight: number }[]; // weight relative to the top term, 0..1
+  tweetCount: number;
+  share: number; // 0..1 of the assigned tweets
+  sentiment: {
+    positive: number;
+    neutral: number;
+    negative: number;
+    averageScore: number; // -1..1
+  };
+  representativeTweets: string[]; // tweet IDs most strongly assigned to the topic
+  timeline: { date: string; tweetCount: number; averageScore: number }[]; // per UTC day
+}
+
+export interface CampaignTopicsReport {
+  campaignId: string;
+  topics: CampaignTopic[];
+  analyzedTweets: number;
+  assignedTweets: number; // tweets with at least one term of the vocabulary
+  vocabularySize: number;
+  generatedAt: Date;
+}
+
 export interface CreateCampaignRequest {
   name: string;
   description?: string;
@@ -113,6 +203,7 @@ export interface CreateCampaignRequest {
 
   // Collection Settings
   maxTweets: number;
+  collectionSchedule?: string;
   collectImages?: boolean;
   collectVideos?: boolean;
   collectReplies?: boolean;
@@ -135,6 +226,9 @@ export interface CreateCampaignRequest {
   emotionAnalysis?: boolean;
   topicsAnalysis?: boolean;
   influencerAnalysis?: boolean;
+  aspects?: CampaignAspect[];
+  entities?: CampaignEntity[];
+  duplicateHandling?: DuplicateHandling;
 
   // Assignment
   organizationId: string;
@@ -149,6 +243,7 @@ export interface UpdateCampaignRequest {
 
   // Collection Settings
   maxTweets?: number;
+  collectionSchedule?: string;
   collectImages?: boolean;
   collectVideos?: boolean;
   collectReplies?: boolean;
@@ -159,6 +254,9 @@ export interface UpdateCampaignRequest {
   emotionAnalysis?: boolean;
   topicsAnalysis?: boolean;
   influencerAnalysis?: boolean;
+  aspects?: CampaignAspect[];
+  entities?: CampaignEntity[];
+  duplicateHandling?: DuplicateHandling;
 
   // Assignment Updates
   assignedTo?: string[];
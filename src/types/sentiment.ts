@@ -28,6 +28,8 @@ export interface EmotionAnalysis {
   fear: number;
   surprise: number;
   disgust: number;
+  trust?: number;
+  anticipation?: number;
 }
 
 export interface TextAnalysis {
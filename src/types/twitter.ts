@@ -5,6 +5,7 @@
 
 import { CampaignStatus } from "../enums/campaign.enum";
 import { Label } from "../enums/sentiment.enum";
+import type { AspectSentiment, EntityMention } from "../lib/sentiment/types";
 import {
   PriorityScrapingStrategy,
   TweetCollectionJobStatus,
@@ -108,8 +109,13 @@ export interface SentimentAnalysis {
     sadness?: number;
     surprise?: number;
     disgust?: number;
+    trust?: number;
+    anticipation?: number;
   };
   keywords: string[]; // Key words that influenced sentiment
+  aspects?: AspectSentiment[]; // Aspect-based sentiment (campaigns with aspects)
+  entities?: EntityMention[]; // Entity mentions with clause sentiment (campaigns with entities)
+  needsReview?: boolean; // Confidence below the abstain threshold, queued for human review
   analyzedAt: Date;
   processingTime: number; // milliseconds
 }
@@ -4,6 +4,7 @@
  */
 
 import { Label } from "../../enums/sentiment.enum";
+import type { AspectSentiment, EntityMention } from "../../lib/sentiment/types";
 
 /**
  * Core Tweet interface - represents a single tweet
@@ -107,6 +108,8 @@ export interface SentimentAnalysis {
   confidence: number; // 0 to 1
   emotions?: EmotionScores;
   keywords: string[]; // Key words that influenced sentiment
+  aspects?: AspectSentiment[]; // Aspect-based sentiment (campaigns with aspects)
+  entities?: EntityMention[]; // Entity mentions with clause sentiment (campaigns with entities)
   analyzedAt: Date;
   processingTime: number; // milliseconds
 }
@@ -121,6 +124,8 @@ export interface EmotionScores {
   sadness?: number;
   surprise?: number;
   disgust?: number;
+  trust?: number;
+  anticipation?: number;
 }
 
 /**
@@ -24,6 +24,18 @@ jest.mock("../../src/lib/sentiment/engine", () => {
       return;
     }
 
+    getVersion() {
+      return "mock-2.0.0";
+    }
+
+    async analyzeAspects() {
+      return [];
+    }
+
+    async analyzeEntities() {
+      return [];
+    }
+
     async analyze(request) {
       const text = request.text.toLowerCase();
 
@@ -74,6 +86,8 @@ jest.mock("../../src/lib/sentiment/engine", () => {
             fear: sentiment === "negative" ? 0.3 : 0,
             surprise: 0.1,
             disgust: sentiment === "negative" ? 0.5 : 0,
+            trust: 0,
+            anticipation: 0,
           },
         },
         keywords: text
@@ -89,6 +103,12 @@ jest.mock("../../src/lib/sentiment/engine", () => {
         version: "mock-2.0.0",
       };
     }
+
+    async analyzeBatch(requests) {
+      return Promise.all(
+        requests.map((request) => this.analyze(request).catch((error) => error)),
+      );
+    }
   }
 
   return {
@@ -0,0 +1,96 @@
+/**
+ * Tests para la API de léxicos por organización
+ * Validan que solo los miembros de la organización (y los admins) lean o
+ * modifiquen su léxico
+ */
+
+import express from "express";
+import request from "supertest";
+import lexiconRoutes from "@/routes/modules/lexicons";
+
+jest.mock("@/repositories/mongo-organization-lexicon.repository", () => {
+  const repository = { findByOrganization: jest.fn(), create: jest.fn() };
+  return {
+    repository,
+    MongoOrganizationLexiconRepository: function () {
+      return repository;
+    },
+  };
+});
+jest.mock("@/repositories/mongo-user.repository", () => {
+  const repository = { findById: jest.fn() };
+  return {
+    repository,
+    MongoUserRepository: function () {
+      return repository;
+    },
+  };
+});
+// The user comes from the x-test-user header: "<id>:<role>"
+jest.mock("@/middleware/express-auth", () => ({
+  authenticateToken: (
+    req: { headers: Record<string, string>; user?: unknown },
+    _res: unknown,
+    next: () => void,
+  ) => {
+    const [id, role] = req.headers["x-test-user"].split(":");
+    req.user = { id, role, email: `${id}@test.com`, fullName: id };
+    next();
+  },
+  requireRole: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+const mockLexicons = jest.requireMock(
+  "@/repositories/mongo-organization-lexicon.repository",
+).repository as Record<string, jest.Mock>;
+const mockUsers = jest.requireMock("@/repositories/mongo-user.repository")
+  .repository as Record<string, jest.Mock>;
+
+const app = express();
+app.use(express.json());
+app.use("/lexicons", lexiconRoutes);
+
+describe("Organization lexicon routes", () => {
+  beforeEach(() => {
+    mockLexicons.findByOrganization.mockResolvedValue([]);
+    mockUsers.findById.mockImplementation(async (id: string) => ({
+      id,
+      organizationId: id === "user-acme" ? "acme" : "globex",
+    }));
+  });
+
+  it("debe devolver el léxico a los miembros de la organización", async () => {
+    const response = await request(app)
+      .get("/lexicons/acme")
+      .set("x-test-user", "user-acme:analyst");
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.organizationId).toBe("acme");
+    expect(mockUsers.findById).toHaveBeenCalledWith("user-acme");
+  });
+
+  it("debe rechazar con 403 a quien pertenece a otra organización", async () => {
+    const read = await request(app)
+      .get("/lexicons/acme")
+      .set("x-test-user", "user-globex:manager");
+    const write = await request(app)
+      .post("/lexicons/acme/terms")
+      .set("x-test-user", "user-globex:manager")
+      .send({ term: "brutal", polarity: "positive" });
+
+    expect(read.status).toBe(403);
+    expect(read.body.error.code).toBe("ORGANIZATION_ACCESS_DENIED");
+    expect(write.status).toBe(403);
+    expect(mockLexicons.findByOrganization).not.toHaveBeenCalled();
+    expect(mockLexicons.create).not.toHaveBeenCalled();
+  });
+
+  it("debe permitir a los admins actuar sobre cualquier organización", async () => {
+    const response = await request(app)
+      .get("/lexicons/acme")
+      .set("x-test-user", "user-admin:admin");
+
+    expect(response.status).toBe(200);
+    expect(mockUsers.findById).not.toHaveBeenCalled();
+  });
+});
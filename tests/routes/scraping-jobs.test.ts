@@ -0,0 +1,172 @@
+/**
+ * Tests para la API de jobs de la cola de scraping
+ * Validan que solo quien puede editar la campaña gestione sus jobs, el filtrado
+ * del listado por campañas editables, que los jobs sin campaña sean solo de
+ * admins y el 409 ante cambios de estado inválidos
+ */
+
+import express from "express";
+import request from "supertest";
+import scrapingJobRoutes from "@/routes/modules/scraping-jobs";
+import type { QueueJob } from "@/services/scraping-queue.service";
+
+const CAMPAIGN_ID = "64b7f0c2a1b2c3d4e5f60718";
+const OWNER_ID = "user-owner";
+
+// The routes create their repositories on import, before this module's constants
+jest.mock("@/repositories/mongo-scraping-job.repository", () => {
+  const repository = {
+    findById: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    cancel: jest.fn(),
+    pause: jest.fn(),
+    resume: jest.fn(),
+    retryFailed: jest.fn(),
+    setPriority: jest.fn(),
+  };
+  return {
+    repository,
+    MongoScrapingJobRepository: function () {
+      return repository;
+    },
+  };
+});
+jest.mock("@/repositories/mongo-campaign.repository", () => {
+  const repository = { findById: jest.fn(), findEditableIds: jest.fn() };
+  return {
+    repository,
+    MongoCampaignRepository: function () {
+      return repository;
+    },
+  };
+});
+// The user comes from the x-test-user header: "<id>:<role>"
+jest.mock("@/middleware/express-auth", () => ({
+  authenticateToken: (
+    req: { headers: Record<string, string>; user?: unknown },
+    _res: unknown,
+    next: () => void,
+  ) => {
+    const [id, role] = req.headers["x-test-user"].split(":");
+    req.user = { id, role, email: `${id}@test.com`, fullName: id };
+    next();
+  },
+}));
+
+function job(overrides: Partial<QueueJob> = {}): QueueJob {
+  return {
+    id: "hashtag-1",
+    type: "hashtag",
+    query: "nike",
+    targetTweets: 300,
+    campaignId: CAMPAIGN_ID,
+    options: {},
+    priority: "medium",
+    createdAt: new Date("2026-10-18T10:00:00Z"),
+    attempts: 1,
+    maxAttempts: 3,
+    status: "processing",
+    ...overrides,
+  };
+}
+
+const mockJobs = jest.requireMock(
+  "@/repositories/mongo-scraping-job.repository",
+).repository as Record<string, jest.Mock>;
+const mockCampaigns = jest.requireMock(
+  "@/repositories/mongo-campaign.repository",
+).repository as Record<string, jest.Mock>;
+
+const app = express();
+app.use(express.json());
+app.use("/jobs", scrapingJobRoutes);
+
+describe("Scraping jobs routes", () => {
+  beforeEach(() => {
+    mockJobs.findById.mockResolvedValue(job());
+    mockCampaigns.findById.mockResolvedValue({
+      canUserEdit: (userId: string) => userId === OWNER_ID,
+    });
+  });
+
+  it("debe rechazar con 403 a quien no puede editar la campaña del job", async () => {
+    const response = await request(app)
+      .post("/jobs/hashtag-1/cancel")
+      .set("x-test-user", "user-other:manager");
+
+    expect(response.status).toBe(403);
+    expect(response.body.error.code).toBe("CAMPAIGN_ACCESS_DENIED");
+    expect(mockJobs.cancel).not.toHaveBeenCalled();
+  });
+
+  it("debe cancelar el job del propietario y responder 409 si ya terminó", async () => {
+    mockJobs.cancel.mockResolvedValueOnce(job({ status: "cancelled" }));
+
+    const cancelled = await request(app)
+      .post("/jobs/hashtag-1/cancel")
+      .set("x-test-user", `${OWNER_ID}:analyst`);
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.data.status).toBe("cancelled");
+    expect(mockJobs.cancel).toHaveBeenCalledWith("hashtag-1");
+
+    mockJobs.cancel.mockResolvedValueOnce(null);
+    mockJobs.findById.mockResolvedValue(job({ status: "completed" }));
+    const conflict = await request(app)
+      .post("/jobs/hashtag-1/cancel")
+      .set("x-test-user", `${OWNER_ID}:analyst`);
+    expect(conflict.status).toBe(409);
+    expect(conflict.body.error).toMatchObject({
+      code: "JOB_STATE_CONFLICT",
+      details: { status: "completed" },
+    });
+  });
+
+  it("debe limitar el listado a las campañas editables salvo para admins", async () => {
+    mockJobs.findMany.mockResolvedValue([job()]);
+    mockJobs.count.mockResolvedValue(1);
+    mockCampaigns.findEditableIds.mockResolvedValue([CAMPAIGN_ID]);
+
+    const own = await request(app)
+      .get("/jobs?status=processing&limit=10")
+      .set("x-test-user", `${OWNER_ID}:analyst`);
+    expect(own.status).toBe(200);
+    expect(own.body.pagination).toMatchObject({ total: 1, limit: 10 });
+    expect(mockJobs.findMany).toHaveBeenLastCalledWith(
+      { status: "processing", campaignIds: [CAMPAIGN_ID] },
+      { offset: 0, limit: 10 },
+    );
+
+    await request(app).get("/jobs").set("x-test-user", "user-admin:admin");
+    expect(mockJobs.findMany).toHaveBeenLastCalledWith(
+      {},
+      { offset: 0, limit: 20 },
+    );
+    expect(mockCampaigns.findEditableIds).toHaveBeenCalledTimes(1);
+
+    const invalid = await request(app)
+      .get("/jobs?status=unknown")
+      .set("x-test-user", "user-admin:admin");
+    expect(invalid.status).toBe(400);
+  });
+
+  it("debe reservar a los admins los jobs sin campaña", async () => {
+    mockJobs.findById.mockResolvedValue(job({ campaignId: "" }));
+    mockJobs.cancel.mockResolvedValue(
+      job({ campaignId: "", status: "cancelled" }),
+    );
+
+    const denied = await request(app)
+      .post("/jobs/hashtag-1/cancel")
+      .set("x-test-user", `${OWNER_ID}:manager`);
+    expect(denied.status).toBe(403);
+    expect(denied.body.error.code).toBe("CAMPAIGN_ACCESS_DENIED");
+    expect(mockJobs.cancel).not.toHaveBeenCalled();
+
+    const admin = await request(app)
+      .post("/jobs/hashtag-1/cancel")
+      .set("x-test-user", "user-admin:admin");
+    expect(admin.status).toBe(200);
+    expect(mockJobs.cancel).toHaveBeenCalledWith("hashtag-1");
+  });
+});
@@ -56,6 +56,8 @@ function makeAnalysis(
           fear: 0,
           surprise: 0,
           disgust: 0,
+          trust: 0,
+          anticipation: 0,
         },
       },
       keywords: [],
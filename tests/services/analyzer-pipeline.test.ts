@@ -0,0 +1,237 @@
+/**
+ * Tests para el pipeline de etapas de análisis
+ * Validan la configuración, la elección por campaña, los fallbacks y las etapas enchufables
+ */
+
+import { afterEach, describe, expect, it } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  AnalyzerStage,
+  createDomainLexiconStage,
+  describePipelines,
+  loadPipelineConfig,
+  parsePipelineConfig,
+  PipelineDefinition,
+  registerAnalyzerStage,
+  resolvePipeline,
+  runPipeline,
+  setPipelineConfig,
+  StageInput,
+} from "../../src/lib/sentiment/pipeline";
+import { tokenize } from "../../src/lib/sentiment/lexicons";
+
+function input(text: string): StageInput {
+  return { text, language: "en", tokens: tokenize(text), request: { text } };
+}
+
+function fixedStage(
+  name: string,
+  label: string,
+  available = true,
+): AnalyzerStage & { calls: number } {
+  return {
+    name,
+    calls: 0,
+    isAvailable: () => available,
+    async analyze() {
+      this.calls++;
+      return { label, confidence: 0.8 };
+    },
+  };
+}
+
+describe("Analyzer pipeline", () => {
+  afterEach(() => setPipelineConfig(null));
+
+  it("debe validar la configuración y cargar la del repositorio", () => {
+    const config = parsePipelineConfig({
+      pipelines: { base: { stages: [{ stage: "rules" }] } },
+      campaigns: { "campaign-1": "base" },
+    });
+    expect(config.default).toBe("base");
+    expect(config.pipelines.base).toEqual({
+      name: "base",
+      combiner: "auto",
+      stages: [{ stage: "rules", weight: 1 }],
+    });
+
+    expect(() => parsePipelineConfig({ pipelines: { base: { stages: [] } } })).toThrow(
+      "pipelines.base",
+    );
+    expect(() =>
+      parsePipelineConfig({ pipelines: { base: { stages: [{ stage: "rules", weight: -1 }] } } }),
+    ).toThrow('"weight"');
+    expect(() =>
+      parsePipelineConfig({
+        pipelines: { base: { stages: [{ stage: "rules" }] } },
+        campaigns: { "campaign-1": "missing" },
+      }),
+    ).toThrow("campaigns.campaign-1");
+
+    const { config: shipped, source } = loadPipelineConfig();
+    expect(source).toMatch(/sentiment-pipeline\.json$/);
+    expect(shipped.pipelines[shipped.default].stages.map((s) => s.stage)).toEqual([
+      "naive-bayes",
+      "rules",
+      "bert",
+    ]);
+  });
+
+  it("debe elegir el pipeline de la campaña o el del despliegue", () => {
+    setPipelineConfig(
+      parsePipelineConfig({
+        default: "hybrid",
+        pipelines: {
+          hybrid: { stages: [{ stage: "naive-bayes" }, { stage: "rules" }, { stage: "bert" }] },
+          "no-bert": { stages: [{ stage: "naive-bayes" }, { stage: "rules" }] },
+        },
+        campaigns: { "tenant-a": "no-bert" },
+      }),
+    );
+
+    expect(resolvePipeline().name).toBe("hybrid");
+    expect(resolvePipeline("tenant-b").name).toBe("hybrid");
+    expect(resolvePipeline("tenant-a").name).toBe("no-bert");
+    expect(describePipelines()).toMatchObject({
+      source: "runtime",
+      default: "hybrid",
+      active: { name: "hybrid", fingerprint: expect.stringMatching(/^[0-9a-f]{8}$/) },
+      campaigns: { "tenant-a": "no-bert" },
+    });
+    expect(describePipelines().stageTypes).toEqual(
+      expect.arrayContaining(["rules", "naive-bayes", "bert", "domain-lexicon"]),
+    );
+  });
+
+  it("debe usar los fallbacks y omitir las etapas que no pueden votar", async () => {
+    const rules = fixedStage("rules", "neutral");
+    const bert = fixedStage("bert", "positive", false);
+    const definition: PipelineDefinition = {
+      name: "test",
+      combiner: "weighted",
+      stages: [
+        { stage: "rules", weight: 0.3 },
+        { stage: "bert", weight: 0.5, fallback: "naive-bayes" },
+        { stage: "missing", weight: 0.2 },
+        { stage: "naive-bayes", weight: 1, enabled: false },
+      ],
+    };
+
+    const run = await runPipeline(
+      definition,
+      { rules, bert, "naive-bayes": fixedStage("naive-bayes", "negative") },
+      input("whatever"),
+      { rules: { label: "positive", confidence: 0.9 } },
+    );
+
+    expect(rules.calls).toBe(0); // el motor ya tenía su voto
+    expect(run.components).toEqual([
+      { stage: "rules", weight: 0.3, prediction: { label: "positive", confidence: 0.9 } },
+      {
+        stage: "naive-bayes",
+        weight: 0.5,
+        prediction: { label: "negative", confidence: 0.8 },
+        fallbackFor: "bert",
+      },
+    ]);
+    expect(run.skipped).toEqual([
+      { stage: "bert", reason: "unavailable" },
+      { stage: "missing", reason: "unknown stage" },
+    ]);
+  });
+
+  it("debe ejecutar etapas registradas y el léxico de dominio", async () => {
+    registerAnalyzerStage("always-failing", () => ({
+      name: "always-failing",
+      analyze: async () => {
+        throw new Error("boom");
+      },
+    }));
+    const definition: PipelineDefinition = {
+      name: "finance",
+      combiner: "weighted",
+      stages: [
+        {
+          stage: "domain-lexicon",
+          weight: 0.4,
+          options: { terms: { bullish: 0.8, Rally: 0.6, bearish: -0.8 } },
+        },
+        { stage: "always-failing", weight: 0.2 },
+      ],
+    };
+
+    const bullish = await runPipeline(definition, {}, input("Bullish rally on tech stocks"));
+    expect(bullish.components).toHaveLength(1);
+    expect(bullish.components[0]).toMatchObject({
+      stage: "domain-lexicon",
+      prediction: { label: "positive", score: 0.7 },
+    });
+    expect(bullish.skipped).toEqual([{ stage: "always-failing", reason: "failed: boom" }]);
+
+    // Sin términos del dominio la etapa se abstiene
+    const unrelated = await runPipeline(definition, {}, input("The store opens at nine"));
+    expect(unrelated.skipped[0]).toEqual({ stage: "domain-lexicon", reason: "abstained" });
+
+    expect(() => createDomainLexiconStage({})).toThrow("options.terms");
+    expect(() => registerAnalyzerStage("bert", createDomainLexiconStage)).toThrow();
+  });
+
+  it("debe omitir las etapas que fallan al construirse o comprobarse", async () => {
+    registerAnalyzerStage("flaky", () => ({
+      name: "flaky",
+      isAvailable: () => {
+        throw new Error("no connection");
+      },
+      analyze: async () => ({ label: "positive", confidence: 0.9 }),
+    }));
+    const definition: PipelineDefinition = {
+      name: "misconfigured",
+      combiner: "weighted",
+      stages: [
+        { stage: "domain-lexicon", weight: 0.4 },
+        { stage: "flaky", weight: 0.3, fallback: "rules" },
+      ],
+    };
+
+    const run = await runPipeline(
+      definition,
+      { rules: fixedStage("rules", "neutral") },
+      input("Bullish rally"),
+    );
+
+    expect(run.components).toEqual([
+      {
+        stage: "rules",
+        weight: 0.3,
+        prediction: { label: "neutral", confidence: 0.8 },
+        fallbackFor: "flaky",
+      },
+    ]);
+    expect(run.skipped).toEqual([
+      {
+        stage: "domain-lexicon",
+        reason: 'failed: domain-lexicon stage needs an "options.terms" object',
+      },
+      { stage: "flaky", reason: "failed: no connection" },
+    ]);
+  });
+
+  it("debe rechazar al cargar una configuración con opciones de etapa inválidas", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pipeline-"));
+    const file = path.join(dir, "sentiment-pipeline.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ pipelines: { finance: { stages: [{ stage: "domain-lexicon" }] } } }),
+    );
+
+    try {
+      expect(() => loadPipelineConfig(file)).toThrow(
+        /pipelines\.finance\.stages\[0\]: domain-lexicon stage needs an "options\.terms"/,
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
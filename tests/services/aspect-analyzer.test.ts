@@ -0,0 +1,66 @@
+/**
+ * Tests para AspectSentimentAnalyzer
+ * Validan la segmentación en cláusulas y la puntuación por aspecto
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import {
+  AspectSentimentAnalyzer,
+  campaignAspectsToDictionary,
+} from "../../src/lib/sentiment/aspect-analyzer";
+
+// Puntuador léxico mínimo para aislar la lógica de aspectos del motor
+const scorer = async (text: string) => {
+  const lower = text.toLowerCase();
+  const pos = ["amazing", "great", "love"].filter((w) => lower.includes(w)).length;
+  const neg = ["trash", "slow", "bad"].filter((w) => lower.includes(w)).length;
+  const score = (pos - neg) * 0.5;
+  const label = score > 0 ? "positive" : score < 0 ? "negative" : "neutral";
+  return { label: label as "positive" | "negative" | "neutral", score, confidence: 0.8 };
+};
+
+describe("AspectSentimentAnalyzer", () => {
+  const analyzer = new AspectSentimentAnalyzer(scorer);
+
+  it("debe separar la polaridad de cada aspecto", async () => {
+    const text = "The camera is amazing but the battery is trash";
+    const aspects = await analyzer.analyze(text);
+
+    const camera = aspects.find((a) => a.aspect === "camera");
+    const battery = aspects.find((a) => a.aspect === "battery");
+
+    expect(camera?.label).toBe("positive");
+    expect(battery?.label).toBe("negative");
+    expect(text.slice(battery!.span.start, battery!.span.end)).toBe(battery!.span.text);
+  });
+
+  it("debe usar la oración completa si la cláusula no tiene carga afectiva", async () => {
+    const aspects = await analyzer.analyze("The price, delivery and support were bad.");
+
+    expect(aspects.map((a) => a.aspect).sort()).toEqual(["delivery", "price", "support"]);
+    expect(aspects.every((a) => a.label === "negative")).toBe(true);
+  });
+
+  it("debe respetar diccionarios personalizados, acentos y plurales", async () => {
+    const aspects = await analyzer.analyze("Los envíos son lentos... pero amazing envios", {
+      delivery: ["envio"],
+    });
+
+    expect(aspects).toHaveLength(2);
+    expect(aspects[0].term).toBe("envio");
+  });
+
+  it("debe devolver lista vacía si no hay aspectos", async () => {
+    expect(await analyzer.analyze("Nothing relevant here")).toEqual([]);
+  });
+
+  it("debe convertir los aspectos de campaña en diccionario", () => {
+    expect(campaignAspectsToDictionary(undefined)).toBeUndefined();
+    expect(
+      campaignAspectsToDictionary([
+        { name: "price", terms: ["cost"] },
+        { name: "support", terms: [] },
+      ]),
+    ).toEqual({ price: ["cost"], support: ["support"] });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests para la recolección programada de campañas
+ * Validan el reparto de tweets entre las consultas de la campaña, el límite
+ * maxTweets, la ventana de fechas, que no se apilen ejecuciones y el cursor
+ * incremental, que solo avanza cuando termina toda la ejecución
+ */
+
+import { describe, expect, it, jest } from "@jest/globals";
+import { CampaignStatus } from "../../src/enums/campaign.enum";
+import {
+  CampaignCollectionScheduler,
+  CollectionCampaign,
+} from "../../src/services/campaign-collection-scheduler.service";
+import { QUEUE_CHUNK_SIZE, QueueJob } from "../../src/services/scraping-queue.service";
+
+const NOW = new Date("2026-10-18T12:00:00Z");
+
+function campaign(overrides: Partial<CollectionCampaign> = {}): CollectionCampaign {
+  return {
+    hashtags: ["#JustDoIt", "Nike"],
+    keywords: ["running shoes"],
+    mentions: ["@nike"],
+    startDate: new Date("2026-10-01T00:00:00Z"),
+    endDate: new Date("2026-10-31T00:00:00Z"),
+    maxTweets: 1000,
+    collectReplies: false,
+    languages: ["en"],
+    sentimentAnalysis: true,
+    ...overrides,
+  };
+}
+
+describe("CampaignCollectionScheduler.planRun", () => {
+  it("debe repartir los tweets de la ejecución entre hashtags, palabras clave y menciones", () => {
+    const runs = CampaignCollectionScheduler.planRun(
+      campaign({ lastDataCollection: new Date("2026-10-18T10:30:00Z") }),
+      0,
+      NOW,
+      250,
+    );
+
+    expect(runs.map(({ type, query, targetTweets }) => [type, query, targetTweets])).toEqual([
+      ["hashtag", "JustDoIt", 63],
+      ["hashtag", "Nike", 63],
+      ["search", "running shoes", 62],
+      ["search", "@nike", 62],
+    ]);
+    expect(runs[0].options).toEqual({
+      maxAgeHours: 2,
+      includeReplies: false,
+      analyzeSentiment: true,
+      language: "en",
+    });
+  });
+
+  it("debe respetar maxTweets y no pedir tweets anteriores al inicio de la campaña", () => {
+    const runs = CampaignCollectionScheduler.planRun(
+      campaign({ languages: ["en", "es"], mentions: [] }),
+      997,
+      NOW,
+      250,
+    );
+
+    expect(runs.map((run) => run.targetTweets)).toEqual([1, 1, 1]);
+    // Primera ejecución: desde el inicio de la campaña (17 días y 12 horas)
+    expect(runs[0].options).toEqual({
+      maxAgeHours: 420,
+      includeReplies: false,
+      analyzeSentiment: true,
+    });
+
+    expect(CampaignCollectionScheduler.planRun(campaign(), 1000, NOW, 250)).toEqual([]);
+  });
+
+  it("no debe pedir más de un chunk de la cola por consulta", () => {
+    const runs = CampaignCollectionScheduler.planRun(
+      campaign({ hashtags: ["Nike"], keywords: [], mentions: ["@nike"] }),
+      0,
+      NOW,
+      500,
+    );
+
+    // Cada chunk repetiría la misma consulta y ventana: el resto queda para otras ejecuciones
+    expect(runs.map((run) => run.targetTweets)).toEqual([QUEUE_CHUNK_SIZE, QUEUE_CHUNK_SIZE]);
+  });
+
+  it("no debe programar nada fuera de las fechas de la campaña", () => {
+    expect(
+      CampaignCollectionScheduler.planRun(
+        campaign({ startDate: new Date("2026-10-19T00:00:00Z") }),
+        0,
+        NOW,
+      ),
+    ).toEqual([]);
+    expect(
+      CampaignCollectionScheduler.planRun(
+        campaign({ endDate: new Date("2026-10-18T11:00:00Z") }),
+        0,
+        NOW,
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("CampaignCollectionScheduler.collect", () => {
+  const CAMPAIGN_ID = "64b7f0c2a1b2c3d4e5f60718";
+
+  function createScheduler(unfinished: number) {
+    const queue = { addJob: jest.fn(async (..._args: unknown[]) => "job-id") };
+    const campaigns = {
+      findById: jest.fn(async (..._args: unknown[]) => ({
+        ...campaign(),
+        _id: CAMPAIGN_ID,
+        status: CampaignStatus.active,
+      })),
+    };
+    const tweets = { countByCampaign: jest.fn(async (..._args: unknown[]) => 0) };
+    const jobs = {
+      countUnfinishedCollectionJobs: jest.fn(async (..._args: unknown[]) => unfinished),
+    };
+    const scheduler = new CampaignCollectionScheduler(
+      queue as never,
+      campaigns as never,
+      tweets as never,
+      jobs as never,
+    );
+    return { scheduler, queue, jobs };
+  }
+
+  it("debe encolar una ejecución con un job por consulta", async () => {
+    const { scheduler, queue, jobs } = createScheduler(0);
+
+    expect(await scheduler.collect(CAMPAIGN_ID, NOW)).toHaveLength(4);
+    expect(jobs.countUnfinishedCollectionJobs).toHaveBeenCalledWith(CAMPAIGN_ID);
+    expect(queue.addJob).toHaveBeenCalledTimes(4);
+    expect(queue.addJob.mock.calls[0][6]).toMatchObject({ jobs: 4, plannedAt: NOW });
+  });
+
+  it("no debe apilar ejecuciones mientras la anterior no haya terminado", async () => {
+    const { scheduler, queue } = createScheduler(2);
+
+    expect(await scheduler.collect(CAMPAIGN_ID, NOW)).toEqual([]);
+    expect(queue.addJob).not.toHaveBeenCalled();
+  });
+});
+
+describe("CampaignCollectionScheduler.advanceCursor", () => {
+  const CAMPAIGN_ID = "64b7f0c2a1b2c3d4e5f60718";
+  const run = { id: "run-1", jobs: 3, plannedAt: NOW };
+
+  function createScheduler(completed: number) {
+    const campaigns = { markDataCollected: jest.fn(async (..._args: unknown[]) => undefined) };
+    const jobs = { count: jest.fn(async (..._args: unknown[]) => completed) };
+    const scheduler = new CampaignCollectionScheduler(
+      {} as never,
+      campaigns as never,
+      {} as never,
+      jobs as never,
+    );
+    return { scheduler, campaigns, jobs };
+  }
+
+  function job(overrides: Partial<QueueJob> = {}): QueueJob {
+    return {
+      id: "hashtag-1",
+      type: "hashtag",
+      query: "nike",
+      targetTweets: 100,
+      campaignId: CAMPAIGN_ID,
+      collectionRun: run,
+      options: {},
+      priority: "low",
+      createdAt: new Date("2026-10-18T12:05:00Z"),
+      attempts: 1,
+      maxAttempts: 3,
+      status: "completed",
+      ...overrides,
+    };
+  }
+
+  it("no debe mover el cursor hasta que terminen todos los jobs de la ejecución", async () => {
+    const { scheduler, campaigns, jobs } = createScheduler(1);
+
+    expect(await scheduler.advanceCursor(job())).toBe(false);
+    expect(jobs.count).toHaveBeenCalledWith({ collectionRunId: "run-1", status: "completed" });
+    expect(campaigns.markDataCollected).not.toHaveBeenCalled();
+  });
+
+  it("debe mover el cursor a cuando se planificó la ejecución al terminar el último job", async () => {
+    const { scheduler, campaigns } = createScheduler(3);
+
+    expect(await scheduler.advanceCursor(job())).toBe(true);
+    expect(campaigns.markDataCollected).toHaveBeenCalledWith(CAMPAIGN_ID, NOW);
+  });
+
+  it("no debe mover el cursor con jobs ajenos a una ejecución programada", async () => {
+    const { scheduler, campaigns, jobs } = createScheduler(3);
+
+    expect(await scheduler.advanceCursor(job({ collectionRun: undefined }))).toBe(false);
+    expect(jobs.count).not.toHaveBeenCalled();
+    expect(campaigns.markDataCollected).not.toHaveBeenCalled();
+  });
+});
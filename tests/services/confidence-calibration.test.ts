@@ -0,0 +1,67 @@
+/**
+ * Tests para la calibración de confianza
+ * Validan Platt, isotónica, ECE y el diagrama de fiabilidad
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import {
+  CalibrationSample,
+  ConfidenceCalibrator,
+  expectedCalibrationError,
+  reliabilityDiagram,
+} from "../../src/lib/sentiment/calibration";
+
+// Modelo sobreconfiado: dice 0.9 pero acierta el 60%, dice 0.6 y acierta el 30%
+function overconfidentSamples(): CalibrationSample[] {
+  const samples: CalibrationSample[] = [];
+  for (let i = 0; i < 100; i++) {
+    samples.push({ confidence: 0.9, correct: i < 60 });
+    samples.push({ confidence: 0.6, correct: i < 30 });
+  }
+  return samples;
+}
+
+const calibrate = (calibrator: ConfidenceCalibrator, samples: CalibrationSample[]) =>
+  samples.map((s) => ({ confidence: calibrator.apply(s.confidence), correct: s.correct }));
+
+describe("Confidence calibration", () => {
+  it("debe calcular el ECE como media ponderada de |accuracy - confianza|", () => {
+    const samples = overconfidentSamples();
+    // Ambos intervalos se desvían 0.3 y pesan la mitad
+    expect(expectedCalibrationError(samples)).toBeCloseTo(0.3);
+
+    const bins = reliabilityDiagram(samples);
+    expect(bins).toHaveLength(10);
+    expect(bins[9]).toMatchObject({ count: 100, accuracy: 0.6 });
+    expect(bins[6].avgConfidence).toBeCloseTo(0.6);
+  });
+
+  it("debe reducir el ECE con regresión isotónica", () => {
+    const samples = overconfidentSamples();
+    const calibrator = ConfidenceCalibrator.fitIsotonic(samples);
+
+    expect(calibrator.apply(0.9)).toBeCloseTo(0.6);
+    expect(calibrator.apply(0.6)).toBeCloseTo(0.3);
+    expect(expectedCalibrationError(calibrate(calibrator, samples))).toBeLessThan(0.01);
+  });
+
+  it("debe reducir el ECE con escalado de Platt y ser monótono", () => {
+    const samples = overconfidentSamples();
+    const calibrator = ConfidenceCalibrator.fitPlatt(samples);
+
+    expect(calibrator.apply(0.9)).toBeGreaterThan(calibrator.apply(0.6));
+    expect(expectedCalibrationError(calibrate(calibrator, samples))).toBeLessThan(
+      expectedCalibrationError(samples),
+    );
+  });
+
+  it("debe reconstruirse desde su forma serializada", () => {
+    const calibrator = ConfidenceCalibrator.fit(overconfidentSamples(), "platt");
+    const restored = ConfidenceCalibrator.fromJSON(
+      JSON.parse(JSON.stringify(calibrator.toJSON())),
+    );
+
+    expect(restored.method).toBe("platt");
+    expect(restored.apply(0.75)).toBeCloseTo(calibrator.apply(0.75));
+  });
+});
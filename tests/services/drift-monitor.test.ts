@@ -0,0 +1,135 @@
+/**
+ * Tests para la monitorización de drift
+ * Validan las métricas de OOV, PSI/KL, el aviso al superar un umbral y el chequeo de salud
+ */
+
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { of } from "rxjs";
+import { HealthChecks, HealthStatus } from "../../src/lib/health/health-check";
+import {
+  buildDriftBaseline,
+  DriftBaseline,
+  DriftMonitor,
+  DriftObservation,
+  getSharedDriftMonitor,
+  klDivergence,
+  populationStabilityIndex,
+} from "../../src/lib/sentiment/drift-monitor";
+import { notificationSystem } from "../../src/services/reactive/notification-system";
+
+const training = [
+  { text: "I love this great phone", label: "positive" },
+  { text: "Amazing camera and battery", label: "positive" },
+  { text: "Terrible support, I hate it", label: "negative" },
+  { text: "The phone arrived on Tuesday", label: "neutral" },
+];
+
+// Confianzas altas en el entrenamiento
+const baseline = buildDriftBaseline(training, [0.85, 0.9, 0.95, 0.9]);
+
+function observations(count: number, text: string, label: string, confidence: number) {
+  return Array.from({ length: count }, (): DriftObservation => ({ text, label, confidence }));
+}
+
+function createMonitor(): DriftMonitor {
+  return new DriftMonitor({
+    loadBaseline: async () => baseline,
+    thresholds: { oovRate: 0.4, labelPsi: 0.25, confidencePsi: 0.25, minSamples: 10 },
+    windowSize: 50,
+  });
+}
+
+describe("DriftMonitor", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    getSharedDriftMonitor().reset();
+  });
+
+  it("debe calcular PSI y KL entre distribuciones", () => {
+    expect(populationStabilityIndex([0.5, 0.5], [0.5, 0.5])).toBe(0);
+    expect(klDivergence([0.5, 0.5], [0.5, 0.5])).toBe(0);
+    expect(populationStabilityIndex([0.5, 0.25, 0.25], [0.1, 0.1, 0.8])).toBeGreaterThan(0.25);
+    expect(klDivergence([1, 0, 0], [0.5, 0.25, 0.25])).toBeCloseTo(Math.log(2));
+
+    expect(baseline.labelDistribution).toEqual({ positive: 0.5, neutral: 0.25, negative: 0.25 });
+    expect(baseline.vocabulary.has("camera")).toBe(true);
+  });
+
+  it("no debe avisar mientras los tweets se parecen al entrenamiento", async () => {
+    const warn = jest.spyOn(notificationSystem, "sendWarning");
+    const monitor = createMonitor();
+
+    const report = await monitor.observe("campaign-1", [
+      ...observations(10, "I love this great camera", "very_positive", 0.9),
+      ...observations(5, "Terrible battery", "negative", 0.88),
+      ...observations(5, "The phone arrived", "neutral", 0.92),
+    ]);
+
+    expect(report).toMatchObject({ campaignId: "campaign-1", samples: 20, oovRate: 0 });
+    expect(report!.labelPsi).toBeLessThan(0.25);
+    expect(report!.drifting).toBe(false);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("debe avisar una sola vez cuando la campaña deriva", async () => {
+    const warn = jest.spyOn(notificationSystem, "sendWarning").mockReturnValue(of(true));
+    const monitor = createMonitor();
+
+    const unseen = (count: number) => observations(count, "nuevo lanzamiento hoy", "neutral", 0.4);
+
+    // Pocos tweets: aún no hay muestra suficiente
+    expect((await monitor.observe("campaign-2", unseen(5)))?.drifting).toBe(false);
+
+    const report = await monitor.observe("campaign-2", unseen(20));
+    expect(report!.samples).toBe(25);
+    expect(report!.oovRate).toBe(1);
+    expect(report!.signals).toEqual(["oov_rate", "label_shift", "confidence_shift"]);
+    expect(report!.labelKl).toBeGreaterThan(1);
+    expect(report!.lastAlertAt).not.toBeNull();
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][2]).toMatchObject({ campaignId: "campaign-2", drifting: true });
+
+    await monitor.observe("campaign-2", unseen(5));
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(monitor.getReport("campaign-1")).toBeNull();
+  });
+
+  it("debe reconstruir el baseline al invalidarlo", async () => {
+    const retrained = buildDriftBaseline(
+      [...training, { text: "nuevo lanzamiento hoy", label: "neutral" }],
+      [0.85, 0.9, 0.95, 0.9, 0.9],
+    );
+    const loadBaseline = jest
+      .fn(async (): Promise<DriftBaseline> => baseline)
+      .mockResolvedValueOnce(baseline)
+      .mockResolvedValueOnce(retrained);
+    const monitor = new DriftMonitor({ loadBaseline, windowSize: 50 });
+
+    const unseen = observations(5, "nuevo lanzamiento hoy", "neutral", 0.9);
+    expect((await monitor.observe("campaign-4", unseen))?.oovRate).toBe(1);
+    expect((await monitor.observe("campaign-4", unseen))?.oovRate).toBe(1);
+    expect(loadBaseline).toHaveBeenCalledTimes(1);
+
+    // p.ej. tras promover otra versión del modelo
+    monitor.invalidateBaseline();
+    expect((await monitor.observe("campaign-5", unseen))?.oovRate).toBe(0);
+    expect(loadBaseline).toHaveBeenCalledTimes(2);
+  });
+
+  it("debe marcar como degradado el chequeo de salud", async () => {
+    jest.spyOn(notificationSystem, "sendWarning").mockReturnValue(of(true));
+    const shared = getSharedDriftMonitor();
+    shared.setBaseline(baseline);
+
+    expect((await HealthChecks.sentimentDrift().check()).status).toBe(HealthStatus.HEALTHY);
+
+    await shared.observe("campaign-3", observations(200, "nuevo lanzamiento hoy", "neutral", 0.4));
+    const result = await HealthChecks.sentimentDrift().check();
+    expect(result.status).toBe(HealthStatus.DEGRADED);
+    expect(result.message).toContain("campaign-3");
+    expect(result.details?.campaigns[0]).toMatchObject({
+      campaignId: "campaign-3",
+      drifting: true,
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests para el análisis de emociones
+ * Validan el léxico de emociones, la negación y el clasificador multi-etiqueta
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import {
+  analyzeEmotions,
+  EmotionClassifier,
+  EmotionTrainingExample,
+} from "../../src/lib/sentiment/emotion-classifier";
+import { scoreEmotions } from "../../src/lib/sentiment/emotion-lexicon";
+import { tokenize } from "../../src/lib/sentiment/lexicons";
+
+const lexicon = (text: string, lang: "en" | "es" = "en") =>
+  scoreEmotions(tokenize(text), lang, text);
+
+const examples: EmotionTrainingExample[] = [
+  { text: "the outage left everyone stranded overnight", emotions: ["fear", "anger"] },
+  { text: "stranded at the airport again", emotions: ["anger"] },
+  { text: "overnight outage, no update from support", emotions: ["fear"] },
+  { text: "the package arrives on tuesday", emotions: [] },
+  { text: "new colours arrive on tuesday", emotions: ["anticipation"] },
+];
+
+describe("Emotion analysis", () => {
+  it("debe detectar emociones sin derivarlas de la polaridad", () => {
+    // Ambos textos son negativos, pero expresan emociones distintas
+    const fear = lexicon("I'm scared and worried about my data");
+    const disgust = lexicon("The food was disgusting and the kitchen filthy");
+
+    expect(fear.fear).toBeGreaterThan(0.7);
+    expect(fear.disgust).toBe(0);
+    expect(disgust.disgust).toBeGreaterThan(0.7);
+    expect(disgust.fear).toBe(0);
+
+    const trust = lexicon("Reliable service, I recommend them. Waiting for the launch tomorrow");
+    expect(trust.trust).toBeGreaterThan(0.7);
+    expect(trust.anticipation).toBeGreaterThan(0.7);
+    expect(trust.joy).toBe(0);
+  });
+
+  it("debe asignar varias emociones a un mismo término y leer emojis", () => {
+    const threat = lexicon("Esto es una amenaza 😱", "es");
+    expect(threat.anger).toBeGreaterThan(0);
+    expect(threat.fear).toBeGreaterThan(threat.anger);
+    expect(threat.surprise).toBeGreaterThan(0);
+  });
+
+  it("debe ignorar los términos negados en lugar de invertirlos", () => {
+    const negated = lexicon("I am not happy with this");
+    expect(negated.joy).toBe(0);
+    expect(negated.sadness).toBe(0);
+
+    expect(lexicon("No tengo miedo", "es").fear).toBe(0);
+  });
+
+  it("debe aprender emociones de ejemplos etiquetados", () => {
+    const classifier = new EmotionClassifier();
+    expect(classifier.predict(tokenize("stranded overnight"))).toBeNull();
+
+    classifier.train(examples);
+    const predicted = classifier.predict(tokenize("stranded overnight"));
+    expect(predicted).not.toBeNull();
+    expect(predicted!.anger).toBeGreaterThan(0.5);
+    expect(predicted!.joy).toBeLessThan(0.5);
+    expect(classifier.predict(tokenize("completely unseen words"))).toBeNull();
+
+    // El léxico no conoce "stranded": la emoción llega solo del clasificador
+    const text = "Stranded overnight";
+    expect(analyzeEmotions(text, "en").anger).toBe(0);
+    expect(analyzeEmotions(text, "en", classifier).anger).toBeGreaterThan(0);
+  });
+
+  it("debe reconstruirse desde su forma serializada", () => {
+    const classifier = new EmotionClassifier();
+    classifier.train(examples);
+    const restored = EmotionClassifier.deserialize(
+      JSON.parse(JSON.stringify(classifier.serialize())),
+    );
+
+    expect(restored.trainingSize).toBe(examples.length);
+    expect(restored.predict(tokenize("arrive tuesday"))).toEqual(
+      classifier.predict(tokenize("arrive tuesday")),
+    );
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests para EntityExtractor
+ * Validan la detección por alias, el sentimiento de la cláusula de cada mención
+ * y las menciones de marca que se derivan de ellas
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import { Core } from "../../src/core";
+import {
+  campaignEntitiesToDefinitions,
+  EntityExtractor,
+} from "../../src/lib/sentiment/entity-extractor";
+import { AnalysisResult, EntityDefinition } from "../../src/lib/sentiment/types";
+import { Tweet } from "../../src/types/twitter";
+
+// Puntuador léxico mínimo para aislar la extracción del motor
+const scorer = async (text: string) => {
+  const lower = text.toLowerCase();
+  const pos = ["love", "great", "amazing"].filter((w) => lower.includes(w)).length;
+  const neg = ["joke", "bad", "broken"].filter((w) => lower.includes(w)).length;
+  const score = (pos - neg) * 0.5;
+  const label = score > 0 ? "positive" : score < 0 ? "negative" : "neutral";
+  return { label: label as "positive" | "negative" | "neutral", score, confidence: 0.8 };
+};
+
+const definitions: EntityDefinition[] = [
+  { name: "Google", type: "brand", aliases: ["google", "pixel"] },
+  { name: "Samsung", type: "brand", aliases: ["samsung", "galaxy"], competitor: true },
+  { name: "Apple", type: "brand", aliases: ["apple"], competitor: true },
+  { name: "Apple Watch", type: "product", aliases: ["apple watch"] },
+  { name: "Málaga", type: "place", aliases: ["malaga"] },
+];
+
+describe("EntityExtractor", () => {
+  const extractor = new EntityExtractor(scorer);
+
+  it("debe puntuar cada entidad con la cláusula que la rodea", async () => {
+    const text = "Love my new Pixel, but Samsung support is a joke";
+    const mentions = await extractor.extract(text, definitions);
+
+    expect(mentions.map((m) => [m.entity, m.label, m.competitor])).toEqual([
+      ["Google", "positive", false],
+      ["Samsung", "negative", true],
+    ]);
+    const samsung = mentions[1];
+    expect(text.slice(samsung.span.start, samsung.span.end)).toBe(samsung.span.text);
+    expect(samsung.alias).toBe("samsung");
+  });
+
+  it("debe preferir el alias más largo y encontrar @usuarios, #hashtags y acentos", async () => {
+    const mentions = await extractor.extract(
+      "My Apple Watch is broken again. Great weather in Málaga though #galaxy",
+      definitions,
+    );
+
+    expect(mentions.map((m) => [m.entity, m.type, m.label])).toEqual([
+      ["Apple Watch", "product", "negative"],
+      ["Málaga", "place", "positive"],
+      ["Samsung", "brand", "positive"],
+    ]);
+    expect(await extractor.extract("Pineapple pizza @googlefan", definitions)).toEqual([]);
+  });
+
+  it("debe convertir las entidades de campaña en definiciones", () => {
+    expect(campaignEntitiesToDefinitions(undefined)).toBeUndefined();
+    expect(campaignEntitiesToDefinitions([{ name: "Nike", type: "brand", aliases: [] }])).toEqual([
+      { name: "Nike", type: "brand", aliases: ["Nike"], competitor: false },
+    ]);
+  });
+
+  it("debe derivar las menciones de marca de las entidades extraídas", async () => {
+    const entities = await extractor.extract(
+      "Love my Pixel, Samsung support is a joke",
+      definitions,
+    );
+    const tweet = {
+      id: "1",
+      tweetId: "1",
+      content: "Love my Pixel, Samsung support is a joke",
+      hashtags: ["samsung"],
+      author: { verified: false, followersCount: 10 },
+    } as unknown as Tweet;
+    const analysis = {
+      sentiment: { label: "neutral", score: 0, magnitude: 0, confidence: 0.6 },
+      keywords: [],
+      language: "en",
+      signals: { tokens: [] },
+      entities,
+      version: "test",
+    } as unknown as AnalysisResult;
+
+    const { brandMentions } = Core.Mappers.SentimentAnalysis.map(tweet, analysis, {
+      includeBrandMentions: true,
+      brandKeywords: ["pixel"],
+    });
+
+    expect(brandMentions.map((m) => [m.brand, m.sentiment.label, m.isCompetitor])).toEqual([
+      ["Google", "positive", false],
+      ["Samsung", "negative", true],
+    ]);
+    expect(brandMentions[1].associatedHashtags).toEqual(["samsung"]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests para el registro de versiones del modelo
+ * Validan el registro inmutable, la promoción, el rollback (vistos también por
+ * otros procesos) y la comparación de versiones
+ */
+
+import { afterAll, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { NaiveBayesTrainingExample } from "../../src/services/naive-bayes-sentiment.service";
+
+// El setup global simula Naive Bayes: aquí se entrenan modelos reales
+jest.unmock("../../src/services/naive-bayes-sentiment.service");
+
+import { hashDataset, ModelRegistry } from "../../src/services/model-registry.service";
+
+const examples: NaiveBayesTrainingExample[] = [
+  { text: "I love this great product", label: "positive" },
+  { text: "Amazing quality, really happy with it", label: "positive" },
+  { text: "Best purchase of the year", label: "positive" },
+  { text: "Wonderful support team", label: "positive" },
+  { text: "This is terrible and I hate it", label: "negative" },
+  { text: "Awful service, not happy at all", label: "negative" },
+  { text: "Broken after two days, worst phone", label: "negative" },
+  { text: "Horrible experience with delivery", label: "negative" },
+  { text: "The package arrived on Tuesday", label: "neutral" },
+  { text: "It is a phone with a camera", label: "neutral" },
+  { text: "The store opens at nine", label: "neutral" },
+  { text: "Version 2 changes the default port", label: "neutral" },
+];
+
+const tmpDirs: string[] = [];
+
+async function createRegistry(directory?: string): Promise<ModelRegistry> {
+  if (!directory) {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "model-registry-"));
+    tmpDirs.push(directory);
+  }
+  return new ModelRegistry({ directory });
+}
+
+describe("ModelRegistry", () => {
+  let registry: ModelRegistry;
+
+  beforeEach(async () => {
+    registry = await createRegistry();
+  });
+
+  afterAll(async () => {
+    await Promise.all(tmpDirs.map((dir) => fs.rm(dir, { recursive: true, force: true })));
+  });
+
+  it("debe registrar cada entrenamiento como una versión nueva sin activarla", async () => {
+    const version = await registry.trainVersion(examples, { includeBaseDatasets: false });
+
+    expect(version.versionId).toMatch(/^nb-\d{8}T\d{9}Z-[0-9a-f]{8}$/);
+    expect(version.parentVersion).toBeNull();
+    expect(version.datasetSize).toBe(examples.length - version.metrics.holdoutSize);
+    expect(version.metrics.holdoutSize).toBe(2);
+    expect(version.hyperparameters.smoothing).toBe(1);
+    expect(await registry.getActiveVersion()).toBeNull();
+
+    const second = await registry.trainVersion(examples, {
+      includeBaseDatasets: false,
+      hyperparameters: { smoothing: 0.5 },
+    });
+    const versions = await registry.listVersions();
+    expect(versions.map((v) => v.versionId).sort()).toEqual(
+      [version.versionId, second.versionId].sort(),
+    );
+    expect(versions.every((v) => !v.active)).toBe(true);
+
+    // El mismo conjunto en otro orden tiene el mismo hash
+    expect(hashDataset([...examples].reverse())).toBe(hashDataset(examples));
+    expect(second.datasetHash).toBe(version.datasetHash);
+  });
+
+  it("debe promover versiones y revertir a la anterior", async () => {
+    const first = await registry.trainVersion(examples, { includeBaseDatasets: false });
+    const second = await registry.trainVersion(examples.slice(0, 10), {
+      includeBaseDatasets: false,
+    });
+
+    expect(await registry.rollback()).toBeNull();
+    expect(await registry.promote("nb-unknown")).toBeNull();
+    expect(await registry.promote("../registry")).toBeNull();
+
+    expect(await registry.getRevision()).toBeNull();
+    await registry.promote(first.versionId, "admin@example.com");
+    await registry.promote(second.versionId);
+    expect(await registry.getRevision()).toBe(second.versionId);
+
+    const active = await registry.loadActiveModel();
+    expect(active?.version.versionId).toBe(second.versionId);
+    expect(active?.model.vocabulary.length).toBeGreaterThan(0);
+
+    const restored = await registry.rollback();
+    expect(restored?.versionId).toBe(first.versionId);
+    expect((await registry.getVersion(first.versionId))?.active).toBe(true);
+    expect(await registry.rollback()).toBeNull();
+
+    const actions = (await registry.getEvents()).map((event) => event.action);
+    expect(actions).toEqual(["register", "register", "promote", "promote", "rollback"]);
+  });
+
+  it("debe ver la versión activada por otro proceso", async () => {
+    // Otro proceso con el mismo directorio del registro
+    const other = await createRegistry(tmpDirs[tmpDirs.length - 1]);
+    const first = await registry.trainVersion(examples, { includeBaseDatasets: false });
+    const second = await registry.trainVersion(examples.slice(0, 10), {
+      includeBaseDatasets: false,
+    });
+    expect(await other.getRevision()).toBeNull();
+
+    await registry.promote(first.versionId);
+    expect(await other.getRevision()).toBe(first.versionId);
+    expect((await other.loadActiveModel())?.version.versionId).toBe(first.versionId);
+
+    await registry.promote(second.versionId);
+    expect(await other.getRevision()).toBe(second.versionId);
+    expect((await other.loadActiveModel())?.version.versionId).toBe(second.versionId);
+  });
+
+  it("debe comparar dos versiones", async () => {
+    const first = await registry.trainVersion(examples, { includeBaseDatasets: false });
+    const second = await registry.trainVersion(
+      [...examples, { text: "Fantastic camera and battery", label: "positive" }],
+      { includeBaseDatasets: false, hyperparameters: { prior: "uniform" } },
+    );
+
+    const diff = await registry.diffVersions(first.versionId, second.versionId);
+    expect(diff).not.toBeNull();
+    expect(diff!.hyperparameters).toEqual({ prior: { from: "empirical", to: "uniform" } });
+    expect(diff!.dataset.sameHash).toBe(false);
+    expect(diff!.vocabulary.added).toBeGreaterThan(0);
+    expect(diff!.metrics.accuracy.delta).toBe(second.metrics.accuracy - first.metrics.accuracy);
+
+    expect(await registry.diffVersions(first.versionId, "nb-missing")).toBeNull();
+  });
+});
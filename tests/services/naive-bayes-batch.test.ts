@@ -0,0 +1,56 @@
+/**
+ * Tests para la predicción por lotes de Naive Bayes
+ * Validan que la versión matricial coincide con la predicción individual
+ */
+
+import { describe, expect, it, jest } from "@jest/globals";
+
+// El setup global simula el servicio: aquí se necesita el modelo real
+const { NaiveBayesSentimentService } = jest.requireActual<
+  typeof import("../../src/services/naive-bayes-sentiment.service")
+>("../../src/services/naive-bayes-sentiment.service");
+
+function trainedModel() {
+  const model = new NaiveBayesSentimentService();
+  model.train([
+    { text: "I love this great product", label: "positive" },
+    { text: "Amazing quality, really happy with it", label: "positive" },
+    { text: "This is terrible and I hate it", label: "negative" },
+    { text: "Awful service, not happy at all", label: "negative" },
+    { text: "The package arrived on Tuesday", label: "neutral" },
+    { text: "It is a phone with a camera", label: "neutral" },
+  ]);
+  return model;
+}
+
+describe("NaiveBayesSentimentService.predictBatch", () => {
+  it("debe coincidir con predict() elemento a elemento", () => {
+    const model = trainedModel();
+    const texts = [
+      "I love it, great great quality",
+      "terrible service, I hate waiting",
+      "The camera arrived",
+      "not happy with this product",
+      "I love it, great great quality", // repetido: misma fila
+    ];
+
+    const batch = model.predictBatch(texts);
+
+    expect(batch).toHaveLength(texts.length);
+    texts.forEach((text, i) => {
+      const single = model.predict(text);
+      expect(batch[i].label).toBe(single.label);
+      expect(batch[i].scores.positive).toBeCloseTo(single.scores.positive, 10);
+      expect(batch[i].scores.negative).toBeCloseTo(single.scores.negative, 10);
+      expect(batch[i].scores.neutral).toBeCloseTo(single.scores.neutral, 10);
+    });
+  });
+
+  it("debe devolver neutral para textos vacíos sin afectar al resto", () => {
+    const model = trainedModel();
+    const [empty, positive] = model.predictBatch(["", "great product, love it"]);
+
+    expect(empty).toEqual(model.predict(""));
+    expect(positive.label).toBe("positive");
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests para el análisis en streaming NDJSON
+ * Validan los errores por línea, la línea de resumen y el backpressure
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import { Readable, Writable } from "stream";
+import { parseNdjsonLine, streamNdjsonAnalysis } from "../../src/lib/sentiment/ndjson-stream";
+import { SentimentAnalysisOrchestrator } from "../../src/lib/sentiment/orchestrator";
+import { MemoryResultCacheBackend, ResultCache } from "../../src/lib/sentiment/result-cache";
+
+const newOrchestrator = () =>
+  new SentimentAnalysisOrchestrator({
+    cache: new ResultCache(new MemoryResultCacheBackend(100), 60_000),
+  });
+
+// Escritor lento con buffer mínimo: fuerza write() === false y esperas a "drain"
+function collector(delayMs = 0) {
+  const lines: any[] = [];
+  const output = new Writable({
+    highWaterMark: 16,
+    write(chunk, _encoding, callback) {
+      lines.push(JSON.parse(chunk.toString()));
+      setTimeout(callback, delayMs);
+    },
+  });
+  return { lines, output };
+}
+
+describe("NDJSON streaming", () => {
+  it("debe validar cada línea por separado", () => {
+    expect(parseNdjsonLine('{"id":7,"text":"hola","language":"es"}')).toEqual({
+      id: "7",
+      text: "hola",
+      language: "es",
+    });
+    expect(parseNdjsonLine("{oops")).toBe("Invalid JSON");
+    expect(parseNdjsonLine('{"text":"  "}')).toBe('Field "text" cannot be empty');
+    expect(parseNdjsonLine('{"text":"hi","language":"xx"}')).toMatch(/language/);
+  });
+
+  it("debe emitir un resultado por línea, errores por línea y un resumen final", async () => {
+    // Las líneas llegan partidas entre chunks arbitrarios
+    const body = [
+      '{"id":"a","text":"I love this"}\n{"id":"b","te',
+      'xt":"Terrible support"}\nnot json\n\n',
+      '{"id":"c","text":"I love this"}',
+    ];
+    const { lines, output } = collector(1);
+
+    const summary = await streamNdjsonAnalysis(Readable.from(body), output, newOrchestrator(), {
+      chunkSize: 2,
+      concurrency: 1,
+    });
+
+    const results = lines.filter((line) => line.type === "result");
+    const byLine = Object.fromEntries(results.map((line) => [line.line, line]));
+    expect(results).toHaveLength(4);
+    expect(byLine[1]).toMatchObject({ id: "a", status: "ok" });
+    expect(byLine[1].result.sentiment.label).toBe("positive");
+    expect(byLine[2]).toMatchObject({ id: "b", status: "ok" });
+    expect(byLine[3]).toMatchObject({ status: "error", error: "Invalid JSON" });
+    // Mismo texto que la línea 1 en un lote posterior: sale de la caché
+    expect(byLine[5]).toMatchObject({ id: "c", status: "cached" });
+
+    expect(lines[lines.length - 1]).toEqual(summary);
+    expect(summary).toMatchObject({
+      type: "summary",
+      total: 4,
+      succeeded: 3,
+      failed: 1,
+      cached: 1,
+    });
+  });
+
+  it("debe rechazar las líneas demasiado largas sin perder las siguientes", async () => {
+    const body = [`{"text":"${"x".repeat(200)}"}\n`, '{"text":"great"}\n'];
+    const { lines, output } = collector();
+
+    const summary = await streamNdjsonAnalysis(Readable.from(body), output, newOrchestrator(), {
+      maxLineBytes: 100,
+    });
+
+    expect(lines[0]).toMatchObject({ line: 1, status: "error" });
+    expect(lines[1]).toMatchObject({ line: 2, status: "ok" });
+    expect(summary.failed).toBe(1);
+  });
+});
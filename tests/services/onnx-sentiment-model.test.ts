@@ -0,0 +1,115 @@
+/**
+ * Tests para el backend BERT local (ONNX)
+ * Validan los tokenizers WordPiece y BPE, la carga desde el directorio del modelo
+ * y el agrupado en lotes con padding; el runtime de ONNX se sustituye por uno falso
+ */
+
+import { afterAll, describe, expect, it } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  EncodedBatch,
+  LogitsRunner,
+  OnnxSentimentModel,
+  readLabels,
+} from "../../src/lib/sentiment/onnx-model";
+import {
+  ByteLevelBpeTokenizer,
+  loadTokenizer,
+  WordPieceTokenizer,
+} from "../../src/lib/sentiment/tokenizers";
+
+const modelDir = fs.mkdtempSync(path.join(os.tmpdir(), "onnx-model-"));
+const vocab = ["[PAD]", "[UNK]", "[CLS]", "[SEP]", "love", "phone", "##s", "!", "cafe", "hate"];
+fs.writeFileSync(path.join(modelDir, "vocab.txt"), vocab.join("\n"));
+fs.writeFileSync(
+  path.join(modelDir, "config.json"),
+  JSON.stringify({ id2label: { 2: "POS", 0: "NEG", 1: "NEU" } }),
+);
+
+// Runtime falso: "love" empuja a POS y "hate" a NEG; guarda los lotes recibidos
+function fakeRunner(): LogitsRunner & { batches: EncodedBatch[] } {
+  const batches: EncodedBatch[] = [];
+  return {
+    batches,
+    async run(batch) {
+      batches.push(batch);
+      const [rows, sequence] = batch.dims;
+      const logits = new Float32Array(rows * 3);
+      for (let row = 0; row < rows; row++) {
+        const ids = Array.from(batch.inputIds.subarray(row * sequence, (row + 1) * sequence));
+        logits[row * 3] = ids.includes(BigInt(9)) ? 3 : 0;
+        logits[row * 3 + 1] = 1;
+        logits[row * 3 + 2] = ids.includes(BigInt(4)) ? 3 : 0;
+      }
+      return logits;
+    },
+  };
+}
+
+describe("Local ONNX sentiment model", () => {
+  afterAll(() => fs.rmSync(modelDir, { recursive: true, force: true }));
+
+  it("debe tokenizar con WordPiece desde vocab.txt", () => {
+    const tokenizer = loadTokenizer(modelDir);
+    expect(tokenizer).toBeInstanceOf(WordPieceTokenizer);
+    expect(tokenizer.tokenize("I LOVE phones! Café")).toEqual([
+      "[UNK]",
+      "love",
+      "phone",
+      "##s",
+      "!",
+      "cafe",
+    ]);
+    // [CLS] y [SEP] cuentan dentro de la longitud máxima
+    expect(tokenizer.encode("I LOVE phones", 4)).toEqual([2, 1, 4, 3]);
+  });
+
+  it("debe aplicar las fusiones del BPE a nivel de byte", () => {
+    const merges = ["h e", "he l", "hel l", "hell o", "Ġ w", "Ġw o", "Ġwo r", "Ġwor l", "Ġworl d"];
+    const tokenizer = new ByteLevelBpeTokenizer(
+      new Map(Object.entries({ "<s>": 0, "<pad>": 1, "</s>": 2, "<unk>": 3, hello: 4, Ġworld: 5 })),
+      merges.map((merge) => merge.split(" ") as [string, string]),
+    );
+
+    expect(tokenizer.tokenize("hello world")).toEqual(["hello", "Ġworld"]);
+    expect(tokenizer.tokenize("hi")).toEqual(["h", "i"]);
+    expect(tokenizer.encode("hello world hi", 10)).toEqual([0, 4, 5, 3, 3, 3, 2]);
+    expect(tokenizer.padId).toBe(1);
+  });
+
+  it("debe puntuar en lotes con padding dinámico y las etiquetas de config.json", async () => {
+    const runner = fakeRunner();
+    const labels = readLabels(modelDir);
+    expect(labels).toEqual(["NEG", "NEU", "POS"]);
+
+    const model = new OnnxSentimentModel(runner, loadTokenizer(modelDir), labels, {
+      batchSize: 2,
+    });
+    const predictions = await model.predictBatch(["love phones", "hate", "cafe"]);
+
+    expect(predictions.map((p) => p.label)).toEqual(["POS", "NEG", "NEU"]);
+    expect(predictions[0].score).toBeCloseTo(Math.exp(3) / (Math.exp(3) + Math.exp(1) + 1));
+
+    // Dos lotes, cada uno rellenado hasta su texto más largo
+    expect(runner.batches.map((batch) => batch.dims)).toEqual([
+      [2, 5],
+      [1, 3],
+    ]);
+    expect(Array.from(runner.batches[0].inputIds)).toEqual(
+      [2, 4, 5, 6, 3, 2, 9, 3, 0, 0].map(BigInt),
+    );
+    expect(Array.from(runner.batches[0].attentionMask)).toEqual(
+      [1, 1, 1, 1, 1, 1, 1, 1, 0, 0].map(BigInt),
+    );
+  });
+
+  it("debe fallar al cargar un directorio sin modelo o con salidas inesperadas", async () => {
+    await expect(OnnxSentimentModel.load(modelDir)).rejects.toThrow("No ONNX model");
+
+    const broken: LogitsRunner = { run: async () => new Float32Array(2) };
+    const model = new OnnxSentimentModel(broken, loadTokenizer(modelDir), ["NEG", "NEU", "POS"]);
+    await expect(model.predict("love")).rejects.toThrow("2 logits for 1 texts");
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests para los léxicos por organización
+ * Validan la prioridad sobre el léxico base, el contexto y el idioma, la carga
+ * por campaña y que editar el léxico no sirva resultados cacheados antiguos
+ */
+
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { LEXICONS, scoreTokens, tokenize } from "../../src/lib/sentiment/lexicons";
+import {
+  getSharedOrganizationLexicons,
+  OrganizationLexicon,
+  OrganizationLexiconSource,
+  OrganizationLexiconStore,
+  OrganizationLexiconTerm,
+} from "../../src/lib/sentiment/organization-lexicons";
+
+// El setup global simula el motor y Naive Bayes: aquí se usa el motor real
+jest.unmock("../../src/lib/sentiment/engine");
+jest.unmock("../../src/services/naive-bayes-sentiment.service");
+
+import { SentimentAnalysisOrchestrator } from "../../src/lib/sentiment/orchestrator";
+import { MemoryResultCacheBackend, ResultCache } from "../../src/lib/sentiment/result-cache";
+import { AnalysisRequest } from "../../src/lib/sentiment/types";
+
+const gamingTerms: OrganizationLexiconTerm[] = [
+  { term: "Brutal", polarity: "positive", weight: 1.5, context: ["boss", "level"] },
+  { term: "sick", polarity: "positive", weight: 1 },
+  { term: "sick", polarity: "neutral", weight: 1, language: "es" },
+];
+
+function fakeSource(terms: Record<string, OrganizationLexiconTerm[]>) {
+  const source = {
+    loads: 0,
+    loadTerms: async (organizationId: string) => {
+      source.loads++;
+      return terms[organizationId] ?? [];
+    },
+    findOrganization: async (campaignId: string) =>
+      campaignId === "campaign-broken"
+        ? Promise.reject(new Error("db down"))
+        : (({ "campaign-1": "org-game" } as Record<string, string>)[campaignId] ?? null),
+  };
+  return source satisfies OrganizationLexiconSource;
+}
+
+describe("Organization lexicons", () => {
+  afterEach(() => getSharedOrganizationLexicons().clear());
+
+  it("debe redefinir términos del léxico según el contexto y el idioma", () => {
+    const lexicon = new OrganizationLexicon("org-game", gamingTerms);
+    const tokens = tokenize("That final boss was brutal, sick level design");
+
+    const overrides = lexicon.overridesFor(tokens, "en");
+    expect(Object.fromEntries(overrides)).toEqual({
+      brutal: { polarity: 1, weight: 1.5 },
+      sick: { polarity: 1, weight: 1 },
+    });
+    expect(scoreTokens(tokens, LEXICONS.en)).toMatchObject({ positive: 0, negative: 0 });
+    expect(scoreTokens(tokens, LEXICONS.en, overrides)).toMatchObject({
+      positive: 2.5,
+      negative: 0,
+    });
+
+    // Sin palabras de contexto "brutal" conserva su sentido; en español "sick" deja de contar
+    expect([...lexicon.overridesFor(tokenize("Brutal delays again"), "en").keys()]).toEqual([]);
+    expect(lexicon.overridesFor(tokenize("sick"), "es").get("sick")).toEqual({
+      polarity: 0,
+      weight: 1,
+    });
+    expect(new OrganizationLexicon("org-game", [...gamingTerms].reverse()).fingerprint).toBe(
+      lexicon.fingerprint,
+    );
+  });
+
+  it("debe cargar el léxico de la organización de cada campaña y refrescarlo", async () => {
+    const source = fakeSource({ "org-game": gamingTerms });
+    const store = new OrganizationLexiconStore(source, 60_000);
+
+    await store.prepare([
+      { campaignId: "campaign-1" },
+      { campaignId: "campaign-2" },
+      { campaignId: "campaign-broken" },
+      { organizationId: "org-game" },
+    ]);
+    expect(store.resolve({ campaignId: "campaign-1" })?.organizationId).toBe("org-game");
+    expect(store.resolve({ campaignId: "campaign-2" })).toBeNull();
+    expect(store.resolve({ campaignId: "campaign-broken" })).toBeNull();
+    expect(source.loads).toBe(1);
+
+    // Dentro del intervalo no vuelve a Mongo; tras invalidar, sí
+    await store.prepare([{ campaignId: "campaign-1" }]);
+    expect(source.loads).toBe(1);
+    store.invalidate("org-game");
+    expect(store.resolve({ organizationId: "org-game" })).toBeNull();
+    await store.prepare([{ campaignId: "campaign-1" }]);
+    expect(source.loads).toBe(2);
+  });
+
+  it("debe aplicar el léxico en el motor sin servir resultados cacheados anteriores", async () => {
+    const orchestrator = new SentimentAnalysisOrchestrator({
+      cache: new ResultCache(new MemoryResultCacheBackend(100), 60_000),
+    });
+    const request: AnalysisRequest = {
+      text: "This boss fight is brutal",
+      language: "en",
+      organizationId: "org-game",
+    };
+
+    const before = await orchestrator.analyzeText(request);
+    expect(before.signals.organizationLexicon).toBeUndefined();
+
+    getSharedOrganizationLexicons().set("org-game", gamingTerms);
+    const after = await orchestrator.analyzeText(request);
+    expect(after.signals.organizationLexicon).toEqual({
+      organizationId: "org-game",
+      terms: ["brutal"],
+    });
+    expect(after.sentiment.score).toBeGreaterThan(before.sentiment.score);
+
+    // Otra organización sigue usando el léxico base
+    const other = await orchestrator.analyzeText({ ...request, organizationId: "org-bank" });
+    expect(other.signals.organizationLexicon).toBeUndefined();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests para la caché de resultados del orquestador
+ * Validan la clave por versión, el TTL y los backends en memoria y disco
+ */
+
+import { afterAll, describe, expect, it } from "@jest/globals";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  FileResultCacheBackend,
+  MemoryResultCacheBackend,
+  ResultCache,
+  resultCacheKey,
+} from "../../src/lib/sentiment/result-cache";
+import { AnalysisResult } from "../../src/lib/sentiment/types";
+
+const result = (label: "positive" | "negative"): AnalysisResult => ({
+  sentiment: {
+    label,
+    score: label === "positive" ? 0.8 : -0.8,
+    magnitude: 0.8,
+    confidence: 0.9,
+    emotions: {
+      joy: 0,
+      sadness: 0,
+      anger: 0,
+      fear: 0,
+      surprise: 0,
+      disgust: 0,
+      trust: 0,
+      anticipation: 0,
+    },
+  },
+  keywords: [],
+  language: "en",
+  signals: {
+    tokens: [],
+    ngrams: {},
+    emojis: {},
+    negationFlips: 0,
+    intensifierBoost: 0,
+    sarcasmScore: 0,
+  },
+  version: "test",
+});
+
+describe("Result cache", () => {
+  const tempDir = mkdtempSync(path.join(tmpdir(), "result-cache-"));
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("debe normalizar el texto y cambiar la clave con la versión del motor", () => {
+    const key = resultCacheKey("v1", "Great   product!!", ["en"]);
+
+    expect(resultCacheKey("v1", "great product!!", ["en"])).toBe(key);
+    expect(resultCacheKey("v2", "great product!!", ["en"])).not.toBe(key);
+    expect(resultCacheKey("v1", "great product!!", ["es"])).not.toBe(key);
+  });
+
+  it("debe dar claves distintas a emojis, puntuación y textos no latinos", () => {
+    const texts = [
+      "love it 😍",
+      "love it 😡",
+      "great!",
+      "great?",
+      "很好",
+      "رائع",
+      "отлично",
+      "😍",
+      "😡",
+    ];
+
+    const keys = new Set(texts.map((text) => resultCacheKey("v1", text)));
+
+    expect(keys.size).toBe(texts.length);
+  });
+
+  it("debe expirar las entradas en memoria y contar aciertos", async () => {
+    const cache = new ResultCache(new MemoryResultCacheBackend(), 50);
+    await cache.set("k", "v1", result("positive"));
+
+    expect((await cache.get("k"))?.sentiment.label).toBe("positive");
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(await cache.get("k")).toBeNull();
+
+    const stats = await cache.getStats();
+    expect(stats).toMatchObject({ backend: "memory", hits: 1, misses: 1, sets: 1 });
+  });
+
+  it("debe compartir resultados entre instancias con el backend de disco", async () => {
+    const key = resultCacheKey("v1", "I love it");
+    const writer = new ResultCache(new FileResultCacheBackend(tempDir), 60_000);
+    await writer.set(key, "v1", result("positive"));
+
+    // Otra réplica (u otro arranque) sobre el mismo directorio
+    const reader = new ResultCache(new FileResultCacheBackend(tempDir), 60_000);
+    expect((await reader.get(key))?.sentiment.label).toBe("positive");
+    expect((await reader.getStats()).entries).toBe(1);
+
+    await reader.clear();
+    expect(await writer.get(key)).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests para la etapa de sarcasmo
+ * Validan las señales, el modelo entrenable y la corrección de polaridad
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import { getSarcasmTrainingExamples } from "../../src/data/complex-sentiment-dataset";
+import {
+  applySarcasm,
+  extractSarcasmCues,
+  SarcasmDetector,
+} from "../../src/lib/sentiment/sarcasm-detector";
+
+const positive = { label: "positive", score: 0.6, confidence: 0.8 };
+
+describe("Sarcasm detector", () => {
+  it("debe extraer las señales de sarcasmo", () => {
+    expect(extractSarcasmCues("Great service 🙄")).toContain("praise_with_negative_emoji");
+    expect(extractSarcasmCues("Thanks for the 'amazing' support")).toContain("quoted_praise");
+    expect(extractSarcasmCues("Yeah right, best update ever")).toContain("ironic_phrase");
+    expect(extractSarcasmCues("Love waiting two hours #not")).toContain("ironic_hashtag");
+    expect(extractSarcasmCues("Sí claro, qué buen servicio", "es")).toContain("ironic_phrase");
+
+    // Un apóstrofo dentro de una palabra no es una cita
+    expect(extractSarcasmCues("It's great, isn't it")).toEqual([]);
+    expect(extractSarcasmCues("I love this phone, great camera")).toEqual([]);
+  });
+
+  it("debe separar textos sarcásticos y sinceros tras entrenar", () => {
+    const detector = new SarcasmDetector();
+    detector.train(getSarcasmTrainingExamples());
+
+    expect(
+      detector.detect("Oh great, another delay! Just what I needed... 🙄").probability,
+    ).toBeGreaterThan(0.9);
+    expect(detector.detect("Great product #not").probability).toBeGreaterThan(0.8);
+    expect(detector.detect("I love this phone, great camera").probability).toBeLessThan(0.1);
+  });
+
+  it("debe invertir o atenuar solo las predicciones positivas", () => {
+    const flipped = applySarcasm(positive, { probability: 0.9, cues: ["ironic_hashtag"] });
+    expect(flipped.prediction).toMatchObject({ label: "negative", score: -0.6 });
+    expect(flipped.signal).toEqual({
+      probability: 0.9,
+      cues: ["ironic_hashtag"],
+      action: "flipped",
+    });
+
+    const dampened = applySarcasm(positive, { probability: 0.7, cues: ["ironic_phrase"] });
+    expect(dampened.prediction.label).toBe("neutral");
+    expect(dampened.prediction.score).toBeCloseTo(0.18);
+    expect(dampened.signal.action).toBe("dampened");
+
+    const negative = { label: "negative", score: -0.7, confidence: 0.9 };
+    const untouched = applySarcasm(negative, { probability: 0.95, cues: ["quoted_praise"] });
+    expect(untouched.prediction).toEqual(negative);
+    expect(untouched.signal.action).toBeUndefined();
+  });
+
+  it("debe reconstruirse desde su forma serializada", () => {
+    const detector = new SarcasmDetector();
+    detector.train(getSarcasmTrainingExamples());
+    const restored = SarcasmDetector.deserialize(JSON.parse(JSON.stringify(detector.serialize())));
+
+    const text = "Perfect timing for the server to go down";
+    expect(restored.detect(text).probability).toBeCloseTo(detector.detect(text).probability);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests para la cola de scraping persistente
+ * Validan que un job retome sus chunks tras un reinicio, el backoff entre
+ * reintentos, el dead letter, que un worker que pierde el lease deje de escribir
+ * y que los chunks se ajusten a la cuota de tweets de la organización, que
+ * solo se cobra por los tweets ya guardados
+ */
+
+import type { QueueJob } from "../../src/services/scraping-queue.service";
+import { ScrapingQueueService } from "../../src/services/scraping-queue.service";
+
+const mockRepository = {
+  create: jest.fn(),
+  findById: jest.fn(),
+  claimNext: jest.fn(),
+  deadLetterExpired: jest.fn(),
+  heartbeat: jest.fn(),
+  saveProgress: jest.fn(),
+  complete: jest.fn(),
+  fail: jest.fn(),
+  release: jest.fn(),
+  getStats: jest.fn(),
+  findOrganizationsWithWork: jest.fn(),
+};
+const mockQuotas = {
+  findOrganization: jest.fn(),
+  findBlockedOrganizations: jest.fn(),
+  remainingTweets: jest.fn(),
+  recordTweets: jest.fn(),
+};
+const mockScrape = jest.fn();
+
+jest.mock("../../src/repositories/mongo-scraping-job.repository", () => ({
+  MongoScrapingJobRepository: function () {
+    return mockRepository;
+  },
+}));
+jest.mock("../../src/services/scraping-quota.service", () => ({
+  get scrapingQuotaService() {
+    return mockQuotas;
+  },
+}));
+jest.mock("../../src/services/twitter-scraper.service", () => ({
+  TwitterRealScraperService: function () {
+    return { scrapeByHashtag: mockScrape, scrapeByUser: mockScrape };
+  },
+}));
+
+function job(overrides: Partial<QueueJob> = {}): QueueJob {
+  return {
+    id: "hashtag-1",
+    type: "hashtag",
+    query: "nike",
+    targetTweets: 50,
+    campaignId: "campaign-1",
+    options: {},
+    priority: "medium",
+    createdAt: new Date("2026-10-18T10:00:00Z"),
+    attempts: 1,
+    maxAttempts: 3,
+    status: "processing",
+    progress: { completed: 0, total: 50 },
+    ...overrides,
+  };
+}
+
+function chunkedJob(): QueueJob {
+  return job({
+    targetTweets: 300,
+    progress: { completed: 100, total: 300, currentChunk: 2 },
+    chunks: [0, 1, 2].map((chunkIndex) => ({
+      id: `hashtag-1-chunk-${chunkIndex}`,
+      jobId: "hashtag-1",
+      chunkIndex,
+      targetTweets: 100,
+      // Chunk 1 was being scraped when the previous worker died
+      status: (["completed", "processing", "pending"] as const)[chunkIndex],
+      retries: 0,
+    })),
+  });
+}
+
+async function processNext(queue: ScrapingQueueService): Promise<boolean> {
+  const run = queue.processNext();
+  await jest.advanceTimersByTimeAsync(60000);
+  return run;
+}
+
+describe("ScrapingQueueService", () => {
+  let queue: ScrapingQueueService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date("2026-10-18T12:00:00Z"));
+    Object.values(mockRepository).forEach((fn) => fn.mockResolvedValue(true));
+    mockRepository.findOrganizationsWithWork.mockResolvedValue([]);
+    mockQuotas.findBlockedOrganizations.mockResolvedValue([]);
+    mockQuotas.remainingTweets.mockResolvedValue(Infinity);
+    mockQuotas.recordTweets.mockResolvedValue(undefined);
+    mockScrape.mockResolvedValue({
+      tweets: Array.from({ length: 100 }, (_, i) => ({ tweetId: `${i}` })),
+    });
+    queue = ScrapingQueueService.getInstance();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it("debe retomar un job con chunks desde el último chunk completado", async () => {
+    const claimed = chunkedJob();
+    mockRepository.claimNext.mockResolvedValue(claimed);
+    const completed = jest.fn();
+    queue.once("jobCompleted", completed);
+
+    expect(await processNext(queue)).toBe(true);
+
+    expect(mockScrape).toHaveBeenCalledTimes(2);
+    expect(mockRepository.saveProgress).toHaveBeenCalledTimes(2);
+    expect(mockRepository.complete).toHaveBeenCalledWith("hashtag-1", expect.any(String), claimed);
+    expect(claimed.chunks!.map((chunk) => chunk.status)).toEqual([
+      "completed",
+      "completed",
+      "completed",
+    ]);
+    expect(claimed.progress).toEqual({
+      completed: 300,
+      total: 300,
+      currentChunk: 3,
+    });
+    expect(completed).toHaveBeenCalledWith(claimed);
+  });
+
+  it("debe reintentar con backoff exponencial y pasar al dead letter sin intentos", async () => {
+    mockScrape.mockRejectedValue(new Error("Rate limited"));
+    const failed = jest.fn();
+    queue.on("jobFailed", failed);
+
+    mockRepository.claimNext.mockResolvedValue(job({ attempts: 2 }));
+    await processNext(queue);
+    expect(mockRepository.fail).toHaveBeenLastCalledWith(
+      "hashtag-1",
+      expect.any(String),
+      "Rate limited",
+      new Date("2026-10-18T12:00:10Z"),
+      expect.objectContaining({ status: "failed" }),
+    );
+    expect(failed).not.toHaveBeenCalled();
+
+    mockRepository.claimNext.mockResolvedValue(job({ attempts: 3 }));
+    await processNext(queue);
+    expect(mockRepository.fail).toHaveBeenLastCalledWith(
+      "hashtag-1",
+      expect.any(String),
+      "Rate limited",
+      null,
+      expect.objectContaining({ status: "dead_letter" }),
+    );
+    expect(failed).toHaveBeenCalledTimes(1);
+    queue.removeAllListeners("jobFailed");
+  });
+
+  it("debe dejar de procesar un job cuando otro worker tiene su lease", async () => {
+    mockRepository.claimNext.mockResolvedValue(chunkedJob());
+    mockRepository.saveProgress.mockResolvedValue(false);
+
+    await processNext(queue);
+
+    expect(mockScrape).toHaveBeenCalledTimes(1);
+    expect(mockRepository.complete).not.toHaveBeenCalled();
+    expect(mockRepository.fail).not.toHaveBeenCalled();
+  });
+
+  it("debe ajustar los chunks a la cuota y devolver el job a la cola al agotarla", async () => {
+    const claimed = { ...chunkedJob(), organizationId: "org-1" };
+    mockRepository.claimNext.mockResolvedValue(claimed);
+    mockQuotas.remainingTweets.mockResolvedValueOnce(40).mockResolvedValueOnce(0);
+    mockScrape.mockResolvedValue({
+      tweets: Array.from({ length: 40 }, (_, i) => ({ tweetId: `${i}` })),
+    });
+
+    await processNext(queue);
+
+    expect(mockScrape).toHaveBeenCalledTimes(1);
+    expect(mockScrape).toHaveBeenCalledWith("nike", expect.objectContaining({ maxTweets: 40 }));
+    expect(mockQuotas.recordTweets).toHaveBeenCalledWith("org-1", 40);
+    expect(mockRepository.release).toHaveBeenCalledWith(claimed, expect.any(String));
+    expect(mockRepository.complete).not.toHaveBeenCalled();
+    expect(claimed.chunks!.map((chunk) => chunk.status)).toEqual([
+      "completed",
+      "completed",
+      "pending",
+    ]);
+  });
+
+  it("debe cobrar un chunk solo cuando sus tweets se han guardado", async () => {
+    const claimed = { ...chunkedJob(), organizationId: "org-1" };
+    mockRepository.claimNext.mockResolvedValue(claimed);
+    const handler = jest
+      .fn(async () => undefined)
+      .mockRejectedValueOnce(new Error("Mongo unavailable"));
+    queue.setTweetHandler(handler);
+
+    try {
+      await processNext(queue);
+    } finally {
+      queue.setTweetHandler(async () => undefined);
+    }
+
+    // El chunk 1 se scrapea dos veces (el primer guardado falla) pero se cobra una
+    expect(mockScrape).toHaveBeenCalledTimes(3);
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(mockQuotas.recordTweets).toHaveBeenCalledTimes(2);
+    expect(mockQuotas.recordTweets).toHaveBeenCalledWith("org-1", 100);
+    expect(claimed.chunks!.map((chunk) => chunk.status)).toEqual([
+      "completed",
+      "completed",
+      "completed",
+    ]);
+  });
+
+  it("no debe procesar nada si no hay jobs disponibles", async () => {
+    mockRepository.claimNext.mockResolvedValue(null);
+
+    expect(await processNext(queue)).toBe(false);
+    expect(mockScrape).not.toHaveBeenCalled();
+  });
+});
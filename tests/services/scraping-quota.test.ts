@@ -0,0 +1,160 @@
+/**
+ * Tests para las cuotas de scraping por organización
+ * Validan la resolución de límites (organización, plan, valores por defecto),
+ * el presupuesto de tweets más restrictivo, el aviso único al 80%, el límite
+ * de scrapes a la vez con los scrapes manuales y las organizaciones cuyos jobs
+ * deben esperar en la cola
+ */
+
+import { ScrapingQuotaService } from "../../src/services/scraping-quota.service";
+
+const NOW = new Date("2026-10-18T12:00:00Z");
+const DAY = new Date("2026-10-18T00:00:00Z");
+const MONTH = new Date("2026-10-01T00:00:00Z");
+
+const settings = {
+  enabled: true,
+  defaultPlan: "free",
+  defaults: {
+    dailyTweets: 5000,
+    monthlyTweets: 100000,
+    maxConcurrentJobs: 2,
+    maxActiveCampaigns: 5,
+  },
+  warningPercent: 80,
+  policyCacheMs: 60000,
+};
+
+function createService() {
+  const quotas = {
+    findPolicy: jest.fn(),
+    incrementUsage: jest.fn(),
+    markWarned: jest.fn(),
+    getUsage: jest.fn(),
+  };
+  const campaigns = { findById: jest.fn(), countActiveByOrganization: jest.fn() };
+  const jobs = { countProcessing: jest.fn() };
+  const service = new ScrapingQuotaService(
+    quotas as never,
+    campaigns as never,
+    jobs as never,
+    settings,
+  );
+
+  // org-1 está en el plan pro y sobrescribe su límite diario
+  quotas.findPolicy.mockImplementation(async (scope: string, key: string) => {
+    if (scope === "organization" && key === "org-1") {
+      return { plan: "pro", limits: { dailyTweets: 1000 } };
+    }
+    if (scope === "plan" && key === "pro") {
+      return { limits: { dailyTweets: 20000, monthlyTweets: 1500, maxConcurrentJobs: 4 } };
+    }
+    return null;
+  });
+  return { service, quotas, campaigns, jobs };
+}
+
+describe("ScrapingQuotaService", () => {
+  it("debe combinar los límites de la organización, su plan y los valores por defecto", async () => {
+    const { service } = createService();
+
+    expect(await service.getPolicy("org-1")).toEqual({
+      plan: "pro",
+      limits: {
+        dailyTweets: 1000,
+        monthlyTweets: 1500,
+        maxConcurrentJobs: 4,
+        maxActiveCampaigns: 5,
+      },
+    });
+    expect(await service.getPolicy("org-2")).toEqual({
+      plan: "free",
+      limits: settings.defaults,
+    });
+  });
+
+  it("debe comprobar contra el presupuesto de tweets con menos margen", async () => {
+    const { service, quotas } = createService();
+    quotas.getUsage.mockImplementation(async (_id: string, period: string) =>
+      period === "day" ? 200 : 1300,
+    );
+
+    const check = await service.checkTweets("org-1", 300, NOW);
+
+    expect(quotas.getUsage).toHaveBeenCalledWith("org-1", "day", DAY);
+    expect(quotas.getUsage).toHaveBeenCalledWith("org-1", "month", MONTH);
+    expect(check).toEqual({
+      allowed: false,
+      metric: "monthlyTweets",
+      used: 1300,
+      limit: 1500,
+      remaining: 200,
+      percentage: 87,
+      resetsAt: new Date("2026-11-01T00:00:00Z"),
+    });
+    expect((await service.checkTweets("org-1", 200, NOW)).allowed).toBe(true);
+  });
+
+  it("debe avisar una sola vez al llegar al 80% de un presupuesto", async () => {
+    const { service, quotas } = createService();
+    const warning = jest.fn();
+    service.on("quotaWarning", warning);
+    quotas.incrementUsage.mockImplementation(async (_id: string, period: string) =>
+      period === "day" ? { tweets: 800 } : { tweets: 900 },
+    );
+    quotas.markWarned.mockResolvedValueOnce(true).mockResolvedValue(false);
+
+    await service.recordTweets("org-1", 100, NOW);
+    await service.recordTweets("org-1", 100, NOW);
+
+    expect(quotas.incrementUsage).toHaveBeenCalledWith("org-1", "day", DAY, 100);
+    expect(quotas.incrementUsage).toHaveBeenCalledWith("org-1", "month", MONTH, 100);
+    // El mensual (60%) no llega al umbral; el diario se avisa solo la primera vez
+    expect(quotas.markWarned).toHaveBeenCalledTimes(2);
+    expect(warning).toHaveBeenCalledTimes(1);
+    expect(warning).toHaveBeenCalledWith({
+      organizationId: "org-1",
+      metric: "dailyTweets",
+      used: 800,
+      limit: 1000,
+      percentage: 80,
+    });
+  });
+
+  it("debe bloquear en la cola a las organizaciones en su límite de jobs o sin tweets", async () => {
+    const { service, quotas } = createService();
+    quotas.getUsage.mockImplementation(async (id: string) => (id === "org-3" ? 5000 : 0));
+
+    const blocked = await service.findBlockedOrganizations(
+      [
+        { organizationId: "org-1", processing: 4 },
+        { organizationId: "org-2", processing: 1 },
+        { organizationId: "org-3", processing: 0 },
+      ],
+      NOW,
+    );
+
+    expect(blocked).toEqual(["org-1", "org-3"]);
+  });
+
+  it("debe contar los scrapes manuales en curso contra los jobs a la vez", async () => {
+    const { service, quotas, jobs } = createService();
+    jobs.countProcessing.mockResolvedValue(1);
+    quotas.getUsage.mockResolvedValue(0);
+
+    // org-2 admite 2 a la vez: 1 job de la cola + 1 scrape manual
+    const [first, second] = await Promise.all([
+      service.startManualScrape("org-2"),
+      service.startManualScrape("org-2"),
+    ]);
+    expect(first).toMatchObject({ allowed: true, metric: "concurrentJobs", used: 1 });
+    expect(second).toMatchObject({ allowed: false, used: 2, remaining: 0 });
+    expect((await service.getUsage("org-2", NOW)).usage.concurrentJobs.used).toBe(2);
+    expect(
+      await service.findBlockedOrganizations([{ organizationId: "org-2", processing: 1 }], NOW),
+    ).toEqual(["org-2"]);
+
+    service.finishManualScrape("org-2");
+    expect((await service.startManualScrape("org-2")).allowed).toBe(true);
+  });
+});
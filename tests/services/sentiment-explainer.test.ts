@@ -0,0 +1,43 @@
+/**
+ * Tests para el modo explicación
+ * Validan los aportes por token, los ámbitos de negación y la detección de slang
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import { explainLexicalScore, findSlangHits } from "../../src/lib/sentiment/explainer";
+import { LEXICONS, scoreTokens, tokenize } from "../../src/lib/sentiment/lexicons";
+
+describe("Sentiment explainer", () => {
+  it("debe devolver el aporte firmado de cada término y su negación", () => {
+    const tokens = tokenize("The camera is not very good but the app is great");
+    const { ruleTokens, negationScopes } = explainLexicalScore(
+      tokens,
+      scoreTokens(tokens, LEXICONS.en),
+      0.25,
+    );
+
+    const good = ruleTokens.find((t) => t.token === "good");
+    const great = ruleTokens.find((t) => t.token === "great");
+    expect(good).toMatchObject({ polarity: 1, negated: true, weight: 1.5 });
+    expect(good?.contribution).toBeCloseTo(-0.375);
+    expect(great?.contribution).toBeCloseTo(0.25);
+    expect(negationScopes).toEqual([
+      { negator: "not", negatorIndex: 3, target: "good", targetIndex: 5 },
+    ]);
+  });
+
+  it("debe localizar el slang en el texto original", () => {
+    const text = "This update is lowkey goated, no cap";
+    const hits = findSlangHits(text);
+    const terms = hits.map((h) => h.term);
+
+    expect(terms).toContain("lowkey goated");
+    expect(terms).toContain("no cap");
+    // Los términos contenidos en otro más largo no se duplican
+    expect(terms).not.toContain("goated");
+    expect(terms).not.toContain("cap");
+
+    const noCap = hits.find((h) => h.term === "no cap")!;
+    expect(text.slice(noCap.start, noCap.end)).toBe("no cap");
+  });
+});
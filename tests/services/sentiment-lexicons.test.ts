@@ -0,0 +1,49 @@
+/**
+ * Tests para los léxicos por idioma
+ * Validan la detección de idioma y las reglas de negación e intensificación
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import {
+  detectLexiconLanguage,
+  LEXICONS,
+  scoreTokens,
+  tokenize,
+} from "../../src/lib/sentiment/lexicons";
+
+const score = (text: string, lang: keyof typeof LEXICONS) =>
+  scoreTokens(tokenize(text), LEXICONS[lang]);
+
+describe("Sentiment lexicons", () => {
+  it("debe detectar el idioma del texto", () => {
+    expect(detectLexiconLanguage("El servicio es muy malo y la app no funciona")).toBe("es");
+    expect(detectLexiconLanguage("Ce n'est pas terrible, la livraison est très lente")).toBe("fr");
+    expect(detectLexiconLanguage("Das ist nicht gut, der Akku ist schlecht")).toBe("de");
+    expect(detectLexiconLanguage("The support team was really helpful")).toBe("en");
+    expect(detectLexiconLanguage("123 456")).toBe("unknown");
+  });
+
+  it("debe invertir la polaridad tras un negador", () => {
+    const es = score("La app no es buena", "es");
+    expect(es.negative).toBeGreaterThan(0);
+    expect(es.positive).toBe(0);
+    expect(es.negationFlips).toBe(1);
+
+    // "ne ... pas" cuenta como una sola negación
+    const fr = score("Je ne suis pas content", "fr");
+    expect(fr.negative).toBe(1);
+    expect(fr.negationFlips).toBe(1);
+  });
+
+  it("debe aplicar la negación pospuesta en alemán", () => {
+    const de = score("Ich mag es nicht", "de");
+    expect(de.negative).toBe(1);
+    expect(de.positive).toBe(0);
+  });
+
+  it("debe intensificar y atenuar los términos afectivos", () => {
+    expect(score("muy malo", "es").negative).toBeGreaterThan(score("malo", "es").negative);
+    expect(score("un peu lent", "fr").negative).toBeLessThan(1);
+    expect(score("not very good", "en").negative).toBeGreaterThan(1);
+  });
+});
@@ -3,8 +3,9 @@
  * Validan el funcionamiento del orquestador del sistema de análisis de sentimiento
  */
 
-import { describe, expect, it, beforeEach, afterEach } from "@jest/globals";
+import { describe, expect, it, beforeEach, afterEach, jest } from "@jest/globals";
 import { SentimentAnalysisOrchestrator } from "../../src/lib/sentiment/orchestrator";
+import { MemoryResultCacheBackend, ResultCache } from "../../src/lib/sentiment/result-cache";
 import { AnalysisRequest } from "../../src/lib/sentiment/types";
 
 describe("SentimentAnalysisOrchestrator", () => {
@@ -88,6 +89,87 @@ describe("SentimentAnalysisOrchestrator", () => {
     });
   });
 
+  describe("Análisis por lotes", () => {
+    it("debe deduplicar textos idénticos y devolver el estado de cada elemento", async () => {
+      const batchOrchestrator = new SentimentAnalysisOrchestrator({
+        cache: new ResultCache(new MemoryResultCacheBackend(100), 60_000),
+      });
+
+      const response = await batchOrchestrator.analyzeBatchWithStatus(
+        [
+          { id: "a", text: "I love this product" },
+          { id: "b", text: "I love this product" },
+          { id: "c", text: "Terrible support" },
+          // Texto inválido: falla solo este elemento
+          { id: "d", text: null as unknown as string },
+        ],
+        { concurrency: 2, chunkSize: 1 },
+      );
+
+      expect(response.items.map((item) => item.status)).toEqual(["ok", "ok", "ok", "error"]);
+      expect(response.items[0].result?.sentiment.label).toBe("positive");
+      expect(response.items[2].result?.sentiment.label).toBe("negative");
+      expect(response.items[3]).toMatchObject({ id: "d", index: 3 });
+      expect(response.items[3].error).toBeDefined();
+      expect(response.summary).toMatchObject({
+        total: 4,
+        succeeded: 3,
+        failed: 1,
+        cached: 0,
+        unique: 2,
+      });
+
+      // Segunda pasada: los textos ya analizados salen de la caché
+      const again = await batchOrchestrator.analyzeBatchWithStatus([
+        { text: "Terrible support" },
+      ]);
+      expect(again.items[0].status).toBe("cached");
+    });
+
+    it("debe fallar solo los elementos del chunk que falla", async () => {
+      const batchOrchestrator = new SentimentAnalysisOrchestrator({
+        cache: new ResultCache(new MemoryResultCacheBackend(100), 60_000),
+      });
+      jest
+        .spyOn(batchOrchestrator.getEngine(), "analyzeBatch")
+        .mockRejectedValueOnce(new Error("engine down"));
+
+      const { items, summary } = await batchOrchestrator.analyzeBatchWithStatus(
+        [{ text: "First text" }, { text: "Second text" }],
+        { concurrency: 1, chunkSize: 1 },
+      );
+
+      expect(items.map((item) => item.status)).toEqual(["error", "ok"]);
+      expect(items[0].error).toBe("Failed to analyze text.");
+      expect(summary.failed).toBe(1);
+    });
+  });
+
+  describe("Umbral de abstención", () => {
+    it("debe marcar como needs_review los resultados por debajo del umbral", async () => {
+      orchestrator.setAbstainThreshold(0.8);
+
+      // El motor simulado da 0.7 a los neutros y 0.9 a los polarizados
+      const unsure = await orchestrator.analyzeText({ text: "The package arrived today" });
+      const sure = await orchestrator.analyzeText({ text: "I love this product" });
+
+      expect(unsure.status).toBe("needs_review");
+      expect(sure.status).toBe("ok");
+    });
+
+    it("debe descartar la caché y rechazar umbrales fuera de rango", async () => {
+      const request = { text: "The package arrived today" };
+      orchestrator.setAbstainThreshold(0.8);
+      await orchestrator.analyzeText(request);
+
+      orchestrator.setAbstainThreshold(0);
+      const result = await orchestrator.analyzeText(request);
+
+      expect(result.status).toBe("ok");
+      expect(() => orchestrator.setAbstainThreshold(1.5)).toThrow();
+    });
+  });
+
   describe("Sistema de caché", () => {
     it("debe usar caché para solicitudes idénticas", async () => {
       const textRequest = {
@@ -0,0 +1,132 @@
+/**
+ * Tests para la evaluación en sombra y A/B
+ * Validan las métricas de acuerdo, la matriz de cambios de etiqueta y el reparto A/B
+ */
+
+import { describe, expect, it, jest } from "@jest/globals";
+import { SentimentAnalysisOrchestrator } from "../../src/lib/sentiment/orchestrator";
+import { MemoryResultCacheBackend, ResultCache } from "../../src/lib/sentiment/result-cache";
+import { ShadowEngine, ShadowEvaluator } from "../../src/lib/sentiment/shadow-evaluation";
+import { AnalysisRequest, AnalysisResult, SentimentLabel } from "../../src/lib/sentiment/types";
+
+function result(label: SentimentLabel, version: string): AnalysisResult {
+  return {
+    sentiment: {
+      label,
+      score: label === "positive" ? 0.6 : label === "negative" ? -0.6 : 0,
+      magnitude: 0.6,
+      confidence: 0.8,
+      emotions: {
+        joy: 0,
+        sadness: 0,
+        anger: 0,
+        fear: 0,
+        surprise: 0,
+        disgust: 0,
+        trust: 0,
+        anticipation: 0,
+      },
+    },
+    keywords: [],
+    language: "en",
+    signals: { tokens: [] },
+    version,
+  };
+}
+
+// Motor falso: "hate" es negativo; el candidato además lee "meh" como negativo
+function fakeEngine(version: string, mehIsNegative: boolean): ShadowEngine & { calls: number } {
+  const label = (text: string): SentimentLabel =>
+    /hate/.test(text) || (mehIsNegative && /meh/.test(text)) ? "negative" : "positive";
+  return {
+    calls: 0,
+    async analyze(request: AnalysisRequest) {
+      this.calls++;
+      return result(label(request.text), version);
+    },
+    async analyzeBatch(requests: AnalysisRequest[]) {
+      this.calls += requests.length;
+      return requests.map((request) => result(label(request.text), version));
+    },
+    getVersion: () => version,
+  };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("ShadowEvaluator", () => {
+  it("debe medir acuerdo, cambios de etiqueta y latencias", async () => {
+    const primary = fakeEngine("primary", false);
+    const candidate = fakeEngine("candidate", true);
+    const shadow = new ShadowEvaluator();
+    shadow.setCandidate({ name: "nb-test", engine: candidate });
+
+    const requests = [{ text: "love it" }, { text: "meh" }, { text: "hate it" }];
+    shadow.observe(
+      requests,
+      await primary.analyzeBatch(requests).then((r) => r as AnalysisResult[]),
+      30,
+      "primary",
+      primary,
+    );
+    await flush();
+
+    const metrics = shadow.getMetrics();
+    expect(metrics.candidate).toBe("nb-test");
+    expect(metrics.comparisons).toBe(3);
+    expect(metrics.agreementRate).toBeCloseTo(2 / 3);
+    expect(metrics.flipMatrix).toEqual({
+      positive: { positive: 1, negative: 1 },
+      negative: { negative: 1 },
+    });
+    expect(metrics.latency.primaryAvgMs).toBe(10);
+    expect(metrics.latency.avgDeltaMs).toBeLessThan(0);
+    expect(metrics.recentDisagreements).toHaveLength(1);
+    expect(metrics.recentDisagreements[0]).toMatchObject({
+      text: "meh",
+      primary: { label: "positive" },
+      candidate: { label: "negative" },
+    });
+  });
+
+  it("debe repartir el tráfico A/B de forma estable por llamante", () => {
+    const shadow = new ShadowEvaluator();
+    expect(shadow.routesToCandidate("user-1")).toBe(false);
+
+    shadow.setCandidate({ name: "nb-test", engine: fakeEngine("c", true), trafficPercent: 30 });
+    const callers = Array.from({ length: 1000 }, (_, i) => `user-${i}`);
+    const routed = callers.filter((caller) => shadow.routesToCandidate(caller));
+    expect(routed.length).toBeGreaterThan(220);
+    expect(routed.length).toBeLessThan(380);
+    expect(routed.every((caller) => shadow.routesToCandidate(caller))).toBe(true);
+
+    shadow.setCandidate({ name: "nb-test", engine: fakeEngine("c", true), trafficPercent: 0 });
+    expect(callers.some((caller) => shadow.routesToCandidate(caller))).toBe(false);
+  });
+
+  it("debe responder con el candidato a los llamantes del grupo B", async () => {
+    const candidate = fakeEngine("candidate-v1", true);
+    const shadow = new ShadowEvaluator();
+    shadow.setCandidate({ name: "nb-test", engine: candidate, trafficPercent: 100 });
+    const cache = new ResultCache(new MemoryResultCacheBackend(100), 60_000);
+    const cacheSet = jest.spyOn(cache, "set");
+    const orchestrator = new SentimentAnalysisOrchestrator({ cache, shadow });
+
+    const analysis = await orchestrator.analyzeText({ text: "meh", callerId: "user-7" });
+    expect(analysis.version).toBe("candidate-v1");
+    expect(analysis.sentiment.label).toBe("negative");
+    // El resultado se guarda con la versión del candidato que lo produjo
+    expect(cacheSet).toHaveBeenCalledWith(
+      expect.any(String),
+      "candidate-v1",
+      expect.objectContaining({ version: "candidate-v1" }),
+    );
+    await flush();
+
+    // El modelo en producción puntuó la misma petición en segundo plano
+    const metrics = shadow.getMetrics();
+    expect(metrics.servedByCandidate).toBe(1);
+    expect(metrics.comparisons).toBe(1);
+    expect(candidate.calls).toBe(1);
+  });
+});
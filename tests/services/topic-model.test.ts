@@ -0,0 +1,116 @@
+/**
+ * Tests para el modelado de temas
+ * Validan que NMF separe temas distintos, que el ajuste sea determinista y
+ * el informe por tema (sentimiento, evolución diaria y tweets representativos)
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import { Label } from "../../src/enums/sentiment.enum";
+import { fitTopicModel, topicTerms } from "../../src/lib/sentiment/topic-model";
+import { CampaignTopicsService, TopicTweet } from "../../src/services/campaign-topics.service";
+
+const THEMES = [
+  ["battery", "charge", "charger", "hours", "drain"],
+  ["camera", "photos", "zoom", "lens", "night"],
+  ["shipping", "delivery", "courier", "package", "delayed"],
+];
+
+// Tweets sintéticos: tres términos de su tema y una palabra de relleno común
+function corpus(perTheme: number): string[] {
+  return THEMES.flatMap((terms, theme) =>
+    Array.from({ length: perTheme }, (_, i) => {
+      const picked = [0, 1, 2].map((offset) => terms[(i + offset * (theme + 1)) % terms.length]);
+      return `${picked.join(" ")} phone @user${i} https://t.co/x${i}`;
+    }),
+  );
+}
+
+describe("Topic model", () => {
+  it("debe separar los temas del corpus y etiquetarlos con sus términos", () => {
+    const texts = corpus(40);
+    const result = fitTopicModel(texts, { topics: 3 });
+
+    expect(result.topics).toHaveLength(3);
+    expect(result.topics.map((topic) => topic.size)).toEqual([40, 40, 40]);
+    for (let theme = 0; theme < THEMES.length; theme++) {
+      const topics = new Set(
+        result.assignments.slice(theme * 40, (theme + 1) * 40).map((a) => a?.topic),
+      );
+      expect(topics.size).toBe(1);
+      const topic = result.topics[[...topics][0]!];
+      expect(THEMES[theme]).toEqual(expect.arrayContaining(topic.label.split(" / ")));
+      expect(topic.terms[0].weight).toBe(1);
+    }
+  });
+
+  it("debe ser determinista e ignorar palabras vacías, enlaces y @usuarios", () => {
+    expect(topicTerms("RT @nike The new #Shoes are on https://t.co/abc for you")).toEqual([
+      "new",
+      "shoes",
+    ]);
+
+    const texts = [...corpus(10), "", "the and of"];
+    const first = fitTopicModel(texts, { topics: 3 });
+    expect(fitTopicModel(texts, { topics: 3 })).toEqual(first);
+    expect(first.assignments.slice(-2)).toEqual([null, null]);
+    expect(fitTopicModel(["", "hello"]).topics).toEqual([]);
+  });
+
+  it("debe resumir el sentimiento y la evolución diaria de cada tema", () => {
+    const tweets: TopicTweet[] = [
+      { label: Label.POSITIVE, score: 0.6, day: "2026-10-01" },
+      { label: Label.VERY_NEGATIVE, score: -0.9, day: "2026-10-01" },
+      { label: Label.NEGATIVE, score: -0.3, day: "2026-10-02" },
+      { label: Label.NEUTRAL, score: 0, day: "2026-10-02" },
+    ].map(({ label, score, day }, i) => ({
+      tweetId: `t${i}`,
+      content: "",
+      sentiment: { label, score },
+      tweetCreatedAt: new Date(`${day}T12:00:00Z`),
+    }));
+    const generatedAt = new Date("2026-10-03T00:00:00Z");
+
+    const report = CampaignTopicsService.buildReport(
+      "campaign-1",
+      [...tweets, { ...tweets[3], tweetId: "t4" }],
+      {
+        topics: [
+          { id: 0, label: "battery / charge", terms: [], size: 3 },
+          { id: 1, label: "camera", terms: [], size: 1 },
+        ],
+        assignments: [
+          { topic: 0, weight: 0.5 },
+          { topic: 0, weight: 0.9 },
+          { topic: 0, weight: 0.7 },
+          { topic: 1, weight: 1 },
+          null,
+        ],
+        vocabularySize: 12,
+      },
+      generatedAt,
+    );
+
+    expect(report).toMatchObject({
+      campaignId: "campaign-1",
+      analyzedTweets: 5,
+      assignedTweets: 4,
+      vocabularySize: 12,
+      generatedAt,
+    });
+    expect(report.topics[0]).toMatchObject({
+      tweetCount: 3,
+      share: 0.75,
+      sentiment: { positive: 1, neutral: 0, negative: 2, averageScore: -0.2 },
+      representativeTweets: ["t1", "t2", "t0"],
+      timeline: [
+        { date: "2026-10-01", tweetCount: 2, averageScore: -0.15 },
+        { date: "2026-10-02", tweetCount: 1, averageScore: -0.3 },
+      ],
+    });
+    expect(report.topics[1]).toMatchObject({
+      tweetCount: 1,
+      share: 0.25,
+      sentiment: { positive: 0, neutral: 1, negative: 0, averageScore: 0 },
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests para la cuota de voz por entidad del repositorio de tweets
+ * Validan que, al ponderar los casi duplicados, cada tweet sume 1 / tamaño de
+ * su cluster en menciones, engagement y sentimiento
+ */
+
+import { MongoTweetRepository } from "../../src/repositories/mongo-tweet.repository";
+
+jest.mock("../../src/models/Tweet.model", () => ({
+  TweetModel: { aggregate: jest.fn() },
+}));
+
+const { TweetModel } = jest.requireMock("../../src/models/Tweet.model") as {
+  TweetModel: { aggregate: jest.Mock };
+};
+
+type Stage = Record<string, Record<string, unknown>>;
+
+function groupStages(): Stage["$group"][] {
+  const [pipeline] = TweetModel.aggregate.mock.calls[0] as [Stage[]];
+  return pipeline.filter((stage) => stage.$group).map((stage) => stage.$group);
+}
+
+describe("MongoTweetRepository.getShareOfVoice", () => {
+  it("debe contar cada tweet una vez por entidad sin ponderar", async () => {
+    TweetModel.aggregate.mockResolvedValue([]);
+
+    await new MongoTweetRepository().getShareOfVoice({ campaignId: "c1" });
+
+    const [perTweet, perEntity] = groupStages();
+    expect(perTweet.weight).toEqual({ $first: 1 });
+    expect(perEntity.mentions).toEqual({ $sum: "$weight" });
+  });
+
+  it("debe ponderar menciones, engagement y sentimiento de los casi duplicados", async () => {
+    // nike: un tweet único positivo y dos copias negativas de un cluster de 2
+    TweetModel.aggregate.mockResolvedValue([
+      {
+        _id: "nike",
+        type: "brand",
+        competitor: false,
+        mentions: 2,
+        engagement: 30,
+        positive: 1,
+        negative: 1,
+        averageScore: 0.1,
+      },
+      {
+        _id: "adidas",
+        type: "brand",
+        competitor: true,
+        mentions: 0.5,
+        engagement: 10,
+        positive: 0,
+        negative: 0,
+        averageScore: 0,
+      },
+    ]);
+
+    const result = await new MongoTweetRepository().getShareOfVoice({
+      campaignId: "c1",
+      duplicates: "downweight",
+    });
+
+    const [perTweet, perEntity] = groupStages();
+    const weight = { $divide: [1, { $ifNull: ["$nearDuplicate.size", 1] }] };
+    expect(perTweet.weight).toEqual({ $first: weight });
+    expect(perEntity).toMatchObject({
+      mentions: { $sum: "$weight" },
+      engagement: { $sum: { $multiply: ["$weight", "$engagement"] } },
+      positive: {
+        $sum: { $cond: [{ $gt: ["$positive", "$negative"] }, "$weight", 0] },
+      },
+      negative: {
+        $sum: { $cond: [{ $gt: ["$negative", "$positive"] }, "$weight", 0] },
+      },
+    });
+    expect(result.totalMentions).toBe(2.5);
+    expect(result.entities[0]).toMatchObject({
+      entity: "nike",
+      share: 0.8,
+      engagementShare: 0.75,
+      sentiment: { positive: 1, neutral: 0, negative: 1, netSentiment: 0 },
+    });
+    expect(result.entities[1].sentiment.neutral).toBe(0.5);
+  });
+});
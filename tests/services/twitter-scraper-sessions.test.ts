@@ -0,0 +1,119 @@
+/**
+ * Tests para la rotación de sesiones del scraper de Twitter
+ * Validan que un rate limit o un error de autenticación enfríen la sesión y
+ * roten a la siguiente del pool, y que al agotarse el pool se usen las
+ * credenciales TWITTER_* del entorno
+ */
+
+import { ScrapingErrorType } from "../../src/enums/scraping.enum";
+import { TwitterRealScraperService } from "../../src/services/twitter-scraper.service";
+import type { PooledSession } from "../../src/services/twitter-session-pool.service";
+
+// Tweets (o error) que devuelve la búsqueda de cada cuenta, por su auth_token
+const mockSearch = jest.fn();
+
+jest.mock("@the-convocation/twitter-scraper", () => ({
+  Scraper: function () {
+    let account = "";
+    return {
+      setCookies: async (cookies: string[]) => {
+        account = cookies.find((cookie) => cookie.startsWith("auth_token="))!.split(/[=;]/)[1];
+      },
+      isLoggedIn: async () => true,
+      searchTweets: (query: string) => mockSearch(account, query),
+    };
+  },
+}));
+jest.mock("../../src/services/twitter-session-pool.service", () => ({
+  ...jest.requireActual("../../src/services/twitter-session-pool.service"),
+  twitterSessionPool: { acquire: jest.fn(), recordFailure: jest.fn(), recordSuccess: jest.fn() },
+}));
+
+const { twitterSessionPool: mockPool } = jest.requireMock(
+  "../../src/services/twitter-session-pool.service",
+) as { twitterSessionPool: Record<string, jest.Mock> };
+
+function pooled(id: string): PooledSession {
+  return { id, label: id, cookies: { auth_token: id, ct0: "csrf" } };
+}
+
+async function* tweets(account: string) {
+  for (let i = 0; i < 2; i++) {
+    yield { id: `${account}-${i}`, text: `Tweet ${i} de ${account}`, username: account };
+  }
+}
+
+async function* failing(message: string) {
+  yield* [];
+  throw new Error(message);
+}
+
+describe("TwitterRealScraperService - pool de sesiones", () => {
+  let scraper: TwitterRealScraperService;
+
+  beforeEach(() => {
+    process.env.TWITTER_COOKIES = JSON.stringify({ auth_token: "env", ct0: "csrf" });
+    mockPool.recordFailure.mockResolvedValue(undefined);
+    mockPool.recordSuccess.mockResolvedValue({ rateLimit: { remaining: 100 } });
+    scraper = new TwitterRealScraperService({ delay: 0 });
+  });
+
+  afterEach(() => {
+    delete process.env.TWITTER_COOKIES;
+  });
+
+  it("debe rotar a la siguiente sesión tras un rate limit", async () => {
+    mockPool.acquire.mockImplementation(async (exclude: string[] = []) =>
+      exclude.length === 0 ? pooled("s1") : pooled("s2"),
+    );
+    mockSearch.mockImplementation((account: string) =>
+      account === "s1" ? failing("429 Too Many Requests") : tweets(account),
+    );
+
+    const result = await scraper.scrapeByHashtag("nike", { maxTweets: 2 });
+
+    expect(result.tweets.map((tweet) => tweet.tweetId)).toEqual(["s2-0", "s2-1"]);
+    expect(mockPool.recordFailure).toHaveBeenCalledWith(
+      "s1",
+      ScrapingErrorType.RATE_LIMIT_ERROR,
+      "429 Too Many Requests",
+    );
+    expect(mockPool.acquire).toHaveBeenLastCalledWith(["s1"]);
+    expect(mockPool.recordSuccess).toHaveBeenCalledWith("s2");
+    expect(scraper.getRateLimitStatus().session).toBe("s2");
+  });
+
+  it("debe usar las credenciales del entorno al agotarse el pool", async () => {
+    mockPool.acquire.mockImplementation(async (exclude: string[] = []) =>
+      exclude.length === 0 ? pooled("s1") : null,
+    );
+    mockSearch.mockImplementation((account: string) =>
+      account === "s1" ? failing("Authentication failed: 401") : tweets(account),
+    );
+
+    const result = await scraper.scrapeByHashtag("nike", { maxTweets: 2 });
+
+    expect(result.tweets.map((tweet) => tweet.tweetId)).toEqual(["env-0", "env-1"]);
+    expect(mockPool.recordFailure).toHaveBeenCalledWith(
+      "s1",
+      ScrapingErrorType.AUTHENTICATION_ERROR,
+      "Authentication failed: 401",
+    );
+    expect(mockPool.recordSuccess).not.toHaveBeenCalled();
+    expect(scraper.getRateLimitStatus().session).toBeNull();
+  });
+
+  it("debe dejar la sesión que agotó su ventana de peticiones", async () => {
+    mockPool.acquire.mockResolvedValueOnce(pooled("s1")).mockResolvedValueOnce(pooled("s2"));
+    mockPool.recordSuccess.mockResolvedValue({ rateLimit: { remaining: 0 } });
+    mockSearch.mockImplementation((account: string) => tweets(account));
+
+    await scraper.scrapeByHashtag("nike", { maxTweets: 2 });
+    expect(scraper.getRateLimitStatus().session).toBeNull();
+
+    const next = await scraper.scrapeByHashtag("adidas", { maxTweets: 2 });
+    expect(next.tweets[0].tweetId).toBe("s2-0");
+    expect(mockPool.recordSuccess).toHaveBeenNthCalledWith(1, "s1");
+    expect(mockPool.recordSuccess).toHaveBeenNthCalledWith(2, "s2");
+  });
+});
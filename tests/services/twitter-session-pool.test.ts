@@ -0,0 +1,192 @@
+/**
+ * Tests para el pool de sesiones de Twitter
+ * Validan la clasificación de errores, el cifrado de las sesiones nuevas, la
+ * rotación al fallar el descifrado, el enfriamiento tras un rate limit o un
+ * error de autenticación y el estado de rate limit de cada sesión
+ */
+
+import {
+  AuthenticationStatus,
+  RateLimitStatus,
+  ScrapingErrorType,
+} from "../../src/enums/scraping.enum";
+import type { ITwitterSessionDocument } from "../../src/models/TwitterSession.model";
+import {
+  classifyScrapingError,
+  TwitterSessionPoolService,
+} from "../../src/services/twitter-session-pool.service";
+
+const NOW = new Date("2026-10-18T12:00:00Z");
+const HOUR = 3600000;
+
+const settings = {
+  windowMs: HOUR,
+  maxRequestsPerWindow: 300,
+  rateLimitCooldownMs: 900000,
+  authCooldownMs: HOUR,
+  maxAuthFailures: 3,
+  maxRotations: 3,
+};
+
+function session(overrides: Record<string, unknown> = {}): ITwitterSessionDocument {
+  return {
+    _id: "507f1f77bcf86cd799439011",
+    label: "cuenta-1",
+    enabled: true,
+    authStatus: AuthenticationStatus.AUTHENTICATED,
+    healthScore: 100,
+    hasCookies: true,
+    hasCredentials: false,
+    rateLimit: { windowStartedAt: new Date(NOW.getTime() - 600000), requests: 10 },
+    consecutiveFailures: 0,
+    secret: { iv: "iv", tag: "tag", ciphertext: "cifrado" },
+    createdAt: new Date("2026-10-01T00:00:00Z"),
+    ...overrides,
+  } as unknown as ITwitterSessionDocument;
+}
+
+function createService() {
+  const repository = {
+    create: jest.fn(),
+    claimNext: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
+  const store = { encrypt: jest.fn(), decrypt: jest.fn() };
+  const service = new TwitterSessionPoolService(repository as never, store as never, settings);
+  return { service, repository, store };
+}
+
+describe("TwitterSessionPoolService", () => {
+  it("debe clasificar los errores de scraping", () => {
+    expect(classifyScrapingError("Response status: 429 Too Many Requests")).toBe(
+      ScrapingErrorType.RATE_LIMIT_ERROR,
+    );
+    expect(classifyScrapingError("Scraper is not logged-in")).toBe(
+      ScrapingErrorType.AUTHENTICATION_ERROR,
+    );
+    expect(classifyScrapingError("Request timed out")).toBe(ScrapingErrorType.TIMEOUT_ERROR);
+    expect(classifyScrapingError("Unexpected token")).toBe(ScrapingErrorType.UNKNOWN_ERROR);
+  });
+
+  it("debe cifrar las cookies y credenciales de una sesión nueva sin devolverlas", async () => {
+    const { service, repository, store } = createService();
+    const cookies = { auth_token: "token", ct0: "csrf" };
+    store.encrypt.mockReturnValue({ iv: "iv", tag: "tag", ciphertext: "cifrado" });
+    repository.create.mockImplementation(async (input: Record<string, unknown>) => session(input));
+
+    const view = await service.addSession({ label: "cuenta-1", cookies }, "admin-1");
+
+    expect(store.encrypt).toHaveBeenCalledWith({ cookies, credentials: undefined });
+    expect(repository.create).toHaveBeenCalledWith(
+      {
+        label: "cuenta-1",
+        secret: { iv: "iv", tag: "tag", ciphertext: "cifrado" },
+        hasCookies: true,
+        hasCredentials: false,
+      },
+      "admin-1",
+    );
+    expect(view).not.toHaveProperty("secret");
+    expect(view).toMatchObject({ label: "cuenta-1", hasCookies: true });
+  });
+
+  it("debe pasar a la siguiente sesión si el secreto no se puede descifrar", async () => {
+    const { service, repository, store } = createService();
+    repository.claimNext
+      .mockResolvedValueOnce(session({ _id: "a", label: "rota" }))
+      .mockResolvedValueOnce(session({ _id: "b", label: "sana" }));
+    store.decrypt
+      .mockImplementationOnce(() => {
+        throw new Error("Unsupported state or unable to authenticate data");
+      })
+      .mockReturnValueOnce({ cookies: { auth_token: "token", ct0: "csrf" } });
+    repository.recordFailure.mockResolvedValue(null);
+
+    const acquired = await service.acquire(["x"]);
+
+    expect(acquired).toEqual({
+      id: "b",
+      label: "sana",
+      cookies: { auth_token: "token", ct0: "csrf" },
+    });
+    expect(repository.claimNext).toHaveBeenLastCalledWith(HOUR, 300, ["x", "a"]);
+    expect(repository.recordFailure).toHaveBeenCalledWith(
+      "a",
+      expect.objectContaining({ type: ScrapingErrorType.AUTHENTICATION_ERROR, penalty: 40 }),
+    );
+    // Una scrape no rota más allá de maxRotations
+    expect(await service.acquire(["1", "2", "3", "4"])).toBeNull();
+  });
+
+  it("debe enfriar la sesión según el tipo de error e ignorar los ajenos a la cuenta", async () => {
+    const { service, repository } = createService();
+    jest.useFakeTimers().setSystemTime(NOW);
+    repository.recordFailure.mockResolvedValue(null);
+
+    await service.recordFailure("a", ScrapingErrorType.RATE_LIMIT_ERROR, "429");
+    await service.recordFailure("a", ScrapingErrorType.AUTHENTICATION_ERROR, "401");
+    await service.recordFailure("a", ScrapingErrorType.NETWORK_ERROR, "ECONNRESET");
+    jest.useRealTimers();
+
+    expect(repository.recordFailure).toHaveBeenCalledTimes(2);
+    expect(repository.recordFailure).toHaveBeenNthCalledWith(1, "a", {
+      type: ScrapingErrorType.RATE_LIMIT_ERROR,
+      message: "429",
+      cooldownUntil: new Date(NOW.getTime() + 900000),
+      penalty: 20,
+      maxAuthFailures: 3,
+    });
+    expect(repository.recordFailure).toHaveBeenNthCalledWith(
+      2,
+      "a",
+      expect.objectContaining({ cooldownUntil: new Date(NOW.getTime() + HOUR), penalty: 40 }),
+    );
+  });
+
+  it("debe calcular el estado de rate limit de cada sesión", () => {
+    const { service } = createService();
+    const rateLimited = {
+      lastError: {
+        type: ScrapingErrorType.RATE_LIMIT_ERROR,
+        message: "429",
+        at: new Date(NOW.getTime() - 60000),
+      },
+    };
+
+    const exceeded = service.toView(
+      session({ ...rateLimited, cooldownUntil: new Date(NOW.getTime() + 60000) }),
+      NOW,
+    );
+    const pending = service.toView(session(rateLimited), NOW);
+    const limited = service.toView(
+      session({ rateLimit: { windowStartedAt: new Date(NOW.getTime() - 60000), requests: 300 } }),
+      NOW,
+    );
+    const windowOver = service.toView(
+      session({
+        rateLimit: { windowStartedAt: new Date(NOW.getTime() - 2 * HOUR), requests: 300 },
+      }),
+      NOW,
+    );
+
+    expect(exceeded.rateLimit).toMatchObject({
+      status: RateLimitStatus.EXCEEDED,
+      resetsAt: new Date(NOW.getTime() + 60000),
+    });
+    expect(exceeded.cooldownUntil).toEqual(new Date(NOW.getTime() + 60000));
+    expect(pending.rateLimit.status).toBe(RateLimitStatus.RESET_PENDING);
+    expect(pending).not.toHaveProperty("cooldownUntil");
+    expect(limited.rateLimit).toMatchObject({
+      status: RateLimitStatus.LIMITED,
+      remaining: 0,
+      resetsAt: new Date(NOW.getTime() + HOUR - 60000),
+    });
+    expect(windowOver.rateLimit).toEqual({
+      status: RateLimitStatus.AVAILABLE,
+      requests: 0,
+      limit: 300,
+      remaining: 300,
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  buildHashtagGraph,
+  HashtagGraphTweet,
+  toGEXF,
+  toGraphML,
+} from "../../src/lib/utils/hashtag-graph.utils";
+
+// Two groups of hashtags that co-occur among themselves, joined by a single tweet
+function tweets(): HashtagGraphTweet[] {
+  const sports = ["nike", "running", "marathon"];
+  const tech = ["iphone", "apple", "ios"];
+  return [
+    ...Array.from({ length: 4 }, () => ({
+      hashtags: sports,
+      sentimentScore: 0.5,
+    })),
+    ...Array.from({ length: 3 }, () => ({
+      hashtags: tech,
+      sentimentScore: -0.4,
+    })),
+    { hashtags: ["#Nike", "apple"] },
+    { hashtags: ["apple", "ios"], sentimentScore: -0.4 },
+    { hashtags: ["lonely"] },
+  ];
+}
+
+describe("buildHashtagGraph", () => {
+  test("should weight edges by shared tweets and cluster co-occurring hashtags", () => {
+    const graph = buildHashtagGraph(tweets());
+
+    expect(graph.analyzedTweets).toBe(10);
+    expect(graph.nodes.map((node) => [node.id, node.frequency])).toEqual([
+      ["apple", 5],
+      ["nike", 5],
+      ["ios", 4],
+      ["marathon", 4],
+      ["running", 4],
+      ["iphone", 3],
+    ]);
+    expect(graph.edges[0]).toEqual({
+      source: "apple",
+      target: "ios",
+      weight: 4,
+    });
+    expect(
+      graph.edges.some(
+        (edge) => edge.source === "apple" && edge.target === "nike",
+      ),
+    ).toBe(false);
+
+    const clusterOf = (id: string) =>
+      graph.nodes.find((node) => node.id === id)!.cluster;
+    expect(clusterOf("nike")).toBe(clusterOf("marathon"));
+    expect(clusterOf("apple")).toBe(clusterOf("iphone"));
+    expect(clusterOf("nike")).not.toBe(clusterOf("apple"));
+    expect(graph.clusters.map((cluster) => cluster.hashtags)).toEqual([
+      ["nike", "marathon", "running"],
+      ["apple", "ios", "iphone"],
+    ]);
+    expect(graph.clusters[1].averageSentiment).toBe(-0.4);
+    expect(graph.modularity).toBeGreaterThan(0.4);
+  });
+
+  test("should flag hashtags that grew against the previous window", () => {
+    const graph = buildHashtagGraph(tweets(), {
+      previousFrequencies: { nike: 5, apple: 2, marathon: 1 },
+    });
+
+    expect(graph.emerging).toEqual([
+      "ios",
+      "marathon",
+      "running",
+      "iphone",
+      "apple",
+    ]);
+    expect(graph.nodes.find((node) => node.id === "nike")).toMatchObject({
+      previousFrequency: 5,
+      growth: 0,
+      emerging: false,
+    });
+    expect(graph.nodes.find((node) => node.id === "ios")!.growth).toBeNull();
+  });
+
+  test("should export GraphML and GEXF documents", () => {
+    const graph = buildHashtagGraph([
+      { hashtags: ["a&b", "c"] },
+      { hashtags: ["a&b", "c"] },
+    ]);
+
+    const graphml = toGraphML(graph);
+    expect(graphml).toContain('<graph id="hashtags" edgedefault="undirected">');
+    expect(graphml).toContain('<node id="a&amp;b">');
+    expect(graphml).toContain('<edge id="e0" source="a&amp;b" target="c">');
+
+    const gexf = toGEXF(graph, new Date("2026-10-18T00:00:00Z"));
+    expect(gexf).toContain('<meta lastmodifieddate="2026-10-18">');
+    expect(gexf).toContain('<node id="a&amp;b" label="#a&amp;b">');
+    expect(gexf).toContain(
+      '<edge id="e0" source="a&amp;b" target="c" weight="2"/>',
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  clusterNearDuplicates,
+  minHashSignature,
+  NearDuplicateItem,
+} from "../../src/lib/utils/near-duplicate.utils";
+
+const COPY =
+  "Switching to the new Acme phone was the best decision I made this year";
+
+function item(
+  id: string,
+  text: string,
+  author: string,
+  minutes: number,
+  extra: Partial<NearDuplicateItem> = {},
+): NearDuplicateItem {
+  return {
+    id,
+    text,
+    author,
+    createdAt: new Date(Date.UTC(2026, 9, 18, 12, minutes)),
+    ...extra,
+  };
+}
+
+describe("clusterNearDuplicates", () => {
+  test("should cluster copies that differ only in links, mentions or case", () => {
+    const assignments = clusterNearDuplicates([
+      item("1", COPY, "alice", 0),
+      item("2", `@bob ${COPY.toUpperCase()}! https://t.co/abc`, "carol", 5),
+      item("3", `${COPY} 🙌`, "dave", 10),
+      item(
+        "4",
+        "The battery of my old phone barely lasts half a day now",
+        "erin",
+        15,
+      ),
+      item("5", "short text", "frank", 20),
+    ]);
+
+    expect(assignments.get("1")).toEqual({
+      clusterId: "1",
+      coordinated: false,
+    });
+    expect(assignments.get("2")).toEqual({
+      clusterId: "1",
+      coordinated: false,
+    });
+    expect(assignments.get("3")).toEqual({
+      clusterId: "1",
+      coordinated: false,
+    });
+    expect(assignments.has("4")).toBe(false);
+    expect(assignments.has("5")).toBe(false);
+    expect(minHashSignature("short text")).toBeNull();
+  });
+
+  test("should keep the ID of the oldest stored cluster and merge the others", () => {
+    const assignments = clusterNearDuplicates([
+      item("old-a", COPY, "alice", 0, { clusterId: "cluster-a" }),
+      item("old-b", `${COPY}!!`, "bob", 30, {
+        clusterId: "cluster-b",
+        coordinated: true,
+      }),
+      item("new", `${COPY} #acme`, "carol", 40),
+    ]);
+
+    expect([...assignments.values()]).toEqual([
+      { clusterId: "cluster-a", coordinated: true },
+      { clusterId: "cluster-a", coordinated: true },
+      { clusterId: "cluster-a", coordinated: true },
+    ]);
+  });
+
+  test("should flag clusters posted by many distinct accounts within the window", () => {
+    const accounts = ["a1", "a2", "a3", "a4", "a5"];
+
+    const burst = clusterNearDuplicates(
+      accounts.map((author, i) => item(author, COPY, author, i * 10)),
+    );
+    expect(burst.get("a1")!.coordinated).toBe(true);
+
+    const spread = clusterNearDuplicates(
+      accounts.map((author, i) => item(author, COPY, author, i * 20)),
+    );
+    expect(spread.get("a1")!.coordinated).toBe(false);
+
+    const sameAccount = clusterNearDuplicates(
+      accounts.map((id, i) => item(id, COPY, "alice", i)),
+    );
+    expect(sameAccount.get("a1")!.coordinated).toBe(false);
+
+    const lowerThreshold = clusterNearDuplicates(
+      accounts.slice(0, 3).map((author, i) => item(author, COPY, author, i)),
+      { coordinatedAccounts: 3 },
+    );
+    expect(lowerThreshold.get("a1")!.coordinated).toBe(true);
+  });
+});